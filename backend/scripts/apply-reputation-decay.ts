@@ -0,0 +1,24 @@
+import "dotenv/config";
+import { initializeContracts } from "../src/contracts";
+import { initializeStorage } from "../src/storage";
+import {
+  applyReputationDecay,
+  logDecayReport,
+} from "../src/jobs/reputationDecay";
+
+// Apply reputation decay once, e.g. from cron or by hand. The policy comes
+// from the REPUTATION_DECAY_* variables.
+
+async function main() {
+  const repository = initializeStorage();
+  await initializeContracts();
+
+  logDecayReport(await applyReputationDecay());
+
+  await repository.close();
+}
+
+main().catch((error) => {
+  console.error("❌ Reputation decay failed:", error);
+  process.exit(1);
+});
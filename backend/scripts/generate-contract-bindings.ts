@@ -0,0 +1,73 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runTypeChain } from "typechain";
+
+// Generate typed ethers v6 clients for the contracts the backend calls,
+// from the Hardhat artifacts in contracts/artifacts (run
+// `npx hardhat compile` in contracts/ first). Only the ABIs are used, so
+// the bindings can connect to deployed contracts but carry no bytecode.
+//
+// Usage: ts-node scripts/generate-contract-bindings.ts [artifactsDir]
+
+const artifactsDir = path.resolve(
+  process.argv[2] || path.resolve(__dirname, "../../contracts/artifacts")
+);
+const outDir = path.resolve(__dirname, "../src/typechain");
+
+// Contract name -> Solidity source it is compiled from
+const CONTRACTS: Record<string, string> = {
+  UnbankedIdentity: "UnbankedIdentity.sol",
+  UnbankedCommunityAirdrop: "UnbankedCommunityAirdrop.sol",
+  UnbankedGovernance: "UnbankedGovernance.sol",
+  UnbankedLending: "UnbankedLending.sol",
+  DemoToken: "mocks.sol",
+  UnbankedForwarder: "UnbankedForwarder.sol",
+};
+
+async function main() {
+  const abiDir = fs.mkdtempSync(path.join(os.tmpdir(), "contract-abis-"));
+
+  try {
+    const abiFiles = Object.entries(CONTRACTS).map(([name, source]) => {
+      const artifactPath = path.join(
+        artifactsDir,
+        "contracts",
+        source,
+        `${name}.json`
+      );
+      if (!fs.existsSync(artifactPath)) {
+        throw new Error(
+          `Missing artifact ${artifactPath}. Run "npx hardhat compile" in contracts/ first.`
+        );
+      }
+
+      const { abi } = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+      const abiPath = path.join(abiDir, `${name}.json`);
+      fs.writeFileSync(abiPath, JSON.stringify(abi, null, 2));
+      return abiPath;
+    });
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+
+    const { filesGenerated } = await runTypeChain({
+      cwd: process.cwd(),
+      target: "ethers-v6",
+      outDir,
+      filesToProcess: abiFiles,
+      allFiles: abiFiles,
+      inputDir: abiDir,
+    });
+
+    console.log(
+      `📝 Wrote ${filesGenerated} files to ${path.relative(process.cwd(), outDir)}`
+    );
+  } finally {
+    fs.rmSync(abiDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Contract binding generation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import fs from "fs";
+import path from "path";
+import { compile, JSONSchema } from "json-schema-to-typescript";
+import { schemas } from "../src/validation/schemas";
+
+// Generate the request/response types from the JSON Schemas and write them
+// to the backend and frontend shared folders, then copy the hand-written
+// shared modules to the frontend.
+
+const outputs = [
+  path.resolve(__dirname, "../src/shared/api-types.ts"),
+  path.resolve(__dirname, "../../frontend/lib/shared/api-types.ts"),
+];
+
+// Hand-written modules in src/shared that the frontend uses too
+const sharedModules = ["user-address.ts"];
+const frontendSharedDir = path.resolve(__dirname, "../../frontend/lib/shared");
+
+const banner = `/* eslint-disable */
+// Generated by backend/scripts/generate-types.ts from
+// backend/src/validation/schemas.ts. Do not edit by hand.`;
+
+async function main() {
+  // One root schema so shared sub-schemas (e.g. FieldError) are emitted once
+  const root = {
+    title: "ApiSchemas",
+    definitions: schemas,
+  } as unknown as JSONSchema;
+
+  const source = await compile(root, "ApiSchemas", {
+    bannerComment: banner,
+    unreachableDefinitions: true,
+    additionalProperties: false,
+    format: true,
+    style: { singleQuote: false },
+  });
+
+  // Drop the placeholder root type and the per-definition provenance notes
+  const cleaned = source
+    .replace(/export interface ApiSchemas \{[^}]*\}\n/, "")
+    .replace(/\n \*\n \* This interface was referenced by.*\n.*\n \*\//g, "\n */")
+    .replace(/\/\*\*\n \* This interface was referenced by.*\n.*\n \*\/\n/g, "");
+
+  for (const output of outputs) {
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    fs.writeFileSync(output, cleaned);
+    console.log(`📝 Wrote ${path.relative(process.cwd(), output)}`);
+  }
+
+  for (const module of sharedModules) {
+    const source = fs.readFileSync(
+      path.resolve(__dirname, "../src/shared", module),
+      "utf8"
+    );
+    const output = path.join(frontendSharedDir, module);
+    fs.writeFileSync(
+      output,
+      `// Copied from backend/src/shared/${module} by backend/scripts/generate-types.ts.\n// Do not edit by hand.\n\n${source}`
+    );
+    console.log(`📝 Copied ${path.relative(process.cwd(), output)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Type generation failed:", error);
+  process.exit(1);
+});
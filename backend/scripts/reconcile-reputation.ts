@@ -0,0 +1,37 @@
+import "dotenv/config";
+import { initializeContracts } from "../src/contracts";
+import { initializeStorage } from "../src/storage";
+import {
+  logReconciliationReport,
+  reconcileReputation,
+  reconciliationOptionsFromEnv,
+  ReputationRepairMode,
+} from "../src/jobs/reputationReconciliation";
+
+// Run the reputation reconciliation once, e.g. from cron or by hand.
+// Pass --repair=offchain or --repair=onchain to fix what it finds.
+
+async function main() {
+  const options = reconciliationOptionsFromEnv();
+  const repairArg = process.argv.find((arg) => arg.startsWith("--repair="));
+  if (repairArg) {
+    const repair = repairArg.slice("--repair=".length);
+    if (repair !== "none" && repair !== "offchain" && repair !== "onchain") {
+      throw new Error(`Invalid --repair "${repair}". Use none, offchain or onchain.`);
+    }
+    options.repair = repair as ReputationRepairMode;
+  }
+
+  const repository = initializeStorage();
+  await initializeContracts();
+
+  const report = await reconcileReputation(options);
+  logReconciliationReport(report);
+
+  await repository.close();
+}
+
+main().catch((error) => {
+  console.error("❌ Reputation reconciliation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import "dotenv/config";
+import { initializeContracts } from "../src/contracts";
+import { initializeStorage } from "../src/storage";
+import {
+  loanDefaultOptionsFromEnv,
+  logLoanDefaultReport,
+  scanForDefaults,
+} from "../src/jobs/loanDefaults";
+
+// Run the loan default scan once, e.g. from cron or by hand.
+// Pass --dry-run to only report what would be defaulted.
+
+async function main() {
+  const options = loanDefaultOptionsFromEnv();
+  if (process.argv.includes("--dry-run")) {
+    options.dryRun = true;
+  }
+
+  const repository = initializeStorage();
+  await initializeContracts();
+
+  const report = await scanForDefaults(options);
+  logLoanDefaultReport(report);
+
+  await repository.close();
+}
+
+main().catch((error) => {
+  console.error("❌ Loan default scan failed:", error);
+  process.exit(1);
+});
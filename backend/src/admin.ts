@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+// Operator endpoints under /v1/admin are authenticated with a key in the
+// X-Admin-Key header, separate from user sessions. ADMIN_API_KEY is a shared
+// key; ADMIN_API_KEYS ("name:key,name:key") gives each operator their own,
+// so audit records say who acted. They are disabled until one is set.
+
+function keysMatch(provided: string, expected: string) {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Admin name by key. The shared ADMIN_API_KEY acts as "admin".
+function adminKeysFromEnv(): Map<string, string> {
+  const keys = new Map<string, string>();
+  if (process.env.ADMIN_API_KEY) {
+    keys.set(process.env.ADMIN_API_KEY, "admin");
+  }
+  for (const entry of (process.env.ADMIN_API_KEYS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) continue;
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (name && key) {
+      keys.set(key, name);
+    }
+  }
+  return keys;
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const keys = adminKeysFromEnv();
+  if (keys.size === 0) {
+    return res.status(503).json({
+      success: false,
+      code: "ADMIN_DISABLED",
+      message:
+        "The admin API is disabled. Set ADMIN_API_KEY or ADMIN_API_KEYS to enable it.",
+    });
+  }
+
+  // Check every key, so the time taken does not depend on which one matched
+  const provided = req.header("x-admin-key") || "";
+  let name: string | undefined;
+  for (const [key, keyName] of keys) {
+    if (keysMatch(provided, key)) {
+      name = keyName;
+    }
+  }
+  if (!name) {
+    return res.status(401).json({
+      success: false,
+      code: "ADMIN_KEY_INVALID",
+      message: "A valid X-Admin-Key header is required",
+    });
+  }
+
+  res.locals.adminName = name;
+  next();
+}
+
+// Who requireAdmin let in
+export function adminName(res: Response): string {
+  return res.locals.adminName as string;
+}
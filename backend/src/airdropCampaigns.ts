@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import { attestationTypeInfo } from "./catalog";
+import { AttestationType } from "./shared/api-types";
+import { AirdropCampaign, AirdropClaim, User } from "./storage";
+
+// Airdrop campaigns besides the community airdrop. Each pays its own token
+// from the backend wallet, with its own eligibility rules, schedule and
+// budget, so several can run at once. The community airdrop keeps its
+// contract, phases and Merkle bonuses, and is listed alongside them under
+// COMMUNITY_AIRDROP_ID.
+
+export const COMMUNITY_AIRDROP_ID = "monthly";
+
+export function formatTokenAmount(
+  amount: bigint | string,
+  campaign: Pick<AirdropCampaign, "tokenDecimals" | "tokenSymbol">
+) {
+  const tokens = ethers.formatUnits(amount, campaign.tokenDecimals);
+  return `${tokens.replace(/\.0$/, "")} ${campaign.tokenSymbol}`;
+}
+
+// Base units taken by claims that went through or are still in flight
+export function claimedTotal(claims: AirdropClaim[]) {
+  return claims
+    .filter((claim) => claim.status !== "failed")
+    .reduce((sum, claim) => sum + BigInt(claim.amount), 0n);
+}
+
+/**
+ * Why `user` can't claim `campaign` at `now`, one sentence per rule they
+ * miss; empty when they can. `claimed` is what the campaign has paid out or
+ * is paying, in base units. Whether the user already claimed is up to the
+ * caller.
+ */
+export function campaignIneligibility(
+  campaign: AirdropCampaign,
+  user: User,
+  claimed: bigint,
+  now = new Date()
+): string[] {
+  const reasons: string[] = [];
+
+  if (campaign.startsAt > now) {
+    reasons.push(`Opens at ${campaign.startsAt.toISOString()}`);
+  }
+  if (campaign.endsAt && campaign.endsAt <= now) {
+    reasons.push(`Ended at ${campaign.endsAt.toISOString()}`);
+  }
+  if (claimed + BigInt(campaign.allocation) > BigInt(campaign.budget)) {
+    reasons.push("The campaign's budget has run out");
+  }
+
+  if (user.reputationScore < campaign.minReputation) {
+    reasons.push(
+      `Needs ${campaign.minReputation} reputation (you have ${user.reputationScore})`
+    );
+  }
+
+  const held = new Set(
+    user.attestations
+      .filter((attestation) => !attestation.revokedAt)
+      .map((attestation) => attestation.type)
+  );
+  for (const type of campaign.attestationTypes) {
+    if (!held.has(type)) {
+      reasons.push(
+        `Needs a ${attestationTypeInfo(type as AttestationType).title} attestation`
+      );
+    }
+  }
+
+  if (campaign.registeredBefore && user.createdAt >= campaign.registeredBefore) {
+    reasons.push(
+      `Only for users verified before ${campaign.registeredBefore.toISOString()}`
+    );
+  }
+
+  return reasons;
+}
@@ -0,0 +1,152 @@
+import {
+  AIRDROP_PHASES,
+  AirdropPhase,
+  getAirdropPhaseOnChain,
+} from "./contracts";
+import { ApiError } from "./errors";
+
+// When the community airdrop moves between phases. The contract only moves
+// when its owner calls advancePhase, which the backend does at the times set
+// here (jobs/airdropPhases.ts) or when an admin confirms it from the console.
+// Nothing a user does moves it.
+
+export interface AirdropSchedule {
+  // Setup -> Registration
+  registrationOpensAt: Date | null;
+  // Registration -> Claim
+  registrationClosesAt: Date | null;
+  // Claim -> Ended
+  claimClosesAt: Date | null;
+}
+
+export class AirdropScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AirdropScheduleError";
+  }
+}
+
+function scheduledTime(name: string): Date | null {
+  const value = process.env[name];
+  if (!value) {
+    return null;
+  }
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new AirdropScheduleError(
+      `${name} must be an ISO 8601 time, got "${value}"`
+    );
+  }
+  return time;
+}
+
+/**
+ * Read the phase schedule. A time left unset means that transition happens
+ * only from the admin console.
+ *
+ * Settings:
+ * - `AIRDROP_REGISTRATION_OPENS_AT` - Setup -> Registration
+ * - `AIRDROP_REGISTRATION_CLOSES_AT` - Registration -> Claim
+ * - `AIRDROP_CLAIM_CLOSES_AT` - Claim -> Ended
+ */
+export function airdropScheduleFromEnv(): AirdropSchedule {
+  const schedule: AirdropSchedule = {
+    registrationOpensAt: scheduledTime("AIRDROP_REGISTRATION_OPENS_AT"),
+    registrationClosesAt: scheduledTime("AIRDROP_REGISTRATION_CLOSES_AT"),
+    claimClosesAt: scheduledTime("AIRDROP_CLAIM_CLOSES_AT"),
+  };
+
+  const times = Object.values(schedule).filter(
+    (time): time is Date => time !== null
+  );
+  if (times.some((time, index) => index > 0 && time <= times[index - 1])) {
+    throw new AirdropScheduleError(
+      "Airdrop schedule times must be in phase order: registration opens, registration closes, claim closes"
+    );
+  }
+  return schedule;
+}
+
+// The schedule for an API request. A broken one is checked at startup, so
+// this only fails if the environment changed underneath; it is a 503, not
+// the caller's fault.
+export function airdropScheduleForRequest(): AirdropSchedule {
+  try {
+    return airdropScheduleFromEnv();
+  } catch (error) {
+    if (!(error instanceof AirdropScheduleError)) throw error;
+    console.error("❌ Airdrop schedule is misconfigured:", error.message);
+    throw new ApiError(503, "The airdrop schedule is unavailable right now");
+  }
+}
+
+// When the schedule moves the airdrop into `phase`, if it does
+export function phaseStartsAt(
+  schedule: AirdropSchedule,
+  phase: AirdropPhase
+): Date | null {
+  switch (phase) {
+    case "Setup":
+      return null;
+    case "Registration":
+      return schedule.registrationOpensAt;
+    case "Claim":
+      return schedule.registrationClosesAt;
+    case "Ended":
+      return schedule.claimClosesAt;
+  }
+}
+
+// The last phase the schedule has reached by `now`. It stops at the first
+// transition without a time.
+export function scheduledPhase(
+  schedule: AirdropSchedule,
+  now = new Date()
+): AirdropPhase {
+  let phase: AirdropPhase = "Setup";
+  for (const next of AIRDROP_PHASES.slice(1)) {
+    const startsAt = phaseStartsAt(schedule, next);
+    if (!startsAt || startsAt > now) {
+      break;
+    }
+    phase = next;
+  }
+  return phase;
+}
+
+// Why the airdrop can't be claimed in `phase`, with when claiming opens if
+// the schedule says; undefined in the Claim phase
+export function claimPhaseProblem(phase: AirdropPhase) {
+  if (phase === "Claim") {
+    return undefined;
+  }
+  if (phase === "Ended") {
+    return { phase, claimOpensAt: null, message: "The airdrop has ended" };
+  }
+  const claimOpensAt = phaseStartsAt(airdropScheduleForRequest(), "Claim");
+  const message = claimOpensAt
+    ? `Airdrop claims are not open: the airdrop is in its ${phase} phase. Claiming is scheduled to open at ${claimOpensAt.toISOString()}`
+    : `Airdrop claims are not open: the airdrop is in its ${phase} phase. No date has been set for claiming to open`;
+  return { phase, claimOpensAt: claimOpensAt?.toISOString() ?? null, message };
+}
+
+export async function readAirdropPhase() {
+  try {
+    return await getAirdropPhaseOnChain();
+  } catch (error) {
+    console.warn("⚠️ Failed to read the airdrop phase:", error);
+    throw new ApiError(502, "Failed to read the airdrop phase");
+  }
+}
+
+/**
+ * Reject claims unless the airdrop is in its Claim phase. The 409 says which
+ * phase it is in and, when the schedule has one, when claiming opens.
+ */
+export async function requireClaimPhase() {
+  const problem = claimPhaseProblem(await readAirdropPhase());
+  if (problem) {
+    const { message, ...details } = problem;
+    throw new ApiError(409, message, details);
+  }
+}
@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+import { getDeployment } from "./contracts";
+
+// Attesters sign each attestation with their own key as EIP-712 typed data,
+// so the backend can check who vouched for a user instead of trusting an
+// `attestedBy` the client made up. The signature is only checked here;
+// nothing verifies it on-chain, so the domain has no verifyingContract.
+
+export const ATTESTATION_EIP712_TYPES = {
+  Attestation: [
+    { name: "subject", type: "address" },
+    { name: "attestationType", type: "string" },
+    { name: "issuedAt", type: "uint64" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+// How far an attester's clock may run ahead of ours
+const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export interface AttestationMessage {
+  // The user's on-chain address (toUserAddress of their identifier)
+  subject: string;
+  attestationType: string;
+  issuedAt: number;
+  nonce: string;
+}
+
+export function attestationSignatureTtlHoursFromEnv() {
+  return Number(process.env.ATTESTATION_SIGNATURE_TTL_HOURS ?? 72);
+}
+
+// Bound to the chain the backend uses, so a signature made for one
+// deployment's users is not accepted by another's
+export function attestationDomain(): ethers.TypedDataDomain {
+  const { chainId } = getDeployment();
+  return {
+    name: "ZK Unbanked Attestations",
+    version: "1",
+    ...(chainId === undefined ? {} : { chainId }),
+  };
+}
+
+/**
+ * The address that signed an attestation. Rejects signatures from the
+ * future or older than ATTESTATION_SIGNATURE_TTL_HOURS (default 72), so a
+ * leaked one cannot be held back and used much later.
+ */
+export function recoverAttestationSigner(
+  message: AttestationMessage,
+  signature: string
+) {
+  const now = Math.floor(Date.now() / 1000);
+  if (message.issuedAt > now + MAX_CLOCK_SKEW_SECONDS) {
+    return {
+      success: false as const,
+      error: "The attestation is dated in the future",
+    };
+  }
+  const ttlHours = attestationSignatureTtlHoursFromEnv();
+  if (message.issuedAt < now - ttlHours * 60 * 60) {
+    return {
+      success: false as const,
+      error: `The attestation was signed more than ${ttlHours} hours ago; ask the attester to sign it again`,
+    };
+  }
+
+  try {
+    return {
+      success: true as const,
+      signer: ethers.verifyTypedData(
+        attestationDomain(),
+        ATTESTATION_EIP712_TYPES,
+        message,
+        signature
+      ),
+    };
+  } catch {
+    return {
+      success: false as const,
+      error: "The attestation signature is malformed",
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { ethers } from "ethers";
+import { getAirdropMerkleRootOnChain } from "./contracts";
+import { BonusAllocationEntry, getRepository } from "./storage";
+import { FieldError } from "./shared/api-types";
+
+// Bonus allocations for UnbankedCommunityAirdrop. Admins upload a CSV of
+// address/bonus rows; the backend builds a Merkle tree the contract can
+// check, proposes its root with setMerkleRoot, and keeps every leaf's proof
+// so claims can pass it along. Leaves and hashing match claimAirdrop:
+// keccak256(abi.encodePacked(address, uint256)) and OpenZeppelin's
+// MerkleProof, which hashes each pair in sorted order.
+
+const ZERO_ROOT = ethers.ZeroHash;
+
+export interface BonusTree {
+  merkleRoot: string;
+  // Wei, as a decimal string
+  totalAmount: string;
+  entries: BonusAllocationEntry[];
+}
+
+export interface BonusClaim {
+  merkleRoot: string;
+  // Wei; 0 with an empty proof when the user has no bonus
+  bonusAmount: bigint;
+  merkleProof: string[];
+}
+
+export function bonusLeaf(address: string, amount: bigint) {
+  return ethers.solidityPackedKeccak256(["address", "uint256"], [address, amount]);
+}
+
+function hashPair(a: string, b: string) {
+  return a < b
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Parse "address,bonus" rows, bonus in tokens. A header row, blank lines
+ * and lines starting with # are skipped. Every bad row is reported, by line
+ * number, in the `errors` returned.
+ */
+export function parseBonusCsv(csv: string): {
+  rows: { address: string; amount: bigint }[];
+  errors: FieldError[];
+} {
+  const rows: { address: string; amount: bigint }[] = [];
+  const errors: FieldError[] = [];
+  const seen = new Map<string, number>();
+  let firstRow = true;
+
+  csv.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+    const [address = "", bonus = "", ...rest] = line
+      .split(",")
+      .map((cell) => cell.trim());
+    const isHeader = firstRow && !ethers.isAddress(address);
+    firstRow = false;
+    if (isHeader) {
+      return;
+    }
+
+    const fail = (message: string) =>
+      errors.push({ field: `csv line ${lineNumber}`, message });
+    if (rest.length > 0) {
+      return fail("must have exactly two columns: address,bonus");
+    }
+    if (!ethers.isAddress(address)) {
+      return fail(`"${address}" is not an address`);
+    }
+    let amount: bigint;
+    try {
+      amount = ethers.parseEther(bonus);
+    } catch {
+      return fail(`"${bonus}" is not a token amount`);
+    }
+    if (amount <= 0n) {
+      return fail("bonus must be more than 0");
+    }
+
+    const checksummed = ethers.getAddress(address);
+    const firstLine = seen.get(checksummed);
+    if (firstLine !== undefined) {
+      return fail(`${checksummed} is already on line ${firstLine}`);
+    }
+    seen.set(checksummed, lineNumber);
+    rows.push({ address: checksummed, amount });
+  });
+
+  // With one leaf the root is the leaf and its proof is empty, and
+  // claimAirdrop ignores empty proofs
+  if (errors.length === 0 && rows.length < 2) {
+    errors.push({ field: "csv", message: "must list at least two addresses" });
+  }
+  return { rows, errors };
+}
+
+/**
+ * Build the tree. Leaves are sorted, so the same rows in any order give the
+ * same root; a node without a sibling moves up a level unchanged.
+ */
+export function buildBonusTree(
+  rows: { address: string; amount: bigint }[]
+): BonusTree {
+  const leaves = rows
+    .map((row) => ({ ...row, leaf: bonusLeaf(row.address, row.amount) }))
+    .sort((a, b) => (a.leaf < b.leaf ? -1 : a.leaf > b.leaf ? 1 : 0));
+
+  const layers: string[][] = [leaves.map((entry) => entry.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const entries = leaves.map(({ address, amount }, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index >>= 1;
+    }
+    return { address, amount: amount.toString(), proof };
+  });
+
+  return {
+    merkleRoot: layers[layers.length - 1][0] ?? ZERO_ROOT,
+    totalAmount: rows.reduce((sum, row) => sum + row.amount, 0n).toString(),
+    entries,
+  };
+}
+
+// What MerkleProof.verify would say
+export function verifyBonusProof(
+  merkleRoot: string,
+  address: string,
+  amount: bigint,
+  proof: string[]
+) {
+  return (
+    proof.reduce(hashPair, bonusLeaf(address, amount)) ===
+    merkleRoot.toLowerCase()
+  );
+}
+
+/**
+ * The bonus `address` can claim under the root the airdrop contract has now.
+ * No bonus if no root is set, the root is not one built here, or the address
+ * is not in it.
+ */
+export async function bonusClaimFor(address: string): Promise<BonusClaim> {
+  const merkleRoot = await getAirdropMerkleRootOnChain();
+  const none = { merkleRoot, bonusAmount: 0n, merkleProof: [] };
+  if (merkleRoot === ZERO_ROOT) {
+    return none;
+  }
+  const entry = await getRepository().getBonusAllocationEntry(
+    merkleRoot,
+    ethers.getAddress(address)
+  );
+  if (!entry) {
+    return none;
+  }
+  return {
+    merkleRoot,
+    bonusAmount: BigInt(entry.amount),
+    merkleProof: entry.proof,
+  };
+}
@@ -0,0 +1,207 @@
+import fs from "fs";
+import path from "path";
+import { getServiceRequirementOnChain } from "./contracts";
+import { ApiError } from "./errors";
+import { AttestationType, CatalogConfig } from "./shared/api-types";
+import { validate, ValidationError } from "./validation";
+import { ATTESTATION_TYPES } from "./validation/schemas";
+
+// What users can earn and what it unlocks, in one place. Attestation types
+// and their scores, and the services with their names, come from
+// config/catalog.json; each service's threshold and whether it is open come
+// from UnbankedIdentity's `services` mapping, so a setService call changes
+// them everywhere without a deploy. The frontend renders from GET
+// /v1/catalog rather than keeping its own copy.
+
+const DEFAULT_CATALOG_PATH = path.resolve(__dirname, "../config/catalog.json");
+
+export interface AttestationTypeInfo {
+  type: AttestationType;
+  title: string;
+  description: string;
+  // Reputation points the attestation adds
+  score: number;
+  icon: string;
+  color: string;
+}
+
+export interface ServiceInfo {
+  // Key in UnbankedIdentity's `services` mapping
+  key: string;
+  name: string;
+  description: string;
+  minReputation: number;
+  isActive: boolean;
+}
+
+export interface Catalog {
+  attestationTypes: AttestationTypeInfo[];
+  services: ServiceInfo[];
+  // When the service requirements were read from the chain
+  readAt: string;
+  // The chain could not be read; requirements are the last ones seen
+  stale: boolean;
+}
+
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogError";
+  }
+}
+
+/**
+ * Read and check the catalog config.
+ *
+ * Settings:
+ * - `CATALOG_PATH` - the config file (default: backend/config/catalog.json)
+ */
+export function loadCatalogConfig(
+  catalogPath = process.env.CATALOG_PATH || DEFAULT_CATALOG_PATH
+): CatalogConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(catalogPath, "utf8"));
+  } catch (error) {
+    throw new CatalogError(
+      `Catalog config ${catalogPath} could not be read: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  let config: CatalogConfig;
+  try {
+    config = validate<CatalogConfig>("CatalogConfig", parsed);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new CatalogError(
+      `Catalog config ${catalogPath} is invalid: ${error.errors
+        .map(({ field, message }) => `${field} ${message}`)
+        .join("; ")}`
+    );
+  }
+
+  const problems: string[] = [];
+  for (const type of ATTESTATION_TYPES) {
+    if (!config.attestationTypes[type]) {
+      problems.push(`attestation type "${type}" is missing`);
+    }
+  }
+  for (const type of Object.keys(config.attestationTypes)) {
+    if (!(ATTESTATION_TYPES as readonly string[]).includes(type)) {
+      problems.push(
+        `attestation type "${type}" is not one the API accepts (see AttestationType in src/validation/schemas.ts)`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new CatalogError(
+      `Catalog config ${catalogPath} is invalid: ${problems.join("; ")}`
+    );
+  }
+  return config;
+}
+
+let config: CatalogConfig | undefined;
+
+function catalogConfig(): CatalogConfig {
+  config ??= loadCatalogConfig();
+  return config;
+}
+
+export function catalogCacheSecondsFromEnv() {
+  return Number(process.env.CATALOG_CACHE_SECONDS ?? 30);
+}
+
+let cached: { catalog: Catalog; expiresAt: number } | undefined;
+
+/**
+ * The catalog with service requirements as UnbankedIdentity has them.
+ *
+ * Requirements are cached for CATALOG_CACHE_SECONDS (default 30), so a
+ * setService call shows up within that long. If the chain can't be read the
+ * last requirements seen are served, marked stale; before any have been
+ * read it is a 503.
+ */
+export async function getCatalog(): Promise<Catalog> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.catalog;
+  }
+
+  const { attestationTypes, services } = catalogConfig();
+  const types = (
+    Object.entries(attestationTypes) as [
+      AttestationType,
+      Omit<AttestationTypeInfo, "type">
+    ][]
+  ).map(([type, info]) => ({ type, ...info }));
+
+  let requirements;
+  try {
+    requirements = await Promise.all(
+      Object.keys(services).map(getServiceRequirementOnChain)
+    );
+  } catch (error) {
+    console.warn("⚠️ Failed to read service requirements on-chain:", error);
+    if (!cached) {
+      throw new ApiError(503, "Service requirements are unavailable right now");
+    }
+    return { ...cached.catalog, attestationTypes: types, stale: true };
+  }
+
+  const catalog: Catalog = {
+    attestationTypes: types,
+    services: Object.entries(services).map(([key, info], index) => ({
+      key,
+      ...info,
+      ...requirements[index],
+    })),
+    readAt: new Date().toISOString(),
+    stale: false,
+  };
+  cached = {
+    catalog,
+    expiresAt: Date.now() + catalogCacheSecondsFromEnv() * 1000,
+  };
+  return catalog;
+}
+
+// Read the requirements from the chain on the next request, e.g. after a
+// setService call
+export function invalidateCatalog() {
+  cached = cached && { ...cached, expiresAt: 0 };
+}
+
+export function attestationTypeInfo(type: AttestationType): AttestationTypeInfo {
+  return { type, ...catalogConfig().attestationTypes[type] };
+}
+
+export async function getService(key: string): Promise<ServiceInfo> {
+  const service = (await getCatalog()).services.find(
+    (service) => service.key === key
+  );
+  if (!service) {
+    throw new CatalogError(`Service "${key}" is not in the catalog config`);
+  }
+  return service;
+}
+
+/**
+ * Reject users who can't use a service: it is switched off on-chain, or
+ * their score is below its threshold.
+ */
+export async function requireService(key: string, reputationScore: number) {
+  const service = await getService(key);
+  if (!service.isActive) {
+    throw new ApiError(403, `${service.name} is not available right now`);
+  }
+  if (reputationScore < service.minReputation) {
+    throw new ApiError(
+      403,
+      `Insufficient reputation. Required: ${service.minReputation}, Current: ${reputationScore}`
+    );
+  }
+  return service;
+}
@@ -1,62 +1,58 @@
 import { ethers } from "ethers";
-
-// Contract addresses from deployment
-const CONTRACT_ADDRESSES = {
-  UNBANKED_IDENTITY: "0x1870114A14F66078DD8773942Df1c5A261b8A10a",
-  COMMUNITY_AIRDROP: "0x857A80Fd23389c118dcEEA828D1c91a24f4c6710",
-  GOVERNANCE: "0x1681f992edb1DC2C05A9cA92aA2D850752245432",
-  LENDING: "0xe66f6e95E3edECe3567290751c024B19DEebAACd",
-  DEMO_TOKEN: "0xeC85b7ffecc2594df16dC6671aC9274504408389",
-};
-
-// Contract ABIs (simplified - in production you'd import from artifacts)
-const UNBANKED_IDENTITY_ABI = [
-  "function addAttestation(address userAddress, uint256 points) external",
-  "function setVerificationConfig(bytes32 _configId) external",
-  "function setService(string memory serviceName, uint256 minReputation, bool isActive) external",
-  "function getStats() external view returns (uint256 users, uint256 attestations, uint256 avgReputation)",
-  "event UserRegistered(uint256 indexed nullifier, uint256 indexed userIdentifier)",
-  "event AttestationAdded(address indexed user, address indexed attester, uint256 points)",
-  "event ReputationUpdated(address indexed user, uint256 newScore)",
-];
-
-const DEMO_TOKEN_ABI = [
-  "function mint(address to, uint256 amount) external",
-  "function balanceOf(address account) external view returns (uint256)",
-  "function transfer(address to, uint256 amount) external returns (bool)",
-  "event Transfer(address indexed from, address indexed to, uint256 value)",
-];
-
-const COMMUNITY_AIRDROP_ABI = [
-  "function claimAirdrop(bytes32[] calldata merkleProof, uint256 bonusAmount) external",
-  "function claimed(address user) external view returns (bool)",
-  "function getClaimableAmount(address user) external view returns (uint256)",
-  "function getStats() external view returns (uint256 registered, uint256 totalClaims, uint256 distributed, uint256 remaining)",
-  "function currentPhase() external view returns (uint8)",
-  "function advancePhase() external",
-  "function isUserRegistered(address user) external view returns (bool)",
-  "event AirdropClaimed(address indexed user, uint256 amount)",
-];
-
-const GOVERNANCE_ABI = [
-  "function createProposal(string memory description, uint256 votingPeriod) external returns (uint256)",
-  "function castVote(uint256 proposalId, bool support) external",
-  "function getProposal(uint256 proposalId) external view returns (string memory description, uint256 forVotes, uint256 againstVotes, bool executed)",
-  "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string description)",
-  "event VoteCast(address indexed voter, uint256 indexed proposalId, bool support)",
-];
+import { Deployment, loadDeployment, verifyDeployment } from "./deployment";
+import type { ChainEvent } from "./storage";
+import {
+  initializeTransactionManager,
+  sendTransaction,
+  submitTransaction,
+} from "./txManager";
+import { toUserAddress } from "./shared/user-address";
+import {
+  DemoToken,
+  DemoToken__factory,
+  UnbankedCommunityAirdrop,
+  UnbankedCommunityAirdrop__factory,
+  UnbankedForwarder,
+  UnbankedForwarder__factory,
+  UnbankedGovernance,
+  UnbankedGovernance__factory,
+  UnbankedIdentity,
+  UnbankedIdentity__factory,
+  UnbankedLending,
+  UnbankedLending__factory,
+} from "./typechain";
+
+// Typed clients generated from the Hardhat artifacts by
+// scripts/generate-contract-bindings.ts, so calling a function with the
+// wrong signature fails to compile instead of reverting at runtime
+interface Contracts {
+  identity: UnbankedIdentity;
+  token: DemoToken;
+  airdrop: UnbankedCommunityAirdrop;
+  governance: UnbankedGovernance;
+  lending: UnbankedLending;
+  // Only in deployments made since meta-transactions were added
+  forwarder?: UnbankedForwarder;
+}
 
 // Initialize provider and wallet
 let provider: ethers.Provider;
 let wallet: ethers.Wallet;
-let contracts: any = {};
+let contracts = {} as Contracts;
+let deployment: Deployment | undefined;
 
-export async function initializeContracts() {
+export async function initializeContracts(
+  selected: Deployment = loadDeployment()
+) {
   try {
-    // Connect to Celo Testnet
-    provider = new ethers.JsonRpcProvider(
-      "https://alfajores-forno.celo-testnet.org"
+    console.log(
+      `🔗 Using ${selected.network} deployment from ${selected.manifestPath}`
     );
+    provider = new ethers.JsonRpcProvider(selected.rpcUrl);
+
+    // Refuse to start against the wrong chain or a stale manifest, rather
+    // than failing on the first user request
+    await verifyDeployment(provider, selected);
 
     // Use private key from environment (you'll need to add this)
     const privateKey =
@@ -66,31 +62,31 @@ export async function initializeContracts() {
     }
 
     wallet = new ethers.Wallet(privateKey, provider);
+    initializeTransactionManager(wallet);
 
     // Initialize contract instances
-    contracts.identity = new ethers.Contract(
-      CONTRACT_ADDRESSES.UNBANKED_IDENTITY,
-      UNBANKED_IDENTITY_ABI,
-      wallet
-    );
-
-    contracts.token = new ethers.Contract(
-      CONTRACT_ADDRESSES.DEMO_TOKEN,
-      DEMO_TOKEN_ABI,
-      wallet
-    );
-
-    contracts.airdrop = new ethers.Contract(
-      CONTRACT_ADDRESSES.COMMUNITY_AIRDROP,
-      COMMUNITY_AIRDROP_ABI,
-      wallet
-    );
+    const addresses = selected.contracts;
+    contracts = {
+      identity: UnbankedIdentity__factory.connect(
+        addresses.unbankedIdentity,
+        wallet
+      ),
+      token: DemoToken__factory.connect(addresses.demoToken, wallet),
+      airdrop: UnbankedCommunityAirdrop__factory.connect(
+        addresses.communityAirdrop,
+        wallet
+      ),
+      governance: UnbankedGovernance__factory.connect(
+        addresses.governance,
+        wallet
+      ),
+      lending: UnbankedLending__factory.connect(addresses.lending, wallet),
+      forwarder: addresses.forwarder
+        ? UnbankedForwarder__factory.connect(addresses.forwarder, wallet)
+        : undefined,
+    };
 
-    contracts.governance = new ethers.Contract(
-      CONTRACT_ADDRESSES.GOVERNANCE,
-      GOVERNANCE_ABI,
-      wallet
-    );
+    deployment = selected;
 
     console.log("✅ Smart contracts initialized successfully");
     console.log(`📍 Wallet address: ${wallet.address}`);
@@ -102,231 +98,817 @@ export async function initializeContracts() {
   }
 }
 
+// The deployment the contracts were initialized from
+export function getDeployment(): Deployment {
+  if (!deployment) {
+    throw new Error(
+      "Contracts not initialized. Call initializeContracts() first."
+    );
+  }
+  return deployment;
+}
+
 // Contract interaction functions
-export async function checkIdentityOnChain(userIdentifier: string) {
-  try {
-    console.log("🔍 Getting contract stats...");
 
-    // Get general contract statistics instead of user-specific data
-    // (since the UnbankedIdentity contract doesn't expose user view functions)
-    const stats = await contracts.identity.getStats();
+// The backend's reputation score disagrees with UnbankedIdentity's, e.g. an
+// attestation was recorded off-chain but its on-chain call failed
+export interface ReputationDiscrepancy {
+  offChain: number;
+  onChain: number;
+  difference: number;
+}
 
-    console.log(
-      `📋 Contract stats - Users: ${stats[0]}, Attestations: ${stats[1]}`
-    );
+// Look up a user's UnbankedIdentity record. Pass the backend's score for the
+// user to have any mismatch with the contract flagged.
+export async function checkIdentityOnChain(
+  userIdentifier: string,
+  offChainReputation?: number
+) {
+  try {
+    const userAddress = toUserAddress(userIdentifier);
+    console.log(`🔍 Looking up on-chain identity for ${userAddress}...`);
+
+    const [isRegistered, reputationScore, attestationCount, registrationTime] =
+      await contracts.identity.getUserData(userAddress);
+
+    const onChainReputation = Number(reputationScore);
+    let reputationDiscrepancy: ReputationDiscrepancy | null = null;
+    if (
+      offChainReputation !== undefined &&
+      offChainReputation !== onChainReputation
+    ) {
+      reputationDiscrepancy = {
+        offChain: offChainReputation,
+        onChain: onChainReputation,
+        difference: offChainReputation - onChainReputation,
+      };
+      console.warn(
+        `⚠️ Reputation mismatch for ${userAddress}: ${offChainReputation} off-chain, ${onChainReputation} on-chain`
+      );
+    }
 
     return {
-      success: true,
-      contractStats: {
-        totalUsers: Number(stats[0]),
-        totalAttestations: Number(stats[1]),
-        avgReputation: Number(stats[2]),
-      },
-      note: "Identity verification handled by Self Protocol Hub",
+      success: true as const,
+      userAddress,
+      isRegistered,
+      reputationScore: onChainReputation,
+      attestationCount: Number(attestationCount),
+      registeredAt:
+        registrationTime > 0n
+          ? new Date(Number(registrationTime) * 1000).toISOString()
+          : null,
+      reputationDiscrepancy,
     };
   } catch (error) {
-    console.error("❌ Failed to get contract stats:", error);
+    console.error("❌ Failed to look up on-chain identity:", error);
     return {
-      success: false,
+      success: false as const,
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
 }
 
-export async function addAttestationOnChain(
+// A service's entry in UnbankedIdentity's `services` mapping, as set by the
+// constructor or setService. Names never set come back inactive with 0.
+export async function getServiceRequirementOnChain(serviceName: string) {
+  const { minReputation, isActive } =
+    await contracts.identity.services(serviceName);
+  return { minReputation: Number(minReputation), isActive };
+}
+
+// Send an attestation without waiting for it to be mined; `result`
+// settles once it is
+export async function submitAttestationOnChain(
   userAddress: string,
   points: number = 5
 ) {
+  console.log(
+    `🔗 Adding attestation on-chain: ${points} points to ${userAddress}`
+  );
+
+  let pending;
   try {
-    console.log(
-      `🔗 Adding attestation on-chain: ${points} points to ${userAddress}`
+    pending = await submitTransaction(
+      "identity.addAttestation",
+      contracts.identity.addAttestation,
+      userAddress,
+      points
     );
+  } catch (error) {
+    console.error("❌ Failed to add attestation on-chain:", error);
+    throw error;
+  }
 
-    const tx = await contracts.identity.addAttestation(userAddress, points);
-    const receipt = await tx.wait();
+  const result = pending.confirmation.then(
+    (receipt) => {
+      console.log(`✅ Attestation added on-chain. Tx: ${receipt.hash}`);
+      return {
+        success: true,
+        transactionId: pending.id,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        points,
+      };
+    },
+    (error) => {
+      console.error("❌ Failed to add attestation on-chain:", error);
+      throw error;
+    }
+  );
 
-    console.log(`✅ Attestation added on-chain. Tx: ${receipt.hash}`);
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
 
-    return {
-      success: true,
-      transactionHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
+export async function addAttestationOnChain(
+  userAddress: string,
+  points: number = 5
+) {
+  return (await submitAttestationOnChain(userAddress, points)).result;
+}
+
+// Take reputation away (owner only) without waiting for it to be mined;
+// `result` settles once it is
+export async function submitReputationReductionOnChain(
+  userAddress: string,
+  points: number,
+  reason: string
+) {
+  console.log(
+    `🔗 Reducing reputation on-chain: ${points} points from ${userAddress} (${reason})`
+  );
+
+  let pending;
+  try {
+    pending = await submitTransaction(
+      "identity.reduceReputation",
+      contracts.identity.reduceReputation,
+      userAddress,
       points,
-    };
+      reason
+    );
   } catch (error) {
-    console.error("❌ Failed to add attestation on-chain:", error);
+    console.error("❌ Failed to reduce reputation on-chain:", error);
     throw error;
   }
+
+  const result = pending.confirmation.then(
+    (receipt) => {
+      console.log(`✅ Reputation reduced on-chain. Tx: ${receipt.hash}`);
+      return {
+        success: true as const,
+        transactionId: pending.id,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        points,
+      };
+    },
+    (error) => {
+      console.error("❌ Failed to reduce reputation on-chain:", error);
+      const reason = revertReason(error);
+      throw reason ? new Error(`Reduction rejected on-chain: ${reason}`) : error;
+    }
+  );
+
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
+
+// Reputation changes recorded by UnbankedIdentity, as replayed from its logs
+export type ReputationEvent = {
+  userAddress: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+} & (
+  | { kind: "attestation"; attester: string; points: number }
+  | { kind: "score"; newScore: number }
+);
+
+/**
+ * Every AttestationAdded and ReputationUpdated event from UnbankedIdentity
+ * since `fromBlock` (default: the deployment's start block), oldest first.
+ *
+ * Public RPCs cap how many blocks one getLogs call may span, so the range
+ * is queried in EVENT_QUERY_BLOCK_RANGE-sized chunks (default 5000).
+ */
+export async function getReputationEventsOnChain(
+  fromBlock = getDeployment().startBlock
+) {
+  const toBlock = await provider.getBlockNumber();
+  const chunkSize = Number(process.env.EVENT_QUERY_BLOCK_RANGE || 5000);
+  const { identity } = contracts;
+  const events: ReputationEvent[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    const [attestations, scores] = await Promise.all([
+      identity.queryFilter(identity.filters.AttestationAdded(), start, end),
+      identity.queryFilter(identity.filters.ReputationUpdated(), start, end),
+    ]);
+
+    for (const log of attestations) {
+      events.push({
+        kind: "attestation",
+        userAddress: log.args.user,
+        attester: log.args.attester,
+        points: Number(log.args.points),
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+      });
+    }
+    for (const log of scores) {
+      events.push({
+        kind: "score",
+        userAddress: log.args.user,
+        newScore: Number(log.args.newScore),
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+      });
+    }
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return { fromBlock, toBlock, events };
+}
+
+// Events the event indexer follows, by contract
+export const INDEXED_EVENTS = {
+  identity: [
+    "UserRegistered",
+    "AttestationAdded",
+    "ReputationReduced",
+    "ReputationUpdated",
+  ],
+  airdrop: ["UserRegistered", "AirdropClaimed"],
+  governance: ["ProposalCreated", "VoteCast"],
+  lending: ["LoanRequested", "LoanRepaid", "LoanDefaulted"],
+} as const;
+
+export type IndexedContract = keyof typeof INDEXED_EVENTS;
+
+export async function getBlockNumberOnChain(): Promise<number> {
+  return provider.getBlockNumber();
+}
+
+// Null when the chain has no such block (yet)
+export async function getBlockHashOnChain(
+  blockNumber: number
+): Promise<string | null> {
+  const block = await provider.getBlock(blockNumber);
+  return block?.hash ?? null;
+}
+
+/**
+ * Decoded INDEXED_EVENTS logs from `fromBlock` to `toBlock` inclusive,
+ * oldest first. Makes one getLogs call per contract, so keep the range
+ * within what the RPC allows (EVENT_QUERY_BLOCK_RANGE).
+ */
+export async function getIndexedEventsOnChain(
+  fromBlock: number,
+  toBlock: number
+): Promise<ChainEvent[]> {
+  const events: ChainEvent[] = [];
+
+  for (const [key, names] of Object.entries(INDEXED_EVENTS)) {
+    const contract = contracts[key as IndexedContract];
+    const iface = contract.interface as ethers.Interface;
+    const topics = names.map((name) => iface.getEvent(name)!.topicHash);
+
+    const logs = await provider.getLogs({
+      address: contract.target as string,
+      topics: [topics],
+      fromBlock,
+      toBlock,
+    });
+
+    for (const log of logs) {
+      const parsed = iface.parseLog(log);
+      if (!parsed) continue;
+
+      const args: ChainEvent["args"] = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = typeof value === "boolean" ? value : String(value);
+      });
+
+      events.push({
+        contract: key,
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      });
+    }
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return events;
 }
 
-export async function claimAirdropOnChain(userIdentifier: string) {
+// UnbankedCommunityAirdrop.BASE_ALLOCATION
+export const AIRDROP_BASE_ALLOCATION = ethers.parseEther("100");
+
+// What a claim pays before any early-bird bonus, e.g. "125 TOKENS"
+export function airdropClaimAmount(bonusAmount: bigint) {
+  const tokens = ethers.formatEther(AIRDROP_BASE_ALLOCATION + bonusAmount);
+  return `${tokens.replace(/\.0$/, "")} TOKENS`;
+}
+
+/**
+ * Pay the community airdrop to a user who is not registered with the
+ * airdrop contract, from the backend wallet.
+ *
+ * A registered user has to send claimAirdrop from their own address, through
+ * a signed meta-transaction: the contract pays the sender and checks the
+ * bonus proof against it, so the backend sending it would claim for itself.
+ */
+export async function claimAirdropOnChain(
+  userIdentifier: string,
+  bonusAmount = 0n
+) {
+  const amount = airdropClaimAmount(bonusAmount);
   try {
     console.log("🔗 Claiming airdrop on-chain...");
 
     // Convert userIdentifier to a deterministic address
-    let userAddress: string;
-
-    if (userIdentifier.startsWith("0x")) {
-      userAddress = userIdentifier;
-    } else {
-      // UUID format - convert to deterministic address
-      const uuidBytes = ethers.toUtf8Bytes(userIdentifier);
-      const uuidHash = ethers.keccak256(uuidBytes);
-      userAddress = ethers.getAddress(uuidHash.substring(0, 42));
-    }
+    const userAddress = toUserAddress(userIdentifier);
 
     console.log(`📋 Converted ${userIdentifier} to address: ${userAddress}`);
 
-    // Check current phase of the airdrop
-    const currentPhase = await contracts.airdrop.currentPhase();
-    console.log(`📋 Current airdrop phase: ${currentPhase}`);
-
-    // Phase 0 = Setup, 1 = Registration, 2 = Claim, 3 = Ended
-    if (currentPhase < 2) {
-      console.log("⚙️ Airdrop not in claim phase. Advancing to claim phase...");
-      // Advance phases to claim phase (only owner can do this)
-      try {
-        while ((await contracts.airdrop.currentPhase()) < 2) {
-          const advanceTx = await contracts.airdrop.advancePhase();
-          await advanceTx.wait();
-          console.log(
-            `✅ Advanced to phase: ${await contracts.airdrop.currentPhase()}`
-          );
-        }
-      } catch (advanceError) {
-        console.log(
-          "⚠️ Could not advance phase (likely not owner). Continuing anyway..."
-        );
-      }
-    }
-
     // Check if user has already claimed
     const hasClaimed = await contracts.airdrop.claimed(userAddress);
     if (hasClaimed) {
       throw new Error("Airdrop already claimed");
     }
-
-    // Check if user is registered
-    const isRegistered = await contracts.airdrop.isUserRegistered(userAddress);
-    if (!isRegistered) {
-      console.log("⚠️ User not registered for airdrop.");
-      console.log(
-        "💡 For this demo, we'll mint tokens directly from the token contract instead."
-      );
-
-      // Since the airdrop contract requires registration through Self Protocol verification,
-      // and we're in a demo environment, let's mint tokens directly from the token contract
-      // This simulates what would happen after proper airdrop registration
-
-      const mintAmount = ethers.parseEther("100"); // 100 tokens
-      console.log(
-        `💰 Minting ${ethers.formatEther(
-          mintAmount
-        )} tokens directly to ${userAddress}`
+    if (await contracts.airdrop.isUserRegistered(userAddress)) {
+      throw new Error(
+        "Registered users claim from their own address with a signed meta-transaction"
       );
-
-      // Transfer tokens from the deployer to the user
-      // (In a real scenario, tokens would come from the airdrop contract)
-      const tx = await contracts.token.transfer(userAddress, mintAmount);
-      const receipt = await tx.wait();
-
-      console.log(`✅ Tokens minted directly. Tx: ${receipt.hash}`);
-
-      return {
-        success: true,
-        transactionHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
-        amount: "100 TOKENS",
-        method: "direct_mint",
-      };
     }
 
-    // If user is registered, proceed with normal airdrop claim
-    const emptyMerkleProof: string[] = [];
-    const bonusAmount = 0;
+    // The airdrop contract requires registration through Self Protocol
+    // verification; in this demo unregistered users are paid directly from
+    // the deployer, as the contract would after registration.
+    // The bonus is paid too; its proof was checked when the tree was built
+    const mintAmount = AIRDROP_BASE_ALLOCATION + bonusAmount;
+    console.log(
+      `💰 Minting ${ethers.formatEther(
+        mintAmount
+      )} tokens directly to ${userAddress}`
+    );
 
-    const tx = await contracts.airdrop.claimAirdrop(
-      emptyMerkleProof,
-      bonusAmount
+    const { transactionId, receipt } = await sendTransaction(
+      "token.transfer",
+      contracts.token.transfer,
+      userAddress,
+      mintAmount
     );
-    const receipt = await tx.wait();
 
-    console.log(`✅ Airdrop claimed on-chain. Tx: ${receipt.hash}`);
+    console.log(`✅ Tokens minted directly. Tx: ${receipt.hash}`);
 
     return {
       success: true,
+      transactionId,
       transactionHash: receipt.hash,
       blockNumber: receipt.blockNumber,
-      amount: "100 TOKENS",
-      method: "airdrop_contract",
+      amount,
+      method: "direct_mint",
     };
   } catch (error) {
     console.error("❌ Failed to claim airdrop on-chain:", error);
+    throw error;
+  }
+}
 
-    // If all else fails, provide feedback about the limitation
-    if (error instanceof Error && error.message.includes("reverted")) {
-      throw new Error(
-        "Airdrop contract requires Self Protocol registration. Demo limitations apply."
+// Whether the user verified with the airdrop contract, so only they can
+// claim it
+export async function isRegisteredForAirdropOnChain(userAddress: string) {
+  return contracts.airdrop.isUserRegistered(userAddress);
+}
+
+// Any ERC-20; DemoToken's ABI covers the standard functions
+function erc20(address: string) {
+  return DemoToken__factory.connect(address, wallet);
+}
+
+// Symbol and decimals of an ERC-20 (default: the deployment's DemoToken).
+// Rejects if the address is not a token.
+export async function getTokenInfoOnChain(
+  address: string = getDeployment().contracts.demoToken
+) {
+  const token = erc20(address);
+  const [symbol, decimals] = await Promise.all([
+    token.symbol(),
+    token.decimals(),
+  ]);
+  return { address: ethers.getAddress(address), symbol, decimals: Number(decimals) };
+}
+
+// Pay an ERC-20 amount (in base units) from the backend wallet without
+// waiting for it to be mined; `result` settles once it is. If this rejects
+// with a revert reason nothing was broadcast.
+export async function submitTokenTransferOnChain(
+  tokenAddress: string,
+  to: string,
+  amount: bigint
+) {
+  const pending = await submitTransaction(
+    "erc20.transfer",
+    erc20(tokenAddress).transfer,
+    to,
+    amount
+  );
+
+  const result = pending.confirmation.then((receipt) => ({
+    success: true as const,
+    transactionId: pending.id,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+  }));
+
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
+
+export async function hasClaimedAirdropOnChain(userAddress: string) {
+  return contracts.airdrop.claimed(userAddress);
+}
+
+// Gas a call would use if `from` sent it directly. Rejects if it reverts;
+// the error carries the raw revert data, not a decoded reason.
+export async function estimateGasOnChain(
+  request: ethers.TransactionRequest
+): Promise<bigint> {
+  return provider.estimateGas(request);
+}
+
+// Name of the custom error a contract call reverted with, if any
+export function revertReason(error: unknown): string | undefined {
+  if (error && typeof error === "object" && "revert" in error) {
+    const revert = (error as { revert?: { name?: string } }).revert;
+    return revert?.name;
+  }
+  return undefined;
+}
+
+export async function requestLoanOnChain(
+  borrowerAddress: string,
+  amount: number,
+  durationDays: number
+) {
+  try {
+    console.log(
+      `🔗 Requesting loan on-chain: ${amount} tokens for ${durationDays} days to ${borrowerAddress}`
+    );
+
+    const { transactionId, receipt } = await sendTransaction(
+      "lending.requestLoanFor",
+      contracts.lending.requestLoanFor,
+      borrowerAddress,
+      ethers.parseEther(String(amount)),
+      durationDays * 24 * 60 * 60
+    );
+
+    // The loan id and rate are only reported through the event
+    const requested = receipt.logs
+      .map((log: ethers.Log) => contracts.lending.interface.parseLog(log))
+      .find(
+        (parsed: ethers.LogDescription | null) =>
+          parsed?.name === "LoanRequested"
       );
+    if (!requested) {
+      throw new Error("LoanRequested event not found in receipt");
     }
 
+    console.log(
+      `✅ Loan ${requested.args.loanId} requested on-chain. Tx: ${receipt.hash}`
+    );
+
+    return {
+      success: true,
+      loanId: Number(requested.args.loanId),
+      interestRate: Number(requested.args.interestRate), // basis points
+      transactionId,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  } catch (error) {
+    console.error("❌ Failed to request loan on-chain:", error);
     throw error;
   }
 }
 
-export async function castVoteOnChain(proposalId: number, support: boolean) {
+export async function approveLoanOnChain(loanId: number) {
   try {
-    console.log(
-      `🔗 Casting vote on-chain: Proposal ${proposalId}, Support: ${support}`
+    console.log(`🔗 Approving loan ${loanId} on-chain...`);
+
+    const { transactionId, receipt } = await sendTransaction(
+      "lending.approveLoan",
+      contracts.lending.approveLoan,
+      loanId
     );
 
-    const tx = await contracts.governance.castVote(proposalId, support);
-    const receipt = await tx.wait();
+    const loan = await contracts.lending.getLoan(loanId);
 
-    console.log(`✅ Vote cast on-chain. Tx: ${receipt.hash}`);
+    console.log(`✅ Loan ${loanId} approved on-chain. Tx: ${receipt.hash}`);
 
     return {
       success: true,
+      transactionId,
       transactionHash: receipt.hash,
       blockNumber: receipt.blockNumber,
+      dueDate: new Date(Number(loan.endTime) * 1000).toISOString(),
     };
   } catch (error) {
-    console.error("❌ Failed to cast vote on-chain:", error);
-    throw error;
+    console.error("❌ Failed to approve loan on-chain:", error);
+    const reason = revertReason(error);
+    throw reason ? new Error(`Loan approval rejected on-chain: ${reason}`) : error;
   }
 }
 
-export async function getUserOnChainData(userIdentifier: string) {
+// UnbankedLending.Loan as returned by getLoan
+type OnChainLoan = UnbankedLending.LoanStructOutput;
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// Loan status as the API reports it
+function loanStatus(loan: OnChainLoan) {
+  if (loan.defaulted) return "defaulted";
+  if (loan.active) return "active";
+  if (loan.approved) return "repaid";
+  return "pending_approval";
+}
+
+export async function getLoanOnChain(loanId: number) {
+  const [loan, totalDue] = await Promise.all([
+    contracts.lending.getLoan(loanId),
+    contracts.lending.calculateTotalDue(loanId),
+  ]);
+
+  if (loan.id === 0n) {
+    return undefined;
+  }
+
+  // Simple interest over the full term, as calculateTotalDue charges once
+  // the loan is past its end time
+  const interestAtMaturity =
+    (loan.amount * loan.interestRate * loan.duration) /
+    (10000n * SECONDS_PER_YEAR);
+  const outstanding =
+    loan.active || loan.defaulted
+      ? totalDue > loan.repaidAmount
+        ? totalDue - loan.repaidAmount
+        : 0n
+      : 0n;
+
+  return {
+    loanId: Number(loan.id),
+    borrower: loan.borrower,
+    status: loanStatus(loan),
+    principal: ethers.formatEther(loan.amount),
+    interestRate: Number(loan.interestRate) / 100, // percent APR
+    repaid: ethers.formatEther(loan.repaidAmount),
+    totalDue: ethers.formatEther(totalDue),
+    outstanding: ethers.formatEther(outstanding),
+    collateral: ethers.formatEther(loan.collateralAmount),
+    schedule: {
+      termDays: Number(loan.duration) / (24 * 60 * 60),
+      startDate:
+        loan.startTime > 0n
+          ? new Date(Number(loan.startTime) * 1000).toISOString()
+          : null,
+      dueDate:
+        loan.endTime > 0n
+          ? new Date(Number(loan.endTime) * 1000).toISOString()
+          : null,
+      interestAtMaturity: ethers.formatEther(interestAtMaturity),
+      totalAtMaturity: ethers.formatEther(loan.amount + interestAtMaturity),
+    },
+  };
+}
+
+export async function getUserLoansOnChain(borrowerAddress: string) {
+  const loanIds: bigint[] = await contracts.lending.getUserLoans(
+    borrowerAddress
+  );
+  const loans = await Promise.all(
+    loanIds.map((loanId) => getLoanOnChain(Number(loanId)))
+  );
+  return loans.filter((loan) => loan !== undefined);
+}
+
+// Tokens to pay towards a loan; omitting the amount means the full balance
+export async function repaymentAmountOnChain(
+  loanId: number,
+  amount?: number
+): Promise<bigint> {
+  if (amount !== undefined) {
+    return ethers.parseEther(String(amount));
+  }
+  // Interest accrues per second until the tx is mined; the contract caps
+  // the payment at the remaining debt, so a small margin is safe
+  const loan = await contracts.lending.getLoan(loanId);
+  const totalDue: bigint = await contracts.lending.calculateTotalDue(loanId);
+  const remaining = totalDue - loan.repaidAmount;
+  return remaining + remaining / 1000n + 1n;
+}
+
+export async function getLoanCountOnChain(): Promise<number> {
+  return Number(await contracts.lending.loanCounter());
+}
+
+export async function markLoanDefaultedOnChain(loanId: number) {
   try {
-    // Convert userIdentifier to address format for token/airdrop checks
-    let userAddress: string;
-
-    if (userIdentifier.startsWith("0x")) {
-      userAddress = userIdentifier;
-    } else {
-      // UUID format - convert to deterministic address
-      const uuidBytes = ethers.toUtf8Bytes(userIdentifier);
-      const uuidHash = ethers.keccak256(uuidBytes);
-      userAddress = ethers.getAddress(uuidHash.substring(0, 42));
+    console.log(`🔗 Marking loan ${loanId} as defaulted on-chain...`);
+
+    const { transactionId, receipt } = await sendTransaction(
+      "lending.markAsDefaulted",
+      contracts.lending.markAsDefaulted,
+      loanId
+    );
+
+    console.log(`✅ Loan ${loanId} marked as defaulted. Tx: ${receipt.hash}`);
+
+    return {
+      success: true,
+      transactionId,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  } catch (error) {
+    console.error("❌ Failed to mark loan as defaulted on-chain:", error);
+    const reason = revertReason(error);
+    throw reason ? new Error(`Default rejected on-chain: ${reason}`) : error;
+  }
+}
+
+export async function getBorrowerProfileOnChain(borrowerAddress: string) {
+  const profile = await contracts.lending.getBorrowerProfile(borrowerAddress);
+
+  return {
+    totalBorrowed: ethers.formatEther(profile.totalBorrowed),
+    totalRepaid: ethers.formatEther(profile.totalRepaid),
+    activeLoans: Number(profile.activeLoans),
+    defaultedLoans: Number(profile.defaultedLoans),
+    lastLoanTime:
+      profile.lastLoanTime > 0n
+        ? new Date(Number(profile.lastLoanTime) * 1000).toISOString()
+        : null,
+    isBanned: profile.isBanned,
+  };
+}
+
+// UnbankedCommunityAirdrop.Phase, by value
+export const AIRDROP_PHASES = ["Setup", "Registration", "Claim", "Ended"] as const;
+
+export type AirdropPhase = (typeof AIRDROP_PHASES)[number];
+
+export async function getAirdropPhaseOnChain(): Promise<AirdropPhase> {
+  return AIRDROP_PHASES[Number(await contracts.airdrop.currentPhase())];
+}
+
+export async function getAirdropMerkleRootOnChain(): Promise<string> {
+  return contracts.airdrop.merkleRoot();
+}
+
+// Owner-only settings calls made from the admin console
+export type ContractConfigCall =
+  | {
+      action: "setService";
+      service: string;
+      minReputation: number;
+      isActive: boolean;
     }
+  | { action: "setVerificationConfig"; configId: string }
+  | { action: "advancePhase" }
+  | { action: "setMerkleRoot"; merkleRoot: string }
+  | { action: "setBorrowerBan"; borrower: string; banned: boolean }
+  // Amount in tokens, as a decimal string
+  | { action: "withdrawFromPool"; amount: string };
+
+export const CONFIG_CALL_TARGETS: Record<ContractConfigCall["action"], string> = {
+  setService: "identity.setService",
+  setVerificationConfig: "identity.setVerificationConfig",
+  advancePhase: "airdrop.advancePhase",
+  setMerkleRoot: "airdrop.setMerkleRoot",
+  setBorrowerBan: "lending.setBorrowerBan",
+  withdrawFromPool: "lending.withdrawFromPool",
+};
 
-    // Get token balance and airdrop status
-    const tokenBalance = await contracts.token.balanceOf(userAddress);
-    const hasClaimedAirdrop = await contracts.airdrop.claimed(userAddress);
+// Contract settings the admin console shows, as they are now
+export async function getContractSettingsOnChain() {
+  const [verificationConfigId, phase, merkleRoot, totalPoolFunds] =
+    await Promise.all([
+      contracts.identity.verificationConfigId(),
+      contracts.airdrop.currentPhase(),
+      contracts.airdrop.merkleRoot(),
+      contracts.lending.totalPoolFunds(),
+    ]);
+
+  return {
+    identity: { verificationConfigId },
+    airdrop: { phase: AIRDROP_PHASES[Number(phase)], merkleRoot },
+    lending: { totalPoolFunds: ethers.formatEther(totalPoolFunds) },
+  };
+}
+
+function submitConfigCall(call: ContractConfigCall) {
+  const label = CONFIG_CALL_TARGETS[call.action];
+  switch (call.action) {
+    case "setService":
+      return submitTransaction(
+        label,
+        contracts.identity.setService,
+        call.service,
+        call.minReputation,
+        call.isActive
+      );
+    case "setVerificationConfig":
+      return submitTransaction(
+        label,
+        contracts.identity.setVerificationConfig,
+        call.configId
+      );
+    case "advancePhase":
+      return submitTransaction(label, contracts.airdrop.advancePhase);
+    case "setMerkleRoot":
+      return submitTransaction(
+        label,
+        contracts.airdrop.setMerkleRoot,
+        call.merkleRoot
+      );
+    case "setBorrowerBan":
+      return submitTransaction(
+        label,
+        contracts.lending.setBorrowerBan,
+        call.borrower,
+        call.banned
+      );
+    case "withdrawFromPool":
+      return submitTransaction(
+        label,
+        contracts.lending.withdrawFromPool,
+        ethers.parseEther(call.amount)
+      );
+  }
+}
+
+// Send an owner-only settings call without waiting for it to be mined;
+// `result` settles once it is
+export async function submitConfigCallOnChain(call: ContractConfigCall) {
+  const label = CONFIG_CALL_TARGETS[call.action];
+  console.log(`🔗 Calling ${label} on-chain: ${JSON.stringify(call)}`);
+
+  let pending;
+  try {
+    pending = await submitConfigCall(call);
+  } catch (error) {
+    console.error(`❌ Failed to call ${label} on-chain:`, error);
+    throw error;
+  }
+
+  const result = pending.confirmation.then(
+    (receipt) => {
+      console.log(`✅ ${label} confirmed on-chain. Tx: ${receipt.hash}`);
+      return {
+        success: true as const,
+        transactionId: pending.id,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      };
+    },
+    (error) => {
+      console.error(`❌ ${label} failed on-chain:`, error);
+      const reason = revertReason(error);
+      throw reason ? new Error(`${label} rejected on-chain: ${reason}`) : error;
+    }
+  );
+
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
+
+export async function getUserOnChainData(
+  userIdentifier: string,
+  offChainReputation?: number
+) {
+  try {
+    const userAddress = toUserAddress(userIdentifier);
 
-    // Get contract stats
-    const stats = await contracts.identity.getStats();
+    // Get identity record, token balance and airdrop status
+    const [identity, tokenBalance, hasClaimedAirdrop] = await Promise.all([
+      checkIdentityOnChain(userIdentifier, offChainReputation),
+      contracts.token.balanceOf(userAddress),
+      contracts.airdrop.claimed(userAddress),
+    ]);
 
     return {
       success: true,
       userAddress,
+      identity,
       tokenBalance: ethers.formatEther(tokenBalance),
       hasClaimedAirdrop,
-      contractStats: {
-        totalUsers: Number(stats[0]),
-        totalAttestations: Number(stats[1]),
-        avgReputation: Number(stats[2]),
-      },
     };
   } catch (error) {
     console.error("❌ Failed to get user on-chain data:", error);
@@ -337,4 +919,4 @@ export async function getUserOnChainData(userIdentifier: string) {
   }
 }
 
-export { contracts, CONTRACT_ADDRESSES };
+export { contracts };
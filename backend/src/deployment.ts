@@ -0,0 +1,209 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { DeploymentManifest } from "./shared/api-types";
+import { validate, ValidationError } from "./validation";
+
+// Which contracts the backend talks to comes from the manifest that
+// contracts/scripts/deploy.js writes for each network
+// (deployments/<network>-latest.json), so redeploying never needs a code
+// change here.
+
+const DEFAULT_NETWORK = "celoTestnet";
+const DEFAULT_DEPLOYMENTS_DIR = path.resolve(
+  __dirname,
+  "../../contracts/deployments"
+);
+
+// RPC endpoints per network, matching contracts/hardhat.config.js.
+// RPC_URL overrides whichever one is selected.
+const NETWORKS: Record<string, { rpcUrl: string; chainId?: number }> = {
+  localhost: { rpcUrl: "http://127.0.0.1:8545" },
+  hardhat: { rpcUrl: "http://127.0.0.1:8545", chainId: 1337 },
+  celoTestnet: {
+    rpcUrl: "https://alfajores-forno.celo-testnet.org",
+    chainId: 44787,
+  },
+  celoMainnet: { rpcUrl: "https://forno.celo.org", chainId: 42220 },
+};
+
+// Every contract the backend needs, keyed as in the manifest
+export const REQUIRED_CONTRACTS = [
+  "unbankedIdentity",
+  "communityAirdrop",
+  "governance",
+  "lending",
+  "demoToken",
+] as const;
+
+export type ContractName = (typeof REQUIRED_CONTRACTS)[number];
+
+// Contracts older manifests predate; features that need them are disabled
+// until the next redeploy
+export const OPTIONAL_CONTRACTS = ["forwarder"] as const;
+
+export type OptionalContractName = (typeof OPTIONAL_CONTRACTS)[number];
+
+export interface Deployment {
+  network: string;
+  rpcUrl: string;
+  chainId?: number;
+  // Block the contracts were deployed in; event queries start here
+  startBlock: number;
+  manifestPath: string;
+  deployedAt?: string;
+  contracts: Record<ContractName, string> &
+    Partial<Record<OptionalContractName, string>>;
+  configuration: {
+    scope: string;
+    configId: string;
+  };
+}
+
+export class DeploymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentError";
+  }
+}
+
+function redeployHint(network: string) {
+  return `Redeploy with "cd contracts && npx hardhat run scripts/deploy.js --network ${network}" or set CHAIN_NETWORK to a network that has a deployment.`;
+}
+
+/**
+ * Read and check the manifest for a network.
+ *
+ * Settings:
+ * - `CHAIN_NETWORK`   - network name (default: celoTestnet)
+ * - `DEPLOYMENTS_DIR` - where manifests live (default: contracts/deployments)
+ * - `RPC_URL`         - overrides the network's default RPC endpoint
+ */
+export function loadDeployment(
+  network = process.env.CHAIN_NETWORK || DEFAULT_NETWORK,
+  deploymentsDir = process.env.DEPLOYMENTS_DIR || DEFAULT_DEPLOYMENTS_DIR
+): Deployment {
+  const manifestPath = path.join(deploymentsDir, `${network}-latest.json`);
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new DeploymentError(
+      `No deployment manifest for network "${network}" at ${manifestPath}. ${redeployHint(
+        network
+      )}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error) {
+    throw new DeploymentError(
+      `Deployment manifest ${manifestPath} is not valid JSON: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  let manifest: DeploymentManifest;
+  try {
+    manifest = validate<DeploymentManifest>("DeploymentManifest", parsed);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new DeploymentError(
+      `Deployment manifest ${manifestPath} is malformed:\n  - ${error.errors
+        .map(({ field, message }) => `${field} ${message}`)
+        .join("\n  - ")}\n${redeployHint(network)}`
+    );
+  }
+
+  const problems: string[] = [];
+
+  if (manifest.network && manifest.network !== network) {
+    problems.push(
+      `manifest is for network "${manifest.network}", not "${network}"`
+    );
+  }
+
+  const contracts = {} as Deployment["contracts"];
+  for (const name of [...REQUIRED_CONTRACTS, ...OPTIONAL_CONTRACTS]) {
+    const address = manifest.contracts?.[name];
+    if (!address) {
+      if ((REQUIRED_CONTRACTS as readonly string[]).includes(name)) {
+        problems.push(`contracts.${name} is missing`);
+      }
+    } else if (!ethers.isAddress(address)) {
+      problems.push(`contracts.${name} is not an address: "${address}"`);
+    } else {
+      contracts[name] = ethers.getAddress(address);
+    }
+  }
+
+  const { scope, configId } = manifest.configuration ?? {};
+  if (scope === undefined || scope === "") {
+    problems.push("configuration.scope is missing");
+  }
+  if (!configId || !ethers.isHexString(configId, 32)) {
+    problems.push("configuration.configId is missing or not a bytes32");
+  }
+
+  if (problems.length > 0) {
+    throw new DeploymentError(
+      `Deployment manifest ${manifestPath} is incomplete or stale:\n  - ${problems.join(
+        "\n  - "
+      )}\n${redeployHint(network)}`
+    );
+  }
+
+  const known = NETWORKS[network];
+  const rpcUrl = process.env.RPC_URL || known?.rpcUrl;
+  if (!rpcUrl) {
+    throw new DeploymentError(
+      `No RPC URL known for network "${network}". Set RPC_URL.`
+    );
+  }
+
+  return {
+    network,
+    rpcUrl,
+    chainId: manifest.chainId ?? known?.chainId,
+    startBlock: Number(manifest.startBlock ?? 0),
+    manifestPath,
+    deployedAt: manifest.timestamp,
+    contracts,
+    configuration: { scope: String(scope), configId: String(configId) },
+  };
+}
+
+/**
+ * Check that the RPC endpoint is the chain the manifest was deployed to and
+ * that every contract in it actually has code there.
+ */
+export async function verifyDeployment(
+  provider: ethers.Provider,
+  deployment: Deployment
+) {
+  const { chainId } = await provider.getNetwork();
+  if (deployment.chainId !== undefined && Number(chainId) !== deployment.chainId) {
+    throw new DeploymentError(
+      `RPC ${deployment.rpcUrl} is chain ${chainId}, but the ${deployment.network} deployment expects chain ${deployment.chainId}. Check RPC_URL and CHAIN_NETWORK.`
+    );
+  }
+
+  const missing: string[] = [];
+  for (const name of [...REQUIRED_CONTRACTS, ...OPTIONAL_CONTRACTS]) {
+    const address = deployment.contracts[name];
+    if (address && (await provider.getCode(address)) === "0x") {
+      missing.push(`${name} (${address})`);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new DeploymentError(
+      `No contract code on ${deployment.network} for: ${missing.join(
+        ", "
+      )}. The manifest ${deployment.manifestPath} (deployed ${
+        deployment.deployedAt ?? "at an unknown time"
+      }) is stale. ${redeployHint(deployment.network)}`
+    );
+  }
+}
@@ -0,0 +1,12 @@
+// Error carrying the HTTP status and any extra response fields. Thrown from
+// handlers and turned into a JSON response by the error middleware.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
@@ -0,0 +1,226 @@
+import { ethers } from "ethers";
+import { contracts, revertReason } from "./contracts";
+import { sendTransaction, submitTransaction } from "./txManager";
+
+// On-chain side of UnbankedGovernance. The backend wallet owns the contract
+// and relays each proposal and vote with createProposalFor and voteFor, so
+// they are recorded against the verified user's address rather than the
+// backend's.
+
+export type ProposalStatus = "active" | "passed" | "rejected" | "executed";
+
+export interface Proposal {
+  proposalId: number;
+  description: string;
+  startTime: string;
+  endTime: string;
+  forVotes: number;
+  againstVotes: number;
+  executed: boolean;
+  minReputationRequired: number;
+  proposer: string;
+  status: ProposalStatus;
+}
+
+function proposalStatus(
+  endTime: number,
+  forVotes: number,
+  againstVotes: number,
+  executed: boolean
+): ProposalStatus {
+  if (executed) return "executed";
+  if (Date.now() <= endTime * 1000) return "active";
+  // Mirrors executeProposal: a tie does not pass
+  return forVotes > againstVotes ? "passed" : "rejected";
+}
+
+// Find an event emitted by the governance contract in a receipt
+function findEvent(receipt: ethers.TransactionReceipt, name: string) {
+  return receipt.logs
+    .map((log) => contracts.governance.interface.parseLog(log))
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === name);
+}
+
+// Rethrow a revert with the contract's error name in the message
+function withRevertReason(action: string, error: unknown): unknown {
+  const reason = revertReason(error);
+  return reason ? new Error(`${action} rejected on-chain: ${reason}`) : error;
+}
+
+export async function getMinReputationToCreateProposal(): Promise<number> {
+  return Number(
+    await contracts.governance.MIN_REPUTATION_TO_CREATE_PROPOSAL()
+  );
+}
+
+export async function getProposalOnChain(
+  proposalId: number
+): Promise<Proposal | undefined> {
+  const proposal = await contracts.governance.getProposal(proposalId);
+  if (proposal.id === 0n) {
+    return undefined;
+  }
+
+  const endTime = Number(proposal.endTime);
+  const forVotes = Number(proposal.forVotes);
+  const againstVotes = Number(proposal.againstVotes);
+
+  return {
+    proposalId: Number(proposal.id),
+    description: proposal.description,
+    startTime: new Date(Number(proposal.startTime) * 1000).toISOString(),
+    endTime: new Date(endTime * 1000).toISOString(),
+    forVotes,
+    againstVotes,
+    executed: proposal.executed,
+    minReputationRequired: Number(proposal.minReputationRequired),
+    proposer: proposal.proposer,
+    status: proposalStatus(endTime, forVotes, againstVotes, proposal.executed),
+  };
+}
+
+// All proposals, newest first
+export async function listProposalsOnChain(): Promise<Proposal[]> {
+  const nextProposalId = Number(await contracts.governance.nextProposalId());
+
+  const proposals = await Promise.all(
+    Array.from({ length: nextProposalId - 1 }, (_, index) =>
+      getProposalOnChain(nextProposalId - 1 - index)
+    )
+  );
+  return proposals.filter((proposal) => proposal !== undefined);
+}
+
+export async function hasVotedOnChain(
+  proposalId: number,
+  voterAddress: string
+): Promise<boolean> {
+  return contracts.governance.hasVoted(proposalId, voterAddress);
+}
+
+export async function createProposalOnChain(
+  proposerAddress: string,
+  description: string,
+  votingDurationDays: number,
+  minReputationRequired: number
+) {
+  try {
+    console.log(
+      `🔗 Creating proposal on-chain for ${proposerAddress}: "${description}" (${votingDurationDays} days, min reputation ${minReputationRequired})`
+    );
+
+    const { transactionId, receipt } = await sendTransaction(
+      "governance.createProposalFor",
+      contracts.governance.createProposalFor,
+      proposerAddress,
+      description,
+      votingDurationDays,
+      minReputationRequired
+    );
+
+    // createProposal doesn't return the id to a transaction; the event has it
+    const created = findEvent(receipt, "ProposalCreated");
+    if (!created) {
+      throw new Error("ProposalCreated event not found in receipt");
+    }
+
+    console.log(
+      `✅ Proposal ${created.args.proposalId} created on-chain. Tx: ${receipt.hash}`
+    );
+
+    return {
+      success: true,
+      proposalId: Number(created.args.proposalId),
+      transactionId,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  } catch (error) {
+    console.error("❌ Failed to create proposal on-chain:", error);
+    throw withRevertReason("Proposal", error);
+  }
+}
+
+// Send a vote without waiting for it to be mined; `result` settles once it is
+export async function submitVoteOnChain(
+  proposalId: number,
+  voterAddress: string,
+  support: boolean
+) {
+  console.log(
+    `🔗 Casting vote on-chain: Proposal ${proposalId}, Voter ${voterAddress}, Support: ${support}`
+  );
+
+  let pending;
+  try {
+    pending = await submitTransaction(
+      "governance.voteFor",
+      contracts.governance.voteFor,
+      proposalId,
+      voterAddress,
+      support
+    );
+  } catch (error) {
+    console.error("❌ Failed to cast vote on-chain:", error);
+    throw withRevertReason("Vote", error);
+  }
+
+  const result = pending.confirmation.then(
+    (receipt) => {
+      const cast = findEvent(receipt, "VoteCast");
+
+      console.log(`✅ Vote cast on-chain. Tx: ${receipt.hash}`);
+
+      return {
+        success: true,
+        votingPower: cast ? Number(cast.args.votingPower) : null,
+        transactionId: pending.id,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      };
+    },
+    (error) => {
+      console.error("❌ Failed to cast vote on-chain:", error);
+      throw error;
+    }
+  );
+
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
+
+// Send an execution without waiting for it to be mined; `result` settles
+// once it is
+export async function submitExecutionOnChain(proposalId: number) {
+  console.log(`🔗 Executing proposal ${proposalId} on-chain...`);
+
+  let pending;
+  try {
+    pending = await submitTransaction(
+      "governance.executeProposal",
+      contracts.governance.executeProposal,
+      proposalId
+    );
+  } catch (error) {
+    console.error("❌ Failed to execute proposal on-chain:", error);
+    throw withRevertReason("Execution", error);
+  }
+
+  const result = pending.confirmation.then(
+    (receipt) => {
+      console.log(`✅ Proposal ${proposalId} executed. Tx: ${receipt.hash}`);
+
+      return {
+        success: true,
+        transactionId: pending.id,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      };
+    },
+    (error) => {
+      console.error("❌ Failed to execute proposal on-chain:", error);
+      throw error;
+    }
+  );
+
+  return { transactionId: pending.id, transactionHash: pending.hash, result };
+}
@@ -0,0 +1,127 @@
+import { getBlockNumberOnChain, INDEXED_EVENTS } from "../contracts";
+import { ApiError } from "../errors";
+import { getLatestIndexerReport } from "../jobs/eventIndexer";
+import {
+  getLatestReconciliationReport,
+  isReconciliationRunning,
+  logReconciliationReport,
+  reconcileReputation,
+} from "../jobs/reputationReconciliation";
+import { ReconcileReputationRequest } from "../shared/api-types";
+import { getRepository, ManagedTransactionStatus } from "../storage";
+import { validate, ValidationError } from "../validation";
+import { describeTransaction } from "./transactions";
+
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+
+// Run a reputation reconciliation now and return its report
+export async function reconcileReputationNow(input: unknown) {
+  const { repair = "none" } = validate<ReconcileReputationRequest>(
+    "ReconcileReputationRequest",
+    input ?? {}
+  );
+
+  if (isReconciliationRunning()) {
+    throw new ApiError(409, "A reputation reconciliation is already running");
+  }
+
+  let report;
+  try {
+    report = await reconcileReputation({ repair });
+  } catch (error) {
+    throw new ApiError(502, "Reputation reconciliation failed", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+  logReconciliationReport(report);
+
+  return { success: true, report };
+}
+
+// The last report, whether from the scheduler or an on-demand run
+export async function getLatestReconciliation() {
+  const report = getLatestReconciliationReport();
+  if (!report) {
+    throw new ApiError(404, "No reputation reconciliation has run yet");
+  }
+  return { success: true, report };
+}
+
+// How far the event indexer has got compared with the chain head
+export async function getIndexerStatus() {
+  const checkpoint = await getRepository().getIndexerCheckpoint();
+
+  let latestBlock;
+  try {
+    latestBlock = await getBlockNumberOnChain();
+  } catch (error) {
+    throw new ApiError(502, "Failed to read the latest block", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  return {
+    success: true,
+    indexedEvents: INDEXED_EVENTS,
+    checkpoint: checkpoint ?? null,
+    latestBlock,
+    lag: checkpoint ? latestBlock - checkpoint.blockNumber : null,
+    lastRun: getLatestIndexerReport() ?? null,
+  };
+}
+
+// Indexed contract events, oldest first. Query: contract, name, fromBlock, limit
+export async function listIndexedEvents(query: Record<string, unknown>) {
+  const integer = (field: string, min: number) => {
+    const raw = query[field];
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+      throw new ValidationError([
+        { field, message: `must be an integer of at least ${min}` },
+      ]);
+    }
+    return value;
+  };
+
+  const fromBlock = integer("fromBlock", 0);
+  const limit = Math.min(integer("limit", 1) ?? DEFAULT_EVENT_LIMIT, MAX_EVENT_LIMIT);
+  const contract = typeof query.contract === "string" ? query.contract : undefined;
+  const name = typeof query.name === "string" ? query.name : undefined;
+
+  const events = await getRepository().listChainEvents({
+    contract,
+    name,
+    fromBlock,
+    limit,
+  });
+  return { success: true, events };
+}
+
+const TRANSACTION_STATUSES: ManagedTransactionStatus[] = [
+  "pending",
+  "confirmed",
+  "failed",
+];
+
+// Transactions sent by the backend wallet, oldest first. Query: status
+export async function listTransactions(query: Record<string, unknown>) {
+  const { status } = query;
+  if (
+    status !== undefined &&
+    !TRANSACTION_STATUSES.includes(status as ManagedTransactionStatus)
+  ) {
+    throw new ValidationError([
+      {
+        field: "status",
+        message: `must be one of ${TRANSACTION_STATUSES.join(", ")}`,
+      },
+    ]);
+  }
+
+  const transactions = await getRepository().listManagedTransactions(
+    status as ManagedTransactionStatus | undefined
+  );
+  return { success: true, transactions: transactions.map(describeTransaction) };
+}
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import {
+  COMMUNITY_AIRDROP_ID,
+  claimedTotal,
+  formatTokenAmount,
+} from "../airdropCampaigns";
+import { getTokenInfoOnChain } from "../contracts";
+import { ApiError } from "../errors";
+import { AirdropCampaign, getRepository } from "../storage";
+import { CreateAirdropCampaignRequest } from "../shared/api-types";
+import { validate, ValidationError } from "../validation";
+
+function toBaseUnits(field: string, tokens: number, decimals: number) {
+  try {
+    return ethers.parseUnits(String(tokens), decimals);
+  } catch {
+    throw new ValidationError([
+      { field, message: `must have at most ${decimals} decimal places` },
+    ]);
+  }
+}
+
+/**
+ * Start an airdrop campaign paid from the backend wallet. The token is read
+ * on-chain for its symbol and decimals; the wallet must hold the budget by
+ * the time users claim, or their transfers fail.
+ */
+export async function createAirdropCampaign(admin: string, input: unknown) {
+  const request = validate<CreateAirdropCampaignRequest>(
+    "CreateAirdropCampaignRequest",
+    input
+  );
+  const repository = getRepository();
+
+  if (request.id === COMMUNITY_AIRDROP_ID) {
+    throw new ValidationError([
+      { field: "id", message: `"${COMMUNITY_AIRDROP_ID}" is the community airdrop` },
+    ]);
+  }
+  const startsAt = request.startsAt ? new Date(request.startsAt) : new Date();
+  const endsAt = request.endsAt ? new Date(request.endsAt) : null;
+  if (endsAt && endsAt <= startsAt) {
+    throw new ValidationError([
+      { field: "endsAt", message: "must be after startsAt" },
+    ]);
+  }
+
+  let token;
+  try {
+    token = await getTokenInfoOnChain(request.token);
+  } catch (error) {
+    console.warn("⚠️ Failed to read the campaign token:", error);
+    throw new ValidationError([
+      { field: "token", message: "must be an ERC-20 token on this chain" },
+    ]);
+  }
+  const allocation = toBaseUnits("allocation", request.allocation, token.decimals);
+  const budget = toBaseUnits("budget", request.budget, token.decimals);
+  if (budget < allocation) {
+    throw new ValidationError([
+      { field: "budget", message: "must cover at least one allocation" },
+    ]);
+  }
+
+  if (await repository.getAirdropCampaign(request.id)) {
+    throw new ApiError(409, `Airdrop "${request.id}" already exists`);
+  }
+
+  const campaign: AirdropCampaign = {
+    id: request.id,
+    name: request.name,
+    description: request.description ?? "",
+    token: token.address,
+    tokenSymbol: token.symbol,
+    tokenDecimals: token.decimals,
+    allocation: allocation.toString(),
+    budget: budget.toString(),
+    minReputation: request.minReputation ?? 0,
+    attestationTypes: request.attestationTypes ?? [],
+    registeredBefore: request.registeredBefore
+      ? new Date(request.registeredBefore)
+      : null,
+    startsAt,
+    endsAt,
+    createdBy: admin,
+    createdAt: new Date(),
+  };
+  await repository.createAirdropCampaign(campaign);
+  console.log(
+    `🎁 ${admin} started airdrop campaign ${campaign.id}: ${formatTokenAmount(allocation, campaign)} each, ${formatTokenAmount(budget, campaign)} budget`
+  );
+
+  return { success: true, campaign: await campaignReport(campaign) };
+}
+
+async function campaignReport(campaign: AirdropCampaign) {
+  const claims = await getRepository().listAirdropClaims({
+    campaignId: campaign.id,
+  });
+  const claimed = claimedTotal(claims);
+  return {
+    ...campaign,
+    claimCount: claims.filter((claim) => claim.status === "completed").length,
+    claimed: formatTokenAmount(claimed, campaign),
+    remaining: formatTokenAmount(BigInt(campaign.budget) - claimed, campaign),
+  };
+}
+
+// Every campaign with what it has paid out, newest first
+export async function listAirdropCampaigns() {
+  const campaigns = await getRepository().listAirdropCampaigns();
+  return {
+    success: true,
+    campaigns: await Promise.all(campaigns.reverse().map(campaignReport)),
+  };
+}
@@ -0,0 +1,477 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import {
+  COMMUNITY_AIRDROP_ID,
+  campaignIneligibility,
+  claimedTotal,
+  formatTokenAmount,
+} from "../airdropCampaigns";
+import {
+  airdropScheduleForRequest,
+  claimPhaseProblem,
+  phaseStartsAt,
+  readAirdropPhase,
+  requireClaimPhase,
+} from "../airdropSchedule";
+import { bonusClaimFor } from "../bonusAllocations";
+import { getService, requireService } from "../catalog";
+import {
+  AIRDROP_BASE_ALLOCATION,
+  claimAirdropOnChain,
+  getTokenInfoOnChain,
+  hasClaimedAirdropOnChain,
+  isRegisteredForAirdropOnChain,
+  revertReason,
+  submitTokenTransferOnChain,
+} from "../contracts";
+import { ApiError } from "../errors";
+import { toUserAddress, userIdentifierFormat } from "../shared/user-address";
+import {
+  AirdropCampaign,
+  AirdropClaim,
+  getRepository,
+  Transaction,
+  User,
+} from "../storage";
+import {
+  AirdropBonusResponse,
+  AirdropSummary,
+  ClaimAirdropRequest,
+} from "../shared/api-types";
+import { TransactionFailedError } from "../txManager";
+import { validate } from "../validation";
+import { pendingTransaction } from "./transactions";
+
+// The user's bonus under the airdrop's current Merkle root
+export async function bonusFor(userIdentifier: string) {
+  try {
+    return await bonusClaimFor(toUserAddress(userIdentifier));
+  } catch (error) {
+    console.warn("⚠️ Failed to look up airdrop bonus:", error);
+    throw new ApiError(502, "Failed to read the airdrop bonus allocation");
+  }
+}
+
+// The bonus and Merkle proof a claim will use. Only the community airdrop
+// has bonuses.
+export async function getAirdropBonus(
+  user: User,
+  airdropId = COMMUNITY_AIRDROP_ID
+): Promise<AirdropBonusResponse> {
+  if (airdropId !== COMMUNITY_AIRDROP_ID) {
+    await requireCampaign(airdropId);
+    throw new ApiError(404, "Only the community airdrop has bonuses");
+  }
+  const { merkleRoot, bonusAmount, merkleProof } = await bonusFor(
+    user.userIdentifier
+  );
+  return {
+    success: true,
+    address: toUserAddress(user.userIdentifier),
+    merkleRoot,
+    bonusAmount: ethers.formatEther(bonusAmount),
+    bonusAmountWei: bonusAmount.toString(),
+    merkleProof,
+  };
+}
+
+async function requireCampaign(id: string) {
+  const campaign = await getRepository().getAirdropCampaign(id);
+  if (!campaign) {
+    throw new ApiError(404, `Airdrop "${id}" not found`);
+  }
+  return campaign;
+}
+
+// The history entry a community airdrop claim left, if any. A failed
+// claim paid nothing and doesn't count.
+function communityClaimTransaction(user: User) {
+  return user.transactions.find(
+    (tx) =>
+      tx.type === "airdrop" &&
+      tx.id.startsWith(`airdrop_${COMMUNITY_AIRDROP_ID}_`) &&
+      tx.status !== "failed"
+  );
+}
+
+// Handle airdrop claim
+export async function claimAirdrop(user: User, input: unknown) {
+  const { airdropId = COMMUNITY_AIRDROP_ID } = validate<ClaimAirdropRequest>(
+    "ClaimAirdropRequest",
+    input
+  );
+  if (airdropId !== COMMUNITY_AIRDROP_ID) {
+    return claimCampaign(user, await requireCampaign(airdropId));
+  }
+  const { userIdentifier } = user;
+
+  await requireService("airdrop", user.reputationScore);
+  await requireClaimPhase();
+
+  const existingClaim = communityClaimTransaction(user);
+
+  if (existingClaim) {
+    throw new ApiError(409, "Airdrop already claimed");
+  }
+
+  // The contract pays whoever sends claimAirdrop and checks the bonus proof
+  // against them, so a registered user has to send it from their own address
+  const userAddress = toUserAddress(userIdentifier);
+  let registered;
+  try {
+    registered = await isRegisteredForAirdropOnChain(userAddress);
+  } catch (error) {
+    console.warn("⚠️ Failed to read airdrop registration:", error);
+    throw new ApiError(502, "Failed to read your airdrop registration");
+  }
+  if (registered) {
+    throw new ApiError(
+      403,
+      userIdentifierFormat(userIdentifier) === "hex"
+        ? "You are registered with the airdrop contract, so the claim must come from your wallet. Sign it and have it relayed (POST /v1/meta-transactions with action claimAirdrop)."
+        : "You are registered with the airdrop contract under an address without a wallet, so the backend can't claim for you. Verify with your wallet address as the Self user ID to claim."
+    );
+  }
+
+  const { bonusAmount } = await bonusFor(userIdentifier);
+
+  // Claim airdrop on-chain
+  let onChainResult;
+  try {
+    onChainResult = await claimAirdropOnChain(userIdentifier, bonusAmount);
+    console.log(
+      `✅ Airdrop claimed on-chain: ${onChainResult.transactionHash}`
+    );
+  } catch (error) {
+    console.warn("⚠️ On-chain airdrop claim failed:", error);
+    throw new ApiError(
+      400,
+      error instanceof Error ? error.message : "Failed to claim airdrop on-chain"
+    );
+  }
+
+  const airdropTransaction: Transaction = {
+    id: `airdrop_${COMMUNITY_AIRDROP_ID}_${crypto.randomUUID()}`,
+    type: "airdrop",
+    amount: onChainResult.amount,
+    status: "completed",
+    timestamp: new Date(),
+    onChain: onChainResult,
+  };
+
+  await getRepository().addTransaction(userIdentifier, airdropTransaction);
+
+  return {
+    success: true,
+    message: "Airdrop claimed successfully on-chain",
+    amount: onChainResult.amount,
+    transaction: airdropTransaction,
+    transactionHash: onChainResult.transactionHash,
+    blockNumber: onChainResult.blockNumber,
+  };
+}
+
+/**
+ * Claim a campaign: check its rules, reserve the allocation against its
+ * budget, then transfer the tokens from the backend wallet. Only a transfer
+ * rejected before it was sent, or mined and reverted, leaves the claim
+ * failed, so the user can try again. Otherwise, once it may have been
+ * broadcast, the claim stays pending with its hash, keeping the allocation
+ * reserved; a retry could otherwise pay twice.
+ */
+async function claimCampaign(user: User, campaign: AirdropCampaign) {
+  const repository = getRepository();
+  const { userIdentifier } = user;
+
+  const claims = await repository.listAirdropClaims({
+    campaignId: campaign.id,
+  });
+  if (
+    claims.some(
+      (claim) =>
+        claim.userIdentifier === userIdentifier && claim.status !== "failed"
+    )
+  ) {
+    throw new ApiError(409, "Airdrop already claimed");
+  }
+  const reasons = campaignIneligibility(campaign, user, claimedTotal(claims));
+  if (reasons.length > 0) {
+    throw new ApiError(
+      403,
+      `You can't claim ${campaign.name}: ${reasons.join("; ")}`,
+      { reasons }
+    );
+  }
+
+  const pending: AirdropClaim = {
+    campaignId: campaign.id,
+    userIdentifier,
+    amount: campaign.allocation,
+    status: "pending",
+    transactionHash: null,
+    error: null,
+    claimedAt: new Date(),
+  };
+  // Checked again here: another claim may have taken the last of the budget
+  // since the list above was read
+  switch (await repository.reserveAirdropClaim(pending, campaign.budget)) {
+    case "already_claimed":
+      throw new ApiError(409, "Airdrop already claimed");
+    case "budget_exhausted":
+      throw new ApiError(
+        403,
+        `You can't claim ${campaign.name}: the campaign's budget has run out`,
+        { reasons: ["The campaign's budget has run out"] }
+      );
+  }
+
+  const amount = formatTokenAmount(campaign.allocation, campaign);
+  let submitted;
+  try {
+    submitted = await submitTokenTransferOnChain(
+      campaign.token,
+      toUserAddress(userIdentifier),
+      BigInt(campaign.allocation)
+    );
+  } catch (error) {
+    console.warn(`⚠️ ${campaign.name} airdrop transfer failed:`, error);
+    const reason = revertReason(error);
+    if (reason) {
+      await repository.updateAirdropClaim({
+        ...pending,
+        status: "failed",
+        error: reason,
+      });
+      throw new ApiError(
+        422,
+        `The ${campaign.tokenSymbol} transfer would revert: ${reason}`
+      );
+    }
+    await repository.updateAirdropClaim({
+      ...pending,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    throw new ApiError(
+      502,
+      `Failed to send the ${campaign.tokenSymbol} transfer`
+    );
+  }
+
+  const sent: AirdropClaim = {
+    ...pending,
+    transactionHash: submitted.transactionHash,
+  };
+  await repository.updateAirdropClaim(sent);
+  // In the history straight away, so the user can follow the transaction
+  const airdropTransaction: Transaction = {
+    id: `airdrop_${campaign.id}_${crypto.randomUUID()}`,
+    type: "airdrop",
+    amount,
+    status: "pending",
+    timestamp: new Date(),
+    onChain: {
+      transactionId: submitted.transactionId,
+      transactionHash: submitted.transactionHash,
+    },
+  };
+  await repository.addTransaction(userIdentifier, airdropTransaction);
+
+  let onChainResult;
+  try {
+    onChainResult = await settleCampaignClaim(
+      sent,
+      airdropTransaction.id,
+      submitted.result
+    );
+    console.log(
+      `✅ ${campaign.name} airdrop paid on-chain: ${onChainResult.transactionHash}`
+    );
+  } catch (error) {
+    console.warn(`⚠️ ${campaign.name} airdrop transfer not confirmed:`, error);
+    if (minedAndReverted(error)) {
+      throw new ApiError(
+        502,
+        `The ${campaign.tokenSymbol} transfer reverted; you can claim again`
+      );
+    }
+    throw new ApiError(
+      502,
+      `The ${campaign.tokenSymbol} transfer was sent but not confirmed; your claim stays pending until it is`,
+      {
+        pendingTransaction: pendingTransaction(
+          submitted.transactionId,
+          submitted.transactionHash
+        ),
+      }
+    );
+  }
+
+  return {
+    success: true,
+    message: "Airdrop claimed successfully on-chain",
+    amount,
+    transaction: { ...airdropTransaction, status: "completed" },
+    transactionHash: onChainResult.transactionHash,
+    blockNumber: onChainResult.blockNumber,
+  };
+}
+
+// A transfer mined with a failed status paid nothing
+function minedAndReverted(error: unknown) {
+  return (
+    error instanceof TransactionFailedError &&
+    error.transaction.blockNumber !== null
+  );
+}
+
+/**
+ * Record how a campaign transfer ended, on the claim and its history
+ * record. One that was mined and reverted fails the claim, which frees its
+ * allocation for a retry. One the transaction manager gave up on without a
+ * receipt may still be mined, so its claim stays pending.
+ */
+async function settleCampaignClaim<R extends { transactionHash: string }>(
+  claim: AirdropClaim,
+  historyId: string,
+  result: Promise<R>
+): Promise<R> {
+  const repository = getRepository();
+  let onChainResult;
+  try {
+    onChainResult = await result;
+  } catch (error) {
+    const reverted = minedAndReverted(error);
+    await repository.updateAirdropClaim({
+      ...claim,
+      status: reverted ? "failed" : "pending",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    if (reverted) {
+      await repository.updateTransactionStatus(historyId, "failed");
+    }
+    throw error;
+  }
+
+  await repository.updateAirdropClaim({
+    ...claim,
+    status: "completed",
+    transactionHash: onChainResult.transactionHash,
+  });
+  await repository.updateTransactionStatus(historyId, "completed");
+  return onChainResult;
+}
+
+async function communityAirdropSummary(user: User): Promise<AirdropSummary> {
+  const [service, phase, token, claimedOnChain] = await Promise.all([
+    getService("airdrop"),
+    readAirdropPhase(),
+    getTokenInfoOnChain(),
+    hasClaimedAirdropOnChain(toUserAddress(user.userIdentifier)),
+  ]).catch((error) => {
+    if (error instanceof ApiError) throw error;
+    console.warn("⚠️ Failed to read the community airdrop:", error);
+    throw new ApiError(502, "Failed to read the community airdrop");
+  });
+  const schedule = airdropScheduleForRequest();
+  const transaction = communityClaimTransaction(user);
+
+  const reasons: string[] = [];
+  if (!service.isActive) {
+    reasons.push(`${service.name} is not available right now`);
+  }
+  if (user.reputationScore < service.minReputation) {
+    reasons.push(
+      `Needs ${service.minReputation} reputation (you have ${user.reputationScore})`
+    );
+  }
+  const phaseProblem = claimPhaseProblem(phase);
+  if (phaseProblem) {
+    reasons.push(phaseProblem.message);
+  }
+
+  const claimed = Boolean(transaction) || claimedOnChain;
+  return {
+    id: COMMUNITY_AIRDROP_ID,
+    kind: "community",
+    name: service.name,
+    description: service.description,
+    token: { address: token.address, symbol: token.symbol },
+    allocation: ethers
+      .formatEther(AIRDROP_BASE_ALLOCATION)
+      .replace(/\.0$/, ""),
+    startsAt: phaseStartsAt(schedule, "Claim")?.toISOString() ?? null,
+    endsAt: phaseStartsAt(schedule, "Ended")?.toISOString() ?? null,
+    status: claimed ? "claimed" : reasons.length > 0 ? "ineligible" : "claimable",
+    reasons: claimed ? [] : reasons,
+    claim: transaction
+      ? {
+          amount: transaction.amount,
+          status: transaction.status as AirdropClaim["status"],
+          transactionHash:
+            (transaction.onChain as { transactionHash?: string } | undefined)
+              ?.transactionHash ?? null,
+          claimedAt: transaction.timestamp.toISOString(),
+        }
+      : null,
+  };
+}
+
+function campaignSummary(
+  campaign: AirdropCampaign,
+  user: User,
+  claims: AirdropClaim[]
+): AirdropSummary {
+  const claim = claims.find(
+    (claim) => claim.userIdentifier === user.userIdentifier
+  );
+  const claimed = claim !== undefined && claim.status !== "failed";
+  const reasons = claimed
+    ? []
+    : campaignIneligibility(campaign, user, claimedTotal(claims));
+  return {
+    id: campaign.id,
+    kind: "campaign",
+    name: campaign.name,
+    description: campaign.description,
+    token: { address: campaign.token, symbol: campaign.tokenSymbol },
+    allocation: ethers
+      .formatUnits(campaign.allocation, campaign.tokenDecimals)
+      .replace(/\.0$/, ""),
+    startsAt: campaign.startsAt.toISOString(),
+    endsAt: campaign.endsAt?.toISOString() ?? null,
+    status: claimed ? "claimed" : reasons.length > 0 ? "ineligible" : "claimable",
+    reasons,
+    claim: claim
+      ? {
+          amount: formatTokenAmount(claim.amount, campaign),
+          status: claim.status,
+          transactionHash: claim.transactionHash,
+          claimedAt: claim.claimedAt.toISOString(),
+        }
+      : null,
+  };
+}
+
+// Every airdrop with whether the user can claim it, has, or why they can't:
+// the community airdrop first, then campaigns oldest first
+export async function listAirdrops(user: User) {
+  const repository = getRepository();
+  const [community, campaigns, claims] = await Promise.all([
+    communityAirdropSummary(user),
+    repository.listAirdropCampaigns(),
+    repository.listAirdropClaims(),
+  ]);
+  return {
+    success: true,
+    airdrops: [
+      community,
+      ...campaigns.map((campaign) =>
+        campaignSummary(
+          campaign,
+          user,
+          claims.filter((claim) => claim.campaignId === campaign.id)
+        )
+      ),
+    ],
+  };
+}
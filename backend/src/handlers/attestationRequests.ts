@@ -0,0 +1,312 @@
+import crypto from "crypto";
+import { ApiError } from "../errors";
+import { notify } from "../notifications";
+import {
+  ApproveAttestationRequest,
+  AttestationType,
+  RejectAttestationRequest,
+  RequestAttestationRequest,
+} from "../shared/api-types";
+import { toUserAddress } from "../shared/user-address";
+import {
+  AttestationRequest,
+  AttestationRequestStatus,
+  Attester,
+  getRepository,
+  User,
+} from "../storage";
+import { validate, ValidationError } from "../validation";
+import { applySignedAttestation } from "./attestations";
+import { sessionAttester } from "./attesters";
+import { SubmitOptions } from "./transactions";
+
+// Users ask a registered attester to vouch for them; the attester sees the
+// request in their inbox and approves it by signing the attestation, or
+// rejects it with a reason.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const REQUEST_STATUSES: AttestationRequestStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+];
+
+export function attestationRequestTtlHoursFromEnv() {
+  return Number(process.env.ATTESTATION_REQUEST_TTL_HOURS ?? 168);
+}
+
+// Pending requests past their expiry are marked expired when next read
+async function expireIfDue(
+  request: AttestationRequest
+): Promise<AttestationRequest> {
+  if (request.status !== "pending" || request.expiresAt.getTime() > Date.now()) {
+    return request;
+  }
+  const expired: AttestationRequest = { ...request, status: "expired" };
+  await getRepository().saveAttestationRequest(expired);
+  return expired;
+}
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// A pending request addressed to this attester
+async function pendingRequestFor(
+  attester: Attester,
+  id: string
+): Promise<AttestationRequest> {
+  const stored = await getRepository().getAttestationRequest(id);
+  if (!stored) {
+    throw new ApiError(404, `Attestation request ${id} not found`);
+  }
+  if (!sameAddress(stored.attester, attester.address)) {
+    throw new ApiError(403, "This request was sent to another attester");
+  }
+
+  const request = await expireIfDue(stored);
+  if (request.status !== "pending") {
+    throw new ApiError(409, `This request is already ${request.status}`);
+  }
+  return request;
+}
+
+/**
+ * Ask an attester for an attestation.
+ *
+ * The attester must be active and allowed to issue the type. A user can
+ * only have one open request per attester and type, and cannot ask for an
+ * attestation that attester has already given them.
+ */
+export async function createAttestationRequest(user: User, input: unknown) {
+  const { attestationType, attester, message } =
+    validate<RequestAttestationRequest>("RequestAttestationRequest", input);
+  const repository = getRepository();
+
+  const registered = await repository.getAttester(attester);
+  if (!registered || registered.status !== "active") {
+    throw new ApiError(404, `No active attester at ${attester}`);
+  }
+  if (!registered.attestationTypes.includes(attestationType)) {
+    throw new ValidationError([
+      {
+        field: "attestationType",
+        message: `${registered.name} cannot attest ${attestationType}`,
+      },
+    ]);
+  }
+
+  if (
+    user.attestations.some(
+      (attestation) =>
+        !attestation.revokedAt &&
+        attestation.type === attestationType &&
+        sameAddress(attestation.attestedBy, registered.address)
+    )
+  ) {
+    throw new ApiError(
+      409,
+      `${registered.name} has already attested ${attestationType} for you`
+    );
+  }
+
+  const open = await repository.listAttestationRequests({
+    userIdentifier: user.userIdentifier,
+    attester: registered.address,
+    status: "pending",
+  });
+  for (const request of open) {
+    if (
+      request.attestationType === attestationType &&
+      (await expireIfDue(request)).status === "pending"
+    ) {
+      throw new ApiError(
+        409,
+        `You already asked ${registered.name} for ${attestationType}`,
+        { requestId: request.id }
+      );
+    }
+  }
+
+  const createdAt = new Date();
+  const request: AttestationRequest = {
+    id: `areq_${crypto.randomUUID()}`,
+    userIdentifier: user.userIdentifier,
+    subject: toUserAddress(user.userIdentifier),
+    attestationType,
+    attester: registered.address,
+    message: message ?? null,
+    status: "pending",
+    createdAt,
+    expiresAt: new Date(
+      createdAt.getTime() + attestationRequestTtlHoursFromEnv() * HOUR_MS
+    ),
+    decidedAt: null,
+    rejectionReason: null,
+    attestationId: null,
+  };
+  await repository.saveAttestationRequest(request);
+
+  await notify(
+    "attestation.requested",
+    `${registered.name} was asked to attest ${attestationType}`,
+    {
+      userIdentifier: user.userIdentifier,
+      data: { requestId: request.id, attester: registered.address },
+    }
+  );
+
+  return {
+    success: true,
+    message: `Request sent to ${registered.name}`,
+    request,
+  };
+}
+
+// The user's own requests, newest first
+export async function listAttestationRequests(user: User) {
+  const requests = await getRepository().listAttestationRequests({
+    userIdentifier: user.userIdentifier,
+  });
+  return {
+    success: true,
+    requests: (await Promise.all(requests.map(expireIfDue))).reverse(),
+  };
+}
+
+// Requests sent to the signed-in attester, oldest first. Query: status
+// (default pending)
+export async function listAttesterInbox(
+  user: User,
+  query: Record<string, unknown>
+) {
+  const { status = "pending" } = query;
+  if (!REQUEST_STATUSES.includes(status as AttestationRequestStatus)) {
+    throw new ValidationError([
+      {
+        field: "status",
+        message: `must be one of ${REQUEST_STATUSES.join(", ")}`,
+      },
+    ]);
+  }
+
+  const attester = await sessionAttester(user);
+  const repository = getRepository();
+
+  // Expire overdue pending requests first, so they move to the right list
+  for (const request of await repository.listAttestationRequests({
+    attester: attester.address,
+    status: "pending",
+  })) {
+    await expireIfDue(request);
+  }
+
+  return {
+    success: true,
+    attester: { address: attester.address, name: attester.name },
+    requests: await repository.listAttestationRequests({
+      attester: attester.address,
+      status: status as AttestationRequestStatus,
+    }),
+  };
+}
+
+/**
+ * Approve a request with the attester's signature over the user's address.
+ *
+ * The attestation goes through the same checks and on-chain update as one
+ * the user submits, so approving is no different from handing the user a
+ * signed attestation.
+ */
+export async function approveAttestationRequest(
+  user: User,
+  id: string,
+  input: unknown,
+  options: SubmitOptions = {}
+) {
+  const signed = validate<ApproveAttestationRequest>(
+    "ApproveAttestationRequest",
+    input
+  );
+  const attester = await sessionAttester(user);
+  const request = await pendingRequestFor(attester, id);
+
+  const repository = getRepository();
+  const subject = await repository.getUser(request.userIdentifier);
+  if (!subject) {
+    throw new ApiError(404, "The requesting user no longer exists");
+  }
+
+  const result = await applySignedAttestation(
+    subject,
+    {
+      attestationType: request.attestationType as AttestationType,
+      attester: attester.address,
+      ...signed,
+    },
+    options,
+    user
+  );
+
+  const approved: AttestationRequest = {
+    ...request,
+    status: "approved",
+    decidedAt: new Date(),
+    attestationId: result.attestation.id,
+  };
+  await repository.saveAttestationRequest(approved);
+
+  await notify(
+    "attestation.approved",
+    `${attester.name} approved your ${request.attestationType} attestation`,
+    {
+      userIdentifier: request.userIdentifier,
+      data: {
+        requestId: request.id,
+        attestationId: result.attestation.id,
+        score: result.attestation.score,
+      },
+    }
+  );
+
+  return { ...result, request: approved };
+}
+
+// Decline a request; the reason is shown to the user
+export async function rejectAttestationRequest(
+  user: User,
+  id: string,
+  input: unknown
+) {
+  const { reason } = validate<RejectAttestationRequest>(
+    "RejectAttestationRequest",
+    input
+  );
+  const attester = await sessionAttester(user);
+  const request = await pendingRequestFor(attester, id);
+
+  const rejected: AttestationRequest = {
+    ...request,
+    status: "rejected",
+    decidedAt: new Date(),
+    rejectionReason: reason,
+  };
+  await getRepository().saveAttestationRequest(rejected);
+
+  await notify(
+    "attestation.rejected",
+    `${attester.name} declined your ${request.attestationType} attestation: ${reason}`,
+    {
+      userIdentifier: request.userIdentifier,
+      data: { requestId: request.id },
+    }
+  );
+
+  return {
+    success: true,
+    message: "Attestation request rejected",
+    request: rejected,
+  };
+}
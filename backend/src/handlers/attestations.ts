@@ -0,0 +1,280 @@
+import crypto from "crypto";
+import { recoverAttestationSigner } from "../attesters";
+import { attestationTypeInfo } from "../catalog";
+import { submitAttestationOnChain } from "../contracts";
+import { ApiError } from "../errors";
+import { getRepository, Attestation, Transaction, User } from "../storage";
+import {
+  AddAttestationRequest,
+  RevokeAttestationRequest,
+} from "../shared/api-types";
+import { toUserAddress } from "../shared/user-address";
+import { notify } from "../notifications";
+import { applyReputationReductions, attestationWeight } from "../reputation";
+import { validate } from "../validation";
+import { sessionAttester } from "./attesters";
+import {
+  pendingTransaction,
+  settleInBackground,
+  SubmitOptions,
+} from "./transactions";
+
+// Apply an attestation the user submitted themselves
+export async function addAttestation(
+  user: User,
+  input: unknown,
+  options: SubmitOptions = {}
+) {
+  return applySignedAttestation(
+    user,
+    validate<AddAttestationRequest>("AddAttestationRequest", input),
+    options
+  );
+}
+
+/**
+ * Apply an attestation a registered attester signed for this user.
+ *
+ * The attester must be active and allowed to issue this type, and must
+ * have signed it for the user's own address. The nonce becomes the
+ * attestation id, so the same signed attestation cannot be applied twice.
+ * With `respondAsync` the transaction goes in the history of `requester`,
+ * who sent the request, so they can poll it.
+ */
+export async function applySignedAttestation(
+  user: User,
+  { attestationType, attester, issuedAt, nonce, signature }: AddAttestationRequest,
+  { respondAsync = false }: SubmitOptions = {},
+  requester: User = user
+) {
+  const { userIdentifier } = user;
+
+  const registered = await getRepository().getAttester(attester);
+  if (!registered || registered.status !== "active") {
+    throw new ApiError(403, `${attester} is not an authorised attester`);
+  }
+  if (!registered.attestationTypes.includes(attestationType)) {
+    throw new ApiError(
+      403,
+      `${registered.name} is not authorised to attest ${attestationType}`
+    );
+  }
+
+  const recovered = recoverAttestationSigner(
+    {
+      subject: toUserAddress(userIdentifier),
+      attestationType,
+      issuedAt,
+      nonce,
+    },
+    signature
+  );
+  if (!recovered.success) {
+    throw new ApiError(400, recovered.error);
+  }
+  // A signature over another subject or type recovers some other address
+  if (recovered.signer !== registered.address) {
+    throw new ApiError(
+      400,
+      `The attestation was not signed by ${registered.name} for this user`
+    );
+  }
+
+  const id = `att_${nonce.toLowerCase()}`;
+  if (user.attestations.some((attestation) => attestation.id === id)) {
+    throw new ApiError(409, "This attestation has already been applied");
+  }
+  if (
+    user.attestations.some(
+      (attestation) =>
+        !attestation.revokedAt &&
+        attestation.type === attestationType &&
+        attestation.attestedBy.toLowerCase() === attester.toLowerCase()
+    )
+  ) {
+    throw new ApiError(
+      409,
+      `${registered.name} has already attested ${attestationType} for this user`
+    );
+  }
+
+  const attestationInfo = attestationTypeInfo(attestationType);
+
+  const newAttestation: Attestation = {
+    id,
+    type: attestationType,
+    description: attestationInfo.description,
+    score: attestationInfo.score,
+    attestedBy: registered.address,
+    timestamp: new Date(issuedAt * 1000),
+    signature,
+  };
+
+  const repository = getRepository();
+  await repository.addAttestation(userIdentifier, newAttestation);
+  user.reputationScore = await repository.adjustReputation(
+    userIdentifier,
+    attestationInfo.score
+  );
+
+  // Add attestation on-chain
+  let onChainResult;
+  try {
+    const submitted = await submitAttestationOnChain(
+      toUserAddress(userIdentifier),
+      attestationInfo.score
+    );
+
+    if (respondAsync) {
+      // Already stored off-chain; a failure is only marked in the history,
+      // and reputation reconciliation picks it up
+      const attestationTransaction: Transaction = {
+        id: `attest_${crypto.randomUUID()}`,
+        type: "attestation",
+        amount: attestationInfo.title,
+        status: "pending",
+        timestamp: new Date(),
+        onChain: {
+          transactionId: submitted.transactionId,
+          transactionHash: submitted.transactionHash,
+        },
+      };
+      await repository.addTransaction(
+        requester.userIdentifier,
+        attestationTransaction
+      );
+      settleInBackground(attestationTransaction.id, submitted.result);
+      return {
+        success: true,
+        attestation: newAttestation,
+        newReputationScore: user.reputationScore,
+        pendingTransaction: pendingTransaction(
+          submitted.transactionId,
+          submitted.transactionHash
+        ),
+      };
+    }
+
+    onChainResult = await submitted.result;
+    console.log(
+      `✅ Attestation added on-chain: ${onChainResult.transactionHash}`
+    );
+  } catch (error) {
+    console.warn("⚠️ On-chain attestation failed:", error);
+    onChainResult = {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  return {
+    success: true,
+    attestation: newAttestation,
+    newReputationScore: user.reputationScore,
+    onChain: onChainResult,
+  };
+}
+
+/**
+ * Withdraw an attestation. The user loses what it still counts for after
+ * decay, and the reduction is recorded with who revoked it and why. The
+ * attestation itself stays in the user's history, marked revoked.
+ */
+async function revokeAttestation(
+  attestationId: string,
+  actor: string,
+  reason: string,
+  mayRevoke: (attestation: Attestation) => boolean = () => true
+) {
+  const repository = getRepository();
+  const found = await repository.findAttestation(attestationId);
+  if (!found || !mayRevoke(found.attestation)) {
+    throw new ApiError(404, `Attestation ${attestationId} not found`);
+  }
+  const { userIdentifier, attestation } = found;
+  if (attestation.revokedAt) {
+    throw new ApiError(409, "This attestation is already revoked");
+  }
+
+  const user = await repository.getUser(userIdentifier);
+  if (!user) {
+    throw new ApiError(404, "The attested user no longer exists");
+  }
+
+  const revoked: Attestation = {
+    ...attestation,
+    revokedAt: new Date(),
+    revokedBy: actor,
+    revocationReason: reason,
+  };
+  const { reputationScore, adjustments, onChain } =
+    await applyReputationReductions(
+      user,
+      [
+        {
+          attestation: revoked,
+          kind: "revocation",
+          points: attestationWeight(attestation),
+          actor,
+          reason,
+        },
+      ],
+      `revoked ${attestation.type}: ${reason}`
+    );
+
+  await notify(
+    "attestation.revoked",
+    `Your ${attestation.type} attestation was revoked: ${reason}`,
+    {
+      userIdentifier,
+      data: {
+        attestationId,
+        revokedBy: actor,
+        points: adjustments[0].points,
+      },
+    }
+  );
+
+  return {
+    success: true,
+    message: "Attestation revoked",
+    attestation: revoked,
+    adjustment: adjustments[0],
+    newReputationScore: reputationScore,
+    onChain,
+  };
+}
+
+// An attester withdrawing one of their own attestations
+export async function revokeAttestationAsAttester(
+  user: User,
+  attestationId: string,
+  input: unknown
+) {
+  const { reason } = validate<RevokeAttestationRequest>(
+    "RevokeAttestationRequest",
+    input
+  );
+  const attester = await sessionAttester(user);
+
+  // Someone else's attestations look the same as missing ones
+  return revokeAttestation(
+    attestationId,
+    attester.address,
+    reason,
+    (attestation) =>
+      attestation.attestedBy.toLowerCase() === attester.address.toLowerCase()
+  );
+}
+
+// Admin revocation, e.g. after an attester turns out to be untrustworthy
+export async function revokeAttestationAsAdmin(
+  attestationId: string,
+  input: unknown
+) {
+  const { reason } = validate<RevokeAttestationRequest>(
+    "RevokeAttestationRequest",
+    input
+  );
+  return revokeAttestation(attestationId, "admin", reason);
+}
@@ -0,0 +1,112 @@
+import { ethers } from "ethers";
+import { ATTESTATION_EIP712_TYPES, attestationDomain } from "../attesters";
+import { ApiError } from "../errors";
+import {
+  RegisterAttesterRequest,
+  RevokeAttesterRequest,
+} from "../shared/api-types";
+import { toUserAddress, userIdentifierFormat } from "../shared/user-address";
+import { Attester, getRepository, User } from "../storage";
+import { validate, ValidationError } from "../validation";
+
+// The active attester a session belongs to. Attesters sign in by verifying
+// with the wallet address they were registered with.
+export async function sessionAttester(user: User): Promise<Attester> {
+  const attester =
+    userIdentifierFormat(user.userIdentifier) === "hex"
+      ? await getRepository().getAttester(toUserAddress(user.userIdentifier))
+      : undefined;
+  if (!attester || attester.status !== "active") {
+    throw new ApiError(
+      403,
+      "Only active attesters can do this. Verify with the wallet address you were registered with."
+    );
+  }
+  return attester;
+}
+
+// Active attesters and the typed data they sign, so attesters and users
+// don't have to hard-code the EIP-712 domain
+export async function listActiveAttesters() {
+  const attesters = await getRepository().listAttesters("active");
+  return {
+    success: true,
+    attesters: attesters.map(({ address, name, attestationTypes }) => ({
+      address,
+      name,
+      attestationTypes,
+    })),
+    signing: {
+      domain: attestationDomain(),
+      types: ATTESTATION_EIP712_TYPES,
+      primaryType: "Attestation",
+    },
+  };
+}
+
+// Every attester, including revoked ones (admin)
+export async function listAllAttesters() {
+  return { success: true, attesters: await getRepository().listAttesters() };
+}
+
+// Authorise an attester for some attestation types (admin). Registering a
+// revoked attester again reinstates them.
+export async function registerAttester(input: unknown) {
+  const { address, name, attestationTypes } =
+    validate<RegisterAttesterRequest>("RegisterAttesterRequest", input);
+  const repository = getRepository();
+
+  const existing = await repository.getAttester(address);
+  if (existing?.status === "active") {
+    throw new ApiError(409, `${existing.name} is already an active attester`);
+  }
+
+  const attester: Attester = {
+    address: ethers.getAddress(address),
+    name,
+    attestationTypes,
+    status: "active",
+    createdAt: existing?.createdAt ?? new Date(),
+    revokedAt: null,
+    revokedReason: null,
+  };
+  await repository.saveAttester(attester);
+  console.log(
+    `🪪 Registered attester ${name} (${attester.address}) for ${attestationTypes.join(", ")}`
+  );
+
+  return { success: true, attester };
+}
+
+// Stop accepting an attester's signatures (admin)
+export async function revokeAttester(address: string, input: unknown) {
+  if (!ethers.isAddress(address)) {
+    throw new ValidationError([
+      { field: "address", message: "must be a 0x-prefixed 20-byte address" },
+    ]);
+  }
+  const { reason } = validate<RevokeAttesterRequest>(
+    "RevokeAttesterRequest",
+    input
+  );
+  const repository = getRepository();
+
+  const existing = await repository.getAttester(address);
+  if (!existing) {
+    throw new ApiError(404, `No attester registered at ${address}`);
+  }
+  if (existing.status === "revoked") {
+    throw new ApiError(409, `${existing.name} is already revoked`);
+  }
+
+  const attester: Attester = {
+    ...existing,
+    status: "revoked",
+    revokedAt: new Date(),
+    revokedReason: reason,
+  };
+  await repository.saveAttester(attester);
+  console.log(`🚫 Revoked attester ${attester.name} (${attester.address}): ${reason}`);
+
+  return { success: true, attester };
+}
@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+import { buildBonusTree, parseBonusCsv } from "../bonusAllocations";
+import { getAirdropMerkleRootOnChain } from "../contracts";
+import { BonusAllocation, getRepository } from "../storage";
+import { ValidationError } from "../validation";
+import { proposeConfigChange, readOnChain } from "./configChanges";
+
+function allocationSummary(allocation: BonusAllocation, liveRoot?: string) {
+  return {
+    ...allocation,
+    totalTokens: ethers.formatEther(allocation.totalAmount),
+    ...(liveRoot === undefined
+      ? {}
+      : { live: allocation.merkleRoot === liveRoot }),
+  };
+}
+
+/**
+ * Build a bonus tree from a CSV of address,bonus rows and propose its root
+ * with setMerkleRoot. The tree is stored straight away, so proofs are served
+ * as soon as the root is confirmed on-chain.
+ */
+export async function createBonusAllocation(admin: string, csv: unknown) {
+  if (typeof csv !== "string" || !csv.trim()) {
+    throw new ValidationError([
+      { field: "csv", message: "must be sent as text/csv with address,bonus rows" },
+    ]);
+  }
+  const { rows, errors } = parseBonusCsv(csv);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const tree = buildBonusTree(rows);
+  const allocation: BonusAllocation = {
+    merkleRoot: tree.merkleRoot,
+    entryCount: tree.entries.length,
+    totalAmount: tree.totalAmount,
+    createdBy: admin,
+    createdAt: new Date(),
+  };
+  await getRepository().saveBonusAllocation(allocation, tree.entries);
+  console.log(
+    `🌳 ${admin} built bonus tree ${tree.merkleRoot} (${tree.entries.length} addresses, ${ethers.formatEther(tree.totalAmount)} tokens)`
+  );
+
+  const { change } = await proposeConfigChange(admin, {
+    action: "setMerkleRoot",
+    merkleRoot: tree.merkleRoot,
+  });
+
+  return {
+    success: true,
+    message: "Confirm the setMerkleRoot change to publish the bonus tree",
+    allocation: allocationSummary(allocation),
+    change,
+  };
+}
+
+// Every bonus tree built, newest first, marking the one the contract uses
+export async function listBonusAllocations() {
+  const [allocations, liveRoot] = await Promise.all([
+    getRepository().listBonusAllocations(),
+    readOnChain(getAirdropMerkleRootOnChain),
+  ]);
+  return {
+    success: true,
+    merkleRoot: liveRoot,
+    allocations: allocations
+      .reverse()
+      .map((allocation) => allocationSummary(allocation, liveRoot)),
+  };
+}
@@ -0,0 +1,568 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { airdropScheduleForRequest, phaseStartsAt } from "../airdropSchedule";
+import { getCatalog, invalidateCatalog } from "../catalog";
+import {
+  AIRDROP_PHASES,
+  CONFIG_CALL_TARGETS,
+  ContractConfigCall,
+  getBorrowerProfileOnChain,
+  getContractSettingsOnChain,
+  getServiceRequirementOnChain,
+  revertReason,
+  submitConfigCallOnChain,
+} from "../contracts";
+import { ApiError } from "../errors";
+import { ProposeConfigChangeRequest } from "../shared/api-types";
+import {
+  ConfigChange,
+  ConfigChangeAction,
+  ConfigChangeStatus,
+  ConfigValue,
+  getRepository,
+} from "../storage";
+import { validate, ValidationError } from "../validation";
+import { pendingTransaction, SubmitOptions } from "./transactions";
+
+// Owner-only contract settings changed from the admin console. A change is
+// proposed first, showing the current and new values, and only sent once an
+// admin confirms it. Every change is kept with who proposed and confirmed
+// it and the transaction that made it, as the audit log.
+
+const MINUTE_MS = 60 * 1000;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const DEFAULT_CHANGE_LIMIT = 100;
+const MAX_CHANGE_LIMIT = 1000;
+
+const CHANGE_STATUSES: ConfigChangeStatus[] = [
+  "proposed",
+  "cancelled",
+  "expired",
+  "submitted",
+  "confirmed",
+  "failed",
+];
+
+export function configChangeTtlMinutesFromEnv() {
+  return Number(process.env.CONFIG_CHANGE_TTL_MINUTES ?? 15);
+}
+
+function missing(field: string, action: string): never {
+  throw new ValidationError([
+    { field, message: `is required to ${action}` },
+  ]);
+}
+
+// The call a proposal describes, with the fields its action needs
+function callFrom(input: ProposeConfigChangeRequest): ContractConfigCall {
+  switch (input.action) {
+    case "setService": {
+      const { service, minReputation, isActive } = input;
+      if (service === undefined) missing("service", "set a service");
+      if (minReputation === undefined) missing("minReputation", "set a service");
+      if (isActive === undefined) missing("isActive", "set a service");
+      return { action: "setService", service, minReputation, isActive };
+    }
+    case "setVerificationConfig":
+      if (input.configId === undefined) {
+        missing("configId", "set the verification config");
+      }
+      return { action: "setVerificationConfig", configId: input.configId };
+    case "advancePhase":
+      return { action: "advancePhase" };
+    case "setMerkleRoot":
+      if (input.merkleRoot === undefined) {
+        missing("merkleRoot", "set the Merkle root");
+      }
+      return { action: "setMerkleRoot", merkleRoot: input.merkleRoot };
+    case "setBorrowerBan": {
+      const { borrower, banned } = input;
+      if (borrower === undefined) missing("borrower", "ban a borrower");
+      if (banned === undefined) missing("banned", "ban a borrower");
+      // Lowercased first: a mixed-case address with a bad checksum would
+      // make getAddress throw
+      return {
+        action: "setBorrowerBan",
+        borrower: ethers.getAddress(borrower.toLowerCase()),
+        banned,
+      };
+    }
+    case "withdrawFromPool": {
+      if (input.amount === undefined) {
+        missing("amount", "withdraw from the pool");
+      }
+      // Numbers below 1e-6 or from 1e21 stringify in exponent form, which
+      // parseEther rejects, as it does more than 18 decimals
+      const amount = String(input.amount);
+      try {
+        ethers.parseEther(amount);
+      } catch {
+        throw new ValidationError([
+          {
+            field: "amount",
+            message: "must be from 0.000001 to below 1e21 tokens, with at most 18 decimals",
+          },
+        ]);
+      }
+      return { action: "withdrawFromPool", amount };
+    }
+  }
+}
+
+// The stored arguments back as a call
+function storedCall(change: ConfigChange): ContractConfigCall {
+  return { action: change.action, ...change.params } as ContractConfigCall;
+}
+
+// A chain read for an admin request; a failure is a 502
+export async function readOnChain<T>(read: () => Promise<T>): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    throw new ApiError(502, "Failed to read the current setting", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+interface ChangeDescription {
+  summary: string;
+  before: Record<string, ConfigValue>;
+  after: Record<string, ConfigValue>;
+}
+
+// What the call would change, read from the contracts as they are now
+async function describeCall(
+  call: ContractConfigCall
+): Promise<ChangeDescription> {
+  switch (call.action) {
+    case "setService": {
+      const { services } = await getCatalog();
+      const service = services.find((service) => service.key === call.service);
+      if (!service) {
+        throw new ValidationError([
+          {
+            field: "service",
+            message: `must be one of ${services
+              .map((service) => service.key)
+              .join(", ")}`,
+          },
+        ]);
+      }
+      const before = await readOnChain(() =>
+        getServiceRequirementOnChain(call.service)
+      );
+      return {
+        summary: `${service.name}: ${
+          call.isActive ? `open from ${call.minReputation} reputation` : "closed"
+        }`,
+        before,
+        after: { minReputation: call.minReputation, isActive: call.isActive },
+      };
+    }
+    case "setVerificationConfig": {
+      const { identity } = await readOnChain(getContractSettingsOnChain);
+      return {
+        summary: `Identity verification config ${call.configId}`,
+        before: { configId: identity.verificationConfigId },
+        after: { configId: call.configId },
+      };
+    }
+    case "advancePhase": {
+      const { airdrop } = await readOnChain(getContractSettingsOnChain);
+      const index = AIRDROP_PHASES.indexOf(airdrop.phase);
+      if (index === AIRDROP_PHASES.length - 1) {
+        throw new ApiError(409, "The airdrop has already ended");
+      }
+      const next = AIRDROP_PHASES[index + 1];
+      // Say so when this is ahead of the schedule
+      const startsAt = phaseStartsAt(airdropScheduleForRequest(), next);
+      const early =
+        startsAt && startsAt > new Date()
+          ? ` (scheduled for ${startsAt.toISOString()})`
+          : "";
+      return {
+        summary: `Airdrop phase ${airdrop.phase} -> ${next}${early}`,
+        before: { phase: airdrop.phase },
+        after: { phase: next },
+      };
+    }
+    case "setMerkleRoot": {
+      const { airdrop } = await readOnChain(getContractSettingsOnChain);
+      return {
+        summary: `Airdrop bonus Merkle root ${call.merkleRoot}`,
+        before: { merkleRoot: airdrop.merkleRoot },
+        after: { merkleRoot: call.merkleRoot },
+      };
+    }
+    case "setBorrowerBan": {
+      const profile = await readOnChain(() =>
+        getBorrowerProfileOnChain(call.borrower)
+      );
+      return {
+        summary: `${call.banned ? "Ban" : "Lift the ban on"} borrower ${call.borrower}`,
+        before: { banned: profile.isBanned },
+        after: { banned: call.banned },
+      };
+    }
+    case "withdrawFromPool": {
+      const { lending } = await readOnChain(getContractSettingsOnChain);
+      const pool = ethers.parseEther(lending.totalPoolFunds);
+      const amount = ethers.parseEther(call.amount);
+      if (amount > pool) {
+        throw new ValidationError([
+          {
+            field: "amount",
+            message: `exceeds the ${lending.totalPoolFunds} tokens in the pool`,
+          },
+        ]);
+      }
+      return {
+        summary: `Withdraw ${call.amount} tokens from the lending pool`,
+        before: { totalPoolFunds: lending.totalPoolFunds },
+        after: { totalPoolFunds: ethers.formatEther(pool - amount) },
+      };
+    }
+  }
+}
+
+function sameValues(
+  a: Record<string, ConfigValue>,
+  b: Record<string, ConfigValue>
+) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Proposals past their expiry are marked expired when next read
+async function expireIfDue(change: ConfigChange): Promise<ConfigChange> {
+  if (change.status !== "proposed" || change.expiresAt.getTime() > Date.now()) {
+    return change;
+  }
+  const repository = getRepository();
+  const expired: ConfigChange = { ...change, status: "expired" };
+  if (await repository.transitionConfigChange(expired, "proposed")) {
+    return expired;
+  }
+  // Decided meanwhile
+  return (await repository.getConfigChange(change.id)) ?? change;
+}
+
+async function proposedChange(id: string): Promise<ConfigChange> {
+  const stored = await getRepository().getConfigChange(id);
+  if (!stored) {
+    throw new ApiError(404, `Config change ${id} not found`);
+  }
+  const change = await expireIfDue(stored);
+  if (change.status !== "proposed") {
+    throw new ApiError(409, `This change is already ${change.status}`);
+  }
+  return change;
+}
+
+// The contract settings the admin console can change, as they are now
+export async function getContractSettings() {
+  const [settings, { services }] = await Promise.all([
+    readOnChain(getContractSettingsOnChain),
+    getCatalog(),
+  ]);
+  return {
+    success: true,
+    settings: {
+      ...settings,
+      airdrop: { ...settings.airdrop, schedule: airdropScheduleForRequest() },
+      services,
+    },
+  };
+}
+
+// A borrower's standing in the lending pool, to check before a ban
+export async function getBorrower(address: string) {
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new ValidationError([
+      { field: "address", message: "must be a 0x-prefixed 20-byte address" },
+    ]);
+  }
+  return {
+    success: true,
+    address: ethers.getAddress(address),
+    profile: await readOnChain(() => getBorrowerProfileOnChain(address)),
+  };
+}
+
+/**
+ * Propose a change. Nothing is sent yet: the response shows the current and
+ * new values, and an admin confirms within CONFIG_CHANGE_TTL_MINUTES
+ * (default 15) to send it.
+ */
+export async function proposeConfigChange(admin: string, input: unknown) {
+  const request = validate<ProposeConfigChangeRequest>(
+    "ProposeConfigChangeRequest",
+    input
+  );
+  const call = callFrom(request);
+  const { action, ...params } = call;
+  const { summary, before, after } = await describeCall(call);
+  if (sameValues(before, after)) {
+    throw new ApiError(409, `Nothing to change: ${summary} is already set`);
+  }
+
+  const proposedAt = new Date();
+  const change: ConfigChange = {
+    id: `cfg_${crypto.randomUUID()}`,
+    action,
+    target: CONFIG_CALL_TARGETS[action],
+    params,
+    summary,
+    before,
+    after,
+    status: "proposed",
+    proposedBy: admin,
+    proposedAt,
+    expiresAt: new Date(
+      proposedAt.getTime() + configChangeTtlMinutesFromEnv() * MINUTE_MS
+    ),
+    decidedBy: null,
+    decidedAt: null,
+    transactionId: null,
+    transactionHash: null,
+    error: null,
+  };
+  await getRepository().saveConfigChange(change);
+  console.log(`📝 ${admin} proposed ${change.target}: ${summary}`);
+
+  return {
+    success: true,
+    message: `Confirm to send ${change.target}`,
+    change,
+  };
+}
+
+// Record how the transaction ended, once it has
+function settleChange(
+  change: ConfigChange,
+  result: Promise<{ transactionHash: string }>
+): Promise<ConfigChange> {
+  const repository = getRepository();
+  return result.then(
+    async ({ transactionHash }) => {
+      const confirmed: ConfigChange = {
+        ...change,
+        status: "confirmed",
+        transactionHash,
+      };
+      await repository.saveConfigChange(confirmed);
+      if (change.action === "setService") {
+        invalidateCatalog();
+      }
+      return confirmed;
+    },
+    async (error) => {
+      const failed: ConfigChange = {
+        ...change,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+      await repository.saveConfigChange(failed);
+      return failed;
+    }
+  );
+}
+
+// Actions with a confirmed change on its way on-chain. Another change of
+// the same action waits until it settles: a second advancePhase checked
+// before the first is mined would still see the old phase, and skip one.
+const inFlight = new Set<ConfigChangeAction>();
+
+// Check a proposal against the contracts, take it off "proposed" and send
+// it; `settled` resolves with the change once its transaction has
+async function sendConfigChange(admin: string, change: ConfigChange) {
+  const repository = getRepository();
+  const call = storedCall(change);
+
+  const { before } = await describeCall(call);
+  if (!sameValues(before, change.before)) {
+    await repository.transitionConfigChange(
+      {
+        ...change,
+        status: "expired",
+        error: "The setting changed after this was proposed",
+      },
+      "proposed"
+    );
+    throw new ApiError(
+      409,
+      "The setting changed after this was proposed; propose it again",
+      { current: before }
+    );
+  }
+
+  // Taken off "proposed" before anything is sent, so of two confirms of
+  // the same proposal only one sends
+  const decided: ConfigChange = {
+    ...change,
+    status: "submitted",
+    decidedBy: admin,
+    decidedAt: new Date(),
+  };
+  if (!(await repository.transitionConfigChange(decided, "proposed"))) {
+    const current = await repository.getConfigChange(change.id);
+    throw new ApiError(
+      409,
+      `This change is already ${current?.status ?? "decided"}`
+    );
+  }
+
+  let submitted;
+  try {
+    submitted = await submitConfigCallOnChain(call);
+  } catch (error) {
+    const reason = revertReason(error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const failed: ConfigChange = {
+      ...decided,
+      status: "failed",
+      error: reason ?? message,
+    };
+    await repository.saveConfigChange(failed);
+    throw new ApiError(
+      reason ? 422 : 502,
+      reason
+        ? `${change.target} would revert: ${reason}`
+        : `Failed to send ${change.target}`,
+      { change: failed }
+    );
+  }
+
+  const sent: ConfigChange = {
+    ...decided,
+    transactionId: submitted.transactionId,
+    transactionHash: submitted.transactionHash,
+  };
+  await repository.saveConfigChange(sent);
+  console.log(
+    `🛠️  ${admin} confirmed ${change.target}: ${change.summary} (${submitted.transactionHash})`
+  );
+
+  return { sent, submitted, settled: settleChange(sent, submitted.result) };
+}
+
+/**
+ * Send a proposed change. If the setting has changed since it was proposed,
+ * the proposal is expired instead, so nobody confirms values they didn't see.
+ * While one change is being sent, confirming another with the same action
+ * is a 409.
+ */
+export async function confirmConfigChange(
+  admin: string,
+  id: string,
+  { respondAsync = false }: SubmitOptions = {}
+) {
+  const change = await proposedChange(id);
+  if (inFlight.has(change.action)) {
+    throw new ApiError(
+      409,
+      `Another ${change.target} is still being sent; confirm this once it is mined`
+    );
+  }
+
+  inFlight.add(change.action);
+  let sending;
+  try {
+    sending = await sendConfigChange(admin, change);
+  } catch (error) {
+    inFlight.delete(change.action);
+    throw error;
+  }
+  const { sent, submitted } = sending;
+  const settled = sending.settled.finally(() =>
+    inFlight.delete(change.action)
+  );
+
+  if (respondAsync) {
+    settled.catch((error) =>
+      console.error(`❌ Failed to record ${change.id}:`, error)
+    );
+    return {
+      success: true,
+      change: sent,
+      pendingTransaction: pendingTransaction(
+        submitted.transactionId,
+        submitted.transactionHash,
+        "/v1/admin/transactions"
+      ),
+    };
+  }
+
+  const final = await settled;
+  if (final.status === "failed") {
+    throw new ApiError(502, final.error ?? `${change.target} failed`, {
+      change: final,
+    });
+  }
+  return { success: true, change: final };
+}
+
+// Drop a proposal without sending it
+export async function cancelConfigChange(admin: string, id: string) {
+  const change = await proposedChange(id);
+  const cancelled: ConfigChange = {
+    ...change,
+    status: "cancelled",
+    decidedBy: admin,
+    decidedAt: new Date(),
+  };
+  if (!(await getRepository().transitionConfigChange(cancelled, "proposed"))) {
+    throw new ApiError(409, "This change was decided meanwhile");
+  }
+
+  return { success: true, message: "Change cancelled", change: cancelled };
+}
+
+// The audit log, newest first. Query: status, action, limit
+export async function listConfigChanges(query: Record<string, unknown>) {
+  const { status, action } = query;
+  const errors = [];
+  if (
+    status !== undefined &&
+    !CHANGE_STATUSES.includes(status as ConfigChangeStatus)
+  ) {
+    errors.push({
+      field: "status",
+      message: `must be one of ${CHANGE_STATUSES.join(", ")}`,
+    });
+  }
+  if (
+    action !== undefined &&
+    !Object.keys(CONFIG_CALL_TARGETS).includes(action as string)
+  ) {
+    errors.push({
+      field: "action",
+      message: `must be one of ${Object.keys(CONFIG_CALL_TARGETS).join(", ")}`,
+    });
+  }
+  const limit = Number(query.limit ?? DEFAULT_CHANGE_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CHANGE_LIMIT) {
+    errors.push({
+      field: "limit",
+      message: `must be an integer from 1 to ${MAX_CHANGE_LIMIT}`,
+    });
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  // Expire overdue proposals first, so they are listed as expired
+  const repository = getRepository();
+  for (const change of await repository.listConfigChanges({
+    status: "proposed",
+  })) {
+    await expireIfDue(change);
+  }
+
+  const changes = await repository.listConfigChanges({
+    status: status as ConfigChangeStatus | undefined,
+    action: action as ConfigChangeAction | undefined,
+  });
+  return { success: true, changes: changes.reverse().slice(0, limit) };
+}
@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import {
+  createProposalOnChain,
+  getMinReputationToCreateProposal,
+  getProposalOnChain,
+  hasVotedOnChain,
+  listProposalsOnChain,
+  Proposal,
+  submitExecutionOnChain,
+  submitVoteOnChain,
+} from "../governance";
+import { getService } from "../catalog";
+import { ApiError } from "../errors";
+import { getRepository, Transaction, User } from "../storage";
+import { toUserAddress } from "../shared/user-address";
+import { CastVoteRequest, CreateProposalRequest } from "../shared/api-types";
+import { validate, ValidationError } from "../validation";
+import {
+  pendingTransaction,
+  settleInBackground,
+  SubmitOptions,
+} from "./transactions";
+
+// Add what the requesting user needs to know about a proposal
+async function withUserContext(user: User, proposal: Proposal) {
+  return {
+    ...proposal,
+    hasVoted: await hasVotedOnChain(
+      proposal.proposalId,
+      toUserAddress(user.userIdentifier)
+    ),
+    eligible: user.reputationScore >= proposal.minReputationRequired,
+  };
+}
+
+async function requireProposal(proposalId: number) {
+  const proposal = await getProposalOnChain(proposalId);
+  if (!proposal) {
+    throw new ApiError(404, `Proposal ${proposalId} not found`);
+  }
+  return proposal;
+}
+
+// List proposals with tallies and the user's voting status
+export async function listProposals(user: User) {
+  const proposals = await listProposalsOnChain();
+
+  return {
+    success: true,
+    proposals: await Promise.all(
+      proposals.map((proposal) => withUserContext(user, proposal))
+    ),
+  };
+}
+
+export async function getProposal(user: User, proposalId: number) {
+  return {
+    success: true,
+    proposal: await withUserContext(user, await requireProposal(proposalId)),
+  };
+}
+
+// Handle proposal creation
+export async function createProposal(user: User, input: unknown) {
+  const {
+    description,
+    votingDurationDays,
+    minReputationRequired: requestedMinReputation,
+  } = validate<CreateProposalRequest>("CreateProposalRequest", input);
+
+  const required = await getMinReputationToCreateProposal();
+  if (user.reputationScore < required) {
+    throw new ApiError(
+      403,
+      `Insufficient reputation to create proposals. Required: ${required}, Current: ${user.reputationScore}`
+    );
+  }
+
+  // A proposer can't shut out voters with more reputation than they have.
+  // Unless they say otherwise, voting needs what the governance service
+  // requires, up to the proposer's own score.
+  if (
+    requestedMinReputation !== undefined &&
+    requestedMinReputation > user.reputationScore
+  ) {
+    throw new ValidationError([
+      {
+        field: "minReputationRequired",
+        message: `must be at most your reputation score (${user.reputationScore})`,
+      },
+    ]);
+  }
+  const minReputationRequired =
+    requestedMinReputation ??
+    Math.min(
+      (await getService("governance")).minReputation,
+      user.reputationScore
+    );
+
+  let onChainResult;
+  try {
+    onChainResult = await createProposalOnChain(
+      toUserAddress(user.userIdentifier),
+      description,
+      votingDurationDays,
+      minReputationRequired
+    );
+  } catch (error) {
+    throw new ApiError(
+      502,
+      error instanceof Error ? error.message : "Failed to create proposal"
+    );
+  }
+
+  const proposalTransaction: Transaction = {
+    id: `proposal_${onChainResult.proposalId}`,
+    type: "governance_proposal",
+    amount: `Proposal #${onChainResult.proposalId}`,
+    status: "completed",
+    timestamp: new Date(),
+    onChain: onChainResult,
+  };
+
+  await getRepository().addTransaction(
+    user.userIdentifier,
+    proposalTransaction
+  );
+
+  return {
+    success: true,
+    message: "Proposal created on-chain",
+    proposal: await getProposalOnChain(onChainResult.proposalId),
+    transaction: proposalTransaction,
+    transactionHash: onChainResult.transactionHash,
+  };
+}
+
+// Handle governance voting
+export async function castVote(
+  user: User,
+  input: unknown,
+  { respondAsync = false }: SubmitOptions = {}
+) {
+  const { proposalId, vote = "Yes" } = validate<CastVoteRequest>(
+    "CastVoteRequest",
+    input
+  );
+  const { userIdentifier } = user;
+  const voterAddress = toUserAddress(userIdentifier);
+
+  const proposal = await requireProposal(proposalId);
+  if (proposal.status !== "active") {
+    throw new ApiError(409, `Voting on proposal ${proposalId} has ended`);
+  }
+
+  if (user.reputationScore < proposal.minReputationRequired) {
+    throw new ApiError(
+      403,
+      `Insufficient reputation for governance. Required: ${proposal.minReputationRequired}, Current: ${user.reputationScore}`
+    );
+  }
+
+  if (await hasVotedOnChain(proposalId, voterAddress)) {
+    throw new ApiError(409, `Already voted on proposal ${proposalId}`);
+  }
+
+  // Cast vote on-chain, attributed to the user's address
+  const support = vote === "Yes" || vote === true;
+  let submitted;
+  let onChainResult;
+  try {
+    submitted = await submitVoteOnChain(proposalId, voterAddress, support);
+    if (!respondAsync) {
+      onChainResult = await submitted.result;
+    }
+  } catch (error) {
+    throw new ApiError(
+      502,
+      error instanceof Error ? error.message : "Failed to cast vote on-chain"
+    );
+  }
+
+  const voteTransaction: Transaction = {
+    id: `vote_${proposalId}_${crypto.randomUUID()}`,
+    type: "governance",
+    amount: String(vote),
+    status: onChainResult ? "completed" : "pending",
+    timestamp: new Date(),
+    onChain: onChainResult ?? {
+      transactionId: submitted.transactionId,
+      transactionHash: submitted.transactionHash,
+    },
+  };
+
+  await getRepository().addTransaction(userIdentifier, voteTransaction);
+
+  if (!onChainResult) {
+    settleInBackground(voteTransaction.id, submitted.result);
+    return {
+      success: true,
+      message: "Vote submitted; it counts once the transaction is mined",
+      proposalId,
+      vote,
+      transaction: voteTransaction,
+      pendingTransaction: pendingTransaction(
+        submitted.transactionId,
+        submitted.transactionHash
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    message: "Vote recorded successfully on-chain",
+    proposalId,
+    vote,
+    votingPower: onChainResult.votingPower,
+    transaction: voteTransaction,
+    transactionHash: onChainResult.transactionHash,
+  };
+}
+
+// Execute a proposal that has passed. It goes in the history of the user
+// who asked, so they can follow the transaction.
+export async function executeProposal(
+  user: User,
+  proposalId: number,
+  { respondAsync = false }: SubmitOptions = {}
+) {
+  const proposal = await requireProposal(proposalId);
+  if (proposal.status !== "passed") {
+    throw new ApiError(
+      409,
+      `Proposal ${proposalId} cannot be executed while ${proposal.status}`
+    );
+  }
+
+  let submitted;
+  let onChainResult;
+  try {
+    submitted = await submitExecutionOnChain(proposalId);
+    if (!respondAsync) {
+      onChainResult = await submitted.result;
+    }
+  } catch (error) {
+    throw new ApiError(
+      502,
+      error instanceof Error ? error.message : "Failed to execute proposal"
+    );
+  }
+
+  const executionTransaction: Transaction = {
+    id: `execute_${proposalId}_${crypto.randomUUID()}`,
+    type: "governance",
+    amount: `Execute proposal #${proposalId}`,
+    status: onChainResult ? "completed" : "pending",
+    timestamp: new Date(),
+    onChain: {
+      transactionId: submitted.transactionId,
+      transactionHash: submitted.transactionHash,
+    },
+  };
+  await getRepository().addTransaction(
+    user.userIdentifier,
+    executionTransaction
+  );
+
+  if (!onChainResult) {
+    settleInBackground(executionTransaction.id, submitted.result);
+    return {
+      success: true,
+      message: `Execution of proposal ${proposalId} submitted`,
+      proposal,
+      transaction: executionTransaction,
+      pendingTransaction: pendingTransaction(
+        submitted.transactionId,
+        submitted.transactionHash
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    message: `Proposal ${proposalId} executed`,
+    proposal: await getProposalOnChain(proposalId),
+    transaction: executionTransaction,
+    transactionHash: onChainResult.transactionHash,
+  };
+}
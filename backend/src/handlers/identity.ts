@@ -0,0 +1,259 @@
+import { Request, Response } from "express";
+import { selfBackendVerifierFor } from "../self";
+import { checkIdentityOnChain } from "../contracts";
+import { ApiError } from "../errors";
+import { DuplicateUserError, getRepository, User } from "../storage";
+import {
+  issueSession,
+  createSessionGrant,
+  claimSessionGrant,
+  sessionNonceFrom,
+} from "../session";
+import {
+  ClaimSessionRequest,
+  MockVerificationRequest,
+  SelfVerificationRequest,
+} from "../shared/api-types";
+import { validate } from "../validation";
+
+// Handle identity verification with enhanced Self Protocol integration
+export async function handleVerification(req: Request, res: Response) {
+  // Demo mode: the simulated QR flow has no proof to check
+  if (process.env.SELF_MOCK_MODE === "true" && req.body?.mockVerification) {
+    return handleMockVerification(req, res);
+  }
+
+  const { attestationId, proof, publicSignals, userContextData } =
+    validate<SelfVerificationRequest>("SelfVerificationRequest", req.body);
+
+  try {
+    // Use Self Protocol verification (configured for mock mode in constructor)
+    console.log("🔐 Using Self Protocol verification (mock mode enabled)");
+
+    const result = await selfBackendVerifierFor(userContextData).verify(
+      attestationId,
+      proof,
+      publicSignals,
+      userContextData
+    );
+
+    console.log("📋 Self verification result:", {
+      isValid: result.isValidDetails.isValid,
+      details: result.isValidDetails,
+    });
+
+    if (!result.isValidDetails.isValid) {
+      return res.status(400).json({
+        status: "error",
+        result: false,
+        message: "Self Protocol verification failed",
+        details: result.isValidDetails,
+      });
+    }
+
+    const { userIdentifier, userDefinedData } = result.userData;
+    const sessionNonce = sessionNonceFrom(userDefinedData);
+    const nullifier = result.discloseOutput?.nullifier || userIdentifier;
+
+    // A known nullifier is the same person re-verifying (e.g. after their
+    // session expired). Hand them a fresh session for their existing record
+    // instead of creating a second identity.
+    const existingUser = await getRepository().getUserByNullifier(nullifier);
+    if (existingUser) {
+      const session = issueSession(existingUser);
+      createSessionGrant(userIdentifier, sessionNonce, session);
+
+      console.log(
+        `🔁 Re-verified existing identity: ${existingUser.userIdentifier}`
+      );
+
+      return res.status(200).json({
+        status: "success",
+        result: true,
+        reverified: true,
+        nullifierExists: true,
+        session,
+        verificationDetails: {
+          userIdentifier: existingUser.userIdentifier,
+          attestationType: attestationId,
+          timestamp: new Date().toISOString(),
+          verified: true,
+          mode: "self-protocol",
+          onChain: await checkIdentityOnChain(
+            existingUser.userIdentifier,
+            existingUser.reputationScore
+          ),
+        },
+      });
+    }
+
+    // Extract disclosed information
+    const disclosures = result.discloseOutput || {};
+
+    // Persist the user and claim the nullifier
+    const newUser: User = {
+      nullifier,
+      userIdentifier,
+      reputationScore: 0,
+      attestations: [],
+      transactions: [],
+      createdAt: new Date(),
+    };
+
+    await getRepository().createUser(newUser);
+
+    const session = issueSession(newUser);
+    createSessionGrant(userIdentifier, sessionNonce, session);
+
+    // Registration happens on-chain via the Self Protocol Hub; report what
+    // the contract recorded for this user
+    const onChainResult = await checkIdentityOnChain(
+      userIdentifier,
+      newUser.reputationScore
+    );
+    if (onChainResult.success) {
+      console.log(
+        `✅ Identity checked on-chain: ${
+          onChainResult.isRegistered ? "registered" : "not registered"
+        } at ${onChainResult.userAddress}`
+      );
+    } else {
+      console.warn(
+        "⚠️ On-chain identity check failed, continuing with off-chain:",
+        onChainResult.error
+      );
+    }
+
+    console.log(
+      `✅ Self Protocol verification successful for user: ${userIdentifier}`
+    );
+
+    return res.status(200).json({
+      status: "success",
+      result: true,
+      credentialSubject: disclosures,
+      session,
+      verificationDetails: {
+        userIdentifier,
+        attestationType: attestationId,
+        timestamp: new Date().toISOString(),
+        verified: true,
+        mode: "self-protocol",
+        onChain: onChainResult,
+      },
+    });
+  } catch (error) {
+    // The identifier belongs to someone who verified with another document
+    if (error instanceof DuplicateUserError) {
+      return res.status(409).json({
+        status: "error",
+        result: false,
+        message: "This identifier is already registered to another identity",
+      });
+    }
+    console.error("❌ Verification error:", error);
+
+    // Enhanced error handling
+    let errorMessage = "Verification failed";
+    let errorDetails = {};
+
+    if (error instanceof Error) {
+      errorMessage = error.message;
+
+      // Check for specific Self Protocol errors
+      if (error.message.includes("scope")) {
+        errorMessage = "Scope mismatch between frontend and backend";
+        errorDetails = { scopeError: true };
+      } else if (error.message.includes("config")) {
+        errorMessage = "Configuration mismatch";
+        errorDetails = { configError: true };
+      } else if (error.message.includes("proof")) {
+        errorMessage = "Invalid zero-knowledge proof";
+        errorDetails = { proofError: true };
+      }
+    }
+
+    return res.status(500).json({
+      status: "error",
+      result: false,
+      message: errorMessage,
+      error: process.env.NODE_ENV === "development" ? error : undefined,
+      details: errorDetails,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Register a simulated identity (SELF_MOCK_MODE only)
+async function handleMockVerification(req: Request, res: Response) {
+  const { userIdentifier } = validate<MockVerificationRequest>(
+    "MockVerificationRequest",
+    req.body
+  );
+
+  const nullifier = `mock_${userIdentifier}`;
+  let user = await getRepository().getUserByNullifier(nullifier);
+  const reverified = Boolean(user);
+
+  if (!user) {
+    try {
+      user = await getRepository().createUser({
+        nullifier,
+        userIdentifier,
+        reputationScore: 0,
+        attestations: [],
+        transactions: [],
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof DuplicateUserError) {
+        throw new ApiError(
+          409,
+          "This identifier is already registered to another identity"
+        );
+      }
+      throw error;
+    }
+  }
+
+  console.log(`🧪 Mock verification for user: ${userIdentifier}`);
+
+  return res.status(200).json({
+    status: "success",
+    result: true,
+    reverified,
+    session: issueSession(user),
+    verificationDetails: {
+      userIdentifier: user.userIdentifier,
+      timestamp: new Date().toISOString(),
+      verified: true,
+      mode: "mock",
+      onChain: await checkIdentityOnChain(
+        user.userIdentifier,
+        user.reputationScore
+      ),
+    },
+  });
+}
+
+// Exchange the identifier and nonce from the QR code for the session created
+// by the Self app callback
+export async function handleClaimSession(req: Request, res: Response) {
+  const { userIdentifier, sessionNonce } = validate<ClaimSessionRequest>(
+    "ClaimSessionRequest",
+    req.body
+  );
+
+  const session = claimSessionGrant(userIdentifier, sessionNonce);
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      message: "No pending verification for this identifier",
+    });
+  }
+
+  return res.json({
+    success: true,
+    session,
+  });
+}
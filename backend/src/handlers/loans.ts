@@ -0,0 +1,187 @@
+import { requireService } from "../catalog";
+import {
+  approveLoanOnChain,
+  getBorrowerProfileOnChain,
+  getLoanOnChain,
+  getUserLoansOnChain,
+  requestLoanOnChain,
+  revertReason,
+} from "../contracts";
+import { ApiError } from "../errors";
+import { getRepository, Transaction, User } from "../storage";
+import { ApplyMicroloanRequest } from "../shared/api-types";
+import { toUserAddress, userIdentifierFormat } from "../shared/user-address";
+import { validate } from "../validation";
+
+const DEFAULT_LOAN_DURATION_DAYS = 30;
+
+// Loans up to this amount are approved immediately; larger ones wait for an
+// operator to call approveLoan
+const AUTO_APPROVE_MAX_AMOUNT = Number(
+  process.env.LOAN_AUTO_APPROVE_MAX || 200
+);
+
+// UnbankedLending errors caused by the request or the borrower's standing,
+// rather than by the chain or the backend
+const LOAN_REJECTIONS: Record<string, { status: number; message: string }> = {
+  InvalidAmount: {
+    status: 422,
+    message: "The loan amount or duration is outside the contract's limits",
+  },
+  NotRegistered: {
+    status: 403,
+    message: "You are not registered on-chain yet",
+  },
+  InsufficientReputation: {
+    status: 403,
+    message: "Your on-chain reputation is too low for a loan",
+  },
+  UnauthorizedAccess: {
+    status: 403,
+    message: "You are banned from borrowing or already have too many active loans",
+  },
+  InsufficientFunds: {
+    status: 409,
+    message: "The lending pool does not have enough funds for this loan",
+  },
+};
+
+// Whether a freshly requested loan can be approved without review
+async function canAutoApprove(borrowerAddress: string, amount: number) {
+  if (amount > AUTO_APPROVE_MAX_AMOUNT) {
+    return false;
+  }
+
+  const profile = await getBorrowerProfileOnChain(borrowerAddress);
+  return !profile.isBanned && profile.defaultedLoans === 0;
+}
+
+// Handle microloan application
+export async function applyMicroloan(user: User, input: unknown) {
+  const { requestedAmount, durationDays = DEFAULT_LOAN_DURATION_DAYS } =
+    validate<ApplyMicroloanRequest>("ApplyMicroloanRequest", input);
+  const { userIdentifier } = user;
+
+  // Repayments are signed from the borrower's own wallet, so a UUID identity
+  // could take a loan it has no way to repay
+  if (userIdentifierFormat(userIdentifier) !== "hex") {
+    throw new ApiError(
+      403,
+      "Loans need a wallet identity, because repayments are signed from your own wallet. Verify with your wallet address as the Self user ID to borrow."
+    );
+  }
+
+  await requireService("microloan", user.reputationScore);
+
+  const maxLoanAmount = Math.min(50 + user.reputationScore * 0.5, 500);
+  const approvedAmount = Math.min(
+    requestedAmount || maxLoanAmount,
+    maxLoanAmount
+  );
+  const borrowerAddress = toUserAddress(userIdentifier);
+
+  // Create the loan on-chain
+  let requested;
+  try {
+    requested = await requestLoanOnChain(
+      borrowerAddress,
+      approvedAmount,
+      durationDays
+    );
+  } catch (error) {
+    const reason = revertReason(error);
+    const rejection = reason ? LOAN_REJECTIONS[reason] : undefined;
+    if (rejection) {
+      throw new ApiError(rejection.status, rejection.message, { reason });
+    }
+    throw new ApiError(
+      502,
+      reason
+        ? `Loan request rejected on-chain: ${reason}`
+        : error instanceof Error
+          ? error.message
+          : "Failed to create loan on-chain"
+    );
+  }
+
+  // Approve it straight away if it is within the auto-approval policy
+  let approval;
+  try {
+    if (await canAutoApprove(borrowerAddress, approvedAmount)) {
+      approval = await approveLoanOnChain(requested.loanId);
+    }
+  } catch (error) {
+    // The loan exists on-chain either way; it can still be approved manually
+    console.warn(`⚠️ Auto-approval of loan ${requested.loanId} failed:`, error);
+  }
+
+  const status = approval ? "active" : "pending_approval";
+  const dueDate = approval?.dueDate ?? null;
+
+  const loanTransaction: Transaction = {
+    id: `loan_${requested.loanId}`,
+    type: "microloan",
+    amount: `$${approvedAmount}`,
+    status,
+    timestamp: new Date(),
+    onChain: {
+      loanId: requested.loanId,
+      interestRate: requested.interestRate,
+      dueDate,
+      transactionHash: requested.transactionHash,
+      blockNumber: requested.blockNumber,
+      approvalTransactionHash: approval?.transactionHash ?? null,
+    },
+  };
+
+  await getRepository().addTransaction(userIdentifier, loanTransaction);
+
+  return {
+    success: true,
+    message: approval
+      ? "Microloan approved"
+      : "Microloan requested and awaiting approval",
+    loanId: requested.loanId,
+    status,
+    approvedAmount,
+    maxLoanAmount,
+    durationDays,
+    interestRate: requested.interestRate / 100, // percent APR
+    dueDate,
+    transaction: loanTransaction,
+    transactionHash: requested.transactionHash,
+  };
+}
+
+// Fetch a loan and check it belongs to the user
+async function getOwnLoan(user: User, loanId: number) {
+  const loan = await getLoanOnChain(loanId);
+  const borrowerAddress = toUserAddress(user.userIdentifier);
+  if (!loan || loan.borrower.toLowerCase() !== borrowerAddress.toLowerCase()) {
+    throw new ApiError(404, `Loan ${loanId} not found`);
+  }
+  return loan;
+}
+
+// List the user's loans with their outstanding balance, plus borrower stats
+export async function listLoans(user: User) {
+  const borrowerAddress = toUserAddress(user.userIdentifier);
+
+  const [loans, borrower] = await Promise.all([
+    getUserLoansOnChain(borrowerAddress),
+    getBorrowerProfileOnChain(borrowerAddress),
+  ]);
+
+  return {
+    success: true,
+    loans,
+    borrower,
+  };
+}
+
+export async function getLoan(user: User, loanId: number) {
+  return {
+    success: true,
+    loan: await getOwnLoan(user, loanId),
+  };
+}
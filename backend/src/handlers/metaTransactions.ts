@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import { COMMUNITY_AIRDROP_ID } from "../airdropCampaigns";
+import { requireClaimPhase } from "../airdropSchedule";
+import { airdropClaimAmount } from "../contracts";
+import { ApiError } from "../errors";
+import {
+  MetaTransactionError,
+  MetaTransactionIntent,
+  prepareMetaTransactionOnChain,
+  relayMetaTransactionOnChain,
+} from "../metaTransactions";
+import {
+  PrepareMetaTransactionRequest,
+  PrepareMetaTransactionResponse,
+  RelayMetaTransactionRequest,
+} from "../shared/api-types";
+import { toUserAddress, userIdentifierFormat } from "../shared/user-address";
+import { getRepository, Transaction, User } from "../storage";
+import { validate, ValidationError } from "../validation";
+import { bonusFor } from "./airdrops";
+import {
+  pendingTransaction,
+  settleInBackground,
+  SubmitOptions,
+} from "./transactions";
+
+const STATUS_BY_REASON: Record<MetaTransactionError["reason"], number> = {
+  unavailable: 503,
+  invalid_request: 400,
+  invalid_signature: 400,
+  stale_nonce: 409,
+  reverted: 422,
+};
+
+function metaTransactionError(error: unknown, fallback: string) {
+  if (error instanceof MetaTransactionError) {
+    return new ApiError(STATUS_BY_REASON[error.reason], error.message, {
+      reason: error.reason,
+    });
+  }
+  return new ApiError(502, error instanceof Error ? error.message : fallback);
+}
+
+// Only a wallet identity can sign as the address the contracts know the
+// user by; a UUID identity's address has no private key
+function requireWalletAddress(user: User): string {
+  if (userIdentifierFormat(user.userIdentifier) !== "hex") {
+    throw new ApiError(
+      403,
+      "Meta-transactions need a wallet identity. Verify with your wallet address as the Self user ID to act from your own address."
+    );
+  }
+  return toUserAddress(user.userIdentifier);
+}
+
+// The intent a prepare request describes, with the fields its action needs
+function intentFrom(input: PrepareMetaTransactionRequest): MetaTransactionIntent {
+  switch (input.action) {
+    case "vote": {
+      const { proposalId, vote = "Yes" } = input;
+      if (proposalId === undefined) {
+        throw new ValidationError([
+          { field: "proposalId", message: "is required to vote" },
+        ]);
+      }
+      return {
+        action: "vote",
+        proposalId,
+        support: vote === "Yes" || vote === true,
+      };
+    }
+    case "claimAirdrop":
+      // The bonus is filled in from the Merkle tree once the phase is checked
+      return { action: "claimAirdrop", bonusAmount: 0n, merkleProof: [] };
+    case "repayLoan":
+      if (input.loanId === undefined) {
+        throw new ValidationError([
+          { field: "loanId", message: "is required to repay a loan" },
+        ]);
+      }
+      return { action: "repayLoan", loanId: input.loanId, amount: input.amount };
+  }
+}
+
+// Build the typed data the user signs in their wallet
+export async function prepareMetaTransaction(
+  user: User,
+  input: unknown
+): Promise<PrepareMetaTransactionResponse> {
+  const request = validate<PrepareMetaTransactionRequest>(
+    "PrepareMetaTransactionRequest",
+    input
+  );
+  const userAddress = requireWalletAddress(user);
+  let intent = intentFrom(request);
+  if (intent.action === "claimAirdrop") {
+    await requireClaimPhase();
+    const { bonusAmount, merkleProof } = await bonusFor(user.userIdentifier);
+    intent = { ...intent, bonusAmount, merkleProof };
+  }
+
+  try {
+    const prepared = await prepareMetaTransactionOnChain(userAddress, intent);
+    return { success: true, action: request.action, ...prepared };
+  } catch (error) {
+    throw metaTransactionError(error, "Failed to prepare meta-transaction");
+  }
+}
+
+// The history record a relayed intent leaves, like its regular endpoint's
+function historyRecord(intent: MetaTransactionIntent): Transaction {
+  const timestamp = new Date();
+  switch (intent.action) {
+    case "vote":
+      return {
+        id: `vote_${intent.proposalId}_${crypto.randomUUID()}`,
+        type: "governance",
+        amount: intent.support ? "Yes" : "No",
+        status: "pending",
+        timestamp,
+      };
+    case "claimAirdrop":
+      return {
+        id: `airdrop_${COMMUNITY_AIRDROP_ID}_${crypto.randomUUID()}`,
+        type: "airdrop",
+        amount: airdropClaimAmount(intent.bonusAmount),
+        status: "pending",
+        timestamp,
+      };
+    case "repayLoan":
+      return {
+        id: `repay_${intent.loanId}_${crypto.randomUUID()}`,
+        type: "loan_repayment",
+        amount: `${intent.amount} TOKENS`,
+        status: "pending",
+        timestamp,
+      };
+  }
+}
+
+// Relay the user's signed requests, with the backend paying the gas
+export async function relayMetaTransaction(
+  user: User,
+  input: unknown,
+  { respondAsync = false }: SubmitOptions = {}
+) {
+  const { action, requests } = validate<RelayMetaTransactionRequest>(
+    "RelayMetaTransactionRequest",
+    input
+  );
+  const userAddress = requireWalletAddress(user);
+
+  let submitted;
+  let onChainResult;
+  try {
+    submitted = await relayMetaTransactionOnChain(userAddress, action, requests);
+    if (!respondAsync) {
+      onChainResult = await submitted.result;
+    }
+  } catch (error) {
+    throw metaTransactionError(error, "Failed to relay meta-transaction");
+  }
+
+  const transaction: Transaction = {
+    ...historyRecord(submitted.intent),
+    status: onChainResult ? "completed" : "pending",
+    onChain: onChainResult ?? {
+      relayed: true,
+      signer: userAddress,
+      transactionId: submitted.transactionId,
+      transactionHash: submitted.transactionHash,
+    },
+  };
+
+  await getRepository().addTransaction(user.userIdentifier, transaction);
+
+  if (!onChainResult) {
+    settleInBackground(transaction.id, submitted.result);
+    return {
+      success: true,
+      message: "Signed request relayed; it takes effect once the transaction is mined",
+      action,
+      transaction,
+      pendingTransaction: pendingTransaction(
+        submitted.transactionId,
+        submitted.transactionHash
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    message: "Signed request relayed and mined",
+    action,
+    transaction,
+    transactionHash: onChainResult.transactionHash,
+    blockNumber: onChainResult.blockNumber,
+  };
+}
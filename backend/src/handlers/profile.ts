@@ -0,0 +1,101 @@
+import { getCatalog } from "../catalog";
+import { getUserOnChainData } from "../contracts";
+import {
+  attestationWeight,
+  decayPolicyFromEnv,
+  nextDecayAt,
+} from "../reputation";
+import { getRepository, User } from "../storage";
+
+// Where the score comes from: what each attestation counts for after decay
+// and revocation, and when it next loses points
+async function reputationBreakdown(user: User) {
+  const policy = decayPolicyFromEnv();
+  const now = new Date();
+
+  const attestations = user.attestations.map((attestation) => ({
+    id: attestation.id,
+    type: attestation.type,
+    attestedBy: attestation.attestedBy,
+    issuedAt: attestation.timestamp,
+    score: attestation.score,
+    decayedPoints: attestation.decayedPoints ?? 0,
+    weight: attestationWeight(attestation),
+    revokedAt: attestation.revokedAt ?? null,
+    revocationReason: attestation.revocationReason ?? null,
+    nextDecayAt: nextDecayAt(attestation, policy, now),
+  }));
+
+  const attestationPoints = attestations.reduce(
+    (sum, attestation) => sum + attestation.weight,
+    0
+  );
+  const upcoming = attestations
+    .map((attestation) => attestation.nextDecayAt)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return {
+    attestationPoints,
+    // The verification bonus, less penalties such as loan defaults
+    otherPoints: user.reputationScore - attestationPoints,
+    decayApplied: attestations.reduce(
+      (sum, attestation) => sum + attestation.decayedPoints,
+      0
+    ),
+    nextDecayAt: upcoming[0] ?? null,
+    decayPolicy: policy,
+    attestations,
+    adjustments: await getRepository().listReputationAdjustments(
+      user.userIdentifier
+    ),
+  };
+}
+
+// Which services the user's score opens, keyed by service, against the
+// thresholds UnbankedIdentity currently has
+async function serviceEligibility(user: User) {
+  const { services } = await getCatalog();
+  return Object.fromEntries(
+    services.map((service) => [
+      service.key,
+      service.isActive && user.reputationScore >= service.minReputation,
+    ])
+  );
+}
+
+// Handle get user profile
+export async function getProfile(user: User) {
+  const { userIdentifier } = user;
+
+  // Get on-chain data
+  let onChainData;
+  try {
+    onChainData = await getUserOnChainData(
+      userIdentifier,
+      user.reputationScore
+    );
+  } catch (error) {
+    console.warn("⚠️ Failed to get on-chain data:", error);
+    onChainData = { success: false };
+  }
+
+  return {
+    success: true,
+    profile: {
+      userIdentifier: user.userIdentifier,
+      reputationScore: user.reputationScore,
+      attestationCount: user.attestations.filter(
+        (attestation) => !attestation.revokedAt
+      ).length,
+      reputation: await reputationBreakdown(user),
+      transactionCount: user.transactions.length,
+      memberSince: user.createdAt,
+      eligibility: {
+        ...(await serviceEligibility(user)),
+        maxLoanAmount: Math.min(50 + user.reputationScore * 0.5, 500),
+      },
+      onChain: onChainData,
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { ApiError } from "../errors";
+import { getRepository, ManagedTransaction, User } from "../storage";
+import { getManagedTransaction } from "../txManager";
+
+// Handlers that send a transaction normally wait for it to be mined. With
+// `respondAsync` (the client sent `Prefer: respond-async`) they return as
+// soon as it is broadcast, with a pending transaction to poll.
+export interface SubmitOptions {
+  respondAsync?: boolean;
+}
+
+// What the API reports about a managed transaction
+export function describeTransaction(transaction: ManagedTransaction) {
+  // The mined attempt, or the latest one while pending
+  const transactionHash =
+    transaction.transactionHash ??
+    transaction.hashes[transaction.hashes.length - 1];
+
+  return {
+    id: transaction.id,
+    label: transaction.label,
+    status: transaction.status,
+    nonce: transaction.nonce,
+    transactionHash,
+    replacedHashes: transaction.hashes.filter(
+      (hash) => hash !== transactionHash
+    ),
+    blockNumber: transaction.blockNumber,
+    error: transaction.error,
+    createdAt: transaction.createdAt,
+    updatedAt: transaction.updatedAt,
+  };
+}
+
+// Body fragment for a 202 response. Users poll transactions their own
+// history records; admins can poll any.
+export function pendingTransaction(
+  transactionId: string,
+  transactionHash: string,
+  statusPath = "/v1/transactions"
+) {
+  return {
+    id: transactionId,
+    status: "pending",
+    transactionHash,
+    statusUrl: `${statusPath}/${transactionId}`,
+  };
+}
+
+// Mark a history record completed or failed once its transaction settles
+export function settleInBackground(
+  historyId: string,
+  result: Promise<unknown>
+) {
+  result
+    .then(
+      () => getRepository().updateTransactionStatus(historyId, "completed"),
+      (error) => {
+        console.warn(`⚠️ ${historyId} failed on-chain:`, error);
+        return getRepository().updateTransactionStatus(historyId, "failed");
+      }
+    )
+    .catch((error) =>
+      console.error(`❌ Failed to update ${historyId}:`, error)
+    );
+}
+
+// Whether one of the user's history records was sent as `transactionId`
+function sentFor(user: User, transactionId: string) {
+  return user.transactions.some(
+    (tx) =>
+      (tx.onChain as { transactionId?: string } | undefined)?.transactionId ===
+      transactionId
+  );
+}
+
+/**
+ * A managed transaction's status. With a `user`, only transactions sent on
+ * their behalf are found; anyone else's is a 404, like one that doesn't
+ * exist.
+ */
+export async function getTransactionStatus(transactionId: string, user?: User) {
+  const transaction =
+    user && !sentFor(user, transactionId)
+      ? undefined
+      : await getManagedTransaction(transactionId);
+  if (!transaction) {
+    throw new ApiError(404, `Transaction ${transactionId} not found`);
+  }
+  return { success: true, transaction: describeTransaction(transaction) };
+}
@@ -0,0 +1,100 @@
+import {
+  AirdropSchedule,
+  airdropScheduleFromEnv,
+  scheduledPhase,
+} from "../airdropSchedule";
+import { AIRDROP_PHASES, AirdropPhase, getAirdropPhaseOnChain } from "../contracts";
+import {
+  confirmConfigChange,
+  proposeConfigChange,
+} from "../handlers/configChanges";
+
+// Moves the community airdrop through its phases at the times in the
+// schedule. Each step goes through the same propose-and-confirm path as the
+// admin console, recorded as made by "schedule", so the audit log shows
+// every transition whoever made it. It only ever moves forward, and never
+// undoes a phase an admin started early.
+
+const SCHEDULE_ACTOR = "schedule";
+
+export interface AirdropPhaseReport {
+  checkedAt: string;
+  from: AirdropPhase;
+  scheduled: AirdropPhase;
+  // Phases entered on this run, in order
+  entered: AirdropPhase[];
+}
+
+/**
+ * Advance the airdrop until it reaches the phase the schedule says it
+ * should be in. A failed step stops the run; the next run tries again.
+ */
+export async function applyAirdropSchedule(
+  schedule: AirdropSchedule = airdropScheduleFromEnv()
+): Promise<AirdropPhaseReport> {
+  const now = new Date();
+  const from = await getAirdropPhaseOnChain();
+  const scheduled = scheduledPhase(schedule, now);
+  const entered: AirdropPhase[] = [];
+
+  let current = from;
+  while (AIRDROP_PHASES.indexOf(current) < AIRDROP_PHASES.indexOf(scheduled)) {
+    const { change } = await proposeConfigChange(SCHEDULE_ACTOR, {
+      action: "advancePhase",
+    });
+    await confirmConfigChange(SCHEDULE_ACTOR, change.id);
+    current = AIRDROP_PHASES[AIRDROP_PHASES.indexOf(current) + 1];
+    entered.push(current);
+  }
+
+  return { checkedAt: now.toISOString(), from, scheduled, entered };
+}
+
+export function logAirdropPhaseReport(report: AirdropPhaseReport) {
+  if (report.entered.length === 0) {
+    return;
+  }
+  console.log(
+    `🗓️  Airdrop schedule: ${[report.from, ...report.entered].join(" -> ")}`
+  );
+}
+
+/**
+ * Check the schedule on an interval (AIRDROP_SCHEDULE_INTERVAL_MINUTES,
+ * default 5; 0 disables it). Does nothing when no phase times are set.
+ * Returns a function that stops the scheduler.
+ */
+export function startAirdropScheduler(
+  schedule: AirdropSchedule = airdropScheduleFromEnv()
+) {
+  const intervalMinutes = Number(
+    process.env.AIRDROP_SCHEDULE_INTERVAL_MINUTES ?? 5
+  );
+  if (!(intervalMinutes > 0) || Object.values(schedule).every((time) => !time)) {
+    console.log(
+      "⏸️  Airdrop schedule disabled; phases change only from the admin console"
+    );
+    return () => {};
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow chain can make a run outlast the interval; don't overlap them
+    if (running) return;
+    running = true;
+    try {
+      logAirdropPhaseReport(await applyAirdropSchedule(schedule));
+    } catch (error) {
+      console.error("❌ Airdrop schedule failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  run();
+
+  console.log(`🗓️  Airdrop schedule checked every ${intervalMinutes} min`);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,192 @@
+import {
+  getBlockHashOnChain,
+  getBlockNumberOnChain,
+  getDeployment,
+  getIndexedEventsOnChain,
+} from "../contracts";
+import { getRepository, IndexerCheckpoint } from "../storage";
+
+// Follows the events in INDEXED_EVENTS into storage, so views can read them
+// without an RPC call per request. Each chunk of blocks is saved together
+// with the checkpoint, so after a restart indexing resumes where it stopped.
+
+export interface EventIndexerOptions {
+  // Blocks to rewind when the checkpoint block's hash has changed. Must be
+  // deeper than any reorg the chain can have.
+  reorgWindow: number;
+  // Blocks per getLogs request
+  blockRange: number;
+}
+
+export interface EventIndexerReport {
+  indexedAt: string;
+  fromBlock: number;
+  toBlock: number;
+  eventsIndexed: number;
+  reorg: {
+    detectedAt: number;
+    rewoundTo: number;
+    eventsDropped: number;
+  } | null;
+}
+
+export function eventIndexerOptionsFromEnv(): EventIndexerOptions {
+  return {
+    reorgWindow: Number(process.env.EVENT_INDEXER_REORG_WINDOW || 12),
+    blockRange: Number(process.env.EVENT_QUERY_BLOCK_RANGE || 5000),
+  };
+}
+
+// Identifies the deployment being indexed. deploy.js deploys every contract
+// together, so the identity contract's address stands in for all of them.
+function deploymentSource() {
+  const deployment = getDeployment();
+  return `${deployment.network}:${deployment.contracts.unbankedIdentity}`;
+}
+
+// The checkpoint to resume from, after starting over for a new deployment
+// and rewinding past any reorg
+async function resumeCheckpoint(
+  options: EventIndexerOptions
+): Promise<{ checkpoint: IndexerCheckpoint; reorg: EventIndexerReport["reorg"] }> {
+  const repository = getRepository();
+  const source = deploymentSource();
+  const { startBlock } = getDeployment();
+
+  const stored = await repository.getIndexerCheckpoint();
+  if (!stored || stored.source !== source) {
+    if (stored) {
+      console.log(
+        `🔄 Deployment changed (${stored.source} -> ${source}); re-indexing events from block ${startBlock}`
+      );
+    }
+    const fresh = { source, blockNumber: startBlock - 1, blockHash: null };
+    await repository.rewindChainEvents({ ...fresh, blockNumber: -1 });
+    return { checkpoint: fresh, reorg: null };
+  }
+
+  if (stored.blockHash === null) {
+    return { checkpoint: stored, reorg: null };
+  }
+
+  // A block hash commits to every block before it, so if the checkpoint
+  // block is unchanged so is everything indexed
+  const currentHash = await getBlockHashOnChain(stored.blockNumber);
+  if (currentHash === stored.blockHash) {
+    return { checkpoint: stored, reorg: null };
+  }
+
+  const rewoundTo = Math.max(
+    stored.blockNumber - options.reorgWindow,
+    startBlock - 1
+  );
+  const checkpoint = {
+    source,
+    blockNumber: rewoundTo,
+    blockHash: rewoundTo >= 0 ? await getBlockHashOnChain(rewoundTo) : null,
+  };
+  const eventsDropped = await repository.rewindChainEvents(checkpoint);
+
+  console.warn(
+    `⚠️ Chain reorg at block ${stored.blockNumber}: rewound event index to block ${rewoundTo}, dropping ${eventsDropped} events`
+  );
+  return {
+    checkpoint,
+    reorg: { detectedAt: stored.blockNumber, rewoundTo, eventsDropped },
+  };
+}
+
+let running = false;
+let latestReport: EventIndexerReport | undefined;
+
+export function getLatestIndexerReport() {
+  return latestReport;
+}
+
+// Index every block from the checkpoint up to the chain head once
+export async function indexEvents(
+  options: EventIndexerOptions = eventIndexerOptionsFromEnv()
+): Promise<EventIndexerReport> {
+  if (running) {
+    throw new Error("The event indexer is already running");
+  }
+  running = true;
+
+  try {
+    const repository = getRepository();
+    const { checkpoint, reorg } = await resumeCheckpoint(options);
+    const head = await getBlockNumberOnChain();
+    const fromBlock = Math.max(
+      getDeployment().startBlock,
+      checkpoint.blockNumber + 1
+    );
+
+    let eventsIndexed = 0;
+    for (let start = fromBlock; start <= head; start += options.blockRange) {
+      const end = Math.min(start + options.blockRange - 1, head);
+
+      // Take the hash before the logs: if a reorg lands in between, the
+      // next run sees the hash change and rewinds, rather than keeping
+      // logs from the abandoned fork
+      const blockHash = await getBlockHashOnChain(end);
+      const events = await getIndexedEventsOnChain(start, end);
+
+      await repository.saveChainEvents(events, {
+        source: checkpoint.source,
+        blockNumber: end,
+        blockHash,
+      });
+      eventsIndexed += events.length;
+    }
+
+    latestReport = {
+      indexedAt: new Date().toISOString(),
+      fromBlock,
+      toBlock: head,
+      eventsIndexed,
+      reorg,
+    };
+    return latestReport;
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Index new blocks on an interval (EVENT_INDEXER_INTERVAL_SECONDS,
+ * default 15; 0 disables it). Returns a function that stops the indexer.
+ */
+export function startEventIndexer(
+  options: EventIndexerOptions = eventIndexerOptionsFromEnv()
+) {
+  const intervalSeconds = Number(
+    process.env.EVENT_INDEXER_INTERVAL_SECONDS ?? 15
+  );
+  if (!(intervalSeconds > 0)) {
+    console.log("⏸️  Event indexer disabled");
+    return () => {};
+  }
+
+  const run = async () => {
+    if (running) return;
+    try {
+      const report = await indexEvents(options);
+      if (report.eventsIndexed > 0) {
+        console.log(
+          `📚 Indexed ${report.eventsIndexed} events from blocks ${report.fromBlock}-${report.toBlock}`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Event indexing failed:", error);
+    }
+  };
+
+  const timer = setInterval(run, intervalSeconds * 1000);
+  run();
+
+  console.log(
+    `📚 Event indexer running every ${intervalSeconds}s (reorg window: ${options.reorgWindow} blocks)`
+  );
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,220 @@
+import {
+  getLoanCountOnChain,
+  getLoanOnChain,
+  markLoanDefaultedOnChain,
+} from "../contracts";
+import { notify } from "../notifications";
+import { getRepository } from "../storage";
+
+// Finds active loans that are past their due date plus a grace period and
+// marks them defaulted on-chain. UnbankedLending.markAsDefaulted is
+// owner-only, so nothing else ever moves a loan out of `active`.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoanDefaultOptions {
+  gracePeriodDays: number;
+  // Report what would happen without sending transactions or touching storage
+  dryRun: boolean;
+  // Reputation points taken from the borrower for each default
+  reputationPenalty: number;
+}
+
+export interface OverdueLoan {
+  loanId: number;
+  borrower: string;
+  userIdentifier: string | null;
+  dueDate: string;
+  outstanding: string;
+  action: "would_default" | "defaulted" | "failed";
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface LoanDefaultReport {
+  scannedAt: string;
+  dryRun: boolean;
+  gracePeriodDays: number;
+  loansScanned: number;
+  overdue: OverdueLoan[];
+}
+
+export function loanDefaultOptionsFromEnv(): LoanDefaultOptions {
+  return {
+    gracePeriodDays: Number(process.env.LOAN_DEFAULT_GRACE_PERIOD_DAYS || 3),
+    dryRun: process.env.LOAN_DEFAULT_DRY_RUN === "true",
+    reputationPenalty: Number(process.env.LOAN_DEFAULT_REPUTATION_PENALTY || 25),
+  };
+}
+
+// Apply the default to the borrower's off-chain record, if we have one
+async function penalizeBorrower(
+  loanId: number,
+  reputationPenalty: number
+): Promise<string | null> {
+  const repository = getRepository();
+
+  // Loans are recorded in the borrower's history when they are created
+  const record = await repository.findTransaction(`loan_${loanId}`);
+  if (!record) {
+    return null;
+  }
+
+  await repository.updateTransactionStatus(`loan_${loanId}`, "defaulted");
+
+  const user = await repository.getUser(record.userIdentifier);
+  if (user) {
+    await repository.updateReputation(
+      user.userIdentifier,
+      Math.max(0, user.reputationScore - reputationPenalty)
+    );
+  }
+
+  return record.userIdentifier;
+}
+
+/**
+ * Scan every loan once and default the overdue ones.
+ *
+ * A failure on one loan is recorded in the report and does not stop the
+ * scan, so a single bad loan can't block the rest.
+ */
+export async function scanForDefaults(
+  options: LoanDefaultOptions = loanDefaultOptionsFromEnv()
+): Promise<LoanDefaultReport> {
+  const now = Date.now();
+  const loanCount = await getLoanCountOnChain();
+  const overdue: OverdueLoan[] = [];
+
+  for (let loanId = 1; loanId <= loanCount; loanId++) {
+    const loan = await getLoanOnChain(loanId);
+    if (!loan || loan.status !== "active" || !loan.schedule.dueDate) {
+      continue;
+    }
+
+    const dueAt = new Date(loan.schedule.dueDate).getTime();
+    if (now <= dueAt + options.gracePeriodDays * DAY_MS) {
+      continue;
+    }
+
+    const entry: OverdueLoan = {
+      loanId,
+      borrower: loan.borrower,
+      userIdentifier: null,
+      dueDate: loan.schedule.dueDate,
+      outstanding: loan.outstanding,
+      action: "would_default",
+    };
+    overdue.push(entry);
+
+    if (options.dryRun) {
+      const record = await getRepository().findTransaction(`loan_${loanId}`);
+      entry.userIdentifier = record?.userIdentifier ?? null;
+      continue;
+    }
+
+    try {
+      const result = await markLoanDefaultedOnChain(loanId);
+      entry.action = "defaulted";
+      entry.transactionHash = result.transactionHash;
+    } catch (error) {
+      entry.action = "failed";
+      entry.error = error instanceof Error ? error.message : "Unknown error";
+      continue;
+    }
+
+    entry.userIdentifier = await penalizeBorrower(
+      loanId,
+      options.reputationPenalty
+    );
+
+    await notify(
+      "loan.defaulted",
+      `Loan #${loanId} defaulted with ${loan.outstanding} tokens outstanding`,
+      {
+        userIdentifier: entry.userIdentifier ?? undefined,
+        data: {
+          loanId,
+          borrower: loan.borrower,
+          dueDate: loan.schedule.dueDate,
+          outstanding: loan.outstanding,
+          reputationPenalty: entry.userIdentifier
+            ? options.reputationPenalty
+            : 0,
+          transactionHash: entry.transactionHash,
+        },
+      }
+    );
+  }
+
+  return {
+    scannedAt: new Date(now).toISOString(),
+    dryRun: options.dryRun,
+    gracePeriodDays: options.gracePeriodDays,
+    loansScanned: loanCount,
+    overdue,
+  };
+}
+
+export function logLoanDefaultReport(report: LoanDefaultReport) {
+  const prefix = report.dryRun ? "🧪 [dry run]" : "⏰";
+
+  if (report.overdue.length === 0) {
+    console.log(
+      `${prefix} Loan default scan: ${report.loansScanned} loans, none overdue`
+    );
+    return;
+  }
+
+  console.log(
+    `${prefix} Loan default scan: ${report.overdue.length} of ${report.loansScanned} loans overdue (grace ${report.gracePeriodDays}d)`
+  );
+  for (const loan of report.overdue) {
+    console.log(
+      `   - #${loan.loanId} ${loan.borrower} due ${loan.dueDate}, ${loan.outstanding} outstanding: ${loan.action}${
+        loan.error ? ` (${loan.error})` : ""
+      }`
+    );
+  }
+}
+
+/**
+ * Run the scan on an interval (LOAN_DEFAULT_SCAN_INTERVAL_MINUTES, default
+ * 60; 0 disables it). Returns a function that stops the scheduler.
+ */
+export function startLoanDefaultScheduler(
+  options: LoanDefaultOptions = loanDefaultOptionsFromEnv()
+) {
+  const intervalMinutes = Number(
+    process.env.LOAN_DEFAULT_SCAN_INTERVAL_MINUTES ?? 60
+  );
+  if (!(intervalMinutes > 0)) {
+    console.log("⏸️  Loan default scheduler disabled");
+    return () => {};
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow chain can make a scan outlast the interval; don't overlap them
+    if (running) return;
+    running = true;
+    try {
+      logLoanDefaultReport(await scanForDefaults(options));
+    } catch (error) {
+      console.error("❌ Loan default scan failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  run();
+
+  console.log(
+    `⏰ Loan default scheduler running every ${intervalMinutes} min${
+      options.dryRun ? " (dry run)" : ""
+    }`
+  );
+
+  return () => clearInterval(timer);
+}
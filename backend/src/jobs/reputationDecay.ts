@@ -0,0 +1,167 @@
+import { notify } from "../notifications";
+import {
+  applyReputationReductions,
+  decayDueAt,
+  DecayPolicy,
+  decayPolicyFromEnv,
+  ReputationReduction,
+} from "../reputation";
+import { getRepository } from "../storage";
+
+// Applies the decay policy: attestations older than the grace period lose
+// a share of their points every step, down to the policy's floor. Each run
+// only takes off what became due since the last one, so missed runs catch
+// up and repeated runs change nothing.
+
+export interface UserDecay {
+  userIdentifier: string;
+  points: number;
+  reputationScore: number;
+  attestations: { attestationId: string; type: string; points: number }[];
+  onChain: "reduced" | "failed";
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface DecayReport {
+  scannedAt: string;
+  policy: DecayPolicy;
+  usersScanned: number;
+  pointsRemoved: number;
+  users: UserDecay[];
+}
+
+/**
+ * Decay every stored user's attestations once.
+ *
+ * A user whose on-chain reduction fails keeps the off-chain decay and is
+ * listed as failed; reputation reconciliation reports the difference.
+ */
+export async function applyReputationDecay(
+  policy: DecayPolicy = decayPolicyFromEnv()
+): Promise<DecayReport> {
+  const now = new Date();
+  const repository = getRepository();
+  const users = await repository.listUsers();
+  const decayed: UserDecay[] = [];
+
+  for (const listed of users) {
+    // Earlier users' on-chain reductions take a while; read this one afresh
+    // so attestations added or revoked meanwhile are seen
+    const user = await repository.getUser(listed.userIdentifier);
+    if (!user) continue;
+
+    const reductions: ReputationReduction[] = [];
+    for (const attestation of user.attestations) {
+      const due = decayDueAt(attestation, policy, now);
+      const points = due - (attestation.decayedPoints ?? 0);
+      if (points <= 0) continue;
+
+      reductions.push({
+        attestation: { ...attestation, decayedPoints: due },
+        kind: "decay",
+        points,
+        actor: "decay",
+        reason: `${attestation.type} is older than ${policy.graceDays} days`,
+      });
+    }
+    if (reductions.length === 0) continue;
+
+    const points = reductions.reduce((sum, reduction) => sum + reduction.points, 0);
+    const { reputationScore, onChain } = await applyReputationReductions(
+      user,
+      reductions,
+      "attestation decay"
+    );
+
+    decayed.push({
+      userIdentifier: user.userIdentifier,
+      points,
+      reputationScore,
+      attestations: reductions.map(({ attestation, points }) => ({
+        attestationId: attestation.id,
+        type: attestation.type,
+        points,
+      })),
+      ...(onChain.success
+        ? { onChain: "reduced" as const, transactionHash: onChain.transactionHash }
+        : { onChain: "failed" as const, error: onChain.error }),
+    });
+
+    await notify(
+      "reputation.decayed",
+      `Your reputation went down by ${points} as older attestations lost weight`,
+      {
+        userIdentifier: user.userIdentifier,
+        data: { points, reputationScore },
+      }
+    );
+  }
+
+  return {
+    scannedAt: now.toISOString(),
+    policy,
+    usersScanned: users.length,
+    pointsRemoved: decayed.reduce((sum, user) => sum + user.points, 0),
+    users: decayed,
+  };
+}
+
+export function logDecayReport(report: DecayReport) {
+  if (report.users.length === 0) {
+    console.log(
+      `📉 Reputation decay: ${report.usersScanned} users, nothing due`
+    );
+    return;
+  }
+
+  console.log(
+    `📉 Reputation decay: ${report.pointsRemoved} points from ${report.users.length} of ${report.usersScanned} users`
+  );
+  for (const user of report.users) {
+    console.log(
+      `   - ${user.userIdentifier}: -${user.points} -> ${user.reputationScore} (on-chain ${user.onChain}${
+        user.error ? `: ${user.error}` : ""
+      })`
+    );
+  }
+}
+
+/**
+ * Run the decay on an interval (REPUTATION_DECAY_SCAN_INTERVAL_MINUTES,
+ * default 360; 0 disables it). Returns a function that stops the scheduler.
+ */
+export function startReputationDecayScheduler(
+  policy: DecayPolicy = decayPolicyFromEnv()
+) {
+  const intervalMinutes = Number(
+    process.env.REPUTATION_DECAY_SCAN_INTERVAL_MINUTES ?? 360
+  );
+  if (!(intervalMinutes > 0) || !(policy.stepPercent > 0)) {
+    console.log("⏸️  Reputation decay scheduler disabled");
+    return () => {};
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow chain can make a run outlast the interval; don't overlap them
+    if (running) return;
+    running = true;
+    try {
+      logDecayReport(await applyReputationDecay(policy));
+    } catch (error) {
+      console.error("❌ Reputation decay failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  run();
+
+  console.log(
+    `📉 Reputation decay running every ${intervalMinutes} min (${policy.stepPercent}% every ${policy.stepDays}d after ${policy.graceDays}d, floor ${policy.minPercent}%)`
+  );
+
+  return () => clearInterval(timer);
+}
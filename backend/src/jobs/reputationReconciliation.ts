@@ -0,0 +1,394 @@
+import {
+  addAttestationOnChain,
+  checkIdentityOnChain,
+  getReputationEventsOnChain,
+  ReputationEvent,
+} from "../contracts";
+import { notify } from "../notifications";
+import { getRepository, User } from "../storage";
+import { toUserAddress } from "../shared/user-address";
+
+// Compares each user's stored attestations and reputation score with what
+// UnbankedIdentity recorded, by replaying its AttestationAdded and
+// ReputationUpdated events. Attestations are stored off-chain even when the
+// on-chain call fails, so the two drift apart without this.
+
+export type ReputationRepairMode = "none" | "offchain" | "onchain";
+
+export interface ReconciliationOptions {
+  // "offchain" copies the contract's view into storage; "onchain" replays
+  // stored attestations the contract never saw
+  repair: ReputationRepairMode;
+}
+
+export interface ReputationRepair {
+  action: "set_reputation" | "restore_attestation" | "add_attestation_on_chain";
+  detail: string;
+  result: "applied" | "failed";
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface UserReconciliation {
+  userIdentifier: string;
+  userAddress: string;
+  status: "in_sync" | "mismatch" | "not_registered";
+  offChain: {
+    reputationScore: number;
+    attestationCount: number;
+  };
+  onChain: {
+    isRegistered: boolean;
+    reputationScore: number;
+    attestationCount: number;
+    // Last ReputationUpdated score in the replayed events
+    replayedScore: number | null;
+  };
+  // Stored attestations with no matching AttestationAdded event
+  missingOnChain: { attestationId: string; type: string; score: number }[];
+  // AttestationAdded events with no matching stored attestation
+  missingOffChain: {
+    attester: string;
+    points: number;
+    blockNumber: number;
+    transactionHash: string;
+  }[];
+  issues: string[];
+  repairs: ReputationRepair[];
+}
+
+export interface ReconciliationReport {
+  reconciledAt: string;
+  repair: ReputationRepairMode;
+  fromBlock: number;
+  toBlock: number;
+  eventsReplayed: number;
+  usersChecked: number;
+  mismatches: number;
+  users: UserReconciliation[];
+  // Addresses with on-chain reputation events but no stored user
+  untrackedAddresses: string[];
+}
+
+export function reconciliationOptionsFromEnv(): ReconciliationOptions {
+  const repair = process.env.REPUTATION_RECONCILIATION_REPAIR || "none";
+  if (repair !== "none" && repair !== "offchain" && repair !== "onchain") {
+    throw new Error(
+      `Invalid REPUTATION_RECONCILIATION_REPAIR "${repair}". Use none, offchain or onchain.`
+    );
+  }
+  return { repair };
+}
+
+// Pair stored attestations with on-chain ones by score. Neither side has an
+// id the other knows, so equal points is the best match available.
+function matchAttestations(user: User, events: ReputationEvent[]) {
+  const unmatched = events.filter((event) => event.kind === "attestation");
+
+  const missingOnChain: UserReconciliation["missingOnChain"] = [];
+  for (const attestation of user.attestations) {
+    const index = unmatched.findIndex(
+      (event) => event.kind === "attestation" && event.points === attestation.score
+    );
+    if (index === -1) {
+      // A revoked attestation counts for nothing, so there is nothing to
+      // replay for it
+      if (attestation.revokedAt) continue;
+      missingOnChain.push({
+        attestationId: attestation.id,
+        type: attestation.type,
+        score: attestation.score,
+      });
+    } else {
+      unmatched.splice(index, 1);
+    }
+  }
+
+  const missingOffChain = unmatched.flatMap((event) =>
+    event.kind === "attestation"
+      ? [
+          {
+            attester: event.attester,
+            points: event.points,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+          },
+        ]
+      : []
+  );
+
+  return { missingOnChain, missingOffChain };
+}
+
+async function reconcileUser(
+  user: User,
+  events: ReputationEvent[]
+): Promise<UserReconciliation> {
+  const userAddress = toUserAddress(user.userIdentifier);
+
+  const identity = await checkIdentityOnChain(user.userIdentifier);
+  if (!identity.success) {
+    throw new Error(identity.error);
+  }
+
+  const scoreEvents = events.filter((event) => event.kind === "score");
+  const lastScore = scoreEvents[scoreEvents.length - 1];
+  const { missingOnChain, missingOffChain } = matchAttestations(user, events);
+
+  const issues: string[] = [];
+  if (identity.reputationScore !== user.reputationScore) {
+    issues.push(
+      `reputation is ${user.reputationScore} off-chain but ${identity.reputationScore} on-chain`
+    );
+  }
+  if (missingOnChain.length > 0) {
+    issues.push(
+      `${missingOnChain.length} stored attestation(s) were never recorded on-chain`
+    );
+  }
+  if (missingOffChain.length > 0) {
+    issues.push(
+      `${missingOffChain.length} on-chain attestation(s) are missing from storage`
+    );
+  }
+  if (lastScore?.kind === "score" && lastScore.newScore !== identity.reputationScore) {
+    // The replay started after some events, e.g. a wrong startBlock
+    issues.push(
+      `replayed events end at ${lastScore.newScore} but the contract holds ${identity.reputationScore}`
+    );
+  }
+
+  let status: UserReconciliation["status"] = "in_sync";
+  if (!identity.isRegistered) {
+    status = "not_registered";
+  } else if (issues.length > 0) {
+    status = "mismatch";
+  }
+
+  return {
+    userIdentifier: user.userIdentifier,
+    userAddress,
+    status,
+    offChain: {
+      reputationScore: user.reputationScore,
+      attestationCount: user.attestations.length,
+    },
+    onChain: {
+      isRegistered: identity.isRegistered,
+      reputationScore: identity.reputationScore,
+      attestationCount: identity.attestationCount,
+      replayedScore: lastScore?.kind === "score" ? lastScore.newScore : null,
+    },
+    missingOnChain,
+    missingOffChain,
+    issues,
+    repairs: [],
+  };
+}
+
+// Make storage match the contract
+async function repairOffChain(entry: UserReconciliation) {
+  const repository = getRepository();
+
+  for (const missing of entry.missingOffChain) {
+    await repository.addAttestation(entry.userIdentifier, {
+      id: `chain_${missing.transactionHash}`,
+      type: "on_chain",
+      description: `Restored from block ${missing.blockNumber} by reputation reconciliation`,
+      score: missing.points,
+      attestedBy: missing.attester,
+      timestamp: new Date(),
+    });
+    entry.repairs.push({
+      action: "restore_attestation",
+      detail: `${missing.points} points from ${missing.transactionHash}`,
+      result: "applied",
+    });
+  }
+
+  if (entry.offChain.reputationScore !== entry.onChain.reputationScore) {
+    await repository.updateReputation(
+      entry.userIdentifier,
+      entry.onChain.reputationScore
+    );
+    entry.repairs.push({
+      action: "set_reputation",
+      detail: `${entry.offChain.reputationScore} -> ${entry.onChain.reputationScore}`,
+      result: "applied",
+    });
+  }
+}
+
+// Record stored attestations the contract never saw. UnbankedIdentity only
+// accepts one attestation per attester per user, so after the backend's
+// first one these fail and stay in the report.
+async function repairOnChain(entry: UserReconciliation) {
+  for (const missing of entry.missingOnChain) {
+    const repair: ReputationRepair = {
+      action: "add_attestation_on_chain",
+      detail: `${missing.type} (${missing.score} points)`,
+      result: "applied",
+    };
+    try {
+      const result = await addAttestationOnChain(
+        entry.userAddress,
+        missing.score
+      );
+      repair.transactionHash = result.transactionHash;
+    } catch (error) {
+      repair.result = "failed";
+      repair.error = error instanceof Error ? error.message : "Unknown error";
+    }
+    entry.repairs.push(repair);
+  }
+}
+
+let running = false;
+let latestReport: ReconciliationReport | undefined;
+
+export function isReconciliationRunning() {
+  return running;
+}
+
+// The most recent report, from either the scheduler or an on-demand run
+export function getLatestReconciliationReport() {
+  return latestReport;
+}
+
+/**
+ * Reconcile every stored user once.
+ *
+ * Unregistered users are reported but never repaired: the contract rejects
+ * attestations for them, and copying its zero score would wipe their
+ * off-chain reputation.
+ */
+export async function reconcileReputation(
+  options: ReconciliationOptions = reconciliationOptionsFromEnv()
+): Promise<ReconciliationReport> {
+  if (running) {
+    throw new Error("A reputation reconciliation is already running");
+  }
+  running = true;
+
+  try {
+    const { fromBlock, toBlock, events } = await getReputationEventsOnChain();
+
+    const eventsByAddress = new Map<string, ReputationEvent[]>();
+    for (const event of events) {
+      const address = event.userAddress.toLowerCase();
+      const forAddress = eventsByAddress.get(address) ?? [];
+      forAddress.push(event);
+      eventsByAddress.set(address, forAddress);
+    }
+
+    const users = await getRepository().listUsers();
+    const results: UserReconciliation[] = [];
+
+    for (const user of users) {
+      const address = toUserAddress(user.userIdentifier).toLowerCase();
+      const entry = await reconcileUser(
+        user,
+        eventsByAddress.get(address) ?? []
+      );
+      eventsByAddress.delete(address);
+
+      if (entry.status === "mismatch") {
+        if (options.repair === "offchain") {
+          await repairOffChain(entry);
+        } else if (options.repair === "onchain") {
+          await repairOnChain(entry);
+        }
+      }
+      results.push(entry);
+    }
+
+    const mismatched = results.filter((entry) => entry.status === "mismatch");
+    const report: ReconciliationReport = {
+      reconciledAt: new Date().toISOString(),
+      repair: options.repair,
+      fromBlock,
+      toBlock,
+      eventsReplayed: events.length,
+      usersChecked: users.length,
+      mismatches: mismatched.length,
+      users: results,
+      untrackedAddresses: [...eventsByAddress.values()].map(
+        ([event]) => event.userAddress
+      ),
+    };
+
+    if (mismatched.length > 0) {
+      await notify(
+        "reputation.mismatch",
+        `${mismatched.length} user(s) have reputation that differs from UnbankedIdentity`,
+        {
+          data: {
+            repair: options.repair,
+            users: mismatched.map((entry) => ({
+              userIdentifier: entry.userIdentifier,
+              issues: entry.issues,
+            })),
+          },
+        }
+      );
+    }
+
+    latestReport = report;
+    return report;
+  } finally {
+    running = false;
+  }
+}
+
+export function logReconciliationReport(report: ReconciliationReport) {
+  console.log(
+    `⚖️  Reputation reconciliation: ${report.usersChecked} users, ${report.mismatches} mismatched, ${report.eventsReplayed} events from blocks ${report.fromBlock}-${report.toBlock} (repair: ${report.repair})`
+  );
+  for (const entry of report.users) {
+    if (entry.status !== "mismatch") continue;
+    console.log(`   - ${entry.userIdentifier}: ${entry.issues.join("; ")}`);
+    for (const repair of entry.repairs) {
+      console.log(
+        `     ${repair.result === "applied" ? "✅" : "❌"} ${repair.action} ${repair.detail}${
+          repair.error ? ` (${repair.error})` : ""
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * Run the reconciliation on an interval
+ * (REPUTATION_RECONCILIATION_INTERVAL_MINUTES, default 360; 0 disables it).
+ * Returns a function that stops the scheduler.
+ */
+export function startReputationReconciliationScheduler(
+  options: ReconciliationOptions = reconciliationOptionsFromEnv()
+) {
+  const intervalMinutes = Number(
+    process.env.REPUTATION_RECONCILIATION_INTERVAL_MINUTES ?? 360
+  );
+  if (!(intervalMinutes > 0)) {
+    console.log("⏸️  Reputation reconciliation scheduler disabled");
+    return () => {};
+  }
+
+  const run = async () => {
+    // Skip a tick rather than queue behind a slow or on-demand run
+    if (running) return;
+    try {
+      logReconciliationReport(await reconcileReputation(options));
+    } catch (error) {
+      console.error("❌ Reputation reconciliation failed:", error);
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  run();
+
+  console.log(
+    `⚖️  Reputation reconciliation running every ${intervalMinutes} min (repair: ${options.repair})`
+  );
+
+  return () => clearInterval(timer);
+}
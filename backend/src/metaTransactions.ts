@@ -0,0 +1,481 @@
+import { ethers } from "ethers";
+import {
+  contracts,
+  estimateGasOnChain,
+  repaymentAmountOnChain,
+  revertReason,
+} from "./contracts";
+import type { UnbankedForwarder } from "./typechain";
+import {
+  ForwarderDomain,
+  ForwardRequest,
+  SignedForwardRequest,
+} from "./shared/api-types";
+import { submitTransaction } from "./txManager";
+
+// Gasless meta-transactions through UnbankedForwarder (OpenZeppelin's
+// ERC2771Forwarder). The user signs an EIP-712 ForwardRequest in their
+// wallet, the backend wallet submits it and pays the gas, and the target
+// contract sees the signer as _msgSender(). Only users whose identifier is
+// their wallet address can sign for the address the contracts know them by.
+
+export type MetaTransactionIntent =
+  | { action: "vote"; proposalId: number; support: boolean }
+  | { action: "claimAirdrop"; bonusAmount: bigint; merkleProof: string[] }
+  | { action: "repayLoan"; loanId: number; amount?: number };
+
+export type MetaTransactionAction = MetaTransactionIntent["action"];
+
+export class MetaTransactionError extends Error {
+  constructor(
+    public reason:
+      | "unavailable"
+      | "invalid_request"
+      | "invalid_signature"
+      | "stale_nonce"
+      | "reverted",
+    message: string
+  ) {
+    super(message);
+    this.name = "MetaTransactionError";
+  }
+}
+
+// The forwarder's typed-data schema (ERC2771Forwarder._FORWARD_REQUEST_TYPEHASH)
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// Added to each call's gas estimate: the forwarded calldata is 20 bytes
+// longer, and the forwarder reverts if the call could run out of gas
+const GAS_MARGIN_PERCENT = 25n;
+
+// For a call that depends on an earlier one in the same batch (a repayment
+// after its approve), which cannot be estimated until that one has run
+const DEPENDENT_CALL_GAS = 300_000n;
+
+function ttlSecondsFromEnv() {
+  return Number(process.env.META_TX_TTL_SECONDS ?? 600);
+}
+
+function requireForwarder(): UnbankedForwarder {
+  if (!contracts.forwarder) {
+    throw new MetaTransactionError(
+      "unavailable",
+      "This deployment has no UnbankedForwarder; redeploy the contracts to enable meta-transactions"
+    );
+  }
+  return contracts.forwarder;
+}
+
+// The forwarder's EIP-712 domain, read from the contract (EIP-5267) so it
+// always matches what the forwarder checks signatures against
+export async function forwarderDomainOnChain(): Promise<ForwarderDomain> {
+  const domain = await requireForwarder().eip712Domain();
+  return {
+    name: domain.name,
+    version: domain.version,
+    chainId: Number(domain.chainId),
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+// Custom error name in raw revert data, from a call made without a contract
+// instance to decode it
+function decodeRevert(error: unknown): string | undefined {
+  const data = (error as { data?: unknown } | null)?.data;
+  if (typeof data !== "string" || !ethers.isHexString(data)) return undefined;
+  for (const contract of [
+    contracts.governance,
+    contracts.airdrop,
+    contracts.lending,
+    contracts.token,
+  ]) {
+    const parsed = contract.interface.parseError(data);
+    if (parsed) return parsed.name;
+  }
+  return undefined;
+}
+
+interface ForwardedCall {
+  to: string;
+  data: string;
+  gas: bigint;
+}
+
+// Estimate a call as if the user sent it, so a revert is reported with the
+// contract's reason before anything is signed or relayed
+async function estimateAsUser(
+  label: string,
+  estimate: () => Promise<bigint>,
+  fallback?: bigint
+): Promise<bigint> {
+  try {
+    const gas = await estimate();
+    return gas + (gas * GAS_MARGIN_PERCENT) / 100n;
+  } catch (error) {
+    if (fallback !== undefined) return fallback;
+    const reason = revertReason(error) ?? decodeRevert(error);
+    throw new MetaTransactionError(
+      "reverted",
+      `${label} would revert${reason ? `: ${reason}` : ""}`
+    );
+  }
+}
+
+// The contract calls that carry out an intent, in order
+async function forwardedCalls(
+  userAddress: string,
+  intent: MetaTransactionIntent
+): Promise<ForwardedCall[]> {
+  const from = { from: userAddress };
+
+  switch (intent.action) {
+    case "vote": {
+      const { proposalId, support } = intent;
+      return [
+        {
+          to: await contracts.governance.getAddress(),
+          data: contracts.governance.interface.encodeFunctionData("vote", [
+            proposalId,
+            support,
+          ]),
+          gas: await estimateAsUser("governance.vote", () =>
+            contracts.governance.vote.estimateGas(proposalId, support, from)
+          ),
+        },
+      ];
+    }
+
+    case "claimAirdrop": {
+      const { merkleProof, bonusAmount } = intent;
+      return [
+        {
+          to: await contracts.airdrop.getAddress(),
+          data: contracts.airdrop.interface.encodeFunctionData(
+            "claimAirdrop",
+            [merkleProof, bonusAmount]
+          ),
+          gas: await estimateAsUser("airdrop.claimAirdrop", () =>
+            contracts.airdrop.claimAirdrop.estimateGas(
+              merkleProof,
+              bonusAmount,
+              from
+            )
+          ),
+        },
+      ];
+    }
+
+    case "repayLoan": {
+      const { loanId } = intent;
+      const amount = await repaymentAmountOnChain(loanId, intent.amount);
+      const lendingAddress = await contracts.lending.getAddress();
+      const calls: ForwardedCall[] = [];
+
+      // The lending contract pulls the repayment from the user's wallet, so
+      // the user also signs an approval for exactly that amount if needed
+      const allowance = await contracts.token.allowance(
+        userAddress,
+        lendingAddress
+      );
+      if (allowance < amount) {
+        calls.push({
+          to: await contracts.token.getAddress(),
+          data: contracts.token.interface.encodeFunctionData("approve", [
+            lendingAddress,
+            amount,
+          ]),
+          gas: await estimateAsUser("token.approve", () =>
+            contracts.token.approve.estimateGas(lendingAddress, amount, from)
+          ),
+        });
+      }
+
+      calls.push({
+        to: lendingAddress,
+        data: contracts.lending.interface.encodeFunctionData("repayLoan", [
+          loanId,
+          amount,
+        ]),
+        gas: await estimateAsUser(
+          "lending.repayLoan",
+          () => contracts.lending.repayLoan.estimateGas(loanId, amount, from),
+          calls.length > 0 ? DEPENDENT_CALL_GAS : undefined
+        ),
+      });
+      return calls;
+    }
+  }
+}
+
+/**
+ * Build the ForwardRequests the user signs for an intent.
+ *
+ * Each request takes the next forwarder nonce, so a batch has to be relayed
+ * whole and in order; preparing again after relaying anything else gives
+ * fresh nonces.
+ */
+export async function prepareMetaTransactionOnChain(
+  userAddress: string,
+  intent: MetaTransactionIntent
+) {
+  const forwarder = requireForwarder();
+  const domain = await forwarderDomainOnChain();
+  const calls = await forwardedCalls(userAddress, intent);
+
+  const nonce = await forwarder.nonces(userAddress);
+  const deadline = Math.floor(Date.now() / 1000) + ttlSecondsFromEnv();
+
+  const requests: ForwardRequest[] = calls.map((call, index) => ({
+    from: userAddress,
+    to: call.to,
+    value: "0",
+    gas: call.gas.toString(),
+    nonce: (nonce + BigInt(index)).toString(),
+    deadline,
+    data: call.data,
+  }));
+
+  return {
+    domain,
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: "ForwardRequest" as const,
+    requests,
+  };
+}
+
+// Which intent a batch of signed calls carries out. Anything but the exact
+// calls prepareMetaTransactionOnChain builds is refused, so the relayer
+// never pays for calls it did not offer.
+async function decodeIntent(
+  action: MetaTransactionAction,
+  requests: SignedForwardRequest[]
+): Promise<MetaTransactionIntent> {
+  const invalid = (message: string) =>
+    new MetaTransactionError("invalid_request", message);
+
+  const [governance, airdrop, lending, token] = await Promise.all([
+    contracts.governance.getAddress(),
+    contracts.airdrop.getAddress(),
+    contracts.lending.getAddress(),
+    contracts.token.getAddress(),
+  ]);
+  const isTo = (request: SignedForwardRequest, address: string) =>
+    request.to.toLowerCase() === address.toLowerCase();
+
+  switch (action) {
+    case "vote": {
+      const [request] = requests;
+      const call =
+        requests.length === 1 && isTo(request, governance)
+          ? contracts.governance.interface.parseTransaction(request)
+          : null;
+      if (call?.name !== "vote") {
+        throw invalid("A vote must be a single governance.vote call");
+      }
+      return {
+        action,
+        proposalId: Number(call.args[0]),
+        support: Boolean(call.args[1]),
+      };
+    }
+
+    case "claimAirdrop": {
+      const [request] = requests;
+      const call =
+        requests.length === 1 && isTo(request, airdrop)
+          ? contracts.airdrop.interface.parseTransaction(request)
+          : null;
+      if (call?.name !== "claimAirdrop") {
+        throw invalid("A claim must be a single airdrop.claimAirdrop call");
+      }
+      return {
+        action,
+        merkleProof: [...call.args[0]],
+        bonusAmount: BigInt(call.args[1]),
+      };
+    }
+
+    case "repayLoan": {
+      const repayRequest = requests[requests.length - 1];
+      const repay =
+        requests.length <= 2 && isTo(repayRequest, lending)
+          ? contracts.lending.interface.parseTransaction(repayRequest)
+          : null;
+      if (repay?.name !== "repayLoan") {
+        throw invalid(
+          "A repayment must end with a lending.repayLoan call, optionally after token.approve"
+        );
+      }
+      if (requests.length === 2) {
+        const approve = isTo(requests[0], token)
+          ? contracts.token.interface.parseTransaction(requests[0])
+          : null;
+        if (
+          approve?.name !== "approve" ||
+          String(approve.args[0]).toLowerCase() !== lending.toLowerCase()
+        ) {
+          throw invalid("Only an approval for the lending pool may precede a repayment");
+        }
+      }
+      return {
+        action,
+        loanId: Number(repay.args[0]),
+        amount: Number(ethers.formatEther(repay.args[1])),
+      };
+    }
+  }
+}
+
+/**
+ * Check a user's signed requests and relay them through the forwarder,
+ * paying the gas from the backend wallet.
+ *
+ * Everything the forwarder would reject is caught here first with a clear
+ * error: another signer, a used nonce, an expired deadline. The first call
+ * is also simulated from the user's address, because the forwarder only
+ * reports that a forwarded call failed, not why. Resolves once the
+ * transaction is sent; `result` settles when it is mined.
+ */
+export async function relayMetaTransactionOnChain(
+  userAddress: string,
+  action: MetaTransactionAction,
+  requests: SignedForwardRequest[]
+) {
+  const forwarder = requireForwarder();
+  const intent = await decodeIntent(action, requests);
+  const domain = await forwarderDomainOnChain();
+  let nonce = await forwarder.nonces(userAddress);
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const request of requests) {
+    if (request.from.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new MetaTransactionError(
+        "invalid_request",
+        `Requests must be from your address ${userAddress}`
+      );
+    }
+    if (BigInt(request.value) !== 0n) {
+      throw new MetaTransactionError(
+        "invalid_request",
+        "Relayed requests cannot carry value"
+      );
+    }
+    if (request.deadline <= now) {
+      throw new MetaTransactionError(
+        "invalid_request",
+        "The signed request has expired; prepare and sign it again"
+      );
+    }
+    if (BigInt(request.nonce) !== nonce) {
+      throw new MetaTransactionError(
+        "stale_nonce",
+        `Request nonce ${request.nonce} is not the next forwarder nonce (${nonce}); prepare and sign it again`
+      );
+    }
+    nonce++;
+
+    const { signature, ...message } = request;
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(
+        domain,
+        FORWARD_REQUEST_TYPES,
+        message,
+        signature
+      );
+    } catch {
+      throw new MetaTransactionError(
+        "invalid_signature",
+        "The request signature is malformed"
+      );
+    }
+    if (signer.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new MetaTransactionError(
+        "invalid_signature",
+        `The request was signed by ${signer}, not ${userAddress}`
+      );
+    }
+  }
+
+  // Later calls in a batch depend on earlier ones, so only the first can be
+  // simulated on its own
+  const [first] = requests;
+  await estimateAsUser(`${action} call`, () =>
+    estimateGasOnChain({
+      from: userAddress,
+      to: first.to,
+      data: first.data,
+    })
+  );
+
+  const requestData = requests.map(({ nonce: _nonce, ...request }) => request);
+
+  let pending;
+  try {
+    pending =
+      requestData.length === 1
+        ? await submitTransaction(
+            "forwarder.execute",
+            forwarder.execute,
+            requestData[0]
+          )
+        : await submitTransaction(
+            "forwarder.executeBatch",
+            forwarder.executeBatch,
+            requestData,
+            // Zero refund receiver: the batch reverts if any request is invalid
+            ethers.ZeroAddress
+          );
+  } catch (error) {
+    console.error("❌ Failed to relay meta-transaction:", error);
+    const reason = revertReason(error);
+    throw reason
+      ? new MetaTransactionError("reverted", `Forwarder rejected the request: ${reason}`)
+      : error;
+  }
+
+  console.log(
+    `⛽ Relaying ${action} for ${userAddress}: ${requests.length} request(s), tx ${pending.hash}`
+  );
+
+  const result = pending.confirmation.then((receipt) => {
+    // executeBatch records a failed call instead of reverting
+    const executed = receipt.logs
+      .map((log: ethers.Log) => forwarder.interface.parseLog(log))
+      .filter(
+        (parsed: ethers.LogDescription | null) =>
+          parsed?.name === "ExecutedForwardRequest"
+      );
+    if (executed.some((parsed) => !parsed?.args.success)) {
+      throw new Error(`Relayed ${action} call failed on-chain (tx ${receipt.hash})`);
+    }
+
+    console.log(`✅ Relayed ${action} for ${userAddress}. Tx: ${receipt.hash}`);
+
+    return {
+      success: true,
+      relayed: true,
+      signer: userAddress,
+      transactionId: pending.id,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  });
+
+  return {
+    intent,
+    transactionId: pending.id,
+    transactionHash: pending.hash,
+    result,
+  };
+}
@@ -0,0 +1,53 @@
+import { EventEmitter } from "events";
+
+// In-process notification bus. Everything is logged; set
+// NOTIFICATION_WEBHOOK_URL to also POST each notification as JSON.
+
+export interface Notification {
+  type: string;
+  message: string;
+  userIdentifier?: string;
+  data?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+const bus = new EventEmitter();
+
+export function onNotification(listener: (notification: Notification) => void) {
+  bus.on("notification", listener);
+  return () => bus.off("notification", listener);
+}
+
+export async function notify(
+  type: string,
+  message: string,
+  details: Pick<Notification, "userIdentifier" | "data"> = {}
+) {
+  const notification: Notification = {
+    type,
+    message,
+    ...details,
+    timestamp: new Date(),
+  };
+
+  console.log(`🔔 [${type}] ${message}`);
+  bus.emit("notification", notification);
+
+  const webhookUrl = process.env.NOTIFICATION_WEBHOOK_URL;
+  if (webhookUrl) {
+    try {
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(notification),
+      });
+      if (!response.ok) {
+        console.warn(
+          `⚠️ Notification webhook responded with ${response.status}`
+        );
+      }
+    } catch (error) {
+      console.warn("⚠️ Notification webhook failed:", error);
+    }
+  }
+}
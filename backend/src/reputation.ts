@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { submitReputationReductionOnChain } from "./contracts";
+import { toUserAddress } from "./shared/user-address";
+import {
+  Attestation,
+  getRepository,
+  ReputationAdjustment,
+  ReputationAdjustmentKind,
+  User,
+} from "./storage";
+
+// Reputation that goes down: revoked attestations stop counting, and old
+// ones lose weight over time. Both the stored score and UnbankedIdentity's
+// are reduced, and every reduction leaves a ReputationAdjustment record.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DecayPolicy {
+  // Attestations keep their full weight this long
+  graceDays: number;
+  // After that they lose stepPercent of their points every stepDays
+  stepDays: number;
+  // 0 disables decay
+  stepPercent: number;
+  // Decay stops once an attestation is down to this share of its points
+  minPercent: number;
+}
+
+export function decayPolicyFromEnv(): DecayPolicy {
+  return {
+    graceDays: Number(process.env.REPUTATION_DECAY_GRACE_DAYS ?? 180),
+    stepDays: Number(process.env.REPUTATION_DECAY_STEP_DAYS ?? 30),
+    stepPercent: Number(process.env.REPUTATION_DECAY_STEP_PERCENT ?? 10),
+    minPercent: Number(process.env.REPUTATION_DECAY_MIN_PERCENT ?? 50),
+  };
+}
+
+// Decay steps due for an attestation at `now`
+function decaySteps(attestation: Attestation, policy: DecayPolicy, now: Date) {
+  const age = now.getTime() - attestation.timestamp.getTime();
+  if (age < policy.graceDays * DAY_MS) {
+    return 0;
+  }
+  return Math.floor((age - policy.graceDays * DAY_MS) / (policy.stepDays * DAY_MS)) + 1;
+}
+
+function decayEnabled(policy: DecayPolicy) {
+  return policy.stepPercent > 0 && policy.stepDays > 0;
+}
+
+// Points the attestation should have lost to decay by `now`
+export function decayDueAt(
+  attestation: Attestation,
+  policy: DecayPolicy,
+  now = new Date()
+): number {
+  if (attestation.revokedAt || !decayEnabled(policy)) {
+    return 0;
+  }
+  const percent = Math.min(
+    decaySteps(attestation, policy, now) * policy.stepPercent,
+    100 - policy.minPercent
+  );
+  return Math.floor((attestation.score * percent) / 100);
+}
+
+// When the attestation next loses points, or null if it never will again
+export function nextDecayAt(
+  attestation: Attestation,
+  policy: DecayPolicy,
+  now = new Date()
+): Date | null {
+  if (attestation.revokedAt || !decayEnabled(policy)) {
+    return null;
+  }
+  const steps = decaySteps(attestation, policy, now);
+  if (steps * policy.stepPercent >= 100 - policy.minPercent) {
+    return null;
+  }
+  return new Date(
+    attestation.timestamp.getTime() +
+      (policy.graceDays + steps * policy.stepDays) * DAY_MS
+  );
+}
+
+// What the attestation counts for now, after decay and revocation
+export function attestationWeight(attestation: Attestation): number {
+  return attestation.revokedAt
+    ? 0
+    : attestation.score - (attestation.decayedPoints ?? 0);
+}
+
+export interface ReputationReduction {
+  // The attestation as it should be stored afterwards
+  attestation: Attestation;
+  kind: ReputationAdjustmentKind;
+  points: number;
+  actor: string;
+  reason: string;
+}
+
+/**
+ * Take points off a user: save the changed attestations, take the points off
+ * the stored score, reduce UnbankedIdentity's score to match, and record
+ * each reduction. The stored score is adjusted in place, so points gained
+ * since `user` was read are kept.
+ *
+ * Storage is updated even if the on-chain call fails; the failure is
+ * returned and reputation reconciliation reports the difference.
+ */
+export async function applyReputationReductions(
+  user: User,
+  reductions: ReputationReduction[],
+  chainReason: string
+) {
+  const repository = getRepository();
+  const total = reductions.reduce((sum, reduction) => sum + reduction.points, 0);
+
+  for (const { attestation } of reductions) {
+    await repository.updateAttestation(attestation);
+  }
+  user.reputationScore = await repository.adjustReputation(
+    user.userIdentifier,
+    -total
+  );
+
+  let onChain;
+  try {
+    const submitted = await submitReputationReductionOnChain(
+      toUserAddress(user.userIdentifier),
+      total,
+      chainReason
+    );
+    onChain = await submitted.result;
+  } catch (error) {
+    console.warn("⚠️ On-chain reputation reduction failed:", error);
+    onChain = {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  const createdAt = new Date();
+  // Each record's score is what it was after that reduction; the last one
+  // ends at the stored score
+  let remaining = total;
+  const adjustments: ReputationAdjustment[] = [];
+  for (const reduction of reductions) {
+    remaining -= reduction.points;
+    const adjustment: ReputationAdjustment = {
+      id: `adj_${crypto.randomUUID()}`,
+      userIdentifier: user.userIdentifier,
+      kind: reduction.kind,
+      attestationId: reduction.attestation.id,
+      points: reduction.points,
+      scoreAfter: user.reputationScore + remaining,
+      actor: reduction.actor,
+      reason: reduction.reason,
+      transactionHash: onChain.success ? onChain.transactionHash : null,
+      createdAt,
+    };
+    await repository.addReputationAdjustment(adjustment);
+    adjustments.push(adjustment);
+  }
+
+  return { reputationScore: user.reputationScore, adjustments, onChain };
+}
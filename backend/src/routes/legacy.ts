@@ -0,0 +1,86 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { ApiError } from "../errors";
+import { authenticate } from "../session";
+import { User } from "../storage";
+import { handleVerification, handleClaimSession } from "../handlers/identity";
+import { addAttestation } from "../handlers/attestations";
+import { applyMicroloan } from "../handlers/loans";
+import { claimAirdrop } from "../handlers/airdrops";
+import { castVote } from "../handlers/governance";
+import { getProfile } from "../handlers/profile";
+
+// POST /api/verify: the Self Protocol callback, plus a compatibility shim for
+// clients that still send `{ action, ...payload }` instead of using /v1.
+export const legacyRouter = Router();
+
+// Session-scoped actions, keyed by their legacy action name
+const sessionActions: Record<string, (user: User, body: unknown) => Promise<object>> =
+  {
+    addAttestation: (user, body) => addAttestation(user, body),
+    applyMicroloan: (user, body) => applyMicroloan(user, body),
+    claimAirdrop: (user, body) => claimAirdrop(user, body),
+    castVote: (user, body) => castVote(user, body),
+    getUserProfile: (user) => getProfile(user),
+  };
+
+// Self Protocol verification endpoint - called directly by Self app
+legacyRouter.post(
+  "/api/verify",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { attestationId, proof, publicSignals, userContextData } =
+        req.body;
+
+      // Check if this is a Self Protocol verification request
+      if (attestationId && proof && publicSignals && userContextData) {
+        console.log("🔐 Self Protocol verification request received");
+        return handleVerification(req, res);
+      }
+
+      // Check if this is an action-based request from frontend
+      const { action, ...payload } = req.body;
+      if (action) {
+        // The action name is routing, not part of the validated payload
+        req.body = payload;
+
+        if (action === "verify") {
+          return handleVerification(req, res);
+        }
+        if (action === "claimSession") {
+          return handleClaimSession(req, res);
+        }
+
+        const run = sessionActions[action];
+        if (!run) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid action",
+          });
+        }
+
+        const user = await authenticate(req, res);
+        if (!user) return;
+
+        // userIdentifier was only needed for the session check above
+        const { userIdentifier: _userIdentifier, ...input } = payload;
+        return res.json(await run(user, input));
+      }
+
+      // Neither Self Protocol nor action-based request
+      return res.status(400).json({
+        success: false,
+        message:
+          "Invalid request format. Expected Self Protocol verification data or action parameter.",
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return next(error);
+      }
+      console.error("API Error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -0,0 +1,514 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { requireSession, sessionUser } from "../session";
+import { handleVerification, handleClaimSession } from "../handlers/identity";
+import {
+  addAttestation,
+  revokeAttestationAsAdmin,
+  revokeAttestationAsAttester,
+} from "../handlers/attestations";
+import {
+  approveAttestationRequest,
+  createAttestationRequest,
+  listAttestationRequests,
+  listAttesterInbox,
+  rejectAttestationRequest,
+} from "../handlers/attestationRequests";
+import {
+  listActiveAttesters,
+  listAllAttesters,
+  registerAttester,
+  revokeAttester,
+} from "../handlers/attesters";
+import { applyMicroloan, getLoan, listLoans } from "../handlers/loans";
+import {
+  claimAirdrop,
+  getAirdropBonus,
+  listAirdrops,
+} from "../handlers/airdrops";
+import {
+  createAirdropCampaign,
+  listAirdropCampaigns,
+} from "../handlers/airdropCampaigns";
+import {
+  createBonusAllocation,
+  listBonusAllocations,
+} from "../handlers/bonusAllocations";
+import {
+  castVote,
+  createProposal,
+  executeProposal,
+  getProposal,
+  listProposals,
+} from "../handlers/governance";
+import { getProfile } from "../handlers/profile";
+import { getTransactionStatus, SubmitOptions } from "../handlers/transactions";
+import {
+  prepareMetaTransaction,
+  relayMetaTransaction,
+} from "../handlers/metaTransactions";
+import {
+  getIndexerStatus,
+  getLatestReconciliation,
+  listIndexedEvents,
+  listTransactions,
+  reconcileReputationNow,
+} from "../handlers/admin";
+import {
+  cancelConfigChange,
+  confirmConfigChange,
+  getBorrower,
+  getContractSettings,
+  listConfigChanges,
+  proposeConfigChange,
+} from "../handlers/configChanges";
+import { adminName, requireAdmin } from "../admin";
+import { getCatalog } from "../catalog";
+import { ValidationError } from "../validation";
+
+// Versioned REST API, mounted at /v1
+export const v1Router = Router();
+
+// Users may only read or modify their own record
+function requireOwnUser(req: Request, res: Response, next: NextFunction) {
+  if (req.params.id !== sessionUser(res).userIdentifier) {
+    return res.status(403).json({
+      success: false,
+      message: "You can only access your own user record",
+    });
+  }
+  next();
+}
+
+// Numeric :id path parameter, rejected with a 422 like a bad body field
+function idParam(req: Request<{ id: string }>, field: string): number {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new ValidationError([
+      { field, message: "must be a positive integer" },
+    ]);
+  }
+  return id;
+}
+
+// `Prefer: respond-async` (RFC 7240) asks for a 202 as soon as the
+// transaction is broadcast instead of waiting for it to be mined
+function submitOptions(req: Request): SubmitOptions {
+  return { respondAsync: /\brespond-async\b/i.test(req.header("prefer") || "") };
+}
+
+// 202 while the transaction is still pending, otherwise `created`
+function submittedStatus(result: object, created = 201) {
+  return "pendingTransaction" in result ? 202 : created;
+}
+
+// Identity
+v1Router.post("/identity/verify", handleVerification);
+v1Router.post("/identity/session", handleClaimSession);
+
+// Users
+v1Router.get(
+  "/users/:id",
+  requireSession,
+  requireOwnUser,
+  async (req: Request, res: Response) => {
+    res.json(await getProfile(sessionUser(res)));
+  }
+);
+
+v1Router.post(
+  "/users/:id/attestations",
+  requireSession,
+  requireOwnUser,
+  async (req: Request, res: Response) => {
+    const result = await addAttestation(
+      sessionUser(res),
+      req.body,
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result)).json(result);
+  }
+);
+
+v1Router.get(
+  "/users/:id/attestation-requests",
+  requireSession,
+  requireOwnUser,
+  async (req: Request, res: Response) => {
+    res.json(await listAttestationRequests(sessionUser(res)));
+  }
+);
+
+v1Router.post(
+  "/users/:id/attestation-requests",
+  requireSession,
+  requireOwnUser,
+  async (req: Request, res: Response) => {
+    res
+      .status(201)
+      .json(await createAttestationRequest(sessionUser(res), req.body));
+  }
+);
+
+// Attestation types, services and their thresholds. Public, so the app can
+// show what reputation unlocks before the user verifies.
+v1Router.get("/catalog", async (req: Request, res: Response) => {
+  res.json({ success: true, ...(await getCatalog()) });
+});
+
+// Attesters. Public, so an attester can sign without a session of their own.
+v1Router.get("/attesters", async (req: Request, res: Response) => {
+  res.json(await listActiveAttesters());
+});
+
+// Attester inbox: requests sent to the signed-in attester
+v1Router.get(
+  "/attestation-requests",
+  requireSession,
+  async (req: Request, res: Response) => {
+    res.json(await listAttesterInbox(sessionUser(res), req.query));
+  }
+);
+
+v1Router.post(
+  "/attestation-requests/:id/approval",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    const result = await approveAttestationRequest(
+      sessionUser(res),
+      req.params.id,
+      req.body,
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result, 200)).json(result);
+  }
+);
+
+v1Router.post(
+  "/attestation-requests/:id/rejection",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(
+      await rejectAttestationRequest(sessionUser(res), req.params.id, req.body)
+    );
+  }
+);
+
+// Attesters withdrawing an attestation they issued
+v1Router.post(
+  "/attestations/:id/revocation",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(
+      await revokeAttestationAsAttester(
+        sessionUser(res),
+        req.params.id,
+        req.body
+      )
+    );
+  }
+);
+
+// Loans
+v1Router.get("/loans", requireSession, async (req: Request, res: Response) => {
+  res.json(await listLoans(sessionUser(res)));
+});
+
+v1Router.post("/loans", requireSession, async (req: Request, res: Response) => {
+  res.status(201).json(await applyMicroloan(sessionUser(res), req.body));
+});
+
+v1Router.get(
+  "/loans/:id",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await getLoan(sessionUser(res), idParam(req, "loanId")));
+  }
+);
+
+// Airdrops
+v1Router.get(
+  "/airdrops",
+  requireSession,
+  async (_req: Request, res: Response) => {
+    res.json(await listAirdrops(sessionUser(res)));
+  }
+);
+
+v1Router.get(
+  "/airdrops/:id/bonus",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await getAirdropBonus(sessionUser(res), req.params.id));
+  }
+);
+
+v1Router.post(
+  "/airdrops/:id/claims",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res
+      .status(201)
+      .json(await claimAirdrop(sessionUser(res), { airdropId: req.params.id }));
+  }
+);
+
+// Governance
+v1Router.get(
+  "/proposals",
+  requireSession,
+  async (req: Request, res: Response) => {
+    res.json(await listProposals(sessionUser(res)));
+  }
+);
+
+v1Router.post(
+  "/proposals",
+  requireSession,
+  async (req: Request, res: Response) => {
+    res.status(201).json(await createProposal(sessionUser(res), req.body));
+  }
+);
+
+v1Router.get(
+  "/proposals/:id",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await getProposal(sessionUser(res), idParam(req, "proposalId")));
+  }
+);
+
+v1Router.post(
+  "/proposals/:id/execution",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    const result = await executeProposal(
+      sessionUser(res),
+      idParam(req, "proposalId"),
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result, 200)).json(result);
+  }
+);
+
+v1Router.post(
+  "/proposals/:id/votes",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    const result = await castVote(
+      sessionUser(res),
+      { ...req.body, proposalId: idParam(req, "proposalId") },
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result)).json(result);
+  }
+);
+
+// Meta-transactions: the user signs, the backend relays and pays the gas
+v1Router.post(
+  "/meta-transactions/prepare",
+  requireSession,
+  async (req: Request, res: Response) => {
+    res.json(await prepareMetaTransaction(sessionUser(res), req.body));
+  }
+);
+
+v1Router.post(
+  "/meta-transactions",
+  requireSession,
+  async (req: Request, res: Response) => {
+    const result = await relayMetaTransaction(
+      sessionUser(res),
+      req.body,
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result)).json(result);
+  }
+);
+
+// Transactions the backend wallet sent for the signed-in user
+v1Router.get(
+  "/transactions/:id",
+  requireSession,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await getTransactionStatus(req.params.id, sessionUser(res)));
+  }
+);
+
+// Admin (X-Admin-Key)
+v1Router.post(
+  "/admin/reputation/reconciliations",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.status(201).json(await reconcileReputationNow(req.body));
+  }
+);
+
+v1Router.get(
+  "/admin/reputation/reconciliations/latest",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await getLatestReconciliation());
+  }
+);
+
+v1Router.get(
+  "/admin/attesters",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await listAllAttesters());
+  }
+);
+
+v1Router.post(
+  "/admin/attesters",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.status(201).json(await registerAttester(req.body));
+  }
+);
+
+v1Router.post(
+  "/admin/attesters/:address/revocation",
+  requireAdmin,
+  async (req: Request<{ address: string }>, res: Response) => {
+    res.json(await revokeAttester(req.params.address, req.body));
+  }
+);
+
+v1Router.post(
+  "/admin/attestations/:id/revocation",
+  requireAdmin,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await revokeAttestationAsAdmin(req.params.id, req.body));
+  }
+);
+
+v1Router.get(
+  "/admin/indexer",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await getIndexerStatus());
+  }
+);
+
+v1Router.get(
+  "/admin/events",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await listIndexedEvents(req.query));
+  }
+);
+
+v1Router.get(
+  "/admin/transactions",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await listTransactions(req.query));
+  }
+);
+
+v1Router.get(
+  "/admin/transactions/:id",
+  requireAdmin,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await getTransactionStatus(req.params.id));
+  }
+);
+
+v1Router.get(
+  "/admin/settings",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await getContractSettings());
+  }
+);
+
+v1Router.get(
+  "/admin/borrowers/:address",
+  requireAdmin,
+  async (req: Request<{ address: string }>, res: Response) => {
+    res.json(await getBorrower(req.params.address));
+  }
+);
+
+v1Router.get(
+  "/admin/bonus-allocations",
+  requireAdmin,
+  async (_req: Request, res: Response) => {
+    res.json(await listBonusAllocations());
+  }
+);
+
+// The CSV is sent as text/csv, which the JSON body parser leaves alone
+v1Router.post(
+  "/admin/bonus-allocations",
+  requireAdmin,
+  express.text({ type: "text/csv", limit: "5mb" }),
+  async (req: Request, res: Response) => {
+    res
+      .status(201)
+      .json(await createBonusAllocation(adminName(res), req.body));
+  }
+);
+
+v1Router.get(
+  "/admin/airdrop-campaigns",
+  requireAdmin,
+  async (_req: Request, res: Response) => {
+    res.json(await listAirdropCampaigns());
+  }
+);
+
+v1Router.post(
+  "/admin/airdrop-campaigns",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res
+      .status(201)
+      .json(await createAirdropCampaign(adminName(res), req.body));
+  }
+);
+
+v1Router.get(
+  "/admin/config-changes",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.json(await listConfigChanges(req.query));
+  }
+);
+
+v1Router.post(
+  "/admin/config-changes",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    res.status(201).json(await proposeConfigChange(adminName(res), req.body));
+  }
+);
+
+v1Router.post(
+  "/admin/config-changes/:id/confirmation",
+  requireAdmin,
+  async (req: Request<{ id: string }>, res: Response) => {
+    const result = await confirmConfigChange(
+      adminName(res),
+      req.params.id,
+      submitOptions(req)
+    );
+    res.status(submittedStatus(result, 200)).json(result);
+  }
+);
+
+v1Router.post(
+  "/admin/config-changes/:id/cancellation",
+  requireAdmin,
+  async (req: Request<{ id: string }>, res: Response) => {
+    res.json(await cancelConfigChange(adminName(res), req.params.id));
+  }
+);
+
+v1Router.use((req: Request, res: Response) => {
+  res.status(404).json({
+    success: false,
+    message: `No route for ${req.method} /v1${req.path}`,
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  SelfBackendVerifier,
+  DefaultConfigStore,
+  VerificationConfig,
+} from "@selfxyz/core";
+import {
+  UserIdentifierFormat,
+  userIdTypeOfContextData,
+} from "./shared/user-address";
+
+// Enhanced Self Protocol Configuration with comprehensive storage
+class ProductionConfigStore extends DefaultConfigStore {
+  private configCache = new Map<string, VerificationConfig>();
+
+  constructor(defaultConfig: VerificationConfig) {
+    super(defaultConfig);
+  }
+
+  async getConfig(configId: string): Promise<VerificationConfig> {
+    // Check cache first
+    if (this.configCache.has(configId)) {
+      return this.configCache.get(configId)!;
+    }
+
+    // For production, you could fetch from database here
+    // For now, return the default config
+    const config = await super.getConfig(configId);
+    this.configCache.set(configId, config);
+    return config;
+  }
+
+  async getActionId(
+    userIdentifier: string,
+    userDefinedData: string
+  ): Promise<string> {
+    // Parse user defined data to extract any custom requirements
+    try {
+      const userData = JSON.parse(userDefinedData);
+      // You could implement custom config logic based on user data
+      return "default_config";
+    } catch {
+      return "default_config";
+    }
+  }
+}
+
+// Self Protocol Configuration - matches frontend exactly
+const verificationConfig: VerificationConfig = {
+  excludedCountries: [], // No country restrictions for global access
+  ofac: false, // Disabled for unbanked populations
+  minimumAge: 16, // Lower age limit for financial inclusion
+};
+
+const configStore = new ProductionConfigStore(verificationConfig);
+
+// Define allowed attestation types for Self Protocol
+const allowedIds = new Map();
+allowedIds.set(1, true); // Electronic Passport
+allowedIds.set(2, true); // EU ID Card
+
+// Initialize Self Backend Verifiers with mock passport support, one per
+// user ID type: the frontend sends a wallet address as "hex" and anything
+// else as "uuid"
+function createVerifier(userIdType: UserIdentifierFormat) {
+  return new SelfBackendVerifier(
+    process.env.SELF_SCOPE || "zk-unbanked-demo",
+    process.env.SELF_ENDPOINT ||
+      `${process.env.API_URL || "http://localhost:3001"}/api/verify`,
+    true, // Set to true for mock passport testing
+    allowedIds, // Specific attestation types we accept
+    configStore,
+    userIdType
+  );
+}
+
+const verifiers: Record<UserIdentifierFormat, SelfBackendVerifier> = {
+  uuid: createVerifier("uuid"),
+  hex: createVerifier("hex"),
+};
+
+// The verifier that reads the user ID in the format the proof was made with
+export function selfBackendVerifierFor(userContextData: string) {
+  return verifiers[userIdTypeOfContextData(userContextData)];
+}
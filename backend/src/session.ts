@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { getRepository, User } from "./storage";
+
+// Session tokens are short-lived JWTs bound to the verified nullifier.
+// A token is only honoured while the nullifier still maps to the user it was
+// issued for, so a forged or stale identifier can never act on someone else.
+
+const SESSION_TTL = process.env.SESSION_TTL || "12h";
+
+// Grants let the browser pick up the session created by the Self app callback
+const SESSION_GRANT_TTL_MS = 5 * 60 * 1000;
+
+const jwtSecret =
+  process.env.JWT_SECRET ||
+  (() => {
+    console.warn(
+      "⚠️ JWT_SECRET not set - using an ephemeral secret. Sessions will not survive a restart."
+    );
+    return crypto.randomBytes(32).toString("hex");
+  })();
+
+interface SessionClaims {
+  sub: string; // userIdentifier
+  nullifier: string;
+}
+
+export interface Session {
+  token: string;
+  userIdentifier: string;
+  expiresAt: string;
+}
+
+interface SessionGrant {
+  session: Session;
+  // Digest of the nonce the browser put in the QR code
+  nonceHash: Buffer;
+  expiresAt: number;
+}
+
+const pendingGrants = new Map<string, SessionGrant>();
+
+// Sign a new session for a verified user
+export function issueSession(user: User): Session {
+  const claims: SessionClaims = {
+    sub: user.userIdentifier,
+    nullifier: user.nullifier,
+  };
+
+  const token = jwt.sign(claims, jwtSecret, {
+    expiresIn: SESSION_TTL as jwt.SignOptions["expiresIn"],
+  });
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+  return {
+    token,
+    userIdentifier: user.userIdentifier,
+    expiresAt: new Date(exp! * 1000).toISOString(),
+  };
+}
+
+const SESSION_NONCE_PATTERN = /^[0-9a-f]{64}$/;
+
+function hashNonce(nonce: string) {
+  return crypto.createHash("sha256").update(nonce).digest();
+}
+
+/**
+ * The session nonce the browser put in the QR code's userDefinedData: 32
+ * random bytes as lowercase hex. The Self app may hand the field back
+ * hex-encoded and zero-padded, so that form is accepted too.
+ */
+export function sessionNonceFrom(userDefinedData: string | undefined) {
+  const raw = (userDefinedData ?? "").trim().toLowerCase().replace(/^0x/, "");
+  if (SESSION_NONCE_PATTERN.test(raw)) {
+    return raw;
+  }
+  if (/^([0-9a-f]{2})+$/.test(raw)) {
+    const decoded = Buffer.from(raw, "hex")
+      .toString("utf8")
+      .replace(/\0+$/, "");
+    if (SESSION_NONCE_PATTERN.test(decoded)) {
+      return decoded;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Park a session for pickup by the browser that started verification.
+ *
+ * The Self app posts the proof straight to the backend, so the frontend never
+ * sees that response. It knows the userIdentifier it put in the QR code,
+ * which for a wallet is public, and the random nonce it put beside it, which
+ * nobody else has. It trades both in once via {@link claimSessionGrant}.
+ * Without a nonce there is nothing to prove the claim comes from that
+ * browser, so no grant is made.
+ */
+export function createSessionGrant(
+  requestIdentifier: string,
+  nonce: string | undefined,
+  session: Session
+) {
+  if (!nonce) {
+    console.warn(
+      `⚠️ No session nonce in the verification for ${requestIdentifier}; the browser can't pick up its session`
+    );
+    return;
+  }
+  pendingGrants.set(requestIdentifier, {
+    session,
+    nonceHash: hashNonce(nonce),
+    expiresAt: Date.now() + SESSION_GRANT_TTL_MS,
+  });
+}
+
+// The parked session, if `nonce` is the one it was parked with. A grant is
+// handed out once; a wrong nonce leaves it for the browser that has the
+// right one.
+export function claimSessionGrant(
+  requestIdentifier: string,
+  nonce: string
+): Session | undefined {
+  const grant = pendingGrants.get(requestIdentifier);
+  if (!grant) {
+    return undefined;
+  }
+  if (grant.expiresAt < Date.now()) {
+    pendingGrants.delete(requestIdentifier);
+    return undefined;
+  }
+  if (!crypto.timingSafeEqual(grant.nonceHash, hashNonce(nonce))) {
+    return undefined;
+  }
+  pendingGrants.delete(requestIdentifier);
+  return grant.session;
+}
+
+function rejectSession(res: Response, code: string, message: string) {
+  return res.status(401).json({
+    success: false,
+    code,
+    message,
+    reverify: {
+      required: true,
+      endpoint: "/v1/identity/verify",
+    },
+  });
+}
+
+/**
+ * Resolve the bearer token to a stored user.
+ *
+ * Sends the 401/403 response itself and returns undefined when the request
+ * is not allowed through.
+ */
+export async function authenticate(
+  req: Request,
+  res: Response
+): Promise<User | undefined> {
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    rejectSession(
+      res,
+      "SESSION_REQUIRED",
+      "A verified session is required. Please verify your identity."
+    );
+    return undefined;
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = jwt.verify(token, jwtSecret) as jwt.JwtPayload & SessionClaims;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      rejectSession(
+        res,
+        "SESSION_EXPIRED",
+        "Your session has expired. Please verify your identity again."
+      );
+    } else {
+      rejectSession(res, "SESSION_INVALID", "Invalid session token.");
+    }
+    return undefined;
+  }
+
+  const user = await getRepository().getUserByNullifier(claims.nullifier);
+  if (!user || user.userIdentifier !== claims.sub) {
+    rejectSession(
+      res,
+      "SESSION_INVALID",
+      "Session does not match a verified identity."
+    );
+    return undefined;
+  }
+
+  // Older clients still send userIdentifier in the body; it must agree
+  const { userIdentifier } = req.body || {};
+  if (userIdentifier && userIdentifier !== user.userIdentifier) {
+    res.status(403).json({
+      success: false,
+      code: "SESSION_MISMATCH",
+      message: "userIdentifier does not belong to this session",
+    });
+    return undefined;
+  }
+
+  res.locals.user = user;
+  return user;
+}
+
+// Express middleware wrapper around authenticate()
+export async function requireSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (await authenticate(req, res)) {
+    next();
+  }
+}
+
+// The user attached by requireSession
+export function sessionUser(res: Response): User {
+  return res.locals.user as User;
+}
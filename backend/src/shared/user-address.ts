@@ -0,0 +1,63 @@
+import { getAddress, toBeHex } from "ethers";
+
+// How a Self userIdentifier maps to the address the contracts know the
+// user by.
+//
+// Self passes the identifier on-chain as a uint256: a UUID is read as the
+// 128-bit number its hex digits spell (dashes dropped), and a hex
+// identifier is read as-is. UnbankedIdentity.customVerificationHook keys
+// userData by that number, and every per-user function looks the user up
+// with uint256(uint160(userAddress)). So the user's address is
+// address(uint160(userIdentifier)): the identifier's low 160 bits.
+//
+// Both the backend and the frontend use this module. The backend copy in
+// backend/src/shared is the original.
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_PATTERN = /^0x[0-9a-f]{1,64}$/i;
+
+// No bigint literals: the frontend compiles this file for targets below ES2020
+const UINT160_MASK = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+export type UserIdentifierFormat = "uuid" | "hex";
+
+// Which format an identifier is in, or undefined if it is neither
+export function userIdentifierFormat(
+  userIdentifier: string
+): UserIdentifierFormat | undefined {
+  if (UUID_PATTERN.test(userIdentifier)) return "uuid";
+  if (HEX_PATTERN.test(userIdentifier)) return "hex";
+  return undefined;
+}
+
+// The user ID type the Self app was given, read from the userContextData it
+// sends with a proof: the destination chain ID, then the user ID, as 32
+// bytes of hex each. A UUID fits in 128 bits; a wallet address sent as
+// "hex" needs 160.
+export function userIdTypeOfContextData(
+  userContextData: string
+): UserIdentifierFormat {
+  const userId = BigInt(`0x${userContextData.slice(64, 128)}`);
+  return userId >> BigInt(128) === BigInt(0) ? "uuid" : "hex";
+}
+
+// The uint256 Self hands the contracts as userIdentifier
+export function userIdentifierToUint256(userIdentifier: string): bigint {
+  switch (userIdentifierFormat(userIdentifier)) {
+    case "uuid":
+      return BigInt(`0x${userIdentifier.replace(/-/g, "")}`);
+    case "hex":
+      return BigInt(userIdentifier);
+    default:
+      throw new Error(
+        `Unsupported userIdentifier "${userIdentifier}": expected a UUID or 0x-prefixed hex`
+      );
+  }
+}
+
+// address(uint160(userIdentifier)), checksummed
+export function toUserAddress(userIdentifier: string): string {
+  const identifier = userIdentifierToUint256(userIdentifier);
+  return getAddress(toBeHex(identifier & UINT160_MASK, 20));
+}
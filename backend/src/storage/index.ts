@@ -0,0 +1,49 @@
+import { MemoryRepository } from "./memory";
+import { SqliteRepository } from "./sqlite";
+import { Repository } from "./types";
+
+export * from "./types";
+export { MemoryRepository, SqliteRepository };
+
+const DEFAULT_DATABASE_URL = "sqlite:./data/zk-unbanked.db";
+
+/**
+ * Build the repository described by DATABASE_URL.
+ *
+ * Supported values:
+ * - `sqlite:<path>` - persistent SQLite file (default: ./data/zk-unbanked.db)
+ * - `memory`        - in-memory maps, wiped on restart (tests/demos)
+ */
+export function createRepository(
+  databaseUrl = process.env.DATABASE_URL || DEFAULT_DATABASE_URL
+): Repository {
+  if (databaseUrl === "memory") {
+    console.log("🗄️  Using in-memory storage (data is lost on restart)");
+    return new MemoryRepository();
+  }
+
+  if (databaseUrl.startsWith("sqlite:")) {
+    const filename = databaseUrl.slice("sqlite:".length);
+    console.log(`🗄️  Using SQLite storage at ${filename}`);
+    return new SqliteRepository(filename);
+  }
+
+  throw new Error(
+    `Unsupported DATABASE_URL "${databaseUrl}". Use "sqlite:<path>" or "memory".`
+  );
+}
+
+let activeRepository: Repository | undefined;
+
+// Create the process-wide repository. Call once at startup.
+export function initializeStorage(repository = createRepository()) {
+  activeRepository = repository;
+  return repository;
+}
+
+export function getRepository(): Repository {
+  if (!activeRepository) {
+    throw new Error("Storage not initialized. Call initializeStorage() first.");
+  }
+  return activeRepository;
+}
@@ -0,0 +1,438 @@
+import {
+  AirdropCampaign,
+  AirdropClaim,
+  AirdropClaimFilter,
+  Attestation,
+  AttestationRequest,
+  AttestationRequestFilter,
+  Attester,
+  AttesterStatus,
+  BonusAllocation,
+  BonusAllocationEntry,
+  ChainEvent,
+  ChainEventFilter,
+  ConfigChange,
+  ConfigChangeFilter,
+  ConfigChangeStatus,
+  DuplicateUserError,
+  IndexerCheckpoint,
+  ManagedTransaction,
+  ManagedTransactionStatus,
+  ReputationAdjustment,
+  Repository,
+  Transaction,
+  User,
+} from "./types";
+
+/**
+ * Process-local repository. Nothing survives a restart, which makes it a good
+ * fit for tests and throwaway demos.
+ */
+export class MemoryRepository implements Repository {
+  private users = new Map<string, User>();
+  private nullifierToUser = new Map<string, string>();
+  private chainEvents: ChainEvent[] = [];
+  private checkpoint: IndexerCheckpoint | undefined;
+  private managedTransactions = new Map<string, ManagedTransaction>();
+  private attesters = new Map<string, Attester>();
+  private attestationRequests = new Map<string, AttestationRequest>();
+  private reputationAdjustments: ReputationAdjustment[] = [];
+  private configChanges = new Map<string, ConfigChange>();
+  private airdropCampaigns = new Map<string, AirdropCampaign>();
+  private airdropClaims: AirdropClaim[] = [];
+  private bonusAllocations = new Map<
+    string,
+    { allocation: BonusAllocation; entries: Map<string, BonusAllocationEntry> }
+  >();
+
+  async getUser(userIdentifier: string): Promise<User | undefined> {
+    const user = this.users.get(userIdentifier);
+    return user ? cloneUser(user) : undefined;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return [...this.users.values()].map(cloneUser);
+  }
+
+  async createUser(user: User): Promise<User> {
+    if (this.users.has(user.userIdentifier)) {
+      throw new DuplicateUserError(
+        `User already registered: ${user.userIdentifier}`
+      );
+    }
+    if (this.nullifierToUser.has(user.nullifier)) {
+      throw new DuplicateUserError(
+        `Nullifier already registered: ${user.nullifier}`
+      );
+    }
+
+    this.users.set(user.userIdentifier, cloneUser(user));
+    this.nullifierToUser.set(user.nullifier, user.userIdentifier);
+    return cloneUser(user);
+  }
+
+  async updateReputation(userIdentifier: string, score: number) {
+    this.requireUser(userIdentifier).reputationScore = score;
+  }
+
+  async adjustReputation(userIdentifier: string, delta: number) {
+    const user = this.requireUser(userIdentifier);
+    user.reputationScore = Math.max(0, user.reputationScore + delta);
+    return user.reputationScore;
+  }
+
+  async hasNullifier(nullifier: string): Promise<boolean> {
+    return this.nullifierToUser.has(nullifier);
+  }
+
+  async getUserByNullifier(nullifier: string): Promise<User | undefined> {
+    const userIdentifier = this.nullifierToUser.get(nullifier);
+    return userIdentifier ? this.getUser(userIdentifier) : undefined;
+  }
+
+  async addAttestation(userIdentifier: string, attestation: Attestation) {
+    this.requireUser(userIdentifier).attestations.push({ ...attestation });
+  }
+
+  async findAttestation(attestationId: string) {
+    for (const user of this.users.values()) {
+      const attestation = user.attestations.find(
+        (att) => att.id === attestationId
+      );
+      if (attestation) {
+        return {
+          userIdentifier: user.userIdentifier,
+          attestation: { ...attestation },
+        };
+      }
+    }
+    return undefined;
+  }
+
+  async updateAttestation(attestation: Attestation) {
+    for (const user of this.users.values()) {
+      const index = user.attestations.findIndex(
+        (att) => att.id === attestation.id
+      );
+      if (index !== -1) {
+        user.attestations[index] = { ...attestation };
+        return;
+      }
+    }
+  }
+
+  async addReputationAdjustment(adjustment: ReputationAdjustment) {
+    this.reputationAdjustments.push({ ...adjustment });
+  }
+
+  async listReputationAdjustments(userIdentifier: string) {
+    return this.reputationAdjustments
+      .filter((adjustment) => adjustment.userIdentifier === userIdentifier)
+      .map((adjustment) => ({ ...adjustment }));
+  }
+
+  async saveAttester(attester: Attester) {
+    this.attesters.set(attester.address.toLowerCase(), cloneAttester(attester));
+  }
+
+  async getAttester(address: string) {
+    const attester = this.attesters.get(address.toLowerCase());
+    return attester ? cloneAttester(attester) : undefined;
+  }
+
+  async listAttesters(status?: AttesterStatus) {
+    return [...this.attesters.values()]
+      .filter((attester) => status === undefined || attester.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneAttester);
+  }
+
+  async saveAttestationRequest(request: AttestationRequest) {
+    this.attestationRequests.set(request.id, { ...request });
+  }
+
+  async getAttestationRequest(id: string) {
+    const request = this.attestationRequests.get(id);
+    return request ? { ...request } : undefined;
+  }
+
+  async listAttestationRequests(filter: AttestationRequestFilter = {}) {
+    return [...this.attestationRequests.values()]
+      .filter(
+        (request) =>
+          (filter.userIdentifier === undefined ||
+            request.userIdentifier === filter.userIdentifier) &&
+          (filter.attester === undefined ||
+            request.attester.toLowerCase() === filter.attester.toLowerCase()) &&
+          (filter.status === undefined || request.status === filter.status)
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((request) => ({ ...request }));
+  }
+
+  async saveConfigChange(change: ConfigChange) {
+    this.configChanges.set(change.id, cloneConfigChange(change));
+  }
+
+  async transitionConfigChange(change: ConfigChange, from: ConfigChangeStatus) {
+    if (this.configChanges.get(change.id)?.status !== from) {
+      return false;
+    }
+    this.configChanges.set(change.id, cloneConfigChange(change));
+    return true;
+  }
+
+  async getConfigChange(id: string) {
+    const change = this.configChanges.get(id);
+    return change ? cloneConfigChange(change) : undefined;
+  }
+
+  async listConfigChanges(filter: ConfigChangeFilter = {}) {
+    return [...this.configChanges.values()]
+      .filter(
+        (change) =>
+          (filter.status === undefined || change.status === filter.status) &&
+          (filter.action === undefined || change.action === filter.action)
+      )
+      .sort((a, b) => a.proposedAt.getTime() - b.proposedAt.getTime())
+      .map(cloneConfigChange);
+  }
+
+  async saveBonusAllocation(
+    allocation: BonusAllocation,
+    entries: BonusAllocationEntry[]
+  ) {
+    if (this.bonusAllocations.has(allocation.merkleRoot)) {
+      return;
+    }
+    this.bonusAllocations.set(allocation.merkleRoot, {
+      allocation: { ...allocation },
+      entries: new Map(
+        entries.map((entry) => [
+          entry.address,
+          { ...entry, proof: [...entry.proof] },
+        ])
+      ),
+    });
+  }
+
+  async listBonusAllocations() {
+    return [...this.bonusAllocations.values()]
+      .map(({ allocation }) => ({ ...allocation }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getBonusAllocationEntry(merkleRoot: string, address: string) {
+    const entry = this.bonusAllocations.get(merkleRoot)?.entries.get(address);
+    return entry ? { ...entry, proof: [...entry.proof] } : undefined;
+  }
+
+  async createAirdropCampaign(campaign: AirdropCampaign) {
+    if (this.airdropCampaigns.has(campaign.id)) {
+      throw new Error(`Airdrop campaign ${campaign.id} already exists`);
+    }
+    this.airdropCampaigns.set(campaign.id, cloneAirdropCampaign(campaign));
+  }
+
+  async getAirdropCampaign(id: string) {
+    const campaign = this.airdropCampaigns.get(id);
+    return campaign ? cloneAirdropCampaign(campaign) : undefined;
+  }
+
+  async listAirdropCampaigns() {
+    return [...this.airdropCampaigns.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneAirdropCampaign);
+  }
+
+  async reserveAirdropClaim(claim: AirdropClaim, budget: string) {
+    const claims = this.airdropClaims.filter(
+      (existing) =>
+        existing.campaignId === claim.campaignId && existing.status !== "failed"
+    );
+    if (claims.some((existing) => existing.userIdentifier === claim.userIdentifier)) {
+      return "already_claimed" as const;
+    }
+    const spent = claims.reduce((sum, existing) => sum + BigInt(existing.amount), 0n);
+    if (spent + BigInt(claim.amount) > BigInt(budget)) {
+      return "budget_exhausted" as const;
+    }
+
+    // A failed claim is replaced by the new attempt
+    this.airdropClaims = this.airdropClaims.filter(
+      (existing) =>
+        existing.campaignId !== claim.campaignId ||
+        existing.userIdentifier !== claim.userIdentifier
+    );
+    this.airdropClaims.push({ ...claim });
+    return "reserved" as const;
+  }
+
+  async updateAirdropClaim(claim: AirdropClaim) {
+    const index = this.airdropClaims.findIndex(
+      (existing) =>
+        existing.campaignId === claim.campaignId &&
+        existing.userIdentifier === claim.userIdentifier
+    );
+    if (index !== -1) {
+      this.airdropClaims[index] = { ...claim };
+    }
+  }
+
+  async listAirdropClaims(filter: AirdropClaimFilter = {}) {
+    return this.airdropClaims
+      .filter(
+        (claim) =>
+          (filter.campaignId === undefined ||
+            claim.campaignId === filter.campaignId) &&
+          (filter.userIdentifier === undefined ||
+            claim.userIdentifier === filter.userIdentifier)
+      )
+      .sort((a, b) => a.claimedAt.getTime() - b.claimedAt.getTime())
+      .map((claim) => ({ ...claim }));
+  }
+
+  async addTransaction(userIdentifier: string, transaction: Transaction) {
+    this.requireUser(userIdentifier).transactions.push({ ...transaction });
+  }
+
+  async findTransaction(transactionId: string) {
+    for (const user of this.users.values()) {
+      const transaction = user.transactions.find(
+        (tx) => tx.id === transactionId
+      );
+      if (transaction) {
+        return {
+          userIdentifier: user.userIdentifier,
+          transaction: { ...transaction },
+        };
+      }
+    }
+    return undefined;
+  }
+
+  async updateTransactionStatus(transactionId: string, status: string) {
+    for (const user of this.users.values()) {
+      const transaction = user.transactions.find(
+        (tx) => tx.id === transactionId
+      );
+      if (transaction) {
+        transaction.status = status;
+        return;
+      }
+    }
+  }
+
+  async getIndexerCheckpoint() {
+    return this.checkpoint ? { ...this.checkpoint } : undefined;
+  }
+
+  async saveChainEvents(events: ChainEvent[], checkpoint: IndexerCheckpoint) {
+    const seen = new Set(
+      this.chainEvents.map((event) => `${event.blockNumber}:${event.logIndex}`)
+    );
+    for (const event of events) {
+      if (!seen.has(`${event.blockNumber}:${event.logIndex}`)) {
+        this.chainEvents.push(cloneChainEvent(event));
+      }
+    }
+    this.chainEvents.sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+    this.checkpoint = { ...checkpoint };
+  }
+
+  async rewindChainEvents(checkpoint: IndexerCheckpoint) {
+    const before = this.chainEvents.length;
+    this.chainEvents = this.chainEvents.filter(
+      (event) => event.blockNumber <= checkpoint.blockNumber
+    );
+    this.checkpoint = { ...checkpoint };
+    return before - this.chainEvents.length;
+  }
+
+  async listChainEvents(filter: ChainEventFilter = {}) {
+    return this.chainEvents
+      .filter(
+        (event) =>
+          (filter.contract === undefined || event.contract === filter.contract) &&
+          (filter.name === undefined || event.name === filter.name) &&
+          (filter.fromBlock === undefined ||
+            event.blockNumber >= filter.fromBlock)
+      )
+      .slice(0, filter.limit)
+      .map(cloneChainEvent);
+  }
+
+  async saveManagedTransaction(transaction: ManagedTransaction) {
+    this.managedTransactions.set(
+      transaction.id,
+      cloneManagedTransaction(transaction)
+    );
+  }
+
+  async getManagedTransaction(id: string) {
+    const transaction = this.managedTransactions.get(id);
+    return transaction ? cloneManagedTransaction(transaction) : undefined;
+  }
+
+  async listManagedTransactions(status?: ManagedTransactionStatus) {
+    return [...this.managedTransactions.values()]
+      .filter((tx) => status === undefined || tx.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneManagedTransaction);
+  }
+
+  async close() {
+    this.attesters.clear();
+    this.attestationRequests.clear();
+    this.reputationAdjustments = [];
+    this.managedTransactions.clear();
+    this.users.clear();
+    this.nullifierToUser.clear();
+    this.chainEvents = [];
+    this.checkpoint = undefined;
+  }
+
+  private requireUser(userIdentifier: string): User {
+    const user = this.users.get(userIdentifier);
+    if (!user) {
+      throw new Error(`User not found: ${userIdentifier}`);
+    }
+    return user;
+  }
+}
+
+// Hand out copies so callers can't mutate stored state behind our back
+function cloneUser(user: User): User {
+  return {
+    ...user,
+    attestations: user.attestations.map((att) => ({ ...att })),
+    transactions: user.transactions.map((tx) => ({ ...tx })),
+  };
+}
+
+function cloneChainEvent(event: ChainEvent): ChainEvent {
+  return { ...event, args: { ...event.args } };
+}
+
+function cloneAttester(attester: Attester): Attester {
+  return { ...attester, attestationTypes: [...attester.attestationTypes] };
+}
+
+function cloneAirdropCampaign(campaign: AirdropCampaign): AirdropCampaign {
+  return { ...campaign, attestationTypes: [...campaign.attestationTypes] };
+}
+
+function cloneConfigChange(change: ConfigChange): ConfigChange {
+  return {
+    ...change,
+    params: { ...change.params },
+    before: { ...change.before },
+    after: { ...change.after },
+  };
+}
+
+function cloneManagedTransaction(tx: ManagedTransaction): ManagedTransaction {
+  return { ...tx, hashes: [...tx.hashes] };
+}
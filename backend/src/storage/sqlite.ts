@@ -0,0 +1,1349 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  AirdropCampaign,
+  AirdropClaim,
+  AirdropClaimFilter,
+  AirdropClaimStatus,
+  Attestation,
+  AttestationRequest,
+  AttestationRequestFilter,
+  AttestationRequestStatus,
+  Attester,
+  AttesterStatus,
+  BonusAllocation,
+  BonusAllocationEntry,
+  ChainEvent,
+  ChainEventFilter,
+  ConfigChange,
+  ConfigChangeAction,
+  ConfigChangeFilter,
+  ConfigChangeStatus,
+  DuplicateUserError,
+  IndexerCheckpoint,
+  ManagedTransaction,
+  ManagedTransactionStatus,
+  ReputationAdjustment,
+  ReputationAdjustmentKind,
+  Repository,
+  Transaction,
+  User,
+} from "./types";
+
+// Schema migrations, applied in order and tracked with PRAGMA user_version.
+// Append new entries; never edit one that has already shipped.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    user_identifier TEXT PRIMARY KEY,
+    nullifier TEXT NOT NULL,
+    reputation_score INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE nullifiers (
+    nullifier TEXT PRIMARY KEY,
+    user_identifier TEXT NOT NULL REFERENCES users(user_identifier)
+  );
+
+  CREATE TABLE attestations (
+    id TEXT PRIMARY KEY,
+    user_identifier TEXT NOT NULL REFERENCES users(user_identifier),
+    type TEXT NOT NULL,
+    description TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    attested_by TEXT NOT NULL,
+    timestamp TEXT NOT NULL
+  );
+  CREATE INDEX idx_attestations_user ON attestations(user_identifier);
+
+  CREATE TABLE transactions (
+    id TEXT PRIMARY KEY,
+    user_identifier TEXT NOT NULL REFERENCES users(user_identifier),
+    type TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    status TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    on_chain TEXT
+  );
+  CREATE INDEX idx_transactions_user ON transactions(user_identifier);
+  `,
+  `
+  CREATE TABLE chain_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX idx_chain_events_name ON chain_events(contract, name);
+
+  CREATE TABLE indexer_checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    source TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT
+  );
+  `,
+  `
+  CREATE TABLE managed_transactions (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    status TEXT NOT NULL,
+    nonce INTEGER NOT NULL,
+    to_address TEXT NOT NULL,
+    data TEXT NOT NULL,
+    value TEXT NOT NULL,
+    gas_limit TEXT NOT NULL,
+    max_fee_per_gas TEXT,
+    max_priority_fee_per_gas TEXT,
+    gas_price TEXT,
+    hashes TEXT NOT NULL,
+    transaction_hash TEXT,
+    block_number INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_managed_transactions_status ON managed_transactions(status);
+  `,
+  `
+  CREATE TABLE attesters (
+    address TEXT PRIMARY KEY COLLATE NOCASE,
+    name TEXT NOT NULL,
+    attestation_types TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    revoked_at TEXT,
+    revoked_reason TEXT
+  );
+
+  ALTER TABLE attestations ADD COLUMN signature TEXT;
+  `,
+  `
+  CREATE TABLE attestation_requests (
+    id TEXT PRIMARY KEY,
+    user_identifier TEXT NOT NULL REFERENCES users(user_identifier),
+    subject TEXT NOT NULL,
+    attestation_type TEXT NOT NULL,
+    attester TEXT NOT NULL COLLATE NOCASE,
+    message TEXT,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    decided_at TEXT,
+    rejection_reason TEXT,
+    attestation_id TEXT
+  );
+  CREATE INDEX idx_attestation_requests_user ON attestation_requests(user_identifier);
+  CREATE INDEX idx_attestation_requests_attester ON attestation_requests(attester, status);
+  `,
+  `
+  ALTER TABLE attestations ADD COLUMN decayed_points INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE attestations ADD COLUMN revoked_at TEXT;
+  ALTER TABLE attestations ADD COLUMN revoked_by TEXT;
+  ALTER TABLE attestations ADD COLUMN revocation_reason TEXT;
+
+  CREATE TABLE reputation_adjustments (
+    id TEXT PRIMARY KEY,
+    user_identifier TEXT NOT NULL REFERENCES users(user_identifier),
+    kind TEXT NOT NULL,
+    attestation_id TEXT NOT NULL,
+    points INTEGER NOT NULL,
+    score_after INTEGER NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    transaction_hash TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_reputation_adjustments_user ON reputation_adjustments(user_identifier);
+  `,
+  `
+  CREATE TABLE config_changes (
+    id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,
+    target TEXT NOT NULL,
+    params TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    before_values TEXT NOT NULL,
+    after_values TEXT NOT NULL,
+    status TEXT NOT NULL,
+    proposed_by TEXT NOT NULL,
+    proposed_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    decided_by TEXT,
+    decided_at TEXT,
+    transaction_id TEXT,
+    transaction_hash TEXT,
+    error TEXT
+  );
+  CREATE INDEX idx_config_changes_status ON config_changes(status);
+  `,
+  `
+  CREATE TABLE bonus_allocations (
+    merkle_root TEXT PRIMARY KEY,
+    entry_count INTEGER NOT NULL,
+    total_amount TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE bonus_allocation_entries (
+    merkle_root TEXT NOT NULL REFERENCES bonus_allocations(merkle_root),
+    address TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    proof TEXT NOT NULL,
+    PRIMARY KEY (merkle_root, address)
+  );
+  `,
+  `
+  CREATE TABLE airdrop_campaigns (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    token TEXT NOT NULL,
+    token_symbol TEXT NOT NULL,
+    token_decimals INTEGER NOT NULL,
+    allocation TEXT NOT NULL,
+    budget TEXT NOT NULL,
+    min_reputation INTEGER NOT NULL,
+    attestation_types TEXT NOT NULL,
+    registered_before TEXT,
+    starts_at TEXT NOT NULL,
+    ends_at TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE airdrop_claims (
+    campaign_id TEXT NOT NULL REFERENCES airdrop_campaigns(id),
+    user_identifier TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    status TEXT NOT NULL,
+    transaction_hash TEXT,
+    error TEXT,
+    claimed_at TEXT NOT NULL,
+    PRIMARY KEY (campaign_id, user_identifier)
+  );
+  CREATE INDEX idx_airdrop_claims_user ON airdrop_claims(user_identifier);
+  `,
+];
+
+interface UserRow {
+  user_identifier: string;
+  nullifier: string;
+  reputation_score: number;
+  created_at: string;
+}
+
+interface AttestationRow {
+  id: string;
+  type: string;
+  description: string;
+  score: number;
+  attested_by: string;
+  timestamp: string;
+  signature: string | null;
+  decayed_points: number;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_reason: string | null;
+}
+
+interface ReputationAdjustmentRow {
+  id: string;
+  user_identifier: string;
+  kind: ReputationAdjustmentKind;
+  attestation_id: string;
+  points: number;
+  score_after: number;
+  actor: string;
+  reason: string;
+  transaction_hash: string | null;
+  created_at: string;
+}
+
+interface AttesterRow {
+  address: string;
+  name: string;
+  attestation_types: string;
+  status: AttesterStatus;
+  created_at: string;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+}
+
+interface AttestationRequestRow {
+  id: string;
+  user_identifier: string;
+  subject: string;
+  attestation_type: string;
+  attester: string;
+  message: string | null;
+  status: AttestationRequestStatus;
+  created_at: string;
+  expires_at: string;
+  decided_at: string | null;
+  rejection_reason: string | null;
+  attestation_id: string | null;
+}
+
+interface ConfigChangeRow {
+  id: string;
+  action: ConfigChangeAction;
+  target: string;
+  params: string;
+  summary: string;
+  before_values: string;
+  after_values: string;
+  status: ConfigChangeStatus;
+  proposed_by: string;
+  proposed_at: string;
+  expires_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  transaction_id: string | null;
+  transaction_hash: string | null;
+  error: string | null;
+}
+
+interface AirdropCampaignRow {
+  id: string;
+  name: string;
+  description: string;
+  token: string;
+  token_symbol: string;
+  token_decimals: number;
+  allocation: string;
+  budget: string;
+  min_reputation: number;
+  attestation_types: string;
+  registered_before: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface AirdropClaimRow {
+  campaign_id: string;
+  user_identifier: string;
+  amount: string;
+  status: AirdropClaimStatus;
+  transaction_hash: string | null;
+  error: string | null;
+  claimed_at: string;
+}
+
+interface BonusAllocationRow {
+  merkle_root: string;
+  entry_count: number;
+  total_amount: string;
+  created_by: string;
+  created_at: string;
+}
+
+interface BonusAllocationEntryRow {
+  address: string;
+  amount: string;
+  proof: string;
+}
+
+interface TransactionRow {
+  id: string;
+  type: string;
+  amount: string;
+  status: string;
+  timestamp: string;
+  on_chain: string | null;
+}
+
+interface ChainEventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  transaction_hash: string;
+  contract: string;
+  name: string;
+  args: string;
+}
+
+interface CheckpointRow {
+  source: string;
+  block_number: number;
+  block_hash: string | null;
+}
+
+interface ManagedTransactionRow {
+  id: string;
+  label: string;
+  status: ManagedTransactionStatus;
+  nonce: number;
+  to_address: string;
+  data: string;
+  value: string;
+  gas_limit: string;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  gas_price: string | null;
+  hashes: string;
+  transaction_hash: string | null;
+  block_number: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed repository. Survives restarts, so verified identities and the
+ * duplicate-nullifier check persist across deploys.
+ */
+export class SqliteRepository implements Repository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+  }
+
+  async getUser(userIdentifier: string): Promise<User | undefined> {
+    const row = this.db
+      .prepare("SELECT * FROM users WHERE user_identifier = ?")
+      .get(userIdentifier) as UserRow | undefined;
+
+    return row ? this.hydrateUser(row) : undefined;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM users ORDER BY created_at")
+      .all() as UserRow[];
+
+    return rows.map((row) => this.hydrateUser(row));
+  }
+
+  async createUser(user: User): Promise<User> {
+    const insert = this.db.transaction((record: User) => {
+      if (
+        this.db
+          .prepare("SELECT 1 FROM users WHERE user_identifier = ?")
+          .get(record.userIdentifier)
+      ) {
+        throw new DuplicateUserError(
+          `User already registered: ${record.userIdentifier}`
+        );
+      }
+      if (
+        this.db
+          .prepare("SELECT 1 FROM nullifiers WHERE nullifier = ?")
+          .get(record.nullifier)
+      ) {
+        throw new DuplicateUserError(
+          `Nullifier already registered: ${record.nullifier}`
+        );
+      }
+
+      this.db
+        .prepare(
+          `INSERT INTO users (user_identifier, nullifier, reputation_score, created_at)
+           VALUES (?, ?, ?, ?)`
+        )
+        .run(
+          record.userIdentifier,
+          record.nullifier,
+          record.reputationScore,
+          record.createdAt.toISOString()
+        );
+
+      this.db
+        .prepare(
+          "INSERT INTO nullifiers (nullifier, user_identifier) VALUES (?, ?)"
+        )
+        .run(record.nullifier, record.userIdentifier);
+
+      for (const attestation of record.attestations) {
+        this.insertAttestation(record.userIdentifier, attestation);
+      }
+      for (const transaction of record.transactions) {
+        this.insertTransaction(record.userIdentifier, transaction);
+      }
+    });
+
+    insert(user);
+    return (await this.getUser(user.userIdentifier))!;
+  }
+
+  async updateReputation(userIdentifier: string, score: number) {
+    this.db
+      .prepare("UPDATE users SET reputation_score = ? WHERE user_identifier = ?")
+      .run(score, userIdentifier);
+  }
+
+  async adjustReputation(userIdentifier: string, delta: number) {
+    const row = this.db
+      .prepare(
+        `UPDATE users SET reputation_score = MAX(0, reputation_score + ?)
+         WHERE user_identifier = ?
+         RETURNING reputation_score`
+      )
+      .get(delta, userIdentifier) as { reputation_score: number } | undefined;
+    if (!row) {
+      throw new Error(`User not found: ${userIdentifier}`);
+    }
+    return row.reputation_score;
+  }
+
+  async hasNullifier(nullifier: string): Promise<boolean> {
+    const row = this.db
+      .prepare("SELECT 1 FROM nullifiers WHERE nullifier = ?")
+      .get(nullifier);
+    return row !== undefined;
+  }
+
+  async getUserByNullifier(nullifier: string): Promise<User | undefined> {
+    const row = this.db
+      .prepare("SELECT user_identifier FROM nullifiers WHERE nullifier = ?")
+      .get(nullifier) as { user_identifier: string } | undefined;
+
+    return row ? this.getUser(row.user_identifier) : undefined;
+  }
+
+  async addAttestation(userIdentifier: string, attestation: Attestation) {
+    this.insertAttestation(userIdentifier, attestation);
+  }
+
+  async findAttestation(attestationId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM attestations WHERE id = ?")
+      .get(attestationId) as
+      | (AttestationRow & { user_identifier: string })
+      | undefined;
+
+    return row
+      ? {
+          userIdentifier: row.user_identifier,
+          attestation: this.hydrateAttestation(row),
+        }
+      : undefined;
+  }
+
+  async updateAttestation(attestation: Attestation) {
+    this.db
+      .prepare(
+        `UPDATE attestations
+         SET decayed_points = ?, revoked_at = ?, revoked_by = ?, revocation_reason = ?
+         WHERE id = ?`
+      )
+      .run(
+        attestation.decayedPoints ?? 0,
+        attestation.revokedAt?.toISOString() ?? null,
+        attestation.revokedBy ?? null,
+        attestation.revocationReason ?? null,
+        attestation.id
+      );
+  }
+
+  async addReputationAdjustment(adjustment: ReputationAdjustment) {
+    this.db
+      .prepare(
+        `INSERT INTO reputation_adjustments (id, user_identifier, kind, attestation_id, points, score_after, actor, reason, transaction_hash, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        adjustment.id,
+        adjustment.userIdentifier,
+        adjustment.kind,
+        adjustment.attestationId,
+        adjustment.points,
+        adjustment.scoreAfter,
+        adjustment.actor,
+        adjustment.reason,
+        adjustment.transactionHash,
+        adjustment.createdAt.toISOString()
+      );
+  }
+
+  async listReputationAdjustments(userIdentifier: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM reputation_adjustments WHERE user_identifier = ? ORDER BY created_at"
+      )
+      .all(userIdentifier) as ReputationAdjustmentRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      userIdentifier: row.user_identifier,
+      kind: row.kind,
+      attestationId: row.attestation_id,
+      points: row.points,
+      scoreAfter: row.score_after,
+      actor: row.actor,
+      reason: row.reason,
+      transactionHash: row.transaction_hash,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  async addTransaction(userIdentifier: string, transaction: Transaction) {
+    this.insertTransaction(userIdentifier, transaction);
+  }
+
+  async findTransaction(transactionId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM transactions WHERE id = ?")
+      .get(transactionId) as
+      | (TransactionRow & { user_identifier: string })
+      | undefined;
+
+    return row
+      ? {
+          userIdentifier: row.user_identifier,
+          transaction: this.hydrateTransaction(row),
+        }
+      : undefined;
+  }
+
+  async updateTransactionStatus(transactionId: string, status: string) {
+    this.db
+      .prepare("UPDATE transactions SET status = ? WHERE id = ?")
+      .run(status, transactionId);
+  }
+
+  async getIndexerCheckpoint(): Promise<IndexerCheckpoint | undefined> {
+    const row = this.db
+      .prepare("SELECT * FROM indexer_checkpoint WHERE id = 1")
+      .get() as CheckpointRow | undefined;
+
+    return row
+      ? {
+          source: row.source,
+          blockNumber: row.block_number,
+          blockHash: row.block_hash,
+        }
+      : undefined;
+  }
+
+  async saveChainEvents(events: ChainEvent[], checkpoint: IndexerCheckpoint) {
+    this.db.transaction(() => {
+      const insert = this.db.prepare(
+        `INSERT OR IGNORE INTO chain_events (block_number, log_index, block_hash, transaction_hash, contract, name, args)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const event of events) {
+        insert.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.contract,
+          event.name,
+          JSON.stringify(event.args)
+        );
+      }
+      this.writeCheckpoint(checkpoint);
+    })();
+  }
+
+  async rewindChainEvents(checkpoint: IndexerCheckpoint) {
+    return this.db.transaction(() => {
+      const { changes } = this.db
+        .prepare("DELETE FROM chain_events WHERE block_number > ?")
+        .run(checkpoint.blockNumber);
+      this.writeCheckpoint(checkpoint);
+      return changes;
+    })();
+  }
+
+  async listChainEvents(filter: ChainEventFilter = {}) {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.contract !== undefined) {
+      conditions.push("contract = ?");
+      params.push(filter.contract);
+    }
+    if (filter.name !== undefined) {
+      conditions.push("name = ?");
+      params.push(filter.name);
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM chain_events
+         ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY block_number, log_index
+         LIMIT ?`
+      )
+      .all(...params, filter.limit ?? -1) as ChainEventRow[];
+
+    return rows.map((row) => ({
+      contract: row.contract,
+      name: row.name,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+      args: JSON.parse(row.args),
+    }));
+  }
+
+  async saveManagedTransaction(transaction: ManagedTransaction) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO managed_transactions (
+           id, label, status, nonce, to_address, data, value, gas_limit,
+           max_fee_per_gas, max_priority_fee_per_gas, gas_price, hashes,
+           transaction_hash, block_number, error, created_at, updated_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        transaction.id,
+        transaction.label,
+        transaction.status,
+        transaction.nonce,
+        transaction.to,
+        transaction.data,
+        transaction.value,
+        transaction.gasLimit,
+        transaction.maxFeePerGas,
+        transaction.maxPriorityFeePerGas,
+        transaction.gasPrice,
+        JSON.stringify(transaction.hashes),
+        transaction.transactionHash,
+        transaction.blockNumber,
+        transaction.error,
+        transaction.createdAt.toISOString(),
+        transaction.updatedAt.toISOString()
+      );
+  }
+
+  async getManagedTransaction(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM managed_transactions WHERE id = ?")
+      .get(id) as ManagedTransactionRow | undefined;
+
+    return row ? this.hydrateManagedTransaction(row) : undefined;
+  }
+
+  async listManagedTransactions(status?: ManagedTransactionStatus) {
+    const rows = (
+      status === undefined
+        ? this.db
+            .prepare("SELECT * FROM managed_transactions ORDER BY created_at")
+            .all()
+        : this.db
+            .prepare(
+              "SELECT * FROM managed_transactions WHERE status = ? ORDER BY created_at"
+            )
+            .all(status)
+    ) as ManagedTransactionRow[];
+
+    return rows.map((row) => this.hydrateManagedTransaction(row));
+  }
+
+  async saveAttester(attester: Attester) {
+    this.db
+      .prepare(
+        `INSERT INTO attesters (address, name, attestation_types, status, created_at, revoked_at, revoked_reason)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (address) DO UPDATE SET
+           name = excluded.name,
+           attestation_types = excluded.attestation_types,
+           status = excluded.status,
+           revoked_at = excluded.revoked_at,
+           revoked_reason = excluded.revoked_reason`
+      )
+      .run(
+        attester.address,
+        attester.name,
+        JSON.stringify(attester.attestationTypes),
+        attester.status,
+        attester.createdAt.toISOString(),
+        attester.revokedAt?.toISOString() ?? null,
+        attester.revokedReason
+      );
+  }
+
+  async getAttester(address: string) {
+    const row = this.db
+      .prepare("SELECT * FROM attesters WHERE address = ?")
+      .get(address) as AttesterRow | undefined;
+
+    return row ? this.hydrateAttester(row) : undefined;
+  }
+
+  async listAttesters(status?: AttesterStatus) {
+    const rows = (
+      status === undefined
+        ? this.db.prepare("SELECT * FROM attesters ORDER BY created_at").all()
+        : this.db
+            .prepare(
+              "SELECT * FROM attesters WHERE status = ? ORDER BY created_at"
+            )
+            .all(status)
+    ) as AttesterRow[];
+
+    return rows.map((row) => this.hydrateAttester(row));
+  }
+
+  async saveAttestationRequest(request: AttestationRequest) {
+    this.db
+      .prepare(
+        `INSERT INTO attestation_requests (id, user_identifier, subject, attestation_type, attester, message, status, created_at, expires_at, decided_at, rejection_reason, attestation_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           decided_at = excluded.decided_at,
+           rejection_reason = excluded.rejection_reason,
+           attestation_id = excluded.attestation_id`
+      )
+      .run(
+        request.id,
+        request.userIdentifier,
+        request.subject,
+        request.attestationType,
+        request.attester,
+        request.message,
+        request.status,
+        request.createdAt.toISOString(),
+        request.expiresAt.toISOString(),
+        request.decidedAt?.toISOString() ?? null,
+        request.rejectionReason,
+        request.attestationId
+      );
+  }
+
+  async getAttestationRequest(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM attestation_requests WHERE id = ?")
+      .get(id) as AttestationRequestRow | undefined;
+
+    return row ? this.hydrateAttestationRequest(row) : undefined;
+  }
+
+  async listAttestationRequests(filter: AttestationRequestFilter = {}) {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.userIdentifier !== undefined) {
+      conditions.push("user_identifier = ?");
+      params.push(filter.userIdentifier);
+    }
+    if (filter.attester !== undefined) {
+      conditions.push("attester = ?");
+      params.push(filter.attester);
+    }
+    if (filter.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM attestation_requests ${where} ORDER BY created_at`
+      )
+      .all(...params) as AttestationRequestRow[];
+
+    return rows.map((row) => this.hydrateAttestationRequest(row));
+  }
+
+  async saveConfigChange(change: ConfigChange) {
+    this.db
+      .prepare(
+        `INSERT INTO config_changes (id, action, target, params, summary, before_values, after_values, status, proposed_by, proposed_at, expires_at, decided_by, decided_at, transaction_id, transaction_hash, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           decided_by = excluded.decided_by,
+           decided_at = excluded.decided_at,
+           transaction_id = excluded.transaction_id,
+           transaction_hash = excluded.transaction_hash,
+           error = excluded.error`
+      )
+      .run(
+        change.id,
+        change.action,
+        change.target,
+        JSON.stringify(change.params),
+        change.summary,
+        JSON.stringify(change.before),
+        JSON.stringify(change.after),
+        change.status,
+        change.proposedBy,
+        change.proposedAt.toISOString(),
+        change.expiresAt.toISOString(),
+        change.decidedBy,
+        change.decidedAt?.toISOString() ?? null,
+        change.transactionId,
+        change.transactionHash,
+        change.error
+      );
+  }
+
+  async transitionConfigChange(change: ConfigChange, from: ConfigChangeStatus) {
+    const { changes } = this.db
+      .prepare(
+        `UPDATE config_changes
+         SET status = ?, decided_by = ?, decided_at = ?, transaction_id = ?, transaction_hash = ?, error = ?
+         WHERE id = ? AND status = ?`
+      )
+      .run(
+        change.status,
+        change.decidedBy,
+        change.decidedAt?.toISOString() ?? null,
+        change.transactionId,
+        change.transactionHash,
+        change.error,
+        change.id,
+        from
+      );
+    return changes === 1;
+  }
+
+  async getConfigChange(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM config_changes WHERE id = ?")
+      .get(id) as ConfigChangeRow | undefined;
+
+    return row ? this.hydrateConfigChange(row) : undefined;
+  }
+
+  async listConfigChanges(filter: ConfigChangeFilter = {}) {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+    if (filter.action !== undefined) {
+      conditions.push("action = ?");
+      params.push(filter.action);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM config_changes ${where} ORDER BY proposed_at`)
+      .all(...params) as ConfigChangeRow[];
+
+    return rows.map((row) => this.hydrateConfigChange(row));
+  }
+
+  async createAirdropCampaign(campaign: AirdropCampaign) {
+    this.db
+      .prepare(
+        `INSERT INTO airdrop_campaigns (id, name, description, token, token_symbol, token_decimals, allocation, budget, min_reputation, attestation_types, registered_before, starts_at, ends_at, created_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        campaign.id,
+        campaign.name,
+        campaign.description,
+        campaign.token,
+        campaign.tokenSymbol,
+        campaign.tokenDecimals,
+        campaign.allocation,
+        campaign.budget,
+        campaign.minReputation,
+        JSON.stringify(campaign.attestationTypes),
+        campaign.registeredBefore?.toISOString() ?? null,
+        campaign.startsAt.toISOString(),
+        campaign.endsAt?.toISOString() ?? null,
+        campaign.createdBy,
+        campaign.createdAt.toISOString()
+      );
+  }
+
+  async getAirdropCampaign(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM airdrop_campaigns WHERE id = ?")
+      .get(id) as AirdropCampaignRow | undefined;
+
+    return row ? this.hydrateAirdropCampaign(row) : undefined;
+  }
+
+  async listAirdropCampaigns() {
+    const rows = this.db
+      .prepare("SELECT * FROM airdrop_campaigns ORDER BY created_at")
+      .all() as AirdropCampaignRow[];
+
+    return rows.map((row) => this.hydrateAirdropCampaign(row));
+  }
+
+  async reserveAirdropClaim(claim: AirdropClaim, budget: string) {
+    return this.db.transaction(() => {
+      const claims = this.db
+        .prepare(
+          "SELECT user_identifier, amount FROM airdrop_claims WHERE campaign_id = ? AND status != 'failed'"
+        )
+        .all(claim.campaignId) as Pick<
+        AirdropClaimRow,
+        "user_identifier" | "amount"
+      >[];
+      if (claims.some((row) => row.user_identifier === claim.userIdentifier)) {
+        return "already_claimed" as const;
+      }
+      // Summed here: base-unit amounts overflow SQLite integers
+      const spent = claims.reduce((sum, row) => sum + BigInt(row.amount), 0n);
+      if (spent + BigInt(claim.amount) > BigInt(budget)) {
+        return "budget_exhausted" as const;
+      }
+
+      // A failed claim is replaced by the new attempt
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO airdrop_claims (campaign_id, user_identifier, amount, status, transaction_hash, error, claimed_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          claim.campaignId,
+          claim.userIdentifier,
+          claim.amount,
+          claim.status,
+          claim.transactionHash,
+          claim.error,
+          claim.claimedAt.toISOString()
+        );
+      return "reserved" as const;
+    })();
+  }
+
+  async updateAirdropClaim(claim: AirdropClaim) {
+    this.db
+      .prepare(
+        `UPDATE airdrop_claims SET amount = ?, status = ?, transaction_hash = ?, error = ?
+         WHERE campaign_id = ? AND user_identifier = ?`
+      )
+      .run(
+        claim.amount,
+        claim.status,
+        claim.transactionHash,
+        claim.error,
+        claim.campaignId,
+        claim.userIdentifier
+      );
+  }
+
+  async listAirdropClaims(filter: AirdropClaimFilter = {}) {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.campaignId !== undefined) {
+      conditions.push("campaign_id = ?");
+      params.push(filter.campaignId);
+    }
+    if (filter.userIdentifier !== undefined) {
+      conditions.push("user_identifier = ?");
+      params.push(filter.userIdentifier);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM airdrop_claims ${where} ORDER BY claimed_at`)
+      .all(...params) as AirdropClaimRow[];
+
+    return rows.map((row) => ({
+      campaignId: row.campaign_id,
+      userIdentifier: row.user_identifier,
+      amount: row.amount,
+      status: row.status,
+      transactionHash: row.transaction_hash,
+      error: row.error,
+      claimedAt: new Date(row.claimed_at),
+    }));
+  }
+
+  async saveBonusAllocation(
+    allocation: BonusAllocation,
+    entries: BonusAllocationEntry[]
+  ) {
+    this.db.transaction(() => {
+      const { changes } = this.db
+        .prepare(
+          `INSERT OR IGNORE INTO bonus_allocations (merkle_root, entry_count, total_amount, created_by, created_at)
+           VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(
+          allocation.merkleRoot,
+          allocation.entryCount,
+          allocation.totalAmount,
+          allocation.createdBy,
+          allocation.createdAt.toISOString()
+        );
+      // Same root, same entries
+      if (changes === 0) {
+        return;
+      }
+
+      const insert = this.db.prepare(
+        `INSERT INTO bonus_allocation_entries (merkle_root, address, amount, proof)
+         VALUES (?, ?, ?, ?)`
+      );
+      for (const entry of entries) {
+        insert.run(
+          allocation.merkleRoot,
+          entry.address,
+          entry.amount,
+          JSON.stringify(entry.proof)
+        );
+      }
+    })();
+  }
+
+  async listBonusAllocations() {
+    const rows = this.db
+      .prepare("SELECT * FROM bonus_allocations ORDER BY created_at")
+      .all() as BonusAllocationRow[];
+
+    return rows.map((row) => ({
+      merkleRoot: row.merkle_root,
+      entryCount: row.entry_count,
+      totalAmount: row.total_amount,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  async getBonusAllocationEntry(merkleRoot: string, address: string) {
+    const row = this.db
+      .prepare(
+        "SELECT address, amount, proof FROM bonus_allocation_entries WHERE merkle_root = ? AND address = ?"
+      )
+      .get(merkleRoot, address) as BonusAllocationEntryRow | undefined;
+
+    return row
+      ? { address: row.address, amount: row.amount, proof: JSON.parse(row.proof) }
+      : undefined;
+  }
+
+  async close() {
+    this.db.close();
+  }
+
+  private migrate() {
+    const current = this.db.pragma("user_version", { simple: true }) as number;
+
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+      console.log(`🗄️  Applied storage migration ${version + 1}`);
+    }
+  }
+
+  private writeCheckpoint(checkpoint: IndexerCheckpoint) {
+    this.db
+      .prepare(
+        `INSERT INTO indexer_checkpoint (id, source, block_number, block_hash)
+         VALUES (1, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           source = excluded.source,
+           block_number = excluded.block_number,
+           block_hash = excluded.block_hash`
+      )
+      .run(checkpoint.source, checkpoint.blockNumber, checkpoint.blockHash);
+  }
+
+  private insertAttestation(userIdentifier: string, attestation: Attestation) {
+    this.db
+      .prepare(
+        `INSERT INTO attestations (id, user_identifier, type, description, score, attested_by, timestamp, signature, decayed_points, revoked_at, revoked_by, revocation_reason)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        attestation.id,
+        userIdentifier,
+        attestation.type,
+        attestation.description,
+        attestation.score,
+        attestation.attestedBy,
+        attestation.timestamp.toISOString(),
+        attestation.signature ?? null,
+        attestation.decayedPoints ?? 0,
+        attestation.revokedAt?.toISOString() ?? null,
+        attestation.revokedBy ?? null,
+        attestation.revocationReason ?? null
+      );
+  }
+
+  private insertTransaction(userIdentifier: string, transaction: Transaction) {
+    this.db
+      .prepare(
+        `INSERT INTO transactions (id, user_identifier, type, amount, status, timestamp, on_chain)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        transaction.id,
+        userIdentifier,
+        transaction.type,
+        transaction.amount,
+        transaction.status,
+        transaction.timestamp.toISOString(),
+        transaction.onChain === undefined
+          ? null
+          : JSON.stringify(transaction.onChain)
+      );
+  }
+
+  private hydrateUser(row: UserRow): User {
+    const attestations = this.db
+      .prepare(
+        "SELECT * FROM attestations WHERE user_identifier = ? ORDER BY timestamp"
+      )
+      .all(row.user_identifier) as AttestationRow[];
+
+    const transactions = this.db
+      .prepare(
+        "SELECT * FROM transactions WHERE user_identifier = ? ORDER BY timestamp"
+      )
+      .all(row.user_identifier) as TransactionRow[];
+
+    return {
+      nullifier: row.nullifier,
+      userIdentifier: row.user_identifier,
+      reputationScore: row.reputation_score,
+      createdAt: new Date(row.created_at),
+      attestations: attestations.map((att) => this.hydrateAttestation(att)),
+      transactions: transactions.map((tx) => this.hydrateTransaction(tx)),
+    };
+  }
+
+  private hydrateAttestation(row: AttestationRow): Attestation {
+    return {
+      id: row.id,
+      type: row.type,
+      description: row.description,
+      score: row.score,
+      attestedBy: row.attested_by,
+      timestamp: new Date(row.timestamp),
+      ...(row.signature ? { signature: row.signature } : {}),
+      ...(row.decayed_points ? { decayedPoints: row.decayed_points } : {}),
+      ...(row.revoked_at
+        ? {
+            revokedAt: new Date(row.revoked_at),
+            revokedBy: row.revoked_by ?? undefined,
+            revocationReason: row.revocation_reason ?? undefined,
+          }
+        : {}),
+    };
+  }
+
+  private hydrateAttester(row: AttesterRow): Attester {
+    return {
+      address: row.address,
+      name: row.name,
+      attestationTypes: JSON.parse(row.attestation_types),
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+      revokedReason: row.revoked_reason,
+    };
+  }
+
+  private hydrateAttestationRequest(
+    row: AttestationRequestRow
+  ): AttestationRequest {
+    return {
+      id: row.id,
+      userIdentifier: row.user_identifier,
+      subject: row.subject,
+      attestationType: row.attestation_type,
+      attester: row.attester,
+      message: row.message,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      decidedAt: row.decided_at ? new Date(row.decided_at) : null,
+      rejectionReason: row.rejection_reason,
+      attestationId: row.attestation_id,
+    };
+  }
+
+  private hydrateAirdropCampaign(row: AirdropCampaignRow): AirdropCampaign {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      token: row.token,
+      tokenSymbol: row.token_symbol,
+      tokenDecimals: row.token_decimals,
+      allocation: row.allocation,
+      budget: row.budget,
+      minReputation: row.min_reputation,
+      attestationTypes: JSON.parse(row.attestation_types),
+      registeredBefore: row.registered_before
+        ? new Date(row.registered_before)
+        : null,
+      startsAt: new Date(row.starts_at),
+      endsAt: row.ends_at ? new Date(row.ends_at) : null,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private hydrateConfigChange(row: ConfigChangeRow): ConfigChange {
+    return {
+      id: row.id,
+      action: row.action,
+      target: row.target,
+      params: JSON.parse(row.params),
+      summary: row.summary,
+      before: JSON.parse(row.before_values),
+      after: JSON.parse(row.after_values),
+      status: row.status,
+      proposedBy: row.proposed_by,
+      proposedAt: new Date(row.proposed_at),
+      expiresAt: new Date(row.expires_at),
+      decidedBy: row.decided_by,
+      decidedAt: row.decided_at ? new Date(row.decided_at) : null,
+      transactionId: row.transaction_id,
+      transactionHash: row.transaction_hash,
+      error: row.error,
+    };
+  }
+
+  private hydrateManagedTransaction(
+    row: ManagedTransactionRow
+  ): ManagedTransaction {
+    return {
+      id: row.id,
+      label: row.label,
+      status: row.status,
+      nonce: row.nonce,
+      to: row.to_address,
+      data: row.data,
+      value: row.value,
+      gasLimit: row.gas_limit,
+      maxFeePerGas: row.max_fee_per_gas,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas,
+      gasPrice: row.gas_price,
+      hashes: JSON.parse(row.hashes),
+      transactionHash: row.transaction_hash,
+      blockNumber: row.block_number,
+      error: row.error,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private hydrateTransaction(row: TransactionRow): Transaction {
+    return {
+      id: row.id,
+      type: row.type,
+      amount: row.amount,
+      status: row.status,
+      timestamp: new Date(row.timestamp),
+      onChain: row.on_chain === null ? undefined : JSON.parse(row.on_chain),
+    };
+  }
+}
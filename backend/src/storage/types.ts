@@ -0,0 +1,435 @@
+// Shared record shapes for the persistence layer
+
+export interface Attestation {
+  id: string;
+  type: string;
+  description: string;
+  score: number;
+  attestedBy: string;
+  timestamp: Date;
+  // The attester's EIP-712 signature, for attestations issued since the
+  // attester registry; older ones were never signed
+  signature?: string;
+  // Points already taken off by reputation decay
+  decayedPoints?: number;
+  // Set once the attester or an admin withdraws the attestation; it then
+  // counts for nothing
+  revokedAt?: Date;
+  revokedBy?: string;
+  revocationReason?: string;
+}
+
+export type ReputationAdjustmentKind = "revocation" | "decay";
+
+// Audit record of reputation taken away from a user
+export interface ReputationAdjustment {
+  id: string;
+  userIdentifier: string;
+  kind: ReputationAdjustmentKind;
+  attestationId: string;
+  // Points removed
+  points: number;
+  // Score after the adjustment
+  scoreAfter: number;
+  // Who made it: an attester's address, "admin" or "decay"
+  actor: string;
+  reason: string;
+  // The UnbankedIdentity.reduceReputation transaction, once known
+  transactionHash: string | null;
+  createdAt: Date;
+}
+
+export interface Transaction {
+  id: string;
+  type: string;
+  amount: string;
+  status: string;
+  timestamp: Date;
+  onChain?: unknown;
+}
+
+export interface User {
+  nullifier: string;
+  userIdentifier: string;
+  reputationScore: number;
+  attestations: Attestation[];
+  transactions: Transaction[];
+  createdAt: Date;
+}
+
+export type AttesterStatus = "active" | "revoked";
+
+// Someone trusted to vouch for users, e.g. a village elder or a merchant.
+// Attestations they sign are accepted only for the types listed here.
+export interface Attester {
+  // Checksummed address whose signatures count
+  address: string;
+  name: string;
+  attestationTypes: string[];
+  status: AttesterStatus;
+  createdAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+export type AttestationRequestStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired";
+
+// A user asking a registered attester to vouch for them. The attester
+// approves it by signing the attestation, or rejects it with a reason.
+export interface AttestationRequest {
+  id: string;
+  userIdentifier: string;
+  // The user's on-chain address, which the attester signs for
+  subject: string;
+  attestationType: string;
+  // Checksummed address of the attester asked
+  attester: string;
+  // Optional note from the user, e.g. where the attester knows them from
+  message: string | null;
+  status: AttestationRequestStatus;
+  createdAt: Date;
+  // A pending request past this is treated as expired
+  expiresAt: Date;
+  decidedAt: Date | null;
+  rejectionReason: string | null;
+  // The attestation an approval created
+  attestationId: string | null;
+}
+
+export interface AttestationRequestFilter {
+  userIdentifier?: string;
+  attester?: string;
+  status?: AttestationRequestStatus;
+}
+
+// Owner-only contract calls the admin console can make
+export type ConfigChangeAction =
+  | "setService"
+  | "setVerificationConfig"
+  | "advancePhase"
+  | "setMerkleRoot"
+  | "setBorrowerBan"
+  | "withdrawFromPool";
+
+export type ConfigChangeStatus =
+  | "proposed"
+  | "cancelled"
+  | "expired"
+  | "submitted"
+  | "confirmed"
+  | "failed";
+
+export type ConfigValue = string | number | boolean;
+
+// A contract setting changed from the admin console. An admin proposes the
+// change and sees what it will do; it is only sent once confirmed. Kept as
+// the audit log of who changed what.
+export interface ConfigChange {
+  id: string;
+  action: ConfigChangeAction;
+  // What is called, e.g. "identity.setService"
+  target: string;
+  // Call arguments by name; token amounts are decimal strings
+  params: Record<string, ConfigValue>;
+  summary: string;
+  // The affected settings when proposed, and what they will be
+  before: Record<string, ConfigValue>;
+  after: Record<string, ConfigValue>;
+  status: ConfigChangeStatus;
+  proposedBy: string;
+  proposedAt: Date;
+  // A proposal not confirmed by then is treated as expired
+  expiresAt: Date;
+  // Who confirmed or cancelled it
+  decidedBy: string | null;
+  decidedAt: Date | null;
+  transactionId: string | null;
+  transactionHash: string | null;
+  error: string | null;
+}
+
+export interface ConfigChangeFilter {
+  status?: ConfigChangeStatus;
+  action?: ConfigChangeAction;
+}
+
+// A contract event recorded by the event indexer
+export interface ChainEvent {
+  // Contract key, e.g. "identity" or "lending"
+  contract: string;
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Event arguments by name; integers are decimal strings
+  args: Record<string, string | boolean>;
+}
+
+// How far the event indexer got. `source` names the deployment it indexed,
+// so pointing the backend at a new deployment starts over.
+export interface IndexerCheckpoint {
+  source: string;
+  blockNumber: number;
+  // Hash of `blockNumber` when indexed; a different hash now means a reorg.
+  // Null when nothing has been indexed yet.
+  blockHash: string | null;
+}
+
+export interface ChainEventFilter {
+  contract?: string;
+  name?: string;
+  fromBlock?: number;
+  limit?: number;
+}
+
+export type ManagedTransactionStatus = "pending" | "confirmed" | "failed";
+
+// A transaction sent by the transaction manager, kept so its status can be
+// polled and so it can still be replaced or confirmed after a restart
+export interface ManagedTransaction {
+  id: string;
+  // What was called, e.g. "governance.voteFor"
+  label: string;
+  status: ManagedTransactionStatus;
+  nonce: number;
+  to: string;
+  data: string;
+  // Wei amounts are decimal strings
+  value: string;
+  gasLimit: string;
+  // Fees of the latest attempt: EIP-1559 fields, or gasPrice on legacy chains
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  // Every hash broadcast for this nonce, oldest first; later ones replace
+  // earlier ones with higher fees
+  hashes: string[];
+  // The attempt that was mined
+  transactionHash: string | null;
+  blockNumber: number | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An airdrop bonus Merkle tree built from an uploaded CSV
+export interface BonusAllocation {
+  merkleRoot: string;
+  entryCount: number;
+  // Wei, as a decimal string
+  totalAmount: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// One address's bonus in a tree, with the proof claimAirdrop checks
+export interface BonusAllocationEntry {
+  // Checksummed
+  address: string;
+  // Wei, as a decimal string
+  amount: string;
+  proof: string[];
+}
+
+// An airdrop paid by the backend wallet with an ERC-20 transfer, alongside
+// the community airdrop contract. Amounts are in the token's base units.
+export interface AirdropCampaign {
+  // Used in /v1/airdrops/:id
+  id: string;
+  name: string;
+  description: string;
+  token: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  // Paid to each eligible user, as a decimal string
+  allocation: string;
+  // Most the campaign pays out in total, as a decimal string
+  budget: string;
+  // Eligibility
+  minReputation: number;
+  // Attestation types the user must hold, none revoked
+  attestationTypes: string[];
+  // Only users verified before this may claim
+  registeredBefore: Date | null;
+  // Schedule
+  startsAt: Date;
+  endsAt: Date | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type AirdropClaimStatus = "pending" | "completed" | "failed";
+
+// A user's claim on a campaign. A failed claim does not count against the
+// budget and can be tried again.
+export interface AirdropClaim {
+  campaignId: string;
+  userIdentifier: string;
+  // Base units, as a decimal string
+  amount: string;
+  status: AirdropClaimStatus;
+  transactionHash: string | null;
+  error: string | null;
+  claimedAt: Date;
+}
+
+export interface AirdropClaimFilter {
+  campaignId?: string;
+  userIdentifier?: string;
+}
+
+export type AirdropClaimReservation =
+  | "reserved"
+  | "already_claimed"
+  | "budget_exhausted";
+
+// createUser was given an identifier or nullifier that is already taken
+export class DuplicateUserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DuplicateUserError";
+  }
+}
+
+/**
+ * Storage backend used by the API handlers.
+ *
+ * Every method is async so drivers backed by a remote database can be
+ * swapped in without touching the handlers.
+ */
+export interface Repository {
+  // Users
+  getUser(userIdentifier: string): Promise<User | undefined>;
+  listUsers(): Promise<User[]>;
+  // Throws DuplicateUserError if the identifier or nullifier is taken
+  createUser(user: User): Promise<User>;
+  updateReputation(userIdentifier: string, score: number): Promise<void>;
+  // Add `delta` (negative to take points off) to the stored score in one
+  // step, never going below 0, and return the new score. Use this rather
+  // than writing back a score read earlier, which loses any change made in
+  // between.
+  adjustReputation(userIdentifier: string, delta: number): Promise<number>;
+
+  // Nullifiers (sybil resistance)
+  hasNullifier(nullifier: string): Promise<boolean>;
+  getUserByNullifier(nullifier: string): Promise<User | undefined>;
+
+  // Attestations
+  addAttestation(
+    userIdentifier: string,
+    attestation: Attestation
+  ): Promise<void>;
+  findAttestation(
+    attestationId: string
+  ): Promise<{ userIdentifier: string; attestation: Attestation } | undefined>;
+  // Save decay and revocation changes to a stored attestation
+  updateAttestation(attestation: Attestation): Promise<void>;
+
+  // Reputation adjustments (audit log)
+  addReputationAdjustment(adjustment: ReputationAdjustment): Promise<void>;
+  // Oldest first
+  listReputationAdjustments(
+    userIdentifier: string
+  ): Promise<ReputationAdjustment[]>;
+
+  // Attester registry
+  // Insert or replace by address
+  saveAttester(attester: Attester): Promise<void>;
+  getAttester(address: string): Promise<Attester | undefined>;
+  // Oldest first
+  listAttesters(status?: AttesterStatus): Promise<Attester[]>;
+
+  // Attestation requests
+  // Insert or replace by id
+  saveAttestationRequest(request: AttestationRequest): Promise<void>;
+  getAttestationRequest(id: string): Promise<AttestationRequest | undefined>;
+  // Oldest first
+  listAttestationRequests(
+    filter?: AttestationRequestFilter
+  ): Promise<AttestationRequest[]>;
+
+  // Contract configuration changes (audit log)
+  // Insert or replace by id
+  saveConfigChange(change: ConfigChange): Promise<void>;
+  // Save `change` only if the stored one still has status `from`; false if
+  // it doesn't. Checked and saved in one step, so two admins can't both
+  // decide the same proposal.
+  transitionConfigChange(
+    change: ConfigChange,
+    from: ConfigChangeStatus
+  ): Promise<boolean>;
+  getConfigChange(id: string): Promise<ConfigChange | undefined>;
+  // Oldest first
+  listConfigChanges(filter?: ConfigChangeFilter): Promise<ConfigChange[]>;
+
+  // Airdrop bonus allocations
+  // Store a tree with its entries; a tree with the same root is kept as is
+  saveBonusAllocation(
+    allocation: BonusAllocation,
+    entries: BonusAllocationEntry[]
+  ): Promise<void>;
+  // Oldest first
+  listBonusAllocations(): Promise<BonusAllocation[]>;
+  getBonusAllocationEntry(
+    merkleRoot: string,
+    address: string
+  ): Promise<BonusAllocationEntry | undefined>;
+
+  // Airdrop campaigns
+  // Insert; the id must be new
+  createAirdropCampaign(campaign: AirdropCampaign): Promise<void>;
+  getAirdropCampaign(id: string): Promise<AirdropCampaign | undefined>;
+  // Oldest first
+  listAirdropCampaigns(): Promise<AirdropCampaign[]>;
+  // Record a pending claim unless the user already has one that did not
+  // fail, or it would take the campaign's pending and completed claims
+  // past its budget. Checked and saved in one step, so concurrent claims
+  // can't overspend.
+  reserveAirdropClaim(
+    claim: AirdropClaim,
+    budget: string
+  ): Promise<AirdropClaimReservation>;
+  // Save the outcome of a reserved claim
+  updateAirdropClaim(claim: AirdropClaim): Promise<void>;
+  // Oldest first
+  listAirdropClaims(filter?: AirdropClaimFilter): Promise<AirdropClaim[]>;
+
+  // Transactions
+  addTransaction(
+    userIdentifier: string,
+    transaction: Transaction
+  ): Promise<void>;
+  findTransaction(
+    transactionId: string
+  ): Promise<{ userIdentifier: string; transaction: Transaction } | undefined>;
+  updateTransactionStatus(transactionId: string, status: string): Promise<void>;
+
+  // Contract events (event indexer)
+  getIndexerCheckpoint(): Promise<IndexerCheckpoint | undefined>;
+  // Store events and move the checkpoint in one step, so a crash between
+  // the two never skips or repeats blocks
+  saveChainEvents(
+    events: ChainEvent[],
+    checkpoint: IndexerCheckpoint
+  ): Promise<void>;
+  // Drop events after checkpoint.blockNumber and move the checkpoint back;
+  // returns how many events were dropped
+  rewindChainEvents(checkpoint: IndexerCheckpoint): Promise<number>;
+  // Oldest first
+  listChainEvents(filter?: ChainEventFilter): Promise<ChainEvent[]>;
+
+  // Transactions sent by the transaction manager
+  saveManagedTransaction(transaction: ManagedTransaction): Promise<void>;
+  getManagedTransaction(id: string): Promise<ManagedTransaction | undefined>;
+  // Oldest first
+  listManagedTransactions(
+    status?: ManagedTransactionStatus
+  ): Promise<ManagedTransaction[]>;
+
+  close(): Promise<void>;
+}
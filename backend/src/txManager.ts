@@ -0,0 +1,422 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { getRepository, ManagedTransaction } from "./storage";
+
+// Every transaction the backend wallet sends goes through here. Sends are
+// queued so each one takes the next nonce from a local counter instead of
+// racing other requests on the RPC's pending count. A transaction that is
+// not mined in time is replaced, same nonce, at a higher fee. RPC calls that
+// fail with a transient error are retried.
+
+export interface TxManagerOptions {
+  // Replace a transaction not mined this long after its last broadcast
+  stuckAfterMs: number;
+  // Fee increase per replacement; nodes want at least 10%
+  gasBumpPercent: number;
+  maxReplacements: number;
+  // Attempts for RPC calls that fail with a network or server error
+  maxRetries: number;
+  retryDelayMs: number;
+  // How often to look for receipts
+  pollIntervalMs: number;
+}
+
+export function txManagerOptionsFromEnv(): TxManagerOptions {
+  return {
+    stuckAfterMs: Number(process.env.TX_STUCK_AFTER_SECONDS || 60) * 1000,
+    gasBumpPercent: Number(process.env.TX_GAS_BUMP_PERCENT || 20),
+    maxReplacements: Number(process.env.TX_MAX_REPLACEMENTS || 3),
+    maxRetries: Number(process.env.TX_MAX_RETRIES || 3),
+    retryDelayMs: Number(process.env.TX_RETRY_DELAY_MS || 1000),
+    pollIntervalMs: Number(process.env.TX_POLL_INTERVAL_MS || 3000),
+  };
+}
+
+// A transaction that has been broadcast and may not be mined yet
+export interface PendingTransaction {
+  id: string;
+  hash: string;
+  nonce: number;
+  // Receipt of whichever attempt gets mined. Rejects with a
+  // TransactionFailedError if it reverts or is never mined.
+  confirmation: Promise<ethers.TransactionReceipt>;
+}
+
+// A typed contract method, e.g. contracts.lending.requestLoanFor
+export interface ContractMethod<A extends unknown[]> {
+  populateTransaction(...args: A): Promise<ethers.ContractTransaction>;
+  estimateGas(...args: A): Promise<bigint>;
+}
+
+export class TransactionFailedError extends Error {
+  constructor(public transaction: ManagedTransaction) {
+    super(`${transaction.label} failed: ${transaction.error}`);
+    this.name = "TransactionFailedError";
+  }
+}
+
+interface Fees {
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+}
+
+let signer: ethers.Wallet | undefined;
+let options: TxManagerOptions = txManagerOptionsFromEnv();
+// Next nonce to hand out; undefined means read it from the chain
+let nextNonce: number | undefined;
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+export function initializeTransactionManager(
+  wallet: ethers.Wallet,
+  selected: TxManagerOptions = txManagerOptionsFromEnv()
+) {
+  signer = wallet;
+  options = selected;
+  nextNonce = undefined;
+}
+
+function requireSigner() {
+  if (!signer?.provider) {
+    throw new Error(
+      "Transaction manager not initialized. Call initializeContracts() first."
+    );
+  }
+  return { wallet: signer, provider: signer.provider };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isTransient(error: unknown) {
+  return (
+    ethers.isError(error, "NETWORK_ERROR") ||
+    ethers.isError(error, "SERVER_ERROR") ||
+    ethers.isError(error, "TIMEOUT")
+  );
+}
+
+// The node already has this exact signed transaction, e.g. a retried
+// broadcast whose first attempt did arrive
+function isAlreadyKnown(error: unknown) {
+  return /already known|known transaction|already imported/i.test(
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+// The nonce is taken, by a mined transaction or one already in the mempool
+function isNonceTaken(error: unknown) {
+  return (
+    ethers.isError(error, "NONCE_EXPIRED") ||
+    ethers.isError(error, "REPLACEMENT_UNDERPRICED")
+  );
+}
+
+async function withRetry<T>(what: string, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!isTransient(error) || attempt >= options.maxRetries) {
+        throw error;
+      }
+      console.warn(
+        `⚠️ ${what} failed (attempt ${attempt}/${options.maxRetries}), retrying...`
+      );
+      await sleep(options.retryDelayMs * attempt);
+    }
+  }
+}
+
+// Run sends one at a time so nonces are handed out in order
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = sendQueue.then(task);
+  sendQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function currentFees(): Promise<Fees> {
+  const { provider } = requireSigner();
+  const fees = await withRetry("Fee lookup", () => provider.getFeeData());
+  if (fees.maxFeePerGas !== null && fees.maxPriorityFeePerGas !== null) {
+    return {
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      gasPrice: null,
+    };
+  }
+  return { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: fees.gasPrice };
+}
+
+// The previous fees raised by gasBumpPercent, or the network's current fees
+// if those are higher still
+function bumpFees(previous: Fees, current: Fees): Fees {
+  const bump = (value: bigint | null, floor: bigint | null) => {
+    if (value === null) return floor;
+    const bumped = value + (value * BigInt(options.gasBumpPercent) + 99n) / 100n;
+    return floor !== null && floor > bumped ? floor : bumped;
+  };
+  return {
+    maxFeePerGas: bump(previous.maxFeePerGas, current.maxFeePerGas),
+    maxPriorityFeePerGas: bump(
+      previous.maxPriorityFeePerGas,
+      current.maxPriorityFeePerGas
+    ),
+    gasPrice: bump(previous.gasPrice, current.gasPrice),
+  };
+}
+
+function feesOf(record: ManagedTransaction): Fees {
+  const toBigInt = (value: string | null) => (value === null ? null : BigInt(value));
+  return {
+    maxFeePerGas: toBigInt(record.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(record.maxPriorityFeePerGas),
+    gasPrice: toBigInt(record.gasPrice),
+  };
+}
+
+function setFees(record: ManagedTransaction, fees: Fees) {
+  record.maxFeePerGas = fees.maxFeePerGas?.toString() ?? null;
+  record.maxPriorityFeePerGas = fees.maxPriorityFeePerGas?.toString() ?? null;
+  record.gasPrice = fees.gasPrice?.toString() ?? null;
+}
+
+// Sign the record's current attempt and send it. The hash is known before
+// broadcasting, so a retried broadcast can't lose track of it.
+async function broadcast(record: ManagedTransaction): Promise<string> {
+  const { wallet, provider } = requireSigner();
+  const fees = feesOf(record);
+
+  const populated = await withRetry("Transaction preparation", () =>
+    wallet.populateTransaction({
+      to: record.to,
+      data: record.data,
+      value: BigInt(record.value),
+      gasLimit: BigInt(record.gasLimit),
+      nonce: record.nonce,
+      ...(fees.gasPrice !== null
+        ? { gasPrice: fees.gasPrice }
+        : {
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+          }),
+    })
+  );
+  const signed = await wallet.signTransaction(populated);
+  const hash = ethers.keccak256(signed);
+
+  try {
+    await withRetry("Broadcast", () => provider.broadcastTransaction(signed));
+  } catch (error) {
+    if (!isAlreadyKnown(error)) throw error;
+  }
+  return hash;
+}
+
+async function settle(
+  record: ManagedTransaction,
+  update: Partial<ManagedTransaction>
+) {
+  Object.assign(record, update, { updatedAt: new Date() });
+  await getRepository().saveManagedTransaction(record);
+}
+
+async function fail(record: ManagedTransaction, error: string): Promise<never> {
+  await settle(record, { status: "failed", error });
+  // The nonce may never be used now; read the next one from the chain
+  nextNonce = undefined;
+  console.error(`❌ ${record.label} (${record.id}) failed: ${error}`);
+  throw new TransactionFailedError(record);
+}
+
+// Poll until one of the record's attempts is mined, replacing it with a
+// higher fee whenever it has been waiting longer than stuckAfterMs
+async function watch(
+  record: ManagedTransaction,
+  lastBroadcastAt = Date.now()
+): Promise<ethers.TransactionReceipt> {
+  const { wallet, provider } = requireSigner();
+
+  for (;;) {
+    await sleep(options.pollIntervalMs);
+
+    try {
+      // Read the nonce before the receipts: if it has moved past ours and
+      // none of our attempts has a receipt, something else used it
+      const minedNonce = await provider.getTransactionCount(
+        wallet.address,
+        "latest"
+      );
+
+      for (const hash of record.hashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (!receipt) continue;
+
+        if (receipt.status !== 1) {
+          await settle(record, {
+            transactionHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+          });
+          return fail(record, `Reverted in block ${receipt.blockNumber}`);
+        }
+
+        await settle(record, {
+          status: "confirmed",
+          transactionHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+        });
+        console.log(
+          `✅ ${record.label} (${record.id}) mined in block ${receipt.blockNumber}: ${receipt.hash}`
+        );
+        return receipt;
+      }
+
+      if (minedNonce > record.nonce) {
+        return fail(record, `Nonce ${record.nonce} was used by another transaction`);
+      }
+
+      if (Date.now() - lastBroadcastAt < options.stuckAfterMs) continue;
+
+      const replacements = record.hashes.length - 1;
+      if (replacements >= options.maxReplacements) {
+        return fail(
+          record,
+          `Not mined after ${replacements} fee bumps; the nonce may still be pending`
+        );
+      }
+
+      setFees(record, bumpFees(feesOf(record), await currentFees()));
+      try {
+        record.hashes.push(await broadcast(record));
+        console.log(
+          `⛽ ${record.label} (${record.id}) stuck; resent nonce ${record.nonce} with higher fees: ${
+            record.hashes[record.hashes.length - 1]
+          }`
+        );
+      } catch (error) {
+        // Mined in the meantime: the next poll finds the receipt
+        if (!isNonceTaken(error)) throw error;
+      }
+      lastBroadcastAt = Date.now();
+      await settle(record, {});
+    } catch (error) {
+      if (error instanceof TransactionFailedError) throw error;
+      console.warn(
+        `⚠️ Could not check ${record.label} (${record.id}), will retry:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
+
+function track(
+  record: ManagedTransaction,
+  lastBroadcastAt?: number
+): Promise<ethers.TransactionReceipt> {
+  const confirmation = watch(record, lastBroadcastAt);
+  // Callers that only want the id may never await this
+  confirmation.catch(() => undefined);
+  return confirmation;
+}
+
+/**
+ * Queue a contract call from the backend wallet and broadcast it.
+ *
+ * The call is simulated first, so one that would revert throws here with
+ * the contract's error (see revertReason) and never takes a nonce. Resolves
+ * once the transaction is broadcast; await `confirmation` for the receipt.
+ */
+export async function submitTransaction<A extends unknown[]>(
+  label: string,
+  method: ContractMethod<A>,
+  ...args: A
+): Promise<PendingTransaction> {
+  const { wallet } = requireSigner();
+
+  const gasLimit = await withRetry(`${label} gas estimate`, () =>
+    method.estimateGas(...args)
+  );
+  const request = await method.populateTransaction(...args);
+
+  const record = await enqueue(async () => {
+    const fees = await currentFees();
+
+    for (let attempt = 1; ; attempt++) {
+      const nonce =
+        nextNonce ??
+        (await withRetry("Nonce lookup", () => wallet.getNonce("pending")));
+      const now = new Date();
+      const record: ManagedTransaction = {
+        id: `tx_${crypto.randomUUID()}`,
+        label,
+        status: "pending",
+        nonce,
+        to: request.to,
+        data: request.data,
+        value: (request.value ?? 0n).toString(),
+        gasLimit: gasLimit.toString(),
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        gasPrice: null,
+        hashes: [],
+        transactionHash: null,
+        blockNumber: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      setFees(record, fees);
+
+      try {
+        record.hashes.push(await broadcast(record));
+      } catch (error) {
+        // Our counter is behind, e.g. another process sent from this
+        // wallet; read the nonce from the chain and try again
+        nextNonce = undefined;
+        if (isNonceTaken(error) && attempt < options.maxRetries) continue;
+        throw error;
+      }
+
+      nextNonce = nonce + 1;
+      await getRepository().saveManagedTransaction(record);
+      return record;
+    }
+  });
+
+  console.log(
+    `📤 ${label} sent with nonce ${record.nonce} (${record.id}): ${record.hashes[0]}`
+  );
+
+  return {
+    id: record.id,
+    hash: record.hashes[0],
+    nonce: record.nonce,
+    confirmation: track(record),
+  };
+}
+
+// Submit and wait for the receipt
+export async function sendTransaction<A extends unknown[]>(
+  label: string,
+  method: ContractMethod<A>,
+  ...args: A
+) {
+  const pending = await submitTransaction(label, method, ...args);
+  return { transactionId: pending.id, receipt: await pending.confirmation };
+}
+
+export async function getManagedTransaction(id: string) {
+  return getRepository().getManagedTransaction(id);
+}
+
+// Keep watching transactions that were still pending when the process
+// stopped, so they are confirmed or replaced like any other
+export async function resumePendingTransactions() {
+  const pending = await getRepository().listManagedTransactions("pending");
+  for (const record of pending) {
+    track(record, record.updatedAt.getTime());
+  }
+  if (pending.length > 0) {
+    console.log(`📤 Watching ${pending.length} pending transaction(s) from before the restart`);
+  }
+  return pending.length;
+}
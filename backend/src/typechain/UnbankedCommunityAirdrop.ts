@@ -0,0 +1,787 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface UnbankedCommunityAirdropInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BASE_ALLOCATION"
+      | "COMMUNITY_REFERRAL_BONUS"
+      | "EARLY_BIRD_BONUS"
+      | "advancePhase"
+      | "awardReputationBonus"
+      | "claimAirdrop"
+      | "claimed"
+      | "currentPhase"
+      | "getClaimableAmount"
+      | "getConfigId"
+      | "getStats"
+      | "isTrustedForwarder"
+      | "isUserRegistered"
+      | "merkleRoot"
+      | "onVerificationSuccess"
+      | "owner"
+      | "recoverTokens"
+      | "renounceOwnership"
+      | "scope"
+      | "setMerkleRoot"
+      | "setVerificationConfig"
+      | "token"
+      | "totalClaimed"
+      | "totalDistributed"
+      | "totalRegistered"
+      | "transferOwnership"
+      | "trustedForwarder"
+      | "userData"
+      | "verificationConfigId"
+      | "verifySelfProof"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AirdropClaimed"
+      | "OwnershipTransferred"
+      | "PhaseChanged"
+      | "ReputationBonusEarned"
+      | "ScopeUpdated"
+      | "UserRegistered"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BASE_ALLOCATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COMMUNITY_REFERRAL_BONUS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EARLY_BIRD_BONUS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "advancePhase",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "awardReputationBonus",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimAirdrop",
+    values: [BytesLike[], BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimed",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentPhase",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClaimableAmount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConfigId",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "getStats", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isUserRegistered",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "merkleRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onVerificationSuccess",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "recoverTokens",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "scope", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setMerkleRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerificationConfig",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "totalClaimed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalDistributed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRegistered",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verificationConfigId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifySelfProof",
+    values: [BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BASE_ALLOCATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COMMUNITY_REFERRAL_BONUS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EARLY_BIRD_BONUS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "advancePhase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "awardReputationBonus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimAirdrop",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claimed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentPhase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClaimableAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConfigId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getStats", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isUserRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "merkleRoot", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "onVerificationSuccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recoverTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "scope", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerificationConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalClaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalDistributed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationConfigId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifySelfProof",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AirdropClaimedEvent {
+  export type InputTuple = [user: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [user: string, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PhaseChangedEvent {
+  export type InputTuple = [newPhase: BigNumberish];
+  export type OutputTuple = [newPhase: bigint];
+  export interface OutputObject {
+    newPhase: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationBonusEarnedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    bonusAmount: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [user: string, bonusAmount: bigint, reason: string];
+  export interface OutputObject {
+    user: string;
+    bonusAmount: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScopeUpdatedEvent {
+  export type InputTuple = [newScope: BigNumberish];
+  export type OutputTuple = [newScope: bigint];
+  export interface OutputObject {
+    newScope: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UserRegisteredEvent {
+  export type InputTuple = [
+    nullifier: BigNumberish,
+    userIdentifier: BigNumberish
+  ];
+  export type OutputTuple = [nullifier: bigint, userIdentifier: bigint];
+  export interface OutputObject {
+    nullifier: bigint;
+    userIdentifier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UnbankedCommunityAirdrop extends BaseContract {
+  connect(runner?: ContractRunner | null): UnbankedCommunityAirdrop;
+  waitForDeployment(): Promise<this>;
+
+  interface: UnbankedCommunityAirdropInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BASE_ALLOCATION: TypedContractMethod<[], [bigint], "view">;
+
+  COMMUNITY_REFERRAL_BONUS: TypedContractMethod<[], [bigint], "view">;
+
+  EARLY_BIRD_BONUS: TypedContractMethod<[], [bigint], "view">;
+
+  advancePhase: TypedContractMethod<[], [void], "nonpayable">;
+
+  awardReputationBonus: TypedContractMethod<
+    [user: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  claimAirdrop: TypedContractMethod<
+    [merkleProof: BytesLike[], bonusAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimed: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  currentPhase: TypedContractMethod<[], [bigint], "view">;
+
+  getClaimableAmount: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getConfigId: TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getStats: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        registered: bigint;
+        totalClaims: bigint;
+        distributed: bigint;
+        remaining: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  isTrustedForwarder: TypedContractMethod<
+    [forwarder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isUserRegistered: TypedContractMethod<[user: AddressLike], [boolean], "view">;
+
+  merkleRoot: TypedContractMethod<[], [string], "view">;
+
+  onVerificationSuccess: TypedContractMethod<
+    [output: BytesLike, userData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  recoverTokens: TypedContractMethod<
+    [_token: AddressLike, _amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  scope: TypedContractMethod<[], [bigint], "view">;
+
+  setMerkleRoot: TypedContractMethod<
+    [_merkleRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerificationConfig: TypedContractMethod<
+    [_configId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  totalClaimed: TypedContractMethod<[], [bigint], "view">;
+
+  totalDistributed: TypedContractMethod<[], [bigint], "view">;
+
+  totalRegistered: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  userData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        hasClaimed: boolean;
+        baseAllocation: bigint;
+        reputationBonus: bigint;
+        registrationTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  verificationConfigId: TypedContractMethod<[], [string], "view">;
+
+  verifySelfProof: TypedContractMethod<
+    [proofPayload: BytesLike, userContextData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BASE_ALLOCATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COMMUNITY_REFERRAL_BONUS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "EARLY_BIRD_BONUS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "advancePhase"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "awardReputationBonus"
+  ): TypedContractMethod<
+    [user: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimAirdrop"
+  ): TypedContractMethod<
+    [merkleProof: BytesLike[], bonusAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimed"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "currentPhase"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getClaimableAmount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getConfigId"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getStats"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        registered: bigint;
+        totalClaims: bigint;
+        distributed: bigint;
+        remaining: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isTrustedForwarder"
+  ): TypedContractMethod<[forwarder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isUserRegistered"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "merkleRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "onVerificationSuccess"
+  ): TypedContractMethod<
+    [output: BytesLike, userData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "recoverTokens"
+  ): TypedContractMethod<
+    [_token: AddressLike, _amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scope"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setMerkleRoot"
+  ): TypedContractMethod<[_merkleRoot: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVerificationConfig"
+  ): TypedContractMethod<[_configId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "totalClaimed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalDistributed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalRegistered"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "userData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        hasClaimed: boolean;
+        baseAllocation: bigint;
+        reputationBonus: bigint;
+        registrationTime: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verificationConfigId"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "verifySelfProof"
+  ): TypedContractMethod<
+    [proofPayload: BytesLike, userContextData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AirdropClaimed"
+  ): TypedContractEvent<
+    AirdropClaimedEvent.InputTuple,
+    AirdropClaimedEvent.OutputTuple,
+    AirdropClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PhaseChanged"
+  ): TypedContractEvent<
+    PhaseChangedEvent.InputTuple,
+    PhaseChangedEvent.OutputTuple,
+    PhaseChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationBonusEarned"
+  ): TypedContractEvent<
+    ReputationBonusEarnedEvent.InputTuple,
+    ReputationBonusEarnedEvent.OutputTuple,
+    ReputationBonusEarnedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScopeUpdated"
+  ): TypedContractEvent<
+    ScopeUpdatedEvent.InputTuple,
+    ScopeUpdatedEvent.OutputTuple,
+    ScopeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UserRegistered"
+  ): TypedContractEvent<
+    UserRegisteredEvent.InputTuple,
+    UserRegisteredEvent.OutputTuple,
+    UserRegisteredEvent.OutputObject
+  >;
+
+  filters: {
+    "AirdropClaimed(address,uint256)": TypedContractEvent<
+      AirdropClaimedEvent.InputTuple,
+      AirdropClaimedEvent.OutputTuple,
+      AirdropClaimedEvent.OutputObject
+    >;
+    AirdropClaimed: TypedContractEvent<
+      AirdropClaimedEvent.InputTuple,
+      AirdropClaimedEvent.OutputTuple,
+      AirdropClaimedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PhaseChanged(uint8)": TypedContractEvent<
+      PhaseChangedEvent.InputTuple,
+      PhaseChangedEvent.OutputTuple,
+      PhaseChangedEvent.OutputObject
+    >;
+    PhaseChanged: TypedContractEvent<
+      PhaseChangedEvent.InputTuple,
+      PhaseChangedEvent.OutputTuple,
+      PhaseChangedEvent.OutputObject
+    >;
+
+    "ReputationBonusEarned(address,uint256,string)": TypedContractEvent<
+      ReputationBonusEarnedEvent.InputTuple,
+      ReputationBonusEarnedEvent.OutputTuple,
+      ReputationBonusEarnedEvent.OutputObject
+    >;
+    ReputationBonusEarned: TypedContractEvent<
+      ReputationBonusEarnedEvent.InputTuple,
+      ReputationBonusEarnedEvent.OutputTuple,
+      ReputationBonusEarnedEvent.OutputObject
+    >;
+
+    "ScopeUpdated(uint256)": TypedContractEvent<
+      ScopeUpdatedEvent.InputTuple,
+      ScopeUpdatedEvent.OutputTuple,
+      ScopeUpdatedEvent.OutputObject
+    >;
+    ScopeUpdated: TypedContractEvent<
+      ScopeUpdatedEvent.InputTuple,
+      ScopeUpdatedEvent.OutputTuple,
+      ScopeUpdatedEvent.OutputObject
+    >;
+
+    "UserRegistered(uint256,uint256)": TypedContractEvent<
+      UserRegisteredEvent.InputTuple,
+      UserRegisteredEvent.OutputTuple,
+      UserRegisteredEvent.OutputObject
+    >;
+    UserRegistered: TypedContractEvent<
+      UserRegisteredEvent.InputTuple,
+      UserRegisteredEvent.OutputTuple,
+      UserRegisteredEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,755 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface UnbankedIdentityInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_ATTESTATION_POINTS"
+      | "MIN_ATTESTATION_POINTS"
+      | "addAttestation"
+      | "canAccessService"
+      | "getConfigId"
+      | "getStats"
+      | "getUserData"
+      | "onVerificationSuccess"
+      | "owner"
+      | "recordServiceAccess"
+      | "reduceReputation"
+      | "renounceOwnership"
+      | "scope"
+      | "services"
+      | "setService"
+      | "setVerificationConfig"
+      | "totalAttestations"
+      | "totalUsers"
+      | "transferOwnership"
+      | "userData"
+      | "verificationConfigId"
+      | "verifySelfProof"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AttestationAdded"
+      | "OwnershipTransferred"
+      | "ReputationReduced"
+      | "ReputationUpdated"
+      | "ScopeUpdated"
+      | "ServiceAccessed"
+      | "UserRegistered"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_ATTESTATION_POINTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_ATTESTATION_POINTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addAttestation",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canAccessService",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConfigId",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "getStats", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getUserData",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onVerificationSuccess",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "recordServiceAccess",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reduceReputation",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "scope", values?: undefined): string;
+  encodeFunctionData(functionFragment: "services", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setService",
+    values: [string, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVerificationConfig",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalAttestations",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalUsers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verificationConfigId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifySelfProof",
+    values: [BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_ATTESTATION_POINTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_ATTESTATION_POINTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addAttestation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "canAccessService",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConfigId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getStats", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onVerificationSuccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordServiceAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reduceReputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "scope", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "services", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setService", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setVerificationConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalAttestations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "totalUsers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationConfigId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifySelfProof",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AttestationAddedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    attester: AddressLike,
+    points: BigNumberish
+  ];
+  export type OutputTuple = [user: string, attester: string, points: bigint];
+  export interface OutputObject {
+    user: string;
+    attester: string;
+    points: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationReducedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    points: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [user: string, points: bigint, reason: string];
+  export interface OutputObject {
+    user: string;
+    points: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationUpdatedEvent {
+  export type InputTuple = [user: AddressLike, newScore: BigNumberish];
+  export type OutputTuple = [user: string, newScore: bigint];
+  export interface OutputObject {
+    user: string;
+    newScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScopeUpdatedEvent {
+  export type InputTuple = [newScope: BigNumberish];
+  export type OutputTuple = [newScope: bigint];
+  export interface OutputObject {
+    newScope: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ServiceAccessedEvent {
+  export type InputTuple = [user: AddressLike, service: string];
+  export type OutputTuple = [user: string, service: string];
+  export interface OutputObject {
+    user: string;
+    service: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UserRegisteredEvent {
+  export type InputTuple = [
+    nullifier: BigNumberish,
+    userIdentifier: BigNumberish
+  ];
+  export type OutputTuple = [nullifier: bigint, userIdentifier: bigint];
+  export interface OutputObject {
+    nullifier: bigint;
+    userIdentifier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UnbankedIdentity extends BaseContract {
+  connect(runner?: ContractRunner | null): UnbankedIdentity;
+  waitForDeployment(): Promise<this>;
+
+  interface: UnbankedIdentityInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_ATTESTATION_POINTS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_ATTESTATION_POINTS: TypedContractMethod<[], [bigint], "view">;
+
+  addAttestation: TypedContractMethod<
+    [userAddress: AddressLike, points: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  canAccessService: TypedContractMethod<
+    [userAddress: AddressLike, serviceName: string],
+    [[boolean, string] & { canAccess: boolean; reason: string }],
+    "view"
+  >;
+
+  getConfigId: TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getStats: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint] & {
+        users: bigint;
+        attestations: bigint;
+        avgReputation: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserData: TypedContractMethod<
+    [userAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        reputationScore: bigint;
+        attestationCount: bigint;
+        registrationTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  onVerificationSuccess: TypedContractMethod<
+    [output: BytesLike, userData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  recordServiceAccess: TypedContractMethod<
+    [userAddress: AddressLike, serviceName: string],
+    [void],
+    "nonpayable"
+  >;
+
+  reduceReputation: TypedContractMethod<
+    [userAddress: AddressLike, points: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  scope: TypedContractMethod<[], [bigint], "view">;
+
+  services: TypedContractMethod<
+    [arg0: string],
+    [
+      [bigint, boolean, string] & {
+        minReputation: bigint;
+        isActive: boolean;
+        name: string;
+      }
+    ],
+    "view"
+  >;
+
+  setService: TypedContractMethod<
+    [serviceName: string, minReputation: BigNumberish, isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setVerificationConfig: TypedContractMethod<
+    [_configId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  totalAttestations: TypedContractMethod<[], [bigint], "view">;
+
+  totalUsers: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  userData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        reputationScore: bigint;
+        registrationTime: bigint;
+        attestationCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  verificationConfigId: TypedContractMethod<[], [string], "view">;
+
+  verifySelfProof: TypedContractMethod<
+    [proofPayload: BytesLike, userContextData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_ATTESTATION_POINTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_ATTESTATION_POINTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addAttestation"
+  ): TypedContractMethod<
+    [userAddress: AddressLike, points: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "canAccessService"
+  ): TypedContractMethod<
+    [userAddress: AddressLike, serviceName: string],
+    [[boolean, string] & { canAccess: boolean; reason: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getConfigId"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: BytesLike, arg2: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getStats"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint] & {
+        users: bigint;
+        attestations: bigint;
+        avgReputation: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserData"
+  ): TypedContractMethod<
+    [userAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        reputationScore: bigint;
+        attestationCount: bigint;
+        registrationTime: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "onVerificationSuccess"
+  ): TypedContractMethod<
+    [output: BytesLike, userData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "recordServiceAccess"
+  ): TypedContractMethod<
+    [userAddress: AddressLike, serviceName: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reduceReputation"
+  ): TypedContractMethod<
+    [userAddress: AddressLike, points: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scope"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "services"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [bigint, boolean, string] & {
+        minReputation: bigint;
+        isActive: boolean;
+        name: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setService"
+  ): TypedContractMethod<
+    [serviceName: string, minReputation: BigNumberish, isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVerificationConfig"
+  ): TypedContractMethod<[_configId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "totalAttestations"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalUsers"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "userData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        reputationScore: bigint;
+        registrationTime: bigint;
+        attestationCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verificationConfigId"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "verifySelfProof"
+  ): TypedContractMethod<
+    [proofPayload: BytesLike, userContextData: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AttestationAdded"
+  ): TypedContractEvent<
+    AttestationAddedEvent.InputTuple,
+    AttestationAddedEvent.OutputTuple,
+    AttestationAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationReduced"
+  ): TypedContractEvent<
+    ReputationReducedEvent.InputTuple,
+    ReputationReducedEvent.OutputTuple,
+    ReputationReducedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationUpdated"
+  ): TypedContractEvent<
+    ReputationUpdatedEvent.InputTuple,
+    ReputationUpdatedEvent.OutputTuple,
+    ReputationUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScopeUpdated"
+  ): TypedContractEvent<
+    ScopeUpdatedEvent.InputTuple,
+    ScopeUpdatedEvent.OutputTuple,
+    ScopeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ServiceAccessed"
+  ): TypedContractEvent<
+    ServiceAccessedEvent.InputTuple,
+    ServiceAccessedEvent.OutputTuple,
+    ServiceAccessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UserRegistered"
+  ): TypedContractEvent<
+    UserRegisteredEvent.InputTuple,
+    UserRegisteredEvent.OutputTuple,
+    UserRegisteredEvent.OutputObject
+  >;
+
+  filters: {
+    "AttestationAdded(address,address,uint256)": TypedContractEvent<
+      AttestationAddedEvent.InputTuple,
+      AttestationAddedEvent.OutputTuple,
+      AttestationAddedEvent.OutputObject
+    >;
+    AttestationAdded: TypedContractEvent<
+      AttestationAddedEvent.InputTuple,
+      AttestationAddedEvent.OutputTuple,
+      AttestationAddedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ReputationReduced(address,uint256,string)": TypedContractEvent<
+      ReputationReducedEvent.InputTuple,
+      ReputationReducedEvent.OutputTuple,
+      ReputationReducedEvent.OutputObject
+    >;
+    ReputationReduced: TypedContractEvent<
+      ReputationReducedEvent.InputTuple,
+      ReputationReducedEvent.OutputTuple,
+      ReputationReducedEvent.OutputObject
+    >;
+
+    "ReputationUpdated(address,uint256)": TypedContractEvent<
+      ReputationUpdatedEvent.InputTuple,
+      ReputationUpdatedEvent.OutputTuple,
+      ReputationUpdatedEvent.OutputObject
+    >;
+    ReputationUpdated: TypedContractEvent<
+      ReputationUpdatedEvent.InputTuple,
+      ReputationUpdatedEvent.OutputTuple,
+      ReputationUpdatedEvent.OutputObject
+    >;
+
+    "ScopeUpdated(uint256)": TypedContractEvent<
+      ScopeUpdatedEvent.InputTuple,
+      ScopeUpdatedEvent.OutputTuple,
+      ScopeUpdatedEvent.OutputObject
+    >;
+    ScopeUpdated: TypedContractEvent<
+      ScopeUpdatedEvent.InputTuple,
+      ScopeUpdatedEvent.OutputTuple,
+      ScopeUpdatedEvent.OutputObject
+    >;
+
+    "ServiceAccessed(address,string)": TypedContractEvent<
+      ServiceAccessedEvent.InputTuple,
+      ServiceAccessedEvent.OutputTuple,
+      ServiceAccessedEvent.OutputObject
+    >;
+    ServiceAccessed: TypedContractEvent<
+      ServiceAccessedEvent.InputTuple,
+      ServiceAccessedEvent.OutputTuple,
+      ServiceAccessedEvent.OutputObject
+    >;
+
+    "UserRegistered(uint256,uint256)": TypedContractEvent<
+      UserRegisteredEvent.InputTuple,
+      UserRegisteredEvent.OutputTuple,
+      UserRegisteredEvent.OutputObject
+    >;
+    UserRegistered: TypedContractEvent<
+      UserRegisteredEvent.InputTuple,
+      UserRegisteredEvent.OutputTuple,
+      UserRegisteredEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1076 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace UnbankedLending {
+  export type BorrowerProfileStruct = {
+    totalBorrowed: BigNumberish;
+    totalRepaid: BigNumberish;
+    activeLoans: BigNumberish;
+    defaultedLoans: BigNumberish;
+    lastLoanTime: BigNumberish;
+    isBanned: boolean;
+  };
+
+  export type BorrowerProfileStructOutput = [
+    totalBorrowed: bigint,
+    totalRepaid: bigint,
+    activeLoans: bigint,
+    defaultedLoans: bigint,
+    lastLoanTime: bigint,
+    isBanned: boolean
+  ] & {
+    totalBorrowed: bigint;
+    totalRepaid: bigint;
+    activeLoans: bigint;
+    defaultedLoans: bigint;
+    lastLoanTime: bigint;
+    isBanned: boolean;
+  };
+
+  export type LoanStruct = {
+    id: BigNumberish;
+    borrower: AddressLike;
+    amount: BigNumberish;
+    duration: BigNumberish;
+    interestRate: BigNumberish;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    repaidAmount: BigNumberish;
+    approved: boolean;
+    active: boolean;
+    defaulted: boolean;
+    collateralAmount: BigNumberish;
+  };
+
+  export type LoanStructOutput = [
+    id: bigint,
+    borrower: string,
+    amount: bigint,
+    duration: bigint,
+    interestRate: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    repaidAmount: bigint,
+    approved: boolean,
+    active: boolean,
+    defaulted: boolean,
+    collateralAmount: bigint
+  ] & {
+    id: bigint;
+    borrower: string;
+    amount: bigint;
+    duration: bigint;
+    interestRate: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    repaidAmount: bigint;
+    approved: boolean;
+    active: boolean;
+    defaulted: boolean;
+    collateralAmount: bigint;
+  };
+}
+
+export interface UnbankedLendingInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BASE_INTEREST_RATE"
+      | "COLLATERAL_RATIO"
+      | "MAX_ACTIVE_LOANS_PER_USER"
+      | "MAX_LOAN_AMOUNT"
+      | "MAX_LOAN_DURATION"
+      | "MIN_LOAN_AMOUNT"
+      | "MIN_LOAN_DURATION"
+      | "MIN_REPUTATION_FOR_LOAN"
+      | "approveLoan"
+      | "borrowerProfiles"
+      | "calculateInterestRate"
+      | "calculateTotalDue"
+      | "collateralBalances"
+      | "depositCollateral"
+      | "fundPool"
+      | "getBorrowerProfile"
+      | "getLoan"
+      | "getUserLoans"
+      | "identityContract"
+      | "isTrustedForwarder"
+      | "lendingToken"
+      | "loanCounter"
+      | "loans"
+      | "markAsDefaulted"
+      | "owner"
+      | "renounceOwnership"
+      | "repayLoan"
+      | "requestLoan"
+      | "requestLoanFor"
+      | "setBorrowerBan"
+      | "totalActiveLoans"
+      | "totalPoolFunds"
+      | "transferOwnership"
+      | "trustedForwarder"
+      | "userLoans"
+      | "withdrawFromPool"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CollateralDeposited"
+      | "LoanApproved"
+      | "LoanDefaulted"
+      | "LoanRepaid"
+      | "LoanRequested"
+      | "OwnershipTransferred"
+      | "PoolFunded"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BASE_INTEREST_RATE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COLLATERAL_RATIO",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ACTIVE_LOANS_PER_USER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LOAN_AMOUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LOAN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_LOAN_AMOUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_LOAN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_REPUTATION_FOR_LOAN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrowerProfiles",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateInterestRate",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateTotalDue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralBalances",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositCollateral",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundPool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBorrowerProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserLoans",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "identityContract",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lendingToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "loanCounter",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "loans", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "markAsDefaulted",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "repayLoan",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestLoan",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestLoanFor",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBorrowerBan",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalActiveLoans",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalPoolFunds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userLoans",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFromPool",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BASE_INTEREST_RATE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COLLATERAL_RATIO",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ACTIVE_LOANS_PER_USER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LOAN_AMOUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LOAN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_LOAN_AMOUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_LOAN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_REPUTATION_FOR_LOAN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveLoan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "borrowerProfiles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateInterestRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateTotalDue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fundPool", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBorrowerProfile",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getLoan", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserLoans",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "identityContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lendingToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "loanCounter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "loans", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "markAsDefaulted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "repayLoan", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestLoan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestLoanFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBorrowerBan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalActiveLoans",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalPoolFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userLoans", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawFromPool",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CollateralDepositedEvent {
+  export type InputTuple = [loanId: BigNumberish, amount: BigNumberish];
+  export type OutputTuple = [loanId: bigint, amount: bigint];
+  export interface OutputObject {
+    loanId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanApprovedEvent {
+  export type InputTuple = [loanId: BigNumberish, approver: AddressLike];
+  export type OutputTuple = [loanId: bigint, approver: string];
+  export interface OutputObject {
+    loanId: bigint;
+    approver: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanDefaultedEvent {
+  export type InputTuple = [loanId: BigNumberish, remainingDebt: BigNumberish];
+  export type OutputTuple = [loanId: bigint, remainingDebt: bigint];
+  export interface OutputObject {
+    loanId: bigint;
+    remainingDebt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRepaidEvent {
+  export type InputTuple = [
+    loanId: BigNumberish,
+    amount: BigNumberish,
+    isFullRepayment: boolean
+  ];
+  export type OutputTuple = [
+    loanId: bigint,
+    amount: bigint,
+    isFullRepayment: boolean
+  ];
+  export interface OutputObject {
+    loanId: bigint;
+    amount: bigint;
+    isFullRepayment: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRequestedEvent {
+  export type InputTuple = [
+    loanId: BigNumberish,
+    borrower: AddressLike,
+    amount: BigNumberish,
+    duration: BigNumberish,
+    interestRate: BigNumberish
+  ];
+  export type OutputTuple = [
+    loanId: bigint,
+    borrower: string,
+    amount: bigint,
+    duration: bigint,
+    interestRate: bigint
+  ];
+  export interface OutputObject {
+    loanId: bigint;
+    borrower: string;
+    amount: bigint;
+    duration: bigint;
+    interestRate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PoolFundedEvent {
+  export type InputTuple = [funder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [funder: string, amount: bigint];
+  export interface OutputObject {
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UnbankedLending extends BaseContract {
+  connect(runner?: ContractRunner | null): UnbankedLending;
+  waitForDeployment(): Promise<this>;
+
+  interface: UnbankedLendingInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BASE_INTEREST_RATE: TypedContractMethod<[], [bigint], "view">;
+
+  COLLATERAL_RATIO: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ACTIVE_LOANS_PER_USER: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LOAN_AMOUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LOAN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_LOAN_AMOUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_LOAN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_REPUTATION_FOR_LOAN: TypedContractMethod<[], [bigint], "view">;
+
+  approveLoan: TypedContractMethod<
+    [loanId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  borrowerProfiles: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, boolean] & {
+        totalBorrowed: bigint;
+        totalRepaid: bigint;
+        activeLoans: bigint;
+        defaultedLoans: bigint;
+        lastLoanTime: bigint;
+        isBanned: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  calculateInterestRate: TypedContractMethod<
+    [borrower: AddressLike, reputationScore: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  calculateTotalDue: TypedContractMethod<
+    [loanId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  collateralBalances: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  depositCollateral: TypedContractMethod<
+    [loanId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fundPool: TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  getBorrowerProfile: TypedContractMethod<
+    [borrower: AddressLike],
+    [UnbankedLending.BorrowerProfileStructOutput],
+    "view"
+  >;
+
+  getLoan: TypedContractMethod<
+    [loanId: BigNumberish],
+    [UnbankedLending.LoanStructOutput],
+    "view"
+  >;
+
+  getUserLoans: TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+
+  identityContract: TypedContractMethod<[], [string], "view">;
+
+  isTrustedForwarder: TypedContractMethod<
+    [forwarder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lendingToken: TypedContractMethod<[], [string], "view">;
+
+  loanCounter: TypedContractMethod<[], [bigint], "view">;
+
+  loans: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint
+      ] & {
+        id: bigint;
+        borrower: string;
+        amount: bigint;
+        duration: bigint;
+        interestRate: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        repaidAmount: bigint;
+        approved: boolean;
+        active: boolean;
+        defaulted: boolean;
+        collateralAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  markAsDefaulted: TypedContractMethod<
+    [loanId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  repayLoan: TypedContractMethod<
+    [loanId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestLoan: TypedContractMethod<
+    [amount: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestLoanFor: TypedContractMethod<
+    [borrower: AddressLike, amount: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setBorrowerBan: TypedContractMethod<
+    [borrower: AddressLike, banned: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  totalActiveLoans: TypedContractMethod<[], [bigint], "view">;
+
+  totalPoolFunds: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  userLoans: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  withdrawFromPool: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BASE_INTEREST_RATE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COLLATERAL_RATIO"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ACTIVE_LOANS_PER_USER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LOAN_AMOUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LOAN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_LOAN_AMOUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_LOAN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_REPUTATION_FOR_LOAN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approveLoan"
+  ): TypedContractMethod<[loanId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "borrowerProfiles"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, boolean] & {
+        totalBorrowed: bigint;
+        totalRepaid: bigint;
+        activeLoans: bigint;
+        defaultedLoans: bigint;
+        lastLoanTime: bigint;
+        isBanned: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "calculateInterestRate"
+  ): TypedContractMethod<
+    [borrower: AddressLike, reputationScore: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "calculateTotalDue"
+  ): TypedContractMethod<[loanId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collateralBalances"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "depositCollateral"
+  ): TypedContractMethod<
+    [loanId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundPool"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBorrowerProfile"
+  ): TypedContractMethod<
+    [borrower: AddressLike],
+    [UnbankedLending.BorrowerProfileStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLoan"
+  ): TypedContractMethod<
+    [loanId: BigNumberish],
+    [UnbankedLending.LoanStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserLoans"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "identityContract"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isTrustedForwarder"
+  ): TypedContractMethod<[forwarder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lendingToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "loanCounter"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "loans"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint
+      ] & {
+        id: bigint;
+        borrower: string;
+        amount: bigint;
+        duration: bigint;
+        interestRate: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        repaidAmount: bigint;
+        approved: boolean;
+        active: boolean;
+        defaulted: boolean;
+        collateralAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "markAsDefaulted"
+  ): TypedContractMethod<[loanId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "repayLoan"
+  ): TypedContractMethod<
+    [loanId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestLoan"
+  ): TypedContractMethod<
+    [amount: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestLoanFor"
+  ): TypedContractMethod<
+    [borrower: AddressLike, amount: BigNumberish, duration: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBorrowerBan"
+  ): TypedContractMethod<
+    [borrower: AddressLike, banned: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalActiveLoans"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalPoolFunds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "userLoans"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawFromPool"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "CollateralDeposited"
+  ): TypedContractEvent<
+    CollateralDepositedEvent.InputTuple,
+    CollateralDepositedEvent.OutputTuple,
+    CollateralDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanApproved"
+  ): TypedContractEvent<
+    LoanApprovedEvent.InputTuple,
+    LoanApprovedEvent.OutputTuple,
+    LoanApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanDefaulted"
+  ): TypedContractEvent<
+    LoanDefaultedEvent.InputTuple,
+    LoanDefaultedEvent.OutputTuple,
+    LoanDefaultedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRepaid"
+  ): TypedContractEvent<
+    LoanRepaidEvent.InputTuple,
+    LoanRepaidEvent.OutputTuple,
+    LoanRepaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRequested"
+  ): TypedContractEvent<
+    LoanRequestedEvent.InputTuple,
+    LoanRequestedEvent.OutputTuple,
+    LoanRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PoolFunded"
+  ): TypedContractEvent<
+    PoolFundedEvent.InputTuple,
+    PoolFundedEvent.OutputTuple,
+    PoolFundedEvent.OutputObject
+  >;
+
+  filters: {
+    "CollateralDeposited(uint256,uint256)": TypedContractEvent<
+      CollateralDepositedEvent.InputTuple,
+      CollateralDepositedEvent.OutputTuple,
+      CollateralDepositedEvent.OutputObject
+    >;
+    CollateralDeposited: TypedContractEvent<
+      CollateralDepositedEvent.InputTuple,
+      CollateralDepositedEvent.OutputTuple,
+      CollateralDepositedEvent.OutputObject
+    >;
+
+    "LoanApproved(uint256,address)": TypedContractEvent<
+      LoanApprovedEvent.InputTuple,
+      LoanApprovedEvent.OutputTuple,
+      LoanApprovedEvent.OutputObject
+    >;
+    LoanApproved: TypedContractEvent<
+      LoanApprovedEvent.InputTuple,
+      LoanApprovedEvent.OutputTuple,
+      LoanApprovedEvent.OutputObject
+    >;
+
+    "LoanDefaulted(uint256,uint256)": TypedContractEvent<
+      LoanDefaultedEvent.InputTuple,
+      LoanDefaultedEvent.OutputTuple,
+      LoanDefaultedEvent.OutputObject
+    >;
+    LoanDefaulted: TypedContractEvent<
+      LoanDefaultedEvent.InputTuple,
+      LoanDefaultedEvent.OutputTuple,
+      LoanDefaultedEvent.OutputObject
+    >;
+
+    "LoanRepaid(uint256,uint256,bool)": TypedContractEvent<
+      LoanRepaidEvent.InputTuple,
+      LoanRepaidEvent.OutputTuple,
+      LoanRepaidEvent.OutputObject
+    >;
+    LoanRepaid: TypedContractEvent<
+      LoanRepaidEvent.InputTuple,
+      LoanRepaidEvent.OutputTuple,
+      LoanRepaidEvent.OutputObject
+    >;
+
+    "LoanRequested(uint256,address,uint256,uint256,uint256)": TypedContractEvent<
+      LoanRequestedEvent.InputTuple,
+      LoanRequestedEvent.OutputTuple,
+      LoanRequestedEvent.OutputObject
+    >;
+    LoanRequested: TypedContractEvent<
+      LoanRequestedEvent.InputTuple,
+      LoanRequestedEvent.OutputTuple,
+      LoanRequestedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PoolFunded(address,uint256)": TypedContractEvent<
+      PoolFundedEvent.InputTuple,
+      PoolFundedEvent.OutputTuple,
+      PoolFundedEvent.OutputObject
+    >;
+    PoolFunded: TypedContractEvent<
+      PoolFundedEvent.InputTuple,
+      PoolFundedEvent.OutputTuple,
+      PoolFundedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DemoToken__factory } from "./DemoToken__factory";
+export { UnbankedCommunityAirdrop__factory } from "./UnbankedCommunityAirdrop__factory";
+export { UnbankedForwarder__factory } from "./UnbankedForwarder__factory";
+export { UnbankedGovernance__factory } from "./UnbankedGovernance__factory";
+export { UnbankedIdentity__factory } from "./UnbankedIdentity__factory";
+export { UnbankedLending__factory } from "./UnbankedLending__factory";
@@ -0,0 +1,16 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { DemoToken } from "./DemoToken";
+export type { UnbankedCommunityAirdrop } from "./UnbankedCommunityAirdrop";
+export type { UnbankedForwarder } from "./UnbankedForwarder";
+export type { UnbankedGovernance } from "./UnbankedGovernance";
+export type { UnbankedIdentity } from "./UnbankedIdentity";
+export type { UnbankedLending } from "./UnbankedLending";
+export * as factories from "./factories";
+export { UnbankedIdentity__factory } from "./factories/UnbankedIdentity__factory";
+export { UnbankedCommunityAirdrop__factory } from "./factories/UnbankedCommunityAirdrop__factory";
+export { UnbankedGovernance__factory } from "./factories/UnbankedGovernance__factory";
+export { UnbankedLending__factory } from "./factories/UnbankedLending__factory";
+export { DemoToken__factory } from "./factories/DemoToken__factory";
+export { UnbankedForwarder__factory } from "./factories/UnbankedForwarder__factory";
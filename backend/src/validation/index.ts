@@ -0,0 +1,67 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ApiError } from "../errors";
+import { FieldError } from "../shared/api-types";
+import { patternMessages, schemas, SchemaName } from "./schemas";
+
+export { schemas };
+export type { SchemaName };
+
+const ajv = new Ajv({ allErrors: true });
+
+const validators = Object.fromEntries(
+  Object.entries(schemas).map(([name, schema]) => [name, ajv.compile(schema)])
+) as Record<SchemaName, ValidateFunction>;
+
+// Rejected request body; rendered as a 422 listing every field problem
+export class ValidationError extends ApiError {
+  constructor(public errors: FieldError[]) {
+    super(422, "Validation failed", { errors });
+    this.name = "ValidationError";
+  }
+}
+
+function toFieldError(error: ErrorObject): FieldError {
+  // instancePath is a JSON pointer ("/requestedAmount"); report it dotted
+  let field = error.instancePath.slice(1).replace(/\//g, ".");
+
+  if (error.keyword === "required") {
+    const missing = error.params.missingProperty as string;
+    field = field ? `${field}.${missing}` : missing;
+    return { field, message: "is required" };
+  }
+
+  if (error.keyword === "additionalProperties") {
+    const extra = error.params.additionalProperty as string;
+    field = field ? `${field}.${extra}` : extra;
+    return { field, message: "is not a recognised field" };
+  }
+
+  if (error.keyword === "enum") {
+    const allowed = (error.params.allowedValues as unknown[])
+      .map((value) => JSON.stringify(value))
+      .join(", ");
+    return { field: field || "(body)", message: `must be one of ${allowed}` };
+  }
+
+  if (error.keyword === "pattern") {
+    const pattern = error.params.pattern as string;
+    const message = patternMessages[pattern] || `must match ${pattern}`;
+    return { field, message };
+  }
+
+  return { field: field || "(body)", message: error.message || "is invalid" };
+}
+
+/**
+ * Check `data` against the named schema.
+ *
+ * Returns the data typed as the matching request type, or throws a
+ * {@link ValidationError} with one entry per field problem.
+ */
+export function validate<T>(name: SchemaName, data: unknown): T {
+  const validator = validators[name];
+  if (!validator(data ?? {})) {
+    throw new ValidationError((validator.errors || []).map(toFieldError));
+  }
+  return (data ?? {}) as T;
+}
@@ -0,0 +1,712 @@
+// JSON Schemas for every request body the API accepts.
+//
+// These are the source of truth for request shapes: the validator compiles
+// them at startup and `npm run generate:types` turns them into the TypeScript
+// types in src/shared/api-types.ts (copied to the frontend). After changing a
+// schema, regenerate the types and commit both.
+
+const ADDRESS_PATTERN = "^0x[0-9a-fA-F]{40}$";
+const SLUG_PATTERN = "^[a-z0-9_-]{1,64}$";
+const UINT_PATTERN = "^[0-9]{1,78}$";
+const HEX_BYTES_PATTERN = "^0x([0-9a-fA-F]{2})*$";
+const BYTES32_PATTERN = "^0x[0-9a-fA-F]{64}$";
+const SESSION_NONCE_PATTERN = "^[0-9a-f]{64}$";
+// Unprefixed hex: the destination chain ID and the user ID as 32 bytes
+// each, then the user-defined data
+const USER_CONTEXT_DATA_PATTERN = "^[0-9a-fA-F]{128,}$";
+const ISO_TIME_PATTERN =
+  "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})$";
+// The formats src/shared/user-address.ts can map to an on-chain address
+const USER_IDENTIFIER_PATTERN =
+  "^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}|0x[0-9a-fA-F]{1,64})$";
+
+// Readable messages for pattern failures, instead of echoing the regex
+export const patternMessages: Record<string, string> = {
+  [ADDRESS_PATTERN]: "must be a 0x-prefixed 20-byte address",
+  [SLUG_PATTERN]: "must be 1-64 lowercase letters, digits, '-' or '_'",
+  [UINT_PATTERN]: "must be a non-negative integer in decimal",
+  [HEX_BYTES_PATTERN]: "must be 0x-prefixed hex bytes",
+  [BYTES32_PATTERN]: "must be 0x-prefixed 32-byte hex",
+  [SESSION_NONCE_PATTERN]: "must be 32 bytes of lowercase hex",
+  [USER_CONTEXT_DATA_PATTERN]:
+    "must be hex holding the destination chain ID and user ID",
+  [ISO_TIME_PATTERN]: "must be an ISO 8601 time with a timezone, e.g. 2026-01-31T12:00:00Z",
+  [USER_IDENTIFIER_PATTERN]: "must be a UUID or a 0x-prefixed hex identifier",
+};
+
+const fieldError = {
+  title: "FieldError",
+  type: "object",
+  properties: {
+    field: { type: "string" },
+    message: { type: "string" },
+  },
+  required: ["field", "message"],
+  additionalProperties: false,
+} as const;
+
+const attestationType = {
+  title: "AttestationType",
+  enum: [
+    "village_elder",
+    "merchant_voucher",
+    "savings_group",
+    "education_completion",
+    "business_owner",
+  ],
+} as const;
+
+// Every attestation type the API accepts; config/catalog.json describes each
+export const ATTESTATION_TYPES = attestationType.enum;
+
+// What an attester signs besides the subject and type
+const attestationSignatureProperties = {
+  issuedAt: {
+    type: "integer",
+    minimum: 0,
+    description: "Unix time in seconds when the attester signed it",
+  },
+  nonce: {
+    type: "string",
+    pattern: BYTES32_PATTERN,
+    description: "Random value that makes each signed attestation unique",
+  },
+  signature: { type: "string", pattern: HEX_BYTES_PATTERN },
+} as const;
+
+const metaTransactionAction = {
+  title: "MetaTransactionAction",
+  enum: ["vote", "claimAirdrop", "repayLoan"],
+} as const;
+
+// ERC2771Forwarder's EIP-712 ForwardRequest; uint256 fields are decimal
+// strings so they survive JSON
+const forwardRequestProperties = {
+  from: { type: "string", pattern: ADDRESS_PATTERN },
+  to: { type: "string", pattern: ADDRESS_PATTERN },
+  value: { type: "string", pattern: UINT_PATTERN },
+  gas: { type: "string", pattern: UINT_PATTERN },
+  nonce: { type: "string", pattern: UINT_PATTERN },
+  deadline: {
+    type: "integer",
+    minimum: 0,
+    description: "Unix time in seconds after which the forwarder rejects it",
+  },
+  data: { type: "string", pattern: HEX_BYTES_PATTERN },
+} as const;
+
+const forwardRequestFields = [
+  "from",
+  "to",
+  "value",
+  "gas",
+  "nonce",
+  "deadline",
+  "data",
+] as const;
+
+const forwardRequest = {
+  title: "ForwardRequest",
+  description: "A call for the user to sign as EIP-712 typed data",
+  type: "object",
+  properties: forwardRequestProperties,
+  required: forwardRequestFields,
+  additionalProperties: false,
+} as const;
+
+const signedForwardRequest = {
+  title: "SignedForwardRequest",
+  type: "object",
+  properties: {
+    ...forwardRequestProperties,
+    signature: { type: "string", pattern: HEX_BYTES_PATTERN },
+  },
+  required: [...forwardRequestFields, "signature"],
+  additionalProperties: false,
+} as const;
+
+export const schemas = {
+  SelfVerificationRequest: {
+    title: "SelfVerificationRequest",
+    description: "Proof payload posted by the Self app",
+    type: "object",
+    properties: {
+      attestationId: { type: "integer", minimum: 1 },
+      proof: { type: "object", additionalProperties: true },
+      publicSignals: { type: "array", items: { type: "string" } },
+      userContextData: { type: "string", pattern: USER_CONTEXT_DATA_PATTERN },
+    },
+    required: ["attestationId", "proof", "publicSignals", "userContextData"],
+  },
+
+  MockVerificationRequest: {
+    title: "MockVerificationRequest",
+    description: "Simulated verification, only honoured in SELF_MOCK_MODE",
+    type: "object",
+    properties: {
+      mockVerification: { const: true },
+      userIdentifier: { type: "string", pattern: USER_IDENTIFIER_PATTERN },
+    },
+    required: ["mockVerification", "userIdentifier"],
+    additionalProperties: false,
+  },
+
+  ClaimSessionRequest: {
+    title: "ClaimSessionRequest",
+    type: "object",
+    properties: {
+      userIdentifier: { type: "string", pattern: USER_IDENTIFIER_PATTERN },
+      sessionNonce: {
+        type: "string",
+        pattern: SESSION_NONCE_PATTERN,
+        description:
+          "The random nonce the browser put in the QR code's userDefinedData",
+      },
+    },
+    required: ["userIdentifier", "sessionNonce"],
+    additionalProperties: false,
+  },
+
+  AddAttestationRequest: {
+    title: "AddAttestationRequest",
+    description:
+      "An attestation signed by a registered attester as EIP-712 typed data (see GET /v1/attesters)",
+    type: "object",
+    properties: {
+      attestationType,
+      attester: {
+        type: "string",
+        pattern: ADDRESS_PATTERN,
+        description: "Address of the registered attester who signed it",
+      },
+      ...attestationSignatureProperties,
+    },
+    required: ["attestationType", "attester", "issuedAt", "nonce", "signature"],
+    additionalProperties: false,
+  },
+
+  RequestAttestationRequest: {
+    title: "RequestAttestationRequest",
+    description: "Ask a registered attester to vouch for you",
+    type: "object",
+    properties: {
+      attestationType,
+      attester: {
+        type: "string",
+        pattern: ADDRESS_PATTERN,
+        description: "Address of the registered attester to ask",
+      },
+      message: {
+        type: "string",
+        maxLength: 500,
+        description: "Note for the attester, e.g. how they know you",
+      },
+    },
+    required: ["attestationType", "attester"],
+    additionalProperties: false,
+  },
+
+  ApproveAttestationRequest: {
+    title: "ApproveAttestationRequest",
+    description:
+      "The attester's signature over the requesting user's address and the requested type",
+    type: "object",
+    properties: attestationSignatureProperties,
+    required: ["issuedAt", "nonce", "signature"],
+    additionalProperties: false,
+  },
+
+  RejectAttestationRequest: {
+    title: "RejectAttestationRequest",
+    description: "Decline an attestation request, telling the user why",
+    type: "object",
+    properties: {
+      reason: { type: "string", minLength: 1, maxLength: 500 },
+    },
+    required: ["reason"],
+    additionalProperties: false,
+  },
+
+  ApplyMicroloanRequest: {
+    title: "ApplyMicroloanRequest",
+    type: "object",
+    properties: {
+      requestedAmount: {
+        type: "number",
+        minimum: 10,
+        maximum: 500,
+        description:
+          "Requested amount in tokens; defaults to the maximum allowed",
+      },
+      durationDays: {
+        type: "integer",
+        minimum: 7,
+        maximum: 90,
+        description: "Loan term in days; defaults to 30",
+      },
+    },
+    additionalProperties: false,
+  },
+
+  ClaimAirdropRequest: {
+    title: "ClaimAirdropRequest",
+    type: "object",
+    properties: {
+      airdropId: { type: "string", pattern: SLUG_PATTERN },
+    },
+    additionalProperties: false,
+  },
+
+  AirdropSummary: {
+    title: "AirdropSummary",
+    description:
+      "An airdrop as the signed-in user sees it: whether they can claim it and, if not, why",
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      kind: {
+        enum: ["community", "campaign"],
+        description:
+          "community: the UnbankedCommunityAirdrop contract; campaign: paid by the backend wallet",
+      },
+      name: { type: "string" },
+      description: { type: "string" },
+      token: {
+        type: "object",
+        properties: {
+          address: { type: "string", pattern: ADDRESS_PATTERN },
+          symbol: { type: "string" },
+        },
+        required: ["address", "symbol"],
+        additionalProperties: false,
+      },
+      allocation: { type: "string", description: "Tokens per user" },
+      startsAt: { type: ["string", "null"] },
+      endsAt: { type: ["string", "null"] },
+      status: { enum: ["claimable", "claimed", "ineligible"] },
+      reasons: {
+        type: "array",
+        items: { type: "string" },
+        description: "Why the user can't claim; empty unless ineligible",
+      },
+      claim: {
+        type: ["object", "null"],
+        properties: {
+          amount: { type: "string" },
+          status: { enum: ["pending", "completed", "failed"] },
+          transactionHash: { type: ["string", "null"] },
+          claimedAt: { type: "string" },
+        },
+        required: ["amount", "status", "transactionHash", "claimedAt"],
+        additionalProperties: false,
+      },
+    },
+    required: [
+      "id",
+      "kind",
+      "name",
+      "description",
+      "token",
+      "allocation",
+      "startsAt",
+      "endsAt",
+      "status",
+      "reasons",
+      "claim",
+    ],
+    additionalProperties: false,
+  },
+
+  CreateAirdropCampaignRequest: {
+    title: "CreateAirdropCampaignRequest",
+    description:
+      "An airdrop paid from the backend wallet with an ERC-20 transfer (admin)",
+    type: "object",
+    properties: {
+      id: { type: "string", pattern: SLUG_PATTERN },
+      name: { type: "string", minLength: 1, maxLength: 100 },
+      description: { type: "string", maxLength: 500 },
+      token: {
+        type: "string",
+        pattern: ADDRESS_PATTERN,
+        description: "ERC-20 to pay in (default: the deployment's DemoToken)",
+      },
+      allocation: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "Tokens paid to each eligible user",
+      },
+      budget: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "Most tokens the campaign pays out in total",
+      },
+      minReputation: { type: "integer", minimum: 0, maximum: 1000 },
+      attestationTypes: {
+        type: "array",
+        items: attestationType,
+        uniqueItems: true,
+        description: "Attestation types a user must hold",
+      },
+      registeredBefore: {
+        type: "string",
+        pattern: ISO_TIME_PATTERN,
+        description: "Only users verified before this may claim",
+      },
+      startsAt: {
+        type: "string",
+        pattern: ISO_TIME_PATTERN,
+        description: "Default: now",
+      },
+      endsAt: { type: "string", pattern: ISO_TIME_PATTERN },
+    },
+    required: ["id", "name", "allocation", "budget"],
+    additionalProperties: false,
+  },
+
+  AirdropBonusResponse: {
+    title: "AirdropBonusResponse",
+    description:
+      "The user's bonus under the airdrop's current Merkle root; 0 with an empty proof if they have none",
+    type: "object",
+    properties: {
+      success: { const: true },
+      address: { type: "string", pattern: ADDRESS_PATTERN },
+      merkleRoot: { type: "string", pattern: BYTES32_PATTERN },
+      bonusAmount: { type: "string", description: "Tokens" },
+      bonusAmountWei: { type: "string", pattern: UINT_PATTERN },
+      merkleProof: {
+        type: "array",
+        items: { type: "string", pattern: BYTES32_PATTERN },
+      },
+    },
+    required: [
+      "success",
+      "address",
+      "merkleRoot",
+      "bonusAmount",
+      "bonusAmountWei",
+      "merkleProof",
+    ],
+    additionalProperties: false,
+  },
+
+  CreateProposalRequest: {
+    title: "CreateProposalRequest",
+    type: "object",
+    properties: {
+      description: { type: "string", minLength: 10, maxLength: 500 },
+      votingDurationDays: { type: "integer", minimum: 1, maximum: 30 },
+      minReputationRequired: {
+        type: "integer",
+        minimum: 0,
+        maximum: 1000,
+        description:
+          "Reputation needed to vote, at most the proposer's own score; defaults to the governance service threshold",
+      },
+    },
+    required: ["description", "votingDurationDays"],
+    additionalProperties: false,
+  },
+
+  CastVoteRequest: {
+    title: "CastVoteRequest",
+    type: "object",
+    properties: {
+      proposalId: { type: "integer", minimum: 1 },
+      vote: {
+        title: "VoteChoice",
+        enum: ["Yes", "No", true, false],
+        description: "Defaults to Yes",
+      },
+    },
+    required: ["proposalId"],
+    additionalProperties: false,
+  },
+
+  PrepareMetaTransactionRequest: {
+    title: "PrepareMetaTransactionRequest",
+    description:
+      "What the user wants to do; the fields each action needs match its regular endpoint",
+    type: "object",
+    properties: {
+      action: metaTransactionAction,
+      proposalId: {
+        type: "integer",
+        minimum: 1,
+        description: "vote: the proposal to vote on",
+      },
+      vote: {
+        enum: ["Yes", "No", true, false],
+        description: "vote: defaults to Yes",
+      },
+      loanId: {
+        type: "integer",
+        minimum: 1,
+        description: "repayLoan: the loan to repay",
+      },
+      amount: {
+        type: "number",
+        exclusiveMinimum: 0,
+        maximum: 100000,
+        description: "repayLoan: tokens to repay; omit to repay in full",
+      },
+    },
+    required: ["action"],
+    additionalProperties: false,
+  },
+
+  PrepareMetaTransactionResponse: {
+    title: "PrepareMetaTransactionResponse",
+    description:
+      "Typed data to sign: each request with eth_signTypedData_v4 over domain and types",
+    type: "object",
+    properties: {
+      success: { const: true },
+      action: metaTransactionAction,
+      domain: {
+        title: "ForwarderDomain",
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          version: { type: "string" },
+          chainId: { type: "integer" },
+          verifyingContract: { type: "string", pattern: ADDRESS_PATTERN },
+        },
+        required: ["name", "version", "chainId", "verifyingContract"],
+        additionalProperties: false,
+      },
+      types: {
+        type: "object",
+        additionalProperties: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              type: { type: "string" },
+            },
+            required: ["name", "type"],
+            additionalProperties: false,
+          },
+        },
+      },
+      primaryType: { const: "ForwardRequest" },
+      requests: { type: "array", items: forwardRequest },
+    },
+    required: ["success", "action", "domain", "types", "primaryType", "requests"],
+    additionalProperties: false,
+  },
+
+  RelayMetaTransactionRequest: {
+    title: "RelayMetaTransactionRequest",
+    description: "The prepared requests, each with the user's signature",
+    type: "object",
+    properties: {
+      action: metaTransactionAction,
+      requests: {
+        type: "array",
+        minItems: 1,
+        maxItems: 2,
+        items: signedForwardRequest,
+      },
+    },
+    required: ["action", "requests"],
+    additionalProperties: false,
+  },
+
+  RegisterAttesterRequest: {
+    title: "RegisterAttesterRequest",
+    description: "Authorise an attester (admin)",
+    type: "object",
+    properties: {
+      address: { type: "string", pattern: ADDRESS_PATTERN },
+      name: { type: "string", minLength: 1, maxLength: 100 },
+      attestationTypes: {
+        type: "array",
+        minItems: 1,
+        uniqueItems: true,
+        items: attestationType,
+        description: "The attestation types this attester may sign",
+      },
+    },
+    required: ["address", "name", "attestationTypes"],
+    additionalProperties: false,
+  },
+
+  RevokeAttesterRequest: {
+    title: "RevokeAttesterRequest",
+    description:
+      "Stop accepting an attester's signatures (admin); attestations already applied stay",
+    type: "object",
+    properties: {
+      reason: { type: "string", minLength: 1, maxLength: 500 },
+    },
+    required: ["reason"],
+    additionalProperties: false,
+  },
+
+  RevokeAttestationRequest: {
+    title: "RevokeAttestationRequest",
+    description:
+      "Withdraw an attestation; the user loses the points it still counts for",
+    type: "object",
+    properties: {
+      reason: { type: "string", minLength: 1, maxLength: 500 },
+    },
+    required: ["reason"],
+    additionalProperties: false,
+  },
+
+  ReconcileReputationRequest: {
+    title: "ReconcileReputationRequest",
+    description: "On-demand reputation reconciliation (admin)",
+    type: "object",
+    properties: {
+      repair: {
+        title: "ReputationRepairMode",
+        description:
+          "none: report only; offchain: make storage match the contract; onchain: replay stored attestations on-chain",
+        enum: ["none", "offchain", "onchain"],
+        default: "none",
+      },
+    },
+    additionalProperties: false,
+  },
+
+  ProposeConfigChangeRequest: {
+    title: "ProposeConfigChangeRequest",
+    description:
+      "An owner-only contract setting to change (admin); only sent once confirmed",
+    type: "object",
+    properties: {
+      action: {
+        title: "ConfigChangeAction",
+        enum: [
+          "setService",
+          "setVerificationConfig",
+          "advancePhase",
+          "setMerkleRoot",
+          "setBorrowerBan",
+          "withdrawFromPool",
+        ],
+      },
+      service: {
+        type: "string",
+        pattern: SLUG_PATTERN,
+        description: "setService: a service in the catalog",
+      },
+      minReputation: {
+        type: "integer",
+        minimum: 0,
+        maximum: 1000,
+        description: "setService: reputation needed to use it",
+      },
+      isActive: {
+        type: "boolean",
+        description: "setService: whether it is open",
+      },
+      configId: {
+        type: "string",
+        pattern: BYTES32_PATTERN,
+        description: "setVerificationConfig: the Self verification config ID",
+      },
+      merkleRoot: {
+        type: "string",
+        pattern: BYTES32_PATTERN,
+        description: "setMerkleRoot: root of the bonus allocation tree",
+      },
+      borrower: {
+        type: "string",
+        pattern: ADDRESS_PATTERN,
+        description: "setBorrowerBan: the borrower's address",
+      },
+      banned: {
+        type: "boolean",
+        description: "setBorrowerBan: true to ban, false to lift the ban",
+      },
+      amount: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "withdrawFromPool: tokens to take out of the lending pool",
+      },
+    },
+    required: ["action"],
+    additionalProperties: false,
+  },
+
+  DeploymentManifest: {
+    title: "DeploymentManifest",
+    description:
+      "deployments/<network>-latest.json as contracts/scripts/deploy.js writes it; which entries are missing is checked separately",
+    type: "object",
+    properties: {
+      network: { type: "string" },
+      chainId: { type: "integer", minimum: 1 },
+      startBlock: { type: "integer", minimum: 0 },
+      timestamp: { type: "string" },
+      contracts: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+      configuration: {
+        type: "object",
+        properties: {
+          scope: { type: "string" },
+          configId: { type: "string" },
+        },
+      },
+    },
+  },
+
+  CatalogConfig: {
+    title: "CatalogConfig",
+    description:
+      "config/catalog.json; that it lists exactly the API's attestation types is checked separately",
+    type: "object",
+    properties: {
+      attestationTypes: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            description: { type: "string" },
+            score: { type: "integer", minimum: 1 },
+            icon: { type: "string" },
+            color: { type: "string" },
+          },
+          required: ["title", "description", "score", "icon", "color"],
+        },
+      },
+      services: {
+        type: "object",
+        minProperties: 1,
+        additionalProperties: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            description: { type: "string" },
+          },
+          required: ["name", "description"],
+        },
+      },
+    },
+    required: ["attestationTypes", "services"],
+  },
+
+  ValidationErrorResponse: {
+    title: "ValidationErrorResponse",
+    description: "Body of a 422 response",
+    type: "object",
+    properties: {
+      success: { const: false },
+      message: { type: "string" },
+      errors: { type: "array", items: fieldError },
+    },
+    required: ["success", "message", "errors"],
+    additionalProperties: false,
+  },
+} as const;
+
+export type SchemaName = keyof typeof schemas;
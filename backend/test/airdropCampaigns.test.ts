@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { campaignIneligibility, claimedTotal } from "../src/airdropCampaigns";
+import { AirdropCampaign, AirdropClaim, User } from "../src/storage";
+
+const now = new Date("2026-06-01T00:00:00Z");
+
+const campaign: AirdropCampaign = {
+  id: "spring",
+  name: "Spring drop",
+  description: "Test campaign",
+  token: "0x3333333333333333333333333333333333333333",
+  tokenSymbol: "TKN",
+  tokenDecimals: 18,
+  allocation: "100",
+  budget: "250",
+  minReputation: 50,
+  attestationTypes: ["village_elder"],
+  registeredBefore: new Date("2026-05-01T00:00:00Z"),
+  startsAt: new Date("2026-05-15T00:00:00Z"),
+  endsAt: new Date("2026-07-01T00:00:00Z"),
+  createdBy: "admin",
+  createdAt: new Date("2026-05-01T00:00:00Z"),
+};
+
+const user: User = {
+  nullifier: "nullifier-1",
+  userIdentifier: "0x1111111111111111111111111111111111111111",
+  reputationScore: 60,
+  attestations: [
+    {
+      id: "att_1",
+      type: "village_elder",
+      description: "Known to the village",
+      score: 50,
+      attestedBy: "elder",
+      timestamp: new Date("2026-04-01T00:00:00Z"),
+    },
+  ],
+  transactions: [],
+  createdAt: new Date("2026-04-01T00:00:00Z"),
+};
+
+function claim(status: AirdropClaim["status"], amount = "100"): AirdropClaim {
+  return {
+    campaignId: campaign.id,
+    userIdentifier: "someone",
+    amount,
+    status,
+    transactionHash: null,
+    error: null,
+    claimedAt: now,
+  };
+}
+
+describe("airdrop campaign eligibility", () => {
+  it("lets an eligible user claim", () => {
+    assert.deepEqual(campaignIneligibility(campaign, user, 0n, now), []);
+  });
+
+  it("only opens between the start and end", () => {
+    assert.deepEqual(
+      campaignIneligibility(
+        campaign,
+        user,
+        0n,
+        new Date("2026-05-01T00:00:00Z")
+      ),
+      ["Opens at 2026-05-15T00:00:00.000Z"]
+    );
+    assert.deepEqual(
+      campaignIneligibility(campaign, user, 0n, campaign.endsAt!),
+      ["Ended at 2026-07-01T00:00:00.000Z"]
+    );
+  });
+
+  it("stops once another allocation would go over the budget", () => {
+    assert.deepEqual(campaignIneligibility(campaign, user, 150n, now), []);
+    assert.deepEqual(campaignIneligibility(campaign, user, 151n, now), [
+      "The campaign's budget has run out",
+    ]);
+  });
+
+  it("gives every rule the user misses", () => {
+    const newcomer: User = {
+      ...user,
+      reputationScore: 10,
+      attestations: [
+        { ...user.attestations[0], revokedAt: new Date("2026-05-20T00:00:00Z") },
+      ],
+      createdAt: new Date("2026-05-01T00:00:00Z"),
+    };
+
+    assert.deepEqual(campaignIneligibility(campaign, newcomer, 0n, now), [
+      "Needs 50 reputation (you have 10)",
+      "Needs a Village Elder Verification attestation",
+      "Only for users verified before 2026-05-01T00:00:00.000Z",
+    ]);
+  });
+
+  it("counts claims that went through or are in flight against the budget", () => {
+    assert.equal(
+      claimedTotal([claim("completed"), claim("pending", "40"), claim("failed")]),
+      140n
+    );
+  });
+});
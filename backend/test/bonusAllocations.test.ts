@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ethers } from "ethers";
+import {
+  bonusLeaf,
+  buildBonusTree,
+  parseBonusCsv,
+  verifyBonusProof,
+} from "../src/bonusAllocations";
+
+function address(n: number) {
+  return ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(n), 20));
+}
+
+function rows(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    address: address(i + 1),
+    amount: ethers.parseEther(String(i + 1)),
+  }));
+}
+
+describe("bonus allocation CSV", () => {
+  it("skips the header, comments and blank lines", () => {
+    const { rows, errors } = parseBonusCsv(
+      [
+        "address,bonus",
+        "# first round",
+        `${address(1).toLowerCase()},1.5`,
+        "",
+        ` ${address(2)} , 2 `,
+      ].join("\r\n")
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(rows, [
+      { address: address(1), amount: ethers.parseEther("1.5") },
+      { address: address(2), amount: 2n * 10n ** 18n },
+    ]);
+  });
+
+  it("reports every bad row by line number", () => {
+    const { errors } = parseBonusCsv(
+      [
+        "address,bonus",
+        `${address(1)},1`,
+        `${address(2)},1,extra`,
+        "0x1234,1",
+        `${address(3)},lots`,
+        `${address(4)},0`,
+        `${address(1).toLowerCase()},2`,
+      ].join("\n")
+    );
+
+    assert.deepEqual(errors, [
+      {
+        field: "csv line 3",
+        message: "must have exactly two columns: address,bonus",
+      },
+      { field: "csv line 4", message: '"0x1234" is not an address' },
+      { field: "csv line 5", message: '"lots" is not a token amount' },
+      { field: "csv line 6", message: "bonus must be more than 0" },
+      {
+        field: "csv line 7",
+        message: `${address(1)} is already on line 2`,
+      },
+    ]);
+  });
+
+  it("treats only the first row as a possible header", () => {
+    const { errors } = parseBonusCsv(
+      [`${address(1)},1`, "address,bonus", `${address(2)},1`].join("\n")
+    );
+
+    assert.deepEqual(errors, [
+      { field: "csv line 2", message: '"address" is not an address' },
+    ]);
+  });
+
+  it("needs at least two addresses", () => {
+    assert.deepEqual(parseBonusCsv(`${address(1)},1`).errors, [
+      { field: "csv", message: "must list at least two addresses" },
+    ]);
+    assert.deepEqual(parseBonusCsv("address,bonus\n").errors, [
+      { field: "csv", message: "must list at least two addresses" },
+    ]);
+  });
+});
+
+describe("bonus Merkle tree", () => {
+  for (const count of [2, 3, 4, 5, 7]) {
+    it(`gives every one of ${count} leaves a proof that verifies`, () => {
+      const tree = buildBonusTree(rows(count));
+
+      assert.equal(tree.entries.length, count);
+      for (const entry of tree.entries) {
+        assert.ok(
+          verifyBonusProof(
+            tree.merkleRoot,
+            entry.address,
+            BigInt(entry.amount),
+            entry.proof
+          ),
+          `proof for ${entry.address}`
+        );
+      }
+    });
+  }
+
+  it("hashes a pair in sorted order, like OpenZeppelin's MerkleProof", () => {
+    const [first, second] = rows(2);
+    const leaves = [
+      bonusLeaf(first.address, first.amount),
+      bonusLeaf(second.address, second.amount),
+    ].sort();
+
+    assert.equal(
+      buildBonusTree([first, second]).merkleRoot,
+      ethers.keccak256(ethers.concat(leaves))
+    );
+  });
+
+  it("gives the same root for the same rows in any order", () => {
+    const tree = buildBonusTree(rows(5));
+
+    assert.equal(buildBonusTree(rows(5).reverse()).merkleRoot, tree.merkleRoot);
+    assert.equal(tree.totalAmount, ethers.parseEther("15").toString());
+  });
+
+  it("rejects a proof for another amount, address or root", () => {
+    const tree = buildBonusTree(rows(3));
+    const [entry, other] = tree.entries;
+    const amount = BigInt(entry.amount);
+
+    assert.equal(
+      verifyBonusProof(tree.merkleRoot, entry.address, amount + 1n, entry.proof),
+      false
+    );
+    assert.equal(
+      verifyBonusProof(tree.merkleRoot, other.address, amount, entry.proof),
+      false
+    );
+    assert.equal(
+      verifyBonusProof(
+        buildBonusTree(rows(4)).merkleRoot,
+        entry.address,
+        amount,
+        entry.proof
+      ),
+      false
+    );
+  });
+
+  it("has no root without rows", () => {
+    assert.equal(buildBonusTree([]).merkleRoot, ethers.ZeroHash);
+  });
+});
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  AirdropCampaign,
+  AirdropClaim,
+  ConfigChange,
+  DuplicateUserError,
+  MemoryRepository,
+  Repository,
+  SqliteRepository,
+  User,
+} from "../src/storage";
+
+// Both backends must behave the same; every case runs against each
+const backends: [string, () => Repository][] = [
+  ["memory", () => new MemoryRepository()],
+  ["sqlite", () => new SqliteRepository(":memory:")],
+];
+
+function newUser(overrides: Partial<User> = {}): User {
+  return {
+    nullifier: "nullifier-1",
+    userIdentifier: "0x1111111111111111111111111111111111111111",
+    reputationScore: 0,
+    attestations: [],
+    transactions: [],
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const campaign: AirdropCampaign = {
+  id: "spring",
+  name: "Spring drop",
+  description: "Test campaign",
+  token: "0x3333333333333333333333333333333333333333",
+  tokenSymbol: "TKN",
+  tokenDecimals: 18,
+  allocation: "100",
+  budget: "250",
+  minReputation: 0,
+  attestationTypes: [],
+  registeredBefore: null,
+  startsAt: new Date("2026-01-01T00:00:00Z"),
+  endsAt: null,
+  createdBy: "admin",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+function newClaim(userIdentifier: string): AirdropClaim {
+  return {
+    campaignId: campaign.id,
+    userIdentifier,
+    amount: campaign.allocation,
+    status: "pending",
+    transactionHash: null,
+    error: null,
+    claimedAt: new Date("2026-02-01T00:00:00Z"),
+  };
+}
+
+const proposal: ConfigChange = {
+  id: "cfg_1",
+  action: "advancePhase",
+  target: "airdrop.advancePhase",
+  params: {},
+  summary: "Airdrop phase Registration -> Claim",
+  before: { phase: "Registration" },
+  after: { phase: "Claim" },
+  status: "proposed",
+  proposedBy: "admin",
+  proposedAt: new Date("2026-02-01T00:00:00Z"),
+  expiresAt: new Date("2026-02-01T00:15:00Z"),
+  decidedBy: null,
+  decidedAt: null,
+  transactionId: null,
+  transactionHash: null,
+  error: null,
+};
+
+for (const [name, create] of backends) {
+  describe(`${name} repository`, () => {
+    let repository: Repository;
+
+    beforeEach(() => {
+      repository = create();
+    });
+
+    afterEach(async () => {
+      await repository.close();
+    });
+
+    const reserve = (userIdentifier: string) =>
+      repository.reserveAirdropClaim(newClaim(userIdentifier), campaign.budget);
+
+    it("creates a user and finds them by nullifier", async () => {
+      const user = newUser();
+      await repository.createUser(user);
+
+      assert.deepEqual(await repository.getUser(user.userIdentifier), user);
+      assert.equal(
+        (await repository.getUserByNullifier(user.nullifier))?.userIdentifier,
+        user.userIdentifier
+      );
+      assert.equal(await repository.hasNullifier(user.nullifier), true);
+    });
+
+    it("rejects a second user with the same identifier", async () => {
+      await repository.createUser(newUser({ reputationScore: 40 }));
+
+      await assert.rejects(
+        repository.createUser(newUser({ nullifier: "nullifier-2" })),
+        DuplicateUserError
+      );
+      const kept = await repository.getUser(newUser().userIdentifier);
+      assert.equal(kept?.nullifier, "nullifier-1");
+      assert.equal(kept?.reputationScore, 40);
+      assert.equal(await repository.hasNullifier("nullifier-2"), false);
+    });
+
+    it("rejects a second user with the same nullifier", async () => {
+      await repository.createUser(newUser());
+
+      await assert.rejects(
+        repository.createUser(
+          newUser({
+            userIdentifier: "0x2222222222222222222222222222222222222222",
+          })
+        ),
+        DuplicateUserError
+      );
+      assert.equal(
+        await repository.getUser("0x2222222222222222222222222222222222222222"),
+        undefined
+      );
+    });
+
+    it("adjusts reputation from the stored score, not a copy", async () => {
+      const user = newUser({ reputationScore: 30 });
+      await repository.createUser(user);
+      const stale = (await repository.getUser(user.userIdentifier))!;
+
+      await repository.adjustReputation(user.userIdentifier, 25);
+      assert.equal(
+        await repository.adjustReputation(user.userIdentifier, -10),
+        45
+      );
+      assert.equal(stale.reputationScore, 30);
+      assert.equal(
+        (await repository.getUser(user.userIdentifier))?.reputationScore,
+        45
+      );
+    });
+
+    it("never adjusts reputation below zero", async () => {
+      await repository.createUser(newUser({ reputationScore: 5 }));
+
+      assert.equal(
+        await repository.adjustReputation(newUser().userIdentifier, -20),
+        0
+      );
+    });
+
+    it("reserves airdrop claims up to the campaign's budget", async () => {
+      await repository.createAirdropCampaign(campaign);
+
+      assert.equal(await reserve("user-1"), "reserved");
+      assert.equal(await reserve("user-1"), "already_claimed");
+      assert.equal(await reserve("user-2"), "reserved");
+      // 200 of 250 is taken; another 100 would go over
+      assert.equal(await reserve("user-3"), "budget_exhausted");
+      assert.equal(
+        (await repository.listAirdropClaims({ campaignId: campaign.id })).length,
+        2
+      );
+    });
+
+    it("frees a failed claim's allocation for a retry", async () => {
+      await repository.createAirdropCampaign(campaign);
+      await reserve("user-1");
+      await reserve("user-2");
+      await repository.updateAirdropClaim({
+        ...newClaim("user-1"),
+        status: "failed",
+        error: "InsufficientBalance",
+      });
+
+      assert.equal(await reserve("user-3"), "reserved");
+      await repository.updateAirdropClaim({
+        ...newClaim("user-3"),
+        status: "failed",
+      });
+      assert.equal(await reserve("user-1"), "reserved");
+
+      const claims = await repository.listAirdropClaims({
+        userIdentifier: "user-1",
+      });
+      assert.equal(claims.length, 1);
+      assert.equal(claims[0].status, "pending");
+    });
+
+    it("moves a config change on only from the status it was read in", async () => {
+      await repository.saveConfigChange(proposal);
+      const decide = (decidedBy: string) =>
+        repository.transitionConfigChange(
+          {
+            ...proposal,
+            status: "submitted",
+            decidedBy,
+            decidedAt: new Date("2026-02-01T00:05:00Z"),
+          },
+          "proposed"
+        );
+
+      assert.equal(await decide("admin"), true);
+      assert.equal(await decide("schedule"), false);
+      assert.equal(
+        await repository.transitionConfigChange(
+          { ...proposal, status: "cancelled" },
+          "proposed"
+        ),
+        false
+      );
+      const stored = await repository.getConfigChange(proposal.id);
+      assert.equal(stored?.status, "submitted");
+      assert.equal(stored?.decidedBy, "admin");
+    });
+  });
+}
@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it, mock } from "node:test";
+import { applyReputationDecay } from "../src/jobs/reputationDecay";
+import {
+  applyReputationReductions,
+  attestationWeight,
+  decayDueAt,
+  DecayPolicy,
+  nextDecayAt,
+} from "../src/reputation";
+import {
+  Attestation,
+  initializeStorage,
+  MemoryRepository,
+  User,
+} from "../src/storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const issuedAt = new Date("2026-01-01T00:00:00Z");
+
+const policy: DecayPolicy = {
+  graceDays: 180,
+  stepDays: 30,
+  stepPercent: 10,
+  minPercent: 50,
+};
+
+function daysAfterIssue(days: number) {
+  return new Date(issuedAt.getTime() + days * DAY_MS);
+}
+
+function newAttestation(overrides: Partial<Attestation> = {}): Attestation {
+  return {
+    id: "att_1",
+    type: "employment",
+    description: "Employed for two years",
+    score: 100,
+    attestedBy: "attester",
+    timestamp: issuedAt,
+    ...overrides,
+  };
+}
+
+function newUser(overrides: Partial<User> = {}): User {
+  return {
+    nullifier: "nullifier-1",
+    userIdentifier: "0x1111111111111111111111111111111111111111",
+    reputationScore: 100,
+    attestations: [newAttestation()],
+    transactions: [],
+    createdAt: issuedAt,
+    ...overrides,
+  };
+}
+
+describe("reputation decay", () => {
+  it("takes nothing off during the grace period", () => {
+    assert.equal(decayDueAt(newAttestation(), policy, daysAfterIssue(0)), 0);
+    assert.equal(decayDueAt(newAttestation(), policy, daysAfterIssue(179)), 0);
+  });
+
+  it("takes a step off when the grace period ends and every step after", () => {
+    const attestation = newAttestation();
+
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(180)), 10);
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(209)), 10);
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(210)), 20);
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(270)), 40);
+  });
+
+  it("stops at the floor", () => {
+    const attestation = newAttestation();
+
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(300)), 50);
+    assert.equal(decayDueAt(attestation, policy, daysAfterIssue(3650)), 50);
+  });
+
+  it("rounds partial points down", () => {
+    assert.equal(
+      decayDueAt(newAttestation({ score: 15 }), policy, daysAfterIssue(180)),
+      1
+    );
+  });
+
+  it("takes nothing off revoked attestations or when disabled", () => {
+    const now = daysAfterIssue(400);
+
+    assert.equal(
+      decayDueAt(newAttestation({ revokedAt: issuedAt }), policy, now),
+      0
+    );
+    assert.equal(
+      decayDueAt(newAttestation(), { ...policy, stepPercent: 0 }, now),
+      0
+    );
+  });
+
+  it("schedules the next step until the floor is reached", () => {
+    const attestation = newAttestation();
+
+    assert.deepEqual(
+      nextDecayAt(attestation, policy, daysAfterIssue(10)),
+      daysAfterIssue(180)
+    );
+    assert.deepEqual(
+      nextDecayAt(attestation, policy, daysAfterIssue(215)),
+      daysAfterIssue(240)
+    );
+    assert.equal(nextDecayAt(attestation, policy, daysAfterIssue(300)), null);
+    assert.equal(
+      nextDecayAt(
+        newAttestation({ revokedAt: issuedAt }),
+        policy,
+        daysAfterIssue(10)
+      ),
+      null
+    );
+  });
+
+  it("weighs attestations after decay and revocation", () => {
+    assert.equal(attestationWeight(newAttestation()), 100);
+    assert.equal(attestationWeight(newAttestation({ decayedPoints: 30 })), 70);
+    assert.equal(
+      attestationWeight(newAttestation({ decayedPoints: 30, revokedAt: issuedAt })),
+      0
+    );
+  });
+});
+
+describe("reputation reductions", () => {
+  let repository: MemoryRepository;
+
+  before(() => {
+    // Contracts aren't initialized, so every on-chain reduction fails and
+    // logs; keep the test output readable
+    for (const level of ["log", "warn", "error"] as const) {
+      mock.method(console, level, () => {});
+    }
+  });
+
+  beforeEach(() => {
+    repository = new MemoryRepository();
+    initializeStorage(repository);
+  });
+
+  it("keeps points gained after the user was read", async () => {
+    const user = newUser();
+    await repository.createUser(user);
+    const stale = (await repository.getUser(user.userIdentifier))!;
+    await repository.adjustReputation(user.userIdentifier, 25);
+
+    const { reputationScore, adjustments, onChain } =
+      await applyReputationReductions(
+        stale,
+        [
+          {
+            attestation: { ...stale.attestations[0], decayedPoints: 10 },
+            kind: "decay",
+            points: 10,
+            actor: "decay",
+            reason: "test",
+          },
+        ],
+        "test"
+      );
+
+    assert.equal(reputationScore, 115);
+    assert.equal(
+      (await repository.getUser(user.userIdentifier))?.reputationScore,
+      115
+    );
+    assert.equal(adjustments[0].scoreAfter, 115);
+    assert.equal(onChain.success, false);
+  });
+
+  it("takes off only what became due since the last run", async () => {
+    const user = newUser({
+      attestations: [
+        newAttestation({ timestamp: new Date(Date.now() - 200 * DAY_MS) }),
+      ],
+    });
+    await repository.createUser(user);
+
+    const first = await applyReputationDecay(policy);
+    const second = await applyReputationDecay(policy);
+
+    assert.equal(first.pointsRemoved, 10);
+    assert.equal(first.users[0].onChain, "failed");
+    assert.equal(second.pointsRemoved, 0);
+    const stored = await repository.getUser(user.userIdentifier);
+    assert.equal(stored?.reputationScore, 90);
+    assert.equal(stored?.attestations[0].decayedPoints, 10);
+  });
+});
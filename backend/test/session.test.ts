@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  claimSessionGrant,
+  createSessionGrant,
+  Session,
+  sessionNonceFrom,
+} from "../src/session";
+
+const nonce = "ab".repeat(32);
+const session: Session = {
+  token: "token",
+  userIdentifier: "0x1111111111111111111111111111111111111111",
+  expiresAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("session grants", () => {
+  it("reads the nonce as sent or hex-encoded and padded", () => {
+    assert.equal(sessionNonceFrom(nonce), nonce);
+    assert.equal(sessionNonceFrom(`0x${nonce.toUpperCase()}`), nonce);
+    const encoded = Buffer.from(nonce, "utf8").toString("hex") + "00".repeat(8);
+    assert.equal(sessionNonceFrom(encoded), nonce);
+    assert.equal(sessionNonceFrom(""), undefined);
+    assert.equal(sessionNonceFrom("not a nonce"), undefined);
+  });
+
+  it("hands the session only to the holder of the nonce, once", () => {
+    createSessionGrant(session.userIdentifier, nonce, session);
+
+    assert.equal(
+      claimSessionGrant(session.userIdentifier, "cd".repeat(32)),
+      undefined
+    );
+    assert.deepEqual(claimSessionGrant(session.userIdentifier, nonce), session);
+    assert.equal(claimSessionGrant(session.userIdentifier, nonce), undefined);
+  });
+
+  it("makes no grant without a nonce", () => {
+    const other = { ...session, userIdentifier: "user-without-nonce" };
+    createSessionGrant(other.userIdentifier, undefined, other);
+
+    assert.equal(claimSessionGrant(other.userIdentifier, ""), undefined);
+  });
+});
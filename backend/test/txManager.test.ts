@@ -0,0 +1,270 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it, mock } from "node:test";
+import { ethers } from "ethers";
+import {
+  initializeStorage,
+  ManagedTransaction,
+  MemoryRepository,
+} from "../src/storage";
+import {
+  ContractMethod,
+  initializeTransactionManager,
+  resumePendingTransactions,
+  submitTransaction,
+  TransactionFailedError,
+  TxManagerOptions,
+} from "../src/txManager";
+
+const TARGET = "0x2222222222222222222222222222222222222222";
+
+const options: TxManagerOptions = {
+  stuckAfterMs: 60_000,
+  gasBumpPercent: 20,
+  maxReplacements: 2,
+  maxRetries: 3,
+  retryDelayMs: 1,
+  pollIntervalMs: 1,
+};
+
+// Just enough of a JSON-RPC provider for the transaction manager. Nothing is
+// mined until a test says so, unless `autoMine` is set.
+class StubProvider {
+  pendingNonce = 0;
+  minedNonce = 0;
+  autoMine = false;
+  nonceLookups = 0;
+  broadcasts: ethers.Transaction[] = [];
+  receipts = new Map<
+    string,
+    { hash: string; status: number; blockNumber: number }
+  >();
+  // Runs before each broadcast is accepted; throw to reject it
+  onBroadcast: (tx: ethers.Transaction) => void = () => {};
+
+  async getNetwork() {
+    return { chainId: 31337n };
+  }
+
+  async getFeeData() {
+    return { maxFeePerGas: 1000n, maxPriorityFeePerGas: 100n, gasPrice: null };
+  }
+
+  async getTransactionCount(_address: string, blockTag: string) {
+    if (blockTag === "pending") {
+      this.nonceLookups++;
+      return this.pendingNonce;
+    }
+    return this.minedNonce;
+  }
+
+  async broadcastTransaction(signed: string) {
+    const tx = ethers.Transaction.from(signed);
+    this.onBroadcast(tx);
+    this.broadcasts.push(tx);
+    this.pendingNonce = Math.max(this.pendingNonce, tx.nonce + 1);
+    if (this.autoMine) this.mine(tx.hash!);
+  }
+
+  async getTransactionReceipt(hash: string) {
+    return this.receipts.get(hash) ?? null;
+  }
+
+  mine(hash: string, status = 1) {
+    this.receipts.set(hash, { hash, status, blockNumber: 100 });
+  }
+}
+
+const method: ContractMethod<[number]> = {
+  async populateTransaction(value) {
+    return { to: TARGET, data: ethers.toBeHex(value, 32) };
+  },
+  async estimateGas() {
+    return 50_000n;
+  },
+};
+
+let provider: StubProvider;
+let repository: MemoryRepository;
+
+function start(overrides: Partial<TxManagerOptions> = {}) {
+  const wallet = new ethers.Wallet(
+    ethers.id("tx manager test key"),
+    provider as unknown as ethers.Provider
+  );
+  initializeTransactionManager(wallet, { ...options, ...overrides });
+}
+
+describe("transaction manager", () => {
+  before(() => {
+    // Every send, bump and failure is logged; keep the test output readable
+    for (const level of ["log", "warn", "error"] as const) {
+      mock.method(console, level, () => {});
+    }
+  });
+
+  beforeEach(() => {
+    provider = new StubProvider();
+    repository = new MemoryRepository();
+    initializeStorage(repository);
+  });
+
+  it("hands out consecutive nonces with one chain lookup", async () => {
+    provider.pendingNonce = 7;
+    provider.autoMine = true;
+    start();
+
+    const sent = await Promise.all([
+      submitTransaction("test.first", method, 1),
+      submitTransaction("test.second", method, 2),
+      submitTransaction("test.third", method, 3),
+    ]);
+    await Promise.all(sent.map((pending) => pending.confirmation));
+
+    assert.deepEqual(sent.map((pending) => pending.nonce), [7, 8, 9]);
+    assert.equal(provider.nonceLookups, 1);
+    const stored = await repository.getManagedTransaction(sent[2].id);
+    assert.equal(stored?.status, "confirmed");
+    assert.equal(stored?.transactionHash, sent[2].hash);
+  });
+
+  it("rereads the nonce when another sender has taken it", async () => {
+    provider.pendingNonce = 3;
+    provider.autoMine = true;
+    start();
+    await (await submitTransaction("test.first", method, 1)).confirmation;
+
+    // Something else sends from the wallet, so our counter's nonce is used
+    provider.pendingNonce = 5;
+    let rejected = false;
+    provider.onBroadcast = (tx) => {
+      if (tx.nonce === 4 && !rejected) {
+        rejected = true;
+        throw ethers.makeError("nonce too low", "NONCE_EXPIRED");
+      }
+    };
+
+    const pending = await submitTransaction("test.second", method, 2);
+    await pending.confirmation;
+
+    assert.equal(rejected, true);
+    assert.equal(pending.nonce, 5);
+    assert.equal(provider.nonceLookups, 2);
+  });
+
+  it("replaces a stuck transaction with higher fees", async () => {
+    start({ stuckAfterMs: 0 });
+    provider.onBroadcast = (tx) => {
+      // Mine the replacement, not the original
+      if (provider.broadcasts.length === 1) {
+        setImmediate(() => provider.mine(tx.hash!));
+      }
+    };
+
+    const pending = await submitTransaction("test.stuck", method, 1);
+    const receipt = await pending.confirmation;
+
+    const [original, replacement] = provider.broadcasts;
+    assert.equal(replacement.nonce, original.nonce);
+    assert.equal(original.maxFeePerGas, 1000n);
+    assert.equal(replacement.maxFeePerGas, 1200n);
+    assert.equal(replacement.maxPriorityFeePerGas, 120n);
+    assert.equal(receipt.hash, replacement.hash);
+
+    const stored = await repository.getManagedTransaction(pending.id);
+    assert.deepEqual(stored?.hashes, [original.hash, replacement.hash]);
+    assert.equal(stored?.transactionHash, replacement.hash);
+    assert.equal(stored?.maxFeePerGas, "1200");
+  });
+
+  it("fails a reverted transaction and rereads the nonce afterwards", async () => {
+    start();
+    provider.onBroadcast = (tx) => {
+      setImmediate(() => provider.mine(tx.hash!, 0));
+    };
+
+    const pending = await submitTransaction("test.revert", method, 1);
+    await assert.rejects(pending.confirmation, TransactionFailedError);
+
+    const stored = await repository.getManagedTransaction(pending.id);
+    assert.equal(stored?.status, "failed");
+    assert.equal(stored?.error, "Reverted in block 100");
+    assert.equal(stored?.transactionHash, pending.hash);
+
+    provider.autoMine = true;
+    provider.onBroadcast = () => {};
+    await (await submitTransaction("test.next", method, 2)).confirmation;
+    assert.equal(provider.nonceLookups, 2);
+  });
+
+  it("fails when another transaction is mined with its nonce", async () => {
+    start();
+    const pending = await submitTransaction("test.displaced", method, 1);
+    provider.minedNonce = pending.nonce + 1;
+
+    await assert.rejects(pending.confirmation, (error) => {
+      assert.ok(error instanceof TransactionFailedError);
+      assert.equal(
+        error.transaction.error,
+        `Nonce ${pending.nonce} was used by another transaction`
+      );
+      return true;
+    });
+  });
+
+  it("gives up after the last fee bump", async () => {
+    start({ stuckAfterMs: 0, maxReplacements: 1 });
+
+    const pending = await submitTransaction("test.never_mined", method, 1);
+    await assert.rejects(pending.confirmation, TransactionFailedError);
+
+    const stored = await repository.getManagedTransaction(pending.id);
+    assert.equal(stored?.hashes.length, 2);
+    assert.equal(
+      stored?.error,
+      "Not mined after 1 fee bumps; the nonce may still be pending"
+    );
+  });
+
+  it("keeps watching transactions left pending by a restart", async () => {
+    start();
+    const now = new Date();
+    const record: ManagedTransaction = {
+      id: "tx_from_before_restart",
+      label: "test.resumed",
+      status: "pending",
+      nonce: 0,
+      to: TARGET,
+      data: "0x",
+      value: "0",
+      gasLimit: "50000",
+      maxFeePerGas: "1000",
+      maxPriorityFeePerGas: "100",
+      gasPrice: null,
+      hashes: [ethers.id("resumed")],
+      transactionHash: null,
+      blockNumber: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await repository.saveManagedTransaction(record);
+    await repository.saveManagedTransaction({
+      ...record,
+      id: "tx_already_confirmed",
+      status: "confirmed",
+    });
+
+    assert.equal(await resumePendingTransactions(), 1);
+    provider.mine(record.hashes[0]);
+
+    for (let i = 0; i < 100; i++) {
+      const stored = await repository.getManagedTransaction(record.id);
+      if (stored?.status !== "pending") break;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    const stored = await repository.getManagedTransaction(record.id);
+    assert.equal(stored?.status, "confirmed");
+    assert.equal(stored?.transactionHash, record.hashes[0]);
+    assert.equal(provider.broadcasts.length, 0);
+  });
+});
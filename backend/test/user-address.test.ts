@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fixtures from "./fixtures/user-addresses.json";
+import {
+  toUserAddress,
+  userIdentifierFormat,
+  userIdentifierToUint256,
+  userIdTypeOfContextData,
+} from "../src/shared/user-address";
+
+describe("user-address", () => {
+  for (const fixture of fixtures.valid) {
+    it(`maps ${fixture.description}`, () => {
+      const { userIdentifier } = fixture;
+
+      assert.equal(userIdentifierFormat(userIdentifier), fixture.format);
+      assert.equal(
+        userIdentifierToUint256(userIdentifier),
+        BigInt(fixture.uint256)
+      );
+      assert.equal(toUserAddress(userIdentifier), fixture.address);
+    });
+  }
+
+  for (const userIdentifier of fixtures.invalid) {
+    it(`rejects "${userIdentifier}"`, () => {
+      assert.equal(userIdentifierFormat(userIdentifier), undefined);
+      assert.throws(
+        () => toUserAddress(userIdentifier),
+        /Unsupported userIdentifier/
+      );
+    });
+  }
+
+  it("is the same address for any casing of an identifier", () => {
+    const [uuid] = fixtures.valid;
+    assert.equal(
+      toUserAddress(uuid.userIdentifier.toUpperCase()),
+      toUserAddress(uuid.userIdentifier)
+    );
+  });
+
+  describe("user ID type of Self context data", () => {
+    const chainId = (42220).toString(16).padStart(64, "0");
+    const userDefinedData = "ab".repeat(32);
+    const contextData = (userId: bigint) =>
+      chainId + userId.toString(16).padStart(64, "0") + userDefinedData;
+
+    it("reads a UUID user ID as uuid", () => {
+      const uuid = fixtures.valid.find((fixture) => fixture.format === "uuid")!;
+      const userId = userIdentifierToUint256(uuid.userIdentifier);
+
+      assert.equal(userIdTypeOfContextData(contextData(userId)), "uuid");
+    });
+
+    it("reads a wallet address user ID as hex", () => {
+      const address = "0x9fd7a5c8a3b4e1f2d6c0b8a7e5f4d3c2b1a09f8e";
+
+      assert.equal(
+        userIdTypeOfContextData(contextData(BigInt(address))),
+        "hex"
+      );
+      assert.equal(toUserAddress(address).toLowerCase(), address);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {ISelfVerificationRoot} from "@selfxyz/contracts/contracts/interfaces/ISe
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
@@ -13,7 +15,11 @@ import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProo
  * @notice Enables privacy-preserving airdrops for unbanked communities using Self Protocol
  * @dev Implements sybil-resistant distribution without requiring traditional KYC
  */
-contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
+contract UnbankedCommunityAirdrop is
+    SelfVerificationRoot,
+    Ownable,
+    ERC2771Context
+{
     using SafeERC20 for IERC20;
 
     // Events
@@ -84,13 +90,19 @@ contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
      * @param _scope Unique scope for this airdrop
      * @param _token ERC20 token to distribute
      * @param _verificationConfigId Initial verification configuration
+     * @param _trustedForwarder Forwarder that relays signed user requests
      */
     constructor(
         address _hubAddress,
         uint256 _scope,
         address _token,
-        bytes32 _verificationConfigId
-    ) SelfVerificationRoot(_hubAddress, _scope) Ownable(msg.sender) {
+        bytes32 _verificationConfigId,
+        address _trustedForwarder
+    )
+        SelfVerificationRoot(_hubAddress, _scope)
+        Ownable(msg.sender)
+        ERC2771Context(_trustedForwarder)
+    {
         token = IERC20(_token);
         verificationConfigId = _verificationConfigId;
         currentPhase = Phase.Setup;
@@ -143,7 +155,7 @@ contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
     ) external {
         if (currentPhase != Phase.Claim) revert ClaimNotOpen();
 
-        uint256 userIdentifier = uint256(uint160(msg.sender));
+        uint256 userIdentifier = uint256(uint160(_msgSender()));
         UserData storage user = userData[userIdentifier];
 
         if (!user.isRegistered) revert NotRegistered();
@@ -153,11 +165,11 @@ contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
 
         // Verify merkle proof for additional bonus if provided
         if (merkleProof.length > 0 && merkleRoot != bytes32(0)) {
-            bytes32 leaf = keccak256(abi.encodePacked(msg.sender, bonusAmount));
+            bytes32 leaf = keccak256(abi.encodePacked(_msgSender(), bonusAmount));
             if (MerkleProof.verify(merkleProof, merkleRoot, leaf)) {
                 totalAmount += bonusAmount;
                 emit ReputationBonusEarned(
-                    msg.sender,
+                    _msgSender(),
                     bonusAmount,
                     "Community Contribution"
                 );
@@ -170,12 +182,12 @@ contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
 
         // Mark as claimed and transfer tokens
         user.hasClaimed = true;
-        claimed[msg.sender] = true;
+        claimed[_msgSender()] = true;
         totalClaimed++;
         totalDistributed += totalAmount;
 
-        token.safeTransfer(msg.sender, totalAmount);
-        emit AirdropClaimed(msg.sender, totalAmount);
+        token.safeTransfer(_msgSender(), totalAmount);
+        emit AirdropClaimed(_msgSender(), totalAmount);
     }
 
     /**
@@ -280,4 +292,34 @@ contract UnbankedCommunityAirdrop is SelfVerificationRoot, Ownable {
             token.balanceOf(address(this))
         );
     }
+
+    // Ownable and ERC2771Context both extend Context. Take the ERC-2771
+    // versions so calls relayed by the trusted forwarder are attributed to
+    // the user who signed them.
+    function _msgSender()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (uint256)
+    {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title UnbankedForwarder
+ * @notice Trusted forwarder for gasless actions
+ * @dev Users sign an EIP-712 ForwardRequest; the backend relayer submits it
+ * and pays gas. Contracts that trust this forwarder see the signer as
+ * _msgSender(), so a relayed vote or claim counts as the user's own.
+ */
+contract UnbankedForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("UnbankedForwarder") {}
+}
@@ -2,6 +2,8 @@
 pragma solidity 0.8.28;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 
 /**
  * @title IUnbankedIdentity
@@ -27,10 +29,11 @@ interface IUnbankedIdentity {
  * @notice Simple governance system for verified unbanked users
  * @dev Enables voting based on reputation from UnbankedIdentity contract
  */
-contract UnbankedGovernance is Ownable {
+contract UnbankedGovernance is Ownable, ERC2771Context {
     // Events
     event ProposalCreated(
         uint256 indexed proposalId,
+        address indexed proposer,
         string description,
         uint256 endTime
     );
@@ -49,6 +52,7 @@ contract UnbankedGovernance is Ownable {
     error InsufficientReputation(uint256 required, uint256 actual);
     error ProposalNotExecutable();
     error NotVerifiedIdentity();
+    error MinReputationTooHigh(uint256 requested, uint256 maximum);
 
     // Structs
     struct Proposal {
@@ -61,6 +65,7 @@ contract UnbankedGovernance is Ownable {
         bool executed;
         mapping(address => bool) hasVoted;
         uint256 minReputationRequired;
+        address proposer;
     }
 
     // State variables
@@ -74,8 +79,12 @@ contract UnbankedGovernance is Ownable {
     /**
      * @notice Constructor
      * @param _identityContract Address of the UnbankedIdentity contract
+     * @param _trustedForwarder Forwarder that relays signed user requests
      */
-    constructor(address _identityContract) Ownable(msg.sender) {
+    constructor(
+        address _identityContract,
+        address _trustedForwarder
+    ) Ownable(msg.sender) ERC2771Context(_trustedForwarder) {
         identityContract = IUnbankedIdentity(_identityContract);
         nextProposalId = 1;
     }
@@ -90,7 +99,57 @@ contract UnbankedGovernance is Ownable {
         string memory _description,
         uint256 _votingDurationDays,
         uint256 _minReputationRequired
+    ) external {
+        _createProposal(
+            _msgSender(),
+            _description,
+            _votingDurationDays,
+            _minReputationRequired
+        );
+    }
+
+    /**
+     * @notice Create a proposal on behalf of a verified user (only owner)
+     * @dev Used by the backend relayer; the proposal is recorded as the proposer's own
+     * @param _proposer Address of the user creating the proposal
+     * @param _description Description of the proposal
+     * @param _votingDurationDays Duration of the voting period in days
+     * @param _minReputationRequired Minimum reputation score required to vote on this proposal
+     */
+    function createProposalFor(
+        address _proposer,
+        string memory _description,
+        uint256 _votingDurationDays,
+        uint256 _minReputationRequired
     ) external onlyOwner {
+        _createProposal(
+            _proposer,
+            _description,
+            _votingDurationDays,
+            _minReputationRequired
+        );
+    }
+
+    function _createProposal(
+        address _proposer,
+        string memory _description,
+        uint256 _votingDurationDays,
+        uint256 _minReputationRequired
+    ) internal {
+        (bool isRegistered, uint256 reputationScore, , ) = identityContract
+            .getUserData(_proposer);
+        if (!isRegistered) revert NotVerifiedIdentity();
+        if (reputationScore < MIN_REPUTATION_TO_CREATE_PROPOSAL) {
+            revert InsufficientReputation(
+                MIN_REPUTATION_TO_CREATE_PROPOSAL,
+                reputationScore
+            );
+        }
+        // A proposer can't shut out voters with more reputation than they have
+        if (_minReputationRequired > reputationScore) {
+            revert MinReputationTooHigh(_minReputationRequired, reputationScore);
+        }
+
         uint256 proposalId = nextProposalId++;
         Proposal storage proposal = proposals[proposalId];
 
@@ -99,8 +158,14 @@ contract UnbankedGovernance is Ownable {
         proposal.startTime = block.timestamp;
         proposal.endTime = block.timestamp + (_votingDurationDays * 1 days);
         proposal.minReputationRequired = _minReputationRequired;
+        proposal.proposer = _proposer;
 
-        emit ProposalCreated(proposalId, _description, proposal.endTime);
+        emit ProposalCreated(
+            proposalId,
+            _proposer,
+            _description,
+            proposal.endTime
+        );
     }
 
     /**
@@ -109,16 +174,35 @@ contract UnbankedGovernance is Ownable {
      * @param _support True for 'for', false for 'against'
      */
     function vote(uint256 _proposalId, bool _support) external {
+        _vote(_proposalId, _msgSender(), _support);
+    }
+
+    /**
+     * @notice Cast a vote on behalf of a verified user (only owner)
+     * @dev Used by the backend relayer; the vote counts as the voter's own
+     * @param _proposalId ID of the proposal to vote on
+     * @param _voter Address of the user casting the vote
+     * @param _support True for 'for', false for 'against'
+     */
+    function voteFor(
+        uint256 _proposalId,
+        address _voter,
+        bool _support
+    ) external onlyOwner {
+        _vote(_proposalId, _voter, _support);
+    }
+
+    function _vote(uint256 _proposalId, address _voter, bool _support) internal {
         Proposal storage proposal = proposals[_proposalId];
         if (proposal.id == 0) revert ProposalNotFound();
         if (
             block.timestamp > proposal.endTime ||
             block.timestamp < proposal.startTime
         ) revert VotingNotActive();
-        if (proposal.hasVoted[msg.sender]) revert AlreadyVoted();
+        if (proposal.hasVoted[_voter]) revert AlreadyVoted();
 
         (bool isRegistered, uint256 reputationScore, , ) = identityContract
-            .getUserData(msg.sender);
+            .getUserData(_voter);
         if (!isRegistered) revert NotVerifiedIdentity();
         if (reputationScore < proposal.minReputationRequired) {
             revert InsufficientReputation(
@@ -127,7 +211,7 @@ contract UnbankedGovernance is Ownable {
             );
         }
 
-        proposal.hasVoted[msg.sender] = true;
+        proposal.hasVoted[_voter] = true;
         uint256 votingPower = reputationScore; // Voting power scales with reputation
 
         if (_support) {
@@ -136,7 +220,7 @@ contract UnbankedGovernance is Ownable {
             proposal.againstVotes += votingPower;
         }
 
-        emit VoteCast(_proposalId, msg.sender, _support, votingPower);
+        emit VoteCast(_proposalId, _voter, _support, votingPower);
     }
 
     /**
@@ -173,7 +257,8 @@ contract UnbankedGovernance is Ownable {
             uint256 forVotes,
             uint256 againstVotes,
             bool executed,
-            uint256 minReputationRequired
+            uint256 minReputationRequired,
+            address proposer
         )
     {
         Proposal storage proposal = proposals[_proposalId];
@@ -185,7 +270,8 @@ contract UnbankedGovernance is Ownable {
             proposal.forVotes,
             proposal.againstVotes,
             proposal.executed,
-            proposal.minReputationRequired
+            proposal.minReputationRequired,
+            proposal.proposer
         );
     }
 
@@ -206,4 +292,34 @@ contract UnbankedGovernance is Ownable {
         // Note: This is dangerous in production, consider making immutable
         // identityContract = IUnbankedIdentity(_newAddress);
     }
+
+    // Ownable and ERC2771Context both extend Context. Take the ERC-2771
+    // versions so calls relayed by the trusted forwarder are attributed to
+    // the user who signed them.
+    function _msgSender()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (uint256)
+    {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
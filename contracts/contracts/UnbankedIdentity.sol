@@ -23,6 +23,11 @@ contract UnbankedIdentity is SelfVerificationRoot, Ownable {
         address indexed attester,
         uint256 points
     );
+    event ReputationReduced(
+        address indexed user,
+        uint256 points,
+        string reason
+    );
 
     // Errors
     error AlreadyRegistered();
@@ -176,6 +181,29 @@ contract UnbankedIdentity is SelfVerificationRoot, Ownable {
         emit ReputationUpdated(userAddress, user.reputationScore);
     }
 
+    /**
+     * @notice Remove reputation, e.g. for a revoked or decayed attestation
+     * @param userAddress Address of the user
+     * @param points Points to remove; the score stops at zero
+     * @param reason Why the points were removed, for the audit trail
+     */
+    function reduceReputation(
+        address userAddress,
+        uint256 points,
+        string calldata reason
+    ) external onlyOwner {
+        UserData storage user = userData[uint256(uint160(userAddress))];
+        if (!user.isRegistered) revert NotRegistered();
+
+        uint256 removed = points > user.reputationScore
+            ? user.reputationScore
+            : points;
+        user.reputationScore -= removed;
+
+        emit ReputationReduced(userAddress, removed, reason);
+        emit ReputationUpdated(userAddress, user.reputationScore);
+    }
+
     /**
      * @notice Check if user can access a service
      * @param userAddress User's address
@@ -5,6 +5,8 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 
 /**
  * @title IUnbankedIdentity
@@ -29,7 +31,7 @@ interface IUnbankedIdentity {
  * @notice Reputation-based lending system for the unbanked
  * @dev Provides microloans based on community reputation without traditional credit checks
  */
-contract UnbankedLending is Ownable, ReentrancyGuard {
+contract UnbankedLending is Ownable, ReentrancyGuard, ERC2771Context {
     using SafeERC20 for IERC20;
 
     // Events
@@ -116,11 +118,13 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
      * @notice Constructor
      * @param _lendingToken Token to be used for lending
      * @param _identityContract Address of the identity contract
+     * @param _trustedForwarder Forwarder that relays signed user requests
      */
     constructor(
         address _lendingToken,
-        address _identityContract
-    ) Ownable(msg.sender) {
+        address _identityContract,
+        address _trustedForwarder
+    ) Ownable(msg.sender) ERC2771Context(_trustedForwarder) {
         lendingToken = IERC20(_lendingToken);
         identityContract = IUnbankedIdentity(_identityContract);
     }
@@ -134,6 +138,29 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
         uint256 amount,
         uint256 duration
     ) external nonReentrant returns (uint256) {
+        return _requestLoan(_msgSender(), amount, duration);
+    }
+
+    /**
+     * @notice Request a loan on behalf of a verified borrower (owner only)
+     * @dev Used by the backend, which holds the identity-verified session
+     * @param borrower Address the loan is issued to
+     * @param amount Amount to borrow
+     * @param duration Loan duration in seconds
+     */
+    function requestLoanFor(
+        address borrower,
+        uint256 amount,
+        uint256 duration
+    ) external onlyOwner nonReentrant returns (uint256) {
+        return _requestLoan(borrower, amount, duration);
+    }
+
+    function _requestLoan(
+        address borrower,
+        uint256 amount,
+        uint256 duration
+    ) internal returns (uint256) {
         // Validate input parameters
         if (amount < MIN_LOAN_AMOUNT || amount > MAX_LOAN_AMOUNT) {
             revert InvalidAmount();
@@ -144,14 +171,14 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
 
         // Check borrower eligibility
         (bool isRegistered, uint256 reputationScore, , ) = identityContract
-            .getUserData(msg.sender);
+            .getUserData(borrower);
 
         if (!isRegistered) revert NotRegistered();
         if (reputationScore < MIN_REPUTATION_FOR_LOAN) {
             revert InsufficientReputation();
         }
 
-        BorrowerProfile storage profile = borrowerProfiles[msg.sender];
+        BorrowerProfile storage profile = borrowerProfiles[borrower];
 
         // Check if user is banned or has too many active loans
         if (profile.isBanned) revert UnauthorizedAccess();
@@ -161,7 +188,7 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
 
         // Calculate interest rate based on reputation and history
         uint256 interestRate = calculateInterestRate(
-            msg.sender,
+            borrower,
             reputationScore
         );
 
@@ -173,7 +200,7 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
 
         loans[loanId] = Loan({
             id: loanId,
-            borrower: msg.sender,
+            borrower: borrower,
             amount: amount,
             duration: duration,
             interestRate: interestRate,
@@ -186,9 +213,9 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
             collateralAmount: 0
         });
 
-        userLoans[msg.sender].push(loanId);
+        userLoans[borrower].push(loanId);
 
-        emit LoanRequested(loanId, msg.sender, amount, duration, interestRate);
+        emit LoanRequested(loanId, borrower, amount, duration, interestRate);
 
         return loanId;
     }
@@ -220,7 +247,7 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
         // Transfer funds to borrower
         lendingToken.safeTransfer(loan.borrower, loan.amount);
 
-        emit LoanApproved(loanId, msg.sender);
+        emit LoanApproved(loanId, _msgSender());
     }
 
     /**
@@ -233,7 +260,7 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
 
         if (loan.id == 0) revert LoanNotFound();
         if (!loan.active) revert LoanNotApproved();
-        if (loan.borrower != msg.sender) revert UnauthorizedAccess();
+        if (loan.borrower != _msgSender()) revert UnauthorizedAccess();
         if (amount == 0) revert InvalidAmount();
 
         // Calculate total amount due (principal + interest)
@@ -247,7 +274,7 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
 
         // Transfer repayment from borrower
         lendingToken.safeTransferFrom(
-            msg.sender,
+            _msgSender(),
             address(this),
             repaymentAmount
         );
@@ -284,10 +311,10 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
         Loan storage loan = loans[loanId];
 
         if (loan.id == 0) revert LoanNotFound();
-        if (loan.borrower != msg.sender) revert UnauthorizedAccess();
+        if (loan.borrower != _msgSender()) revert UnauthorizedAccess();
         if (!loan.active) revert LoanNotApproved();
 
-        lendingToken.safeTransferFrom(msg.sender, address(this), amount);
+        lendingToken.safeTransferFrom(_msgSender(), address(this), amount);
         loan.collateralAmount += amount;
 
         emit CollateralDeposited(loanId, amount);
@@ -335,10 +362,10 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
     function fundPool(uint256 amount) external {
         if (amount == 0) revert InvalidAmount();
 
-        lendingToken.safeTransferFrom(msg.sender, address(this), amount);
+        lendingToken.safeTransferFrom(_msgSender(), address(this), amount);
         totalPoolFunds += amount;
 
-        emit PoolFunded(msg.sender, amount);
+        emit PoolFunded(_msgSender(), amount);
     }
 
     /**
@@ -444,4 +471,34 @@ contract UnbankedLending is Ownable, ReentrancyGuard {
     function setBorrowerBan(address borrower, bool banned) external onlyOwner {
         borrowerProfiles[borrower].isBanned = banned;
     }
+
+    // Ownable and ERC2771Context both extend Context. Take the ERC-2771
+    // versions so calls relayed by the trusted forwarder are attributed to
+    // the user who signed them.
+    function _msgSender()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (uint256)
+    {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
@@ -2,29 +2,53 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.28;
 
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
 contract MockSelfHub {
     function verify(bytes calldata) external pure returns (bool) {
         return true;
     }
 }
 
-contract DemoToken {
+// Accepts requests relayed by the trusted forwarder, so users can sign an
+// approve (e.g. before a loan repayment) without holding gas
+contract DemoToken is ERC2771Context {
     mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
     string public name;
     string public symbol;
     uint8 public decimals = 18;
     uint256 public totalSupply;
     
-    constructor(string memory _name, string memory _symbol, uint256 _supply) {
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _supply,
+        address _trustedForwarder
+    ) ERC2771Context(_trustedForwarder) {
         name = _name;
         symbol = _symbol;
         totalSupply = _supply;
-        balanceOf[msg.sender] = _supply;
+        balanceOf[_msgSender()] = _supply;
     }
     
     function transfer(address to, uint256 amount) external returns (bool) {
-        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
-        balanceOf[msg.sender] -= amount;
+        require(balanceOf[_msgSender()] >= amount, "Insufficient balance");
+        balanceOf[_msgSender()] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[_msgSender()][spender] = amount;
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(balanceOf[from] >= amount, "Insufficient balance");
+        require(allowance[from][_msgSender()] >= amount, "Insufficient allowance");
+        allowance[from][_msgSender()] -= amount;
+        balanceOf[from] -= amount;
         balanceOf[to] += amount;
         return true;
     }
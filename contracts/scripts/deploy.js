@@ -60,15 +60,27 @@ async function main() {
 
   await unbankedIdentity.waitForDeployment();
   const unbankedIdentityAddress = await unbankedIdentity.getAddress();
+  // Event replays (e.g. reputation reconciliation) start from this block
+  const startBlock = (await unbankedIdentity.deploymentTransaction().wait())
+    .blockNumber;
   console.log(`✅ UnbankedIdentity deployed to: ${unbankedIdentityAddress}`);
 
+  // Deploy the ERC-2771 forwarder that relays users' signed requests
+  console.log("📦 Deploying UnbankedForwarder contract...");
+  const Forwarder = await ethers.getContractFactory("UnbankedForwarder");
+  const forwarder = await Forwarder.deploy();
+  await forwarder.waitForDeployment();
+  const forwarderAddress = await forwarder.getAddress();
+  console.log(`✅ UnbankedForwarder deployed to: ${forwarderAddress}`);
+
   // Deploy Token for airdrops (optional)
   console.log("📦 Deploying Demo Token for airdrops...");
   const DemoToken = await ethers.getContractFactory("DemoToken");
   const demoToken = await DemoToken.deploy(
     "ZK Demo Token",
     "ZKDEMO",
-    ethers.parseEther("1000000")
+    ethers.parseEther("1000000"),
+    forwarderAddress
   );
   await demoToken.waitForDeployment();
   const demoTokenAddress = await demoToken.getAddress();
@@ -84,7 +96,8 @@ async function main() {
     hubAddress,
     scope + 1n, // Different scope for airdrop
     demoTokenAddress,
-    CONFIG_IDS.basic
+    CONFIG_IDS.basic,
+    forwarderAddress
   );
 
   await airdrop.waitForDeployment();
@@ -96,20 +109,25 @@ async function main() {
   const Governance = await ethers.getContractFactory("UnbankedGovernance");
 
   const governance = await Governance.deploy(
-    unbankedIdentityAddress // Only needs the identity contract address
+    unbankedIdentityAddress,
+    forwarderAddress
   );
 
   await governance.waitForDeployment();
   const governanceAddress = await governance.getAddress();
   console.log(`✅ Governance deployed to: ${governanceAddress}`);
 
+  // No proposal is seeded: every proposal is recorded against a verified
+  // proposer, and the deployer isn't one
+
   // Deploy Lending contract
   console.log("📦 Deploying Lending contract...");
   const Lending = await ethers.getContractFactory("UnbankedLending");
 
   const lending = await Lending.deploy(
     demoTokenAddress,
-    unbankedIdentityAddress
+    unbankedIdentityAddress,
+    forwarderAddress
   );
 
   await lending.waitForDeployment();
@@ -127,28 +145,23 @@ async function main() {
   await airdropTransferTx.wait();
   console.log("✅ Tokens transferred to airdrop contract");
 
-  // Lending pool gets 500k tokens
-  const lendingTransferTx = await demoToken.transfer(
+  // Lending pool gets 500k tokens. fundPool pulls them with transferFrom so
+  // they are counted in totalPoolFunds; a plain transfer would sit unused.
+  console.log("🏦 Funding lending pool...");
+  const lendingApproveTx = await demoToken.approve(
     lendingAddress,
     ethers.parseEther("500000")
   );
-  await lendingTransferTx.wait();
-  console.log("✅ Tokens transferred to lending contract");
-
-  // Fund the lending pool (optional - skip if it fails)
-  try {
-    console.log("🏦 Funding lending pool...");
-    const fundPoolTx = await lending.fundPool(ethers.parseEther("500000"));
-    await fundPoolTx.wait();
-    console.log("✅ Lending pool funded");
-  } catch (error) {
-    console.log("⚠️  Lending pool funding failed - continuing deployment...");
-    console.log("   Pool can be funded manually later");
-  }
+  await lendingApproveTx.wait();
+  const fundPoolTx = await lending.fundPool(ethers.parseEther("500000"));
+  await fundPoolTx.wait();
+  console.log("✅ Lending pool funded");
 
   // Save deployment info
   const deploymentInfo = {
     network: network,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    startBlock,
     timestamp: new Date().toISOString(),
     contracts: {
       unbankedIdentity: unbankedIdentityAddress,
@@ -156,6 +169,7 @@ async function main() {
       governance: governanceAddress,
       lending: lendingAddress,
       demoToken: demoTokenAddress,
+      forwarder: forwarderAddress,
       selfHub: hubAddress,
     },
     configuration: {
@@ -199,29 +213,53 @@ const mockContracts = `
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.28;
 
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
 contract MockSelfHub {
     function verify(bytes calldata) external pure returns (bool) {
         return true;
     }
 }
 
-contract DemoToken {
+// Accepts requests relayed by the trusted forwarder, so users can sign an
+// approve (e.g. before a loan repayment) without holding gas
+contract DemoToken is ERC2771Context {
     mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
     string public name;
     string public symbol;
     uint8 public decimals = 18;
     uint256 public totalSupply;
     
-    constructor(string memory _name, string memory _symbol, uint256 _supply) {
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _supply,
+        address _trustedForwarder
+    ) ERC2771Context(_trustedForwarder) {
         name = _name;
         symbol = _symbol;
         totalSupply = _supply;
-        balanceOf[msg.sender] = _supply;
+        balanceOf[_msgSender()] = _supply;
     }
     
     function transfer(address to, uint256 amount) external returns (bool) {
-        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
-        balanceOf[msg.sender] -= amount;
+        require(balanceOf[_msgSender()] >= amount, "Insufficient balance");
+        balanceOf[_msgSender()] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[_msgSender()][spender] = amount;
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(balanceOf[from] >= amount, "Insufficient balance");
+        require(allowance[from][_msgSender()] >= amount, "Insufficient allowance");
+        allowance[from][_msgSender()] -= amount;
+        balanceOf[from] -= amount;
         balanceOf[to] += amount;
         return true;
     }
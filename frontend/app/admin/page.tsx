@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { KeyRound, LogOut } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+import { ConfigChangeLog } from "@/components/admin/ConfigChangeLog";
+import type { ConfigChangeRecord } from "@/components/admin/ConfigChangeLog";
+import { ConfirmChangeModal } from "@/components/admin/ConfirmChangeModal";
+import { ContractSettings } from "@/components/admin/ContractSettings";
+import type { ContractSettingsSnapshot } from "@/components/admin/ContractSettings";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import {
+  AdminKeyError,
+  adminRequest,
+  clearAdminKey,
+  getAdminKey,
+  saveAdminKey,
+} from "@/lib/admin";
+import { formatAddress } from "@/lib/utils";
+import type { ProposeConfigChangeRequest } from "@/lib/shared/api-types";
+
+// Operator console: propose owner-only contract setting changes, confirm
+// them, and see who changed what
+export default function AdminPage() {
+  const [hasKey, setHasKey] = useState(false);
+  const [keyInput, setKeyInput] = useState("");
+  const [settings, setSettings] = useState<ContractSettingsSnapshot | null>(
+    null
+  );
+  const [changes, setChanges] = useState<ConfigChangeRecord[]>([]);
+  const [pendingChange, setPendingChange] =
+    useState<ConfigChangeRecord | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    setHasKey(getAdminKey() !== null);
+  }, []);
+
+  const handleError = useCallback((error: unknown) => {
+    if (error instanceof AdminKeyError) {
+      setHasKey(false);
+      setSettings(null);
+    }
+    toast.error(
+      `Failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const [settingsResult, changesResult] = await Promise.all([
+        adminRequest("GET", "/settings"),
+        adminRequest("GET", "/config-changes"),
+      ]);
+      if (!settingsResult.success) {
+        throw new Error(settingsResult.message || "Failed to load settings");
+      }
+      setSettings(settingsResult.settings);
+      if (changesResult.success) {
+        setChanges(changesResult.changes);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    if (hasKey) {
+      load();
+    }
+  }, [hasKey, load]);
+
+  const signIn = () => {
+    if (!keyInput.trim()) return;
+    saveAdminKey(keyInput.trim());
+    setKeyInput("");
+    setHasKey(true);
+  };
+
+  const signOut = () => {
+    clearAdminKey();
+    setHasKey(false);
+    setSettings(null);
+    setChanges([]);
+  };
+
+  const propose = async (request: ProposeConfigChangeRequest) => {
+    try {
+      const result = await adminRequest("POST", "/config-changes", request);
+      if (!result.success) {
+        throw new Error(result.message || "The change could not be proposed");
+      }
+      setPendingChange(result.change);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const uploadBonuses = async (csv: string) => {
+    try {
+      const result = await adminRequest("POST", "/bonus-allocations", csv);
+      if (!result.success) {
+        throw new Error(result.message || "The bonus tree could not be built");
+      }
+      toast.success(
+        `Bonus tree built: ${result.allocation.entryCount} addresses, ${result.allocation.totalTokens} tokens`
+      );
+      setPendingChange(result.change);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const confirm = async (change: ConfigChangeRecord) => {
+    setIsProcessing(true);
+    try {
+      const result = await adminRequest(
+        "POST",
+        `/config-changes/${change.id}/confirmation`
+      );
+      if (!result.success) {
+        throw new Error(result.message || "The change could not be sent");
+      }
+      toast.success(
+        `${change.target} confirmed (${formatAddress(
+          result.change.transactionHash
+        )})`
+      );
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsProcessing(false);
+      setPendingChange(null);
+      await load();
+    }
+  };
+
+  const cancel = async (change: ConfigChangeRecord) => {
+    setIsProcessing(true);
+    try {
+      const result = await adminRequest(
+        "POST",
+        `/config-changes/${change.id}/cancellation`
+      );
+      if (!result.success) {
+        throw new Error(result.message || "The change could not be cancelled");
+      }
+      toast.success("Change cancelled");
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsProcessing(false);
+      setPendingChange(null);
+      await load();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] text-white">
+      <main className="max-w-6xl mx-auto px-4 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">Admin Console</h1>
+          {hasKey && (
+            <button
+              onClick={signOut}
+              className="flex items-center gap-2 text-sm text-gray-400 hover:text-white"
+            >
+              <LogOut className="w-4 h-4" />
+              Forget key
+            </button>
+          )}
+        </div>
+
+        {!hasKey ? (
+          <GlassCard className="p-8 max-w-md mx-auto" hover={false}>
+            <div className="flex items-center space-x-3 mb-4">
+              <KeyRound className="w-6 h-6 text-purple-400" />
+              <h3 className="text-xl font-semibold">Admin key</h3>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+              Kept for this browser tab only.
+            </p>
+            <input
+              type="password"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && signIn()}
+              className="w-full mb-4 p-2 rounded-lg bg-white/5 border border-white/10 focus:border-purple-500/50 outline-none text-sm text-gray-200"
+            />
+            <NeonButton onClick={signIn} className="w-full">
+              Continue
+            </NeonButton>
+          </GlassCard>
+        ) : (
+          <div className="space-y-8">
+            {settings ? (
+              <ContractSettings
+                settings={settings}
+                onPropose={propose}
+                onUploadBonuses={uploadBonuses}
+              />
+            ) : (
+              <p className="text-gray-400">Loading settings...</p>
+            )}
+            <ConfigChangeLog changes={changes} />
+          </div>
+        )}
+      </main>
+
+      <ConfirmChangeModal
+        change={pendingChange}
+        isProcessing={isProcessing}
+        onConfirm={confirm}
+        onCancel={cancel}
+      />
+      <Toaster position="bottom-right" />
+    </div>
+  );
+}
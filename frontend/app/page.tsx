@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useCallback, useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import dynamic from "next/dynamic";
 import {
@@ -77,10 +77,24 @@ export default function Home() {
     });
   };
 
-  const handleAttestationAdded = (newAttestation: any) => {
-    setAttestations([...attestations, newAttestation]);
-    setReputationScore(reputationScore + newAttestation.score);
-  };
+  // The backend rejected our session: send the user back to re-verify
+  const handleSessionExpired = useCallback(() => {
+    setIsIdentityVerified(false);
+    setCurrentStep("verify");
+    toast.error("Your session has expired. Please verify your identity again.", {
+      style: {
+        borderRadius: "10px",
+        background: "#1a1a2e",
+        color: "#fff",
+        border: "1px solid #ef4444",
+      },
+    });
+  }, []);
+
+  const handleAttestationAdded = useCallback((newAttestation: any) => {
+    setAttestations((current) => [...current, newAttestation]);
+    setReputationScore((current) => current + newAttestation.score);
+  }, []);
 
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white overflow-hidden flex flex-col">
@@ -322,6 +336,7 @@ export default function Home() {
               attestations={attestations}
               onAttestationAdded={handleAttestationAdded}
               onContinue={() => setCurrentStep("services")}
+              onSessionExpired={handleSessionExpired}
             />
           )}
 
@@ -330,6 +345,7 @@ export default function Home() {
               userIdentifier={userIdentifier!}
               reputationScore={reputationScore}
               onBack={() => setCurrentStep("reputation")}
+              onSessionExpired={handleSessionExpired}
             />
           )}
         </AnimatePresence>
@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+import { History } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { formatAddress } from "@/lib/utils";
+import type { ConfigChangeAction } from "@/lib/shared/api-types";
+
+type ConfigValue = string | number | boolean | null;
+
+// A config change as GET /v1/admin/config-changes returns it
+export interface ConfigChangeRecord {
+  id: string;
+  action: ConfigChangeAction;
+  target: string;
+  params: Record<string, ConfigValue>;
+  summary: string;
+  before: Record<string, ConfigValue>;
+  after: Record<string, ConfigValue>;
+  status:
+    | "proposed"
+    | "cancelled"
+    | "expired"
+    | "submitted"
+    | "confirmed"
+    | "failed";
+  proposedBy: string;
+  proposedAt: string;
+  expiresAt: string;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  transactionId: string | null;
+  transactionHash: string | null;
+  error: string | null;
+}
+
+const STATUS_COLORS: Record<ConfigChangeRecord["status"], string> = {
+  proposed: "text-yellow-400",
+  cancelled: "text-gray-500",
+  expired: "text-gray-500",
+  submitted: "text-blue-400",
+  confirmed: "text-green-400",
+  failed: "text-red-400",
+};
+
+interface ConfigChangeLogProps {
+  changes: ConfigChangeRecord[];
+}
+
+// Every proposed change, newest first, with who proposed and decided it
+export const ConfigChangeLog: React.FC<ConfigChangeLogProps> = ({ changes }) => (
+  <GlassCard className="p-6 lg:p-8" hover={false}>
+    <div className="flex items-center space-x-3 mb-6">
+      <History className="w-6 h-6 text-purple-400" />
+      <h3 className="text-xl lg:text-2xl font-semibold">Change Log</h3>
+    </div>
+
+    {changes.length === 0 ? (
+      <p className="text-gray-400 text-sm">No changes yet</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4">When</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2 pr-4">Change</th>
+              <th className="py-2 pr-4">Proposed by</th>
+              <th className="py-2 pr-4">Decided by</th>
+              <th className="py-2">Transaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.id} className="border-b border-white/5 align-top">
+                <td className="py-2 pr-4 text-gray-400 whitespace-nowrap">
+                  {new Date(change.proposedAt).toLocaleString()}
+                </td>
+                <td className={`py-2 pr-4 ${STATUS_COLORS[change.status]}`}>
+                  {change.status}
+                </td>
+                <td className="py-2 pr-4">
+                  <div>{change.summary}</div>
+                  <div className="text-xs text-gray-500 font-mono">
+                    {change.target}
+                  </div>
+                  {change.error && (
+                    <div className="text-xs text-red-400">{change.error}</div>
+                  )}
+                </td>
+                <td className="py-2 pr-4">{change.proposedBy}</td>
+                <td className="py-2 pr-4">{change.decidedBy ?? "—"}</td>
+                <td className="py-2 font-mono text-xs">
+                  {change.transactionHash
+                    ? formatAddress(change.transactionHash)
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </GlassCard>
+);
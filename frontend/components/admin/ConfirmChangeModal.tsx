@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertCircle } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import type { ConfigChangeRecord } from "./ConfigChangeLog";
+
+interface ConfirmChangeModalProps {
+  change: ConfigChangeRecord | null;
+  isProcessing: boolean;
+  onConfirm: (change: ConfigChangeRecord) => void;
+  onCancel: (change: ConfigChangeRecord) => void;
+}
+
+function formatValue(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// A proposed change with its current and new values, to confirm or drop
+export const ConfirmChangeModal: React.FC<ConfirmChangeModalProps> = ({
+  change,
+  isProcessing,
+  onConfirm,
+  onCancel,
+}) => (
+  <AnimatePresence>
+    {change && (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.9 }}
+          animate={{ scale: 1 }}
+          exit={{ scale: 0.9 }}
+          className="max-w-lg w-full"
+        >
+          <GlassCard className="p-8" hover={false}>
+            <h3 className="text-2xl font-semibold mb-2">{change.summary}</h3>
+            <p className="text-sm text-gray-400 font-mono mb-6">
+              {change.target}
+            </p>
+
+            <div className="space-y-2 mb-6">
+              {Object.keys(change.after).map((field) => (
+                <div
+                  key={field}
+                  className="flex items-center justify-between gap-4 p-3 bg-white/5 rounded-lg text-sm"
+                >
+                  <span className="text-gray-400">{field}</span>
+                  <span className="font-mono break-all text-right">
+                    <span className="text-gray-500">
+                      {formatValue(change.before[field])}
+                    </span>
+                    {" → "}
+                    <span className="text-green-400">
+                      {formatValue(change.after[field])}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-6">
+              <div className="flex items-start space-x-2">
+                <AlertCircle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-yellow-300">
+                  Confirming sends this from the owner wallet. Unconfirmed
+                  proposals expire at{" "}
+                  {new Date(change.expiresAt).toLocaleTimeString()}.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex space-x-4">
+              <NeonButton
+                onClick={() => onConfirm(change)}
+                disabled={isProcessing}
+                variant="green"
+                className="flex-1"
+              >
+                {isProcessing ? "Sending..." : "Confirm"}
+              </NeonButton>
+              <button
+                onClick={() => onCancel(change)}
+                disabled={isProcessing}
+                className="flex-1 px-6 py-3 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </GlassCard>
+        </motion.div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
@@ -0,0 +1,329 @@
+"use client";
+
+import React, { useState } from "react";
+import { Coins, Gift, Search, Settings, Shield } from "lucide-react";
+import toast from "react-hot-toast";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { adminRequest } from "@/lib/admin";
+import type { ServiceInfo } from "@/lib/catalog";
+import type { ProposeConfigChangeRequest } from "@/lib/shared/api-types";
+
+// GET /v1/admin/settings
+export interface ContractSettingsSnapshot {
+  identity: { verificationConfigId: string };
+  airdrop: {
+    phase: "Setup" | "Registration" | "Claim" | "Ended";
+    merkleRoot: string;
+    // When the backend advances the phase; null ones are left to an admin
+    schedule: {
+      registrationOpensAt: string | null;
+      registrationClosesAt: string | null;
+      claimClosesAt: string | null;
+    };
+  };
+  lending: { totalPoolFunds: string };
+  services: ServiceInfo[];
+}
+
+interface BorrowerLookup {
+  address: string;
+  profile: {
+    totalBorrowed: string;
+    totalRepaid: string;
+    activeLoans: number;
+    defaultedLoans: number;
+    isBanned: boolean;
+  };
+}
+
+interface ContractSettingsProps {
+  settings: ContractSettingsSnapshot;
+  // Propose a change; resolves once it is shown for confirmation
+  onPropose: (request: ProposeConfigChangeRequest) => Promise<void>;
+  // Build a bonus tree from address,bonus rows and propose its root
+  onUploadBonuses: (csv: string) => Promise<void>;
+}
+
+const inputClass =
+  "w-full p-2 rounded-lg bg-white/5 border border-white/10 focus:border-purple-500/50 outline-none text-sm text-gray-200";
+
+const ServiceRow: React.FC<{
+  service: ServiceInfo;
+  onPropose: ContractSettingsProps["onPropose"];
+}> = ({ service, onPropose }) => {
+  const [minReputation, setMinReputation] = useState(
+    String(service.minReputation)
+  );
+  const [isActive, setIsActive] = useState(service.isActive);
+
+  return (
+    <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-semibold">{service.name}</span>
+        <span className="text-xs text-gray-500">
+          Now: {service.isActive ? `${service.minReputation}+` : "closed"}
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="number"
+          min={0}
+          max={1000}
+          value={minReputation}
+          onChange={(e) => setMinReputation(e.target.value)}
+          className={inputClass}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-300 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+          />
+          Open
+        </label>
+        <NeonButton
+          size="sm"
+          onClick={() =>
+            onPropose({
+              action: "setService",
+              service: service.key,
+              minReputation: Number(minReputation),
+              isActive,
+            })
+          }
+        >
+          Propose
+        </NeonButton>
+      </div>
+    </div>
+  );
+};
+
+// Owner-only contract settings as they are on-chain, each with a form to
+// propose a change
+export const ContractSettings: React.FC<ContractSettingsProps> = ({
+  settings,
+  onPropose,
+  onUploadBonuses,
+}) => {
+  const [configId, setConfigId] = useState("");
+  const [merkleRoot, setMerkleRoot] = useState("");
+  const [amount, setAmount] = useState("");
+  const [borrowerAddress, setBorrowerAddress] = useState("");
+  const [borrower, setBorrower] = useState<BorrowerLookup | null>(null);
+
+  const lookUpBorrower = async () => {
+    try {
+      const result = await adminRequest(
+        "GET",
+        `/borrowers/${borrowerAddress.trim()}`
+      );
+      if (!result.success) {
+        throw new Error(result.message || "Borrower lookup failed");
+      }
+      setBorrower(result);
+    } catch (error) {
+      setBorrower(null);
+      toast.error(
+        `Failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <GlassCard className="p-6" hover={false}>
+        <div className="flex items-center space-x-3 mb-4">
+          <Settings className="w-5 h-5 text-purple-400" />
+          <h3 className="text-lg font-semibold">Services</h3>
+        </div>
+        <div className="space-y-3">
+          {settings.services.map((service) => (
+            // Keyed on the values so the form resets once a change lands
+            <ServiceRow
+              key={`${service.key}:${service.minReputation}:${service.isActive}`}
+              service={service}
+              onPropose={onPropose}
+            />
+          ))}
+        </div>
+      </GlassCard>
+
+      <GlassCard className="p-6" hover={false}>
+        <div className="flex items-center space-x-3 mb-4">
+          <Shield className="w-5 h-5 text-blue-400" />
+          <h3 className="text-lg font-semibold">Identity Verification</h3>
+        </div>
+        <p className="text-xs text-gray-400 mb-1">Current config ID</p>
+        <p className="text-sm font-mono break-all mb-4">
+          {settings.identity.verificationConfigId}
+        </p>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            placeholder="0x..."
+            className={inputClass}
+          />
+          <NeonButton
+            size="sm"
+            variant="blue"
+            onClick={() =>
+              onPropose({ action: "setVerificationConfig", configId })
+            }
+          >
+            Propose
+          </NeonButton>
+        </div>
+      </GlassCard>
+
+      <GlassCard className="p-6" hover={false}>
+        <div className="flex items-center space-x-3 mb-4">
+          <Gift className="w-5 h-5 text-pink-400" />
+          <h3 className="text-lg font-semibold">Airdrop</h3>
+        </div>
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm text-gray-300">
+            Phase: <span className="font-semibold">{settings.airdrop.phase}</span>
+          </span>
+          <NeonButton
+            size="sm"
+            variant="pink"
+            disabled={settings.airdrop.phase === "Ended"}
+            onClick={() => onPropose({ action: "advancePhase" })}
+          >
+            Advance Phase
+          </NeonButton>
+        </div>
+        <div className="space-y-1 mb-4 text-xs text-gray-400">
+          {(
+            [
+              ["Registration opens", settings.airdrop.schedule.registrationOpensAt],
+              ["Claiming opens", settings.airdrop.schedule.registrationClosesAt],
+              ["Claiming closes", settings.airdrop.schedule.claimClosesAt],
+            ] as const
+          ).map(([label, time]) => (
+            <div key={label} className="flex justify-between">
+              <span>{label}</span>
+              <span className="text-gray-300">
+                {time ? new Date(time).toLocaleString() : "When advanced"}
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mb-1">Bonus Merkle root</p>
+        <p className="text-sm font-mono break-all mb-4">
+          {settings.airdrop.merkleRoot}
+        </p>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={merkleRoot}
+            onChange={(e) => setMerkleRoot(e.target.value)}
+            placeholder="0x..."
+            className={inputClass}
+          />
+          <NeonButton
+            size="sm"
+            variant="pink"
+            onClick={() => onPropose({ action: "setMerkleRoot", merkleRoot })}
+          >
+            Propose
+          </NeonButton>
+        </div>
+        <label className="block mt-4 text-xs text-gray-400">
+          Or build one from a CSV of address,bonus rows (bonus in tokens)
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) {
+                await onUploadBonuses(await file.text());
+              }
+            }}
+            className="block w-full mt-2 text-sm text-gray-300 file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-pink-500/20 file:text-pink-300"
+          />
+        </label>
+      </GlassCard>
+
+      <GlassCard className="p-6" hover={false}>
+        <div className="flex items-center space-x-3 mb-4">
+          <Coins className="w-5 h-5 text-green-400" />
+          <h3 className="text-lg font-semibold">Lending Pool</h3>
+        </div>
+        <p className="text-sm text-gray-300 mb-3">
+          Pool funds:{" "}
+          <span className="font-semibold">
+            {settings.lending.totalPoolFunds} tokens
+          </span>
+        </p>
+        <div className="flex gap-3 mb-6">
+          <input
+            type="text"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount to withdraw"
+            className={inputClass}
+          />
+          <NeonButton
+            size="sm"
+            variant="green"
+            onClick={() =>
+              onPropose({ action: "withdrawFromPool", amount: Number(amount) })
+            }
+          >
+            Propose
+          </NeonButton>
+        </div>
+
+        <p className="text-xs text-gray-400 mb-1">Borrower</p>
+        <div className="flex gap-3 mb-3">
+          <input
+            type="text"
+            value={borrowerAddress}
+            onChange={(e) => setBorrowerAddress(e.target.value)}
+            placeholder="0x..."
+            className={inputClass}
+          />
+          <NeonButton size="sm" variant="blue" onClick={lookUpBorrower}>
+            <Search className="w-4 h-4" />
+          </NeonButton>
+        </div>
+        {borrower && (
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm">
+            <p className="font-mono text-xs text-gray-400 mb-2 break-all">
+              {borrower.address}
+            </p>
+            <p className="text-gray-300 mb-3">
+              {borrower.profile.activeLoans} active,{" "}
+              {borrower.profile.defaultedLoans} defaulted,{" "}
+              {borrower.profile.totalBorrowed} borrowed,{" "}
+              {borrower.profile.totalRepaid} repaid
+              {borrower.profile.isBanned && (
+                <span className="text-red-400"> (banned)</span>
+              )}
+            </p>
+            <NeonButton
+              size="sm"
+              variant={borrower.profile.isBanned ? "green" : "pink"}
+              className="w-full"
+              onClick={() =>
+                onPropose({
+                  action: "setBorrowerBan",
+                  borrower: borrower.address,
+                  banned: !borrower.profile.isBanned,
+                })
+              }
+            >
+              {borrower.profile.isBanned ? "Lift Ban" : "Ban Borrower"}
+            </NeonButton>
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+};
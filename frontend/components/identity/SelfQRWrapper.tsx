@@ -2,7 +2,13 @@
 
 import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { QrCode, CheckCircle, Smartphone, RefreshCw } from "lucide-react";
+import {
+  QrCode,
+  CheckCircle,
+  Smartphone,
+  RefreshCw,
+  Wallet,
+} from "lucide-react";
 import { GlassCard } from "@/components/ui/GlassCard";
 import {
   SelfQRcodeWrapper,
@@ -11,9 +17,16 @@ import {
 } from "@selfxyz/qrcode";
 import { getUniversalLink } from "@selfxyz/core";
 import { v4 as uuidv4 } from "uuid";
+import { newSessionNonce } from "@/lib/api";
+import { connectWallet, hasWallet } from "@/lib/wallet";
+import { userIdentifierFormat } from "@/lib/shared/user-address";
 
 interface SelfQRWrapperProps {
-  onSuccess: (userIdentifier: string, disclosures?: any) => void;
+  onSuccess: (
+    userIdentifier: string,
+    sessionNonce: string,
+    disclosures?: any
+  ) => void;
   onError?: (error: any) => void;
   simulationMode?: boolean;
 }
@@ -29,12 +42,33 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
   const [universalLink, setUniversalLink] = useState("");
   const [error, setError] = useState<string | null>(null);
 
-  // Initialize Self app
+  // Unique user ID for this verification. The backend keys the session it
+  // issues on this value, so it must be the one we report back on success.
+  // A random UUID by default; a wallet address if the user connects one, so
+  // the contracts know them by an address they can sign for.
+  const [userId, setUserId] = useState(() => uuidv4());
+  // Travels in the QR code's userDefinedData; the session is only handed to
+  // whoever presents it
+  const [sessionNonce] = useState(newSessionNonce);
+  const [walletAvailable, setWalletAvailable] = useState(false);
+  const usingWallet = userIdentifierFormat(userId) === "hex";
+
   useEffect(() => {
+    setWalletAvailable(hasWallet());
+  }, []);
+
+  const handleUseWallet = async () => {
     try {
-      // Generate a unique user ID for this session
-      const userId = uuidv4();
+      setUserId((await connectWallet()).toLowerCase());
+    } catch (error) {
+      console.error("Failed to connect wallet:", error);
+      onError?.(error);
+    }
+  };
 
+  // Initialize Self app
+  useEffect(() => {
+    try {
       const app = new SelfAppBuilder({
         appName: "ZK Identity for the Unbanked",
         scope: "zk-unbanked-demo",
@@ -42,6 +76,8 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
           ? `${process.env.NEXT_PUBLIC_API_URL}/api/verify`
           : "https://241caff567ec.ngrok-free.app/api/verify",
         userId: userId,
+        userIdType: usingWallet ? "hex" : "uuid",
+        userDefinedData: sessionNonce,
         disclosures: {
           minimumAge: 16,
           excludedCountries: [],
@@ -57,7 +93,7 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
       setError("Failed to initialize verification system");
       onError?.(error);
     }
-  }, [onError]);
+  }, [onError, userId, usingWallet, sessionNonce]);
 
   const handleVerify = () => {
     if (!simulationMode) return;
@@ -70,8 +106,7 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
       setIsVerified(true);
 
       setTimeout(() => {
-        const mockUserIdentifier = uuidv4();
-        onSuccess(mockUserIdentifier, {
+        onSuccess(userId, sessionNonce, {
           nationality: "Global",
           minimumAge: true,
           verification_time: new Date().toISOString(),
@@ -85,10 +120,6 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
     setIsVerified(true);
 
     // Extract user data from the verification result
-    const userIdentifier =
-      result?.userIdentifier ||
-      result?.credentialSubject?.userIdentifier ||
-      uuidv4();
     const disclosures = result?.credentialSubject ||
       result?.disclosures || {
         nationality: "Verified",
@@ -97,7 +128,7 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
       };
 
     // Call the parent's onSuccess callback to proceed to next step
-    onSuccess(userIdentifier, disclosures);
+    onSuccess(userId, sessionNonce, disclosures);
   };
 
   const handleVerificationError = (error: any) => {
@@ -106,6 +137,27 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
     onError?.(error);
   };
 
+  // Switch the identity to the user's wallet before they scan
+  const walletOption = walletAvailable && !isVerified && (
+    <div className="mt-3 text-center">
+      {usingWallet ? (
+        <p className="text-xs text-green-400">
+          Verifying as wallet {userId.substring(0, 6)}...
+          {userId.substring(userId.length - 4)}: you will sign your own
+          votes, claims and repayments
+        </p>
+      ) : (
+        <button
+          onClick={handleUseWallet}
+          className="inline-flex items-center space-x-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <Wallet className="w-3 h-3" />
+          <span>Verify with my wallet address instead</span>
+        </button>
+      )}
+    </div>
+  );
+
   // Show error state if configuration failed
   if (error) {
     return (
@@ -142,6 +194,7 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
               Or tap here to open Self app directly
             </button>
           )}
+          {walletOption}
         </div>
       </div>
     );
@@ -235,6 +288,7 @@ export const SelfQRWrapper: React.FC<SelfQRWrapperProps> = ({
                     : "Scan with Self app"}
                 </span>
               </div>
+              {walletOption}
             </div>
           </motion.div>
         ) : (
@@ -18,6 +18,7 @@ import {
 import { GlassCard } from "@/components/ui/GlassCard";
 import { NeonButton } from "@/components/ui/NeonButton";
 import { SelfQRWrapper } from "./SelfQRWrapper";
+import { establishSession } from "@/lib/api";
 import toast from "react-hot-toast";
 
 interface IdentityVerificationProps {
@@ -37,20 +38,30 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
     process.env.NEXT_PUBLIC_SELF_MOCK_MODE === "true"
   ); // Use environment variable to control mode
 
-  const handleVerificationSuccess = (
+  const handleVerificationSuccess = async (
     userIdentifier: string,
+    sessionNonce: string,
     disclosures?: any
   ) => {
     console.log("🎉 Verification successful:", { userIdentifier, disclosures });
     setVerificationStep("processing");
 
-    // Simulate processing for UI effect
-    setTimeout(() => {
+    try {
+      // Every service call needs the session issued for this verification
+      const session = await establishSession(
+        userIdentifier,
+        sessionNonce,
+        simulationMode
+      );
+
       setVerificationStep("complete");
       setTimeout(() => {
-        onComplete(userIdentifier);
+        onComplete(session.userIdentifier);
       }, 2000);
-    }, 1500);
+    } catch (error) {
+      setVerificationStep("qr");
+      handleVerificationError(error);
+    }
   };
 
   const handleVerificationError = (error: any) => {
@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { attestationTypeInfo, useCatalog } from "@/lib/catalog";
+
+export interface AttestationRequestRecord {
+  id: string;
+  userIdentifier: string;
+  subject: string;
+  attestationType: string;
+  attester: string;
+  message: string | null;
+  status: "pending" | "approved" | "rejected" | "expired";
+  createdAt: string;
+  expiresAt: string;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  attestationId: string | null;
+}
+
+interface AttestationRequestsProps {
+  userIdentifier: string;
+  // Bump to reload, e.g. after a new request is sent
+  refreshKey: number;
+  // Attestations already shown, so approvals are only reported once
+  knownAttestationIds: string[];
+  attesterNames: Record<string, string>;
+  onApproved: (attestation: any) => void;
+  onSessionExpired: () => void;
+}
+
+const statusStyles: Record<AttestationRequestRecord["status"], string> = {
+  pending: "bg-yellow-500/20 text-yellow-300",
+  approved: "bg-green-500/20 text-green-300",
+  rejected: "bg-red-500/20 text-red-300",
+  expired: "bg-gray-500/20 text-gray-300",
+};
+
+// The user's requests to attesters and what became of them
+export const AttestationRequests: React.FC<AttestationRequestsProps> = ({
+  userIdentifier,
+  refreshKey,
+  knownAttestationIds,
+  attesterNames,
+  onApproved,
+  onSessionExpired,
+}) => {
+  const [requests, setRequests] = useState<AttestationRequestRecord[]>([]);
+  const catalog = useCatalog();
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const result = await apiRequest(
+        "GET",
+        `/users/${userIdentifier}/attestation-requests`
+      );
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load requests");
+      }
+      setRequests(result.requests);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load attestation requests:", error);
+    }
+  }, [userIdentifier, onSessionExpired]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests, refreshKey]);
+
+  // Attesters approve while the user is away; show what they granted. Runs
+  // again once the catalog is in, to report approvals with their details.
+  useEffect(() => {
+    for (const request of requests) {
+      const info = attestationTypeInfo(catalog, request.attestationType);
+      if (
+        request.status === "approved" &&
+        request.attestationId &&
+        info &&
+        !knownAttestationIds.includes(request.attestationId)
+      ) {
+        onApproved({
+          ...info,
+          id: request.attestationId,
+          timestamp: request.decidedAt,
+          attestedBy: request.attester,
+        });
+      }
+    }
+  }, [requests, catalog, knownAttestationIds, onApproved]);
+
+  const open = requests.filter((request) => request.status !== "approved");
+  if (open.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-6">
+      <div className="flex items-center space-x-2 mb-3">
+        <Clock className="w-4 h-4 text-purple-400" />
+        <h4 className="font-semibold text-white">Requests to attesters</h4>
+      </div>
+      <div className="space-y-2">
+        {open.map((request) => (
+          <div
+            key={request.id}
+            className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm"
+          >
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-gray-200">
+                {attestationTypeInfo(catalog, request.attestationType)?.title ??
+                  request.attestationType}{" "}
+                <span className="text-gray-500">
+                  from {attesterNames[request.attester] ?? request.attester}
+                </span>
+              </span>
+              <span
+                className={`text-xs px-2 py-1 rounded-full flex-shrink-0 ${
+                  statusStyles[request.status]
+                }`}
+              >
+                {request.status}
+              </span>
+            </div>
+            {request.status === "pending" && (
+              <p className="text-xs text-gray-500 mt-1">
+                Expires {new Date(request.expiresAt).toLocaleDateString()}
+              </p>
+            )}
+            {request.status === "rejected" && request.rejectionReason && (
+              <p className="text-xs text-red-300 mt-1">
+                {request.rejectionReason}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Check, Inbox, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { attestationTypeInfo, useCatalog } from "@/lib/catalog";
+import { formatAddress } from "@/lib/utils";
+import { signAttestation } from "@/lib/wallet";
+import type {
+  ApproveAttestationRequest,
+  AttestationType,
+  RejectAttestationRequest,
+  RevokeAttestationRequest,
+} from "@/lib/shared/api-types";
+import type { AttestationRequestRecord } from "./AttestationRequests";
+
+interface AttesterInboxProps {
+  onSessionExpired: () => void;
+}
+
+// Requests sent to the signed-in attester: pending ones to approve or
+// decline, approved ones to revoke. Renders nothing for users who are not
+// registered attesters.
+export const AttesterInbox: React.FC<AttesterInboxProps> = ({
+  onSessionExpired,
+}) => {
+  const [attesterName, setAttesterName] = useState<string | null>(null);
+  const [requests, setRequests] = useState<AttestationRequestRecord[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>(
+    {}
+  );
+  const [busyRequestId, setBusyRequestId] = useState<string | null>(null);
+  const [view, setView] = useState<"pending" | "approved">("pending");
+  const catalog = useCatalog();
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const result = await apiRequest(
+        "GET",
+        `/attestation-requests?status=${view}`
+      );
+      // Anyone who is not an active attester gets a 403
+      if (!result.success) {
+        setAttesterName(null);
+        return;
+      }
+      setAttesterName(result.attester.name);
+      setRequests(result.requests);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load attester inbox:", error);
+    }
+  }, [view, onSessionExpired]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  const decide = async (
+    request: AttestationRequestRecord,
+    decision: "approval" | "rejection" | "revocation"
+  ) => {
+    let body:
+      | ApproveAttestationRequest
+      | RejectAttestationRequest
+      | RevokeAttestationRequest;
+    if (decision === "approval") {
+      // Approving means signing the attestation for the user's address
+      const { issuedAt, nonce, signature } = await signAttestation(
+        request.subject,
+        request.attestationType as AttestationType
+      );
+      body = { issuedAt, nonce, signature };
+    } else {
+      const reason = reasons[request.id]?.trim();
+      if (!reason) {
+        toast.error("Tell the user why");
+        return;
+      }
+      body = { reason };
+    }
+
+    // Revoking acts on the attestation the approval created
+    const path =
+      decision === "revocation"
+        ? `/attestations/${request.attestationId}/revocation`
+        : `/attestation-requests/${request.id}/${decision}`;
+    const result = await apiRequest("POST", path, body);
+    if (!result.success) {
+      throw new Error(result.message || "The request could not be updated");
+    }
+    toast.success(
+      {
+        approval: "Attestation approved",
+        rejection: "Request declined",
+        revocation: "Attestation revoked",
+      }[decision]
+    );
+  };
+
+  const handleDecision = async (
+    request: AttestationRequestRecord,
+    decision: "approval" | "rejection" | "revocation"
+  ) => {
+    setBusyRequestId(request.id);
+    try {
+      await decide(request, decision);
+      await loadInbox();
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setBusyRequestId(null);
+    }
+  };
+
+  if (attesterName === null) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-8"
+    >
+      <GlassCard className="p-6 lg:p-8" hover={false}>
+        <div className="flex items-center space-x-3 mb-6">
+          <Inbox className="w-6 h-6 text-purple-400" />
+          <h3 className="text-xl lg:text-2xl font-semibold">
+            Attestation Inbox
+          </h3>
+          <span className="text-sm text-gray-500">{attesterName}</span>
+        </div>
+
+        <div className="flex gap-4 mb-4 text-sm">
+          {(["pending", "approved"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={
+                view === option
+                  ? "text-purple-300 font-semibold"
+                  : "text-gray-500 hover:text-gray-300"
+              }
+            >
+              {option === "pending" ? "Pending" : "Approved"}
+            </button>
+          ))}
+        </div>
+
+        {requests.length === 0 ? (
+          <p className="text-gray-400 text-sm">No {view} requests</p>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((request) => {
+              const info = attestationTypeInfo(catalog, request.attestationType);
+              const busy = busyRequestId === request.id;
+              return (
+                <div
+                  key={request.id}
+                  className="p-4 rounded-lg bg-white/5 border border-white/10"
+                >
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <span className="font-semibold text-white">
+                      {info?.icon} {info?.title ?? request.attestationType}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {request.status === "pending"
+                        ? `Expires ${new Date(request.expiresAt).toLocaleDateString()}`
+                        : `Approved ${new Date(request.decidedAt!).toLocaleDateString()}`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-400 font-mono mb-2">
+                    For {formatAddress(request.subject)}
+                  </p>
+                  {request.message && (
+                    <p className="text-sm text-gray-300 mb-3">
+                      &ldquo;{request.message}&rdquo;
+                    </p>
+                  )}
+                  <input
+                    type="text"
+                    value={reasons[request.id] ?? ""}
+                    onChange={(e) =>
+                      setReasons((current) => ({
+                        ...current,
+                        [request.id]: e.target.value,
+                      }))
+                    }
+                    placeholder={
+                      request.status === "pending"
+                        ? "Reason, if declining"
+                        : "Reason for revoking"
+                    }
+                    className="w-full mb-3 p-2 rounded-lg bg-white/5 border border-white/10 focus:border-purple-500/50 outline-none text-sm text-gray-200"
+                  />
+                  {request.status === "approved" ? (
+                    <NeonButton
+                      onClick={() => handleDecision(request, "revocation")}
+                      disabled={busy}
+                      size="sm"
+                      variant="pink"
+                      className="w-full"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      {busy ? "Working..." : "Revoke Attestation"}
+                    </NeonButton>
+                  ) : (
+                    <div className="flex gap-3">
+                      <NeonButton
+                        onClick={() => handleDecision(request, "approval")}
+                        disabled={busy}
+                        size="sm"
+                        variant="green"
+                        className="flex-1"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        {busy ? "Working..." : "Sign & Approve"}
+                      </NeonButton>
+                      <NeonButton
+                        onClick={() => handleDecision(request, "rejection")}
+                        disabled={busy}
+                        size="sm"
+                        variant="pink"
+                        className="flex-1"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Decline
+                      </NeonButton>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { TrendingDown } from "lucide-react";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { attestationTypeInfo, useCatalog } from "@/lib/catalog";
+
+interface BreakdownAttestation {
+  id: string;
+  type: string;
+  score: number;
+  decayedPoints: number;
+  weight: number;
+  revokedAt: string | null;
+  revocationReason: string | null;
+  nextDecayAt: string | null;
+}
+
+interface Breakdown {
+  attestationPoints: number;
+  otherPoints: number;
+  decayApplied: number;
+  nextDecayAt: string | null;
+  attestations: BreakdownAttestation[];
+}
+
+interface ReputationBreakdownProps {
+  userIdentifier: string;
+  // Bump to reload, e.g. after an attestation is added
+  refreshKey: number;
+  onSessionExpired: () => void;
+}
+
+// How the backend arrives at the score: attestation weights after decay and
+// revocation, and when decay next applies
+export const ReputationBreakdown: React.FC<ReputationBreakdownProps> = ({
+  userIdentifier,
+  refreshKey,
+  onSessionExpired,
+}) => {
+  const [breakdown, setBreakdown] = useState<Breakdown | null>(null);
+  const catalog = useCatalog();
+
+  const loadBreakdown = useCallback(async () => {
+    try {
+      const result = await apiRequest("GET", `/users/${userIdentifier}`);
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load profile");
+      }
+      setBreakdown(result.profile.reputation);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load reputation breakdown:", error);
+    }
+  }, [userIdentifier, onSessionExpired]);
+
+  // refreshKey only asks for a reload
+  useEffect(() => {
+    loadBreakdown();
+  }, [loadBreakdown, refreshKey]);
+
+  if (!breakdown) {
+    return null;
+  }
+
+  const changed = breakdown.attestations.filter(
+    (attestation) => attestation.revokedAt || attestation.decayedPoints > 0
+  );
+
+  return (
+    <div className="mt-6 text-left text-xs text-gray-400 space-y-1">
+      <div className="flex justify-between">
+        <span>Attestations</span>
+        <span className="text-gray-200">{breakdown.attestationPoints} pts</span>
+      </div>
+      <div className="flex justify-between">
+        <span>Verification and other</span>
+        <span className="text-gray-200">{breakdown.otherPoints} pts</span>
+      </div>
+      {breakdown.decayApplied > 0 && (
+        <div className="flex justify-between">
+          <span className="flex items-center">
+            <TrendingDown className="w-3 h-3 mr-1 text-yellow-400" />
+            Lost to age
+          </span>
+          <span className="text-yellow-300">-{breakdown.decayApplied} pts</span>
+        </div>
+      )}
+      {breakdown.nextDecayAt && (
+        <p className="text-gray-500">
+          Older attestations next lose weight on{" "}
+          {new Date(breakdown.nextDecayAt).toLocaleDateString()}
+        </p>
+      )}
+      {changed.map((attestation) => (
+        <p key={attestation.id} className="text-gray-500">
+          {attestationTypeInfo(catalog, attestation.type)?.title ?? attestation.type}:{" "}
+          {attestation.revokedAt
+            ? `revoked (${attestation.revocationReason})`
+            : `${attestation.weight} of ${attestation.score} pts`}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import {
   Award,
@@ -16,8 +16,26 @@ import {
 } from "lucide-react";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { NeonButton } from "@/components/ui/NeonButton";
-import { ATTESTATION_TYPES, SERVICE_REQUIREMENTS } from "@/lib/utils";
+import { formatAddress } from "@/lib/utils";
+import { toUserAddress, userIdentifierFormat } from "@/lib/shared/user-address";
+import type {
+  AddAttestationRequest,
+  AttestationType,
+  RequestAttestationRequest,
+} from "@/lib/shared/api-types";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import {
+  canUseService,
+  serviceInfo,
+  useCatalog,
+  type AttestationTypeInfo,
+  type ServiceInfo,
+} from "@/lib/catalog";
+import { hasWallet, signAttestation } from "@/lib/wallet";
 import toast from "react-hot-toast";
+import { AttestationRequests } from "./AttestationRequests";
+import { AttesterInbox } from "./AttesterInbox";
+import { ReputationBreakdown } from "./ReputationBreakdown";
 
 interface ReputationDashboardProps {
   userIdentifier: string;
@@ -25,6 +43,13 @@ interface ReputationDashboardProps {
   attestations: any[];
   onAttestationAdded: (attestation: any) => void;
   onContinue: () => void;
+  onSessionExpired: () => void;
+}
+
+interface RegisteredAttester {
+  address: string;
+  name: string;
+  attestationTypes: AttestationType[];
 }
 
 export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
@@ -33,34 +58,136 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
   attestations,
   onAttestationAdded,
   onContinue,
+  onSessionExpired,
 }) => {
   const [isAddingAttestation, setIsAddingAttestation] = useState(false);
   const [selectedAttestationType, setSelectedAttestationType] = useState<
     string | null
   >(null);
+  // The type the user is collecting a signature for, and what they pasted
+  const [signingType, setSigningType] =
+    useState<AttestationTypeInfo | null>(null);
+  const [signedAttestation, setSignedAttestation] = useState("");
+  const [attesters, setAttesters] = useState<RegisteredAttester[]>([]);
+  const [requestsVersion, setRequestsVersion] = useState(0);
+  const catalog = useCatalog();
 
-  const availableAttestations = Object.values(ATTESTATION_TYPES).filter(
+  const availableAttestations = (catalog?.attestationTypes ?? []).filter(
     (type) => !attestations.find((att) => att.type === type.type)
   );
 
-  const handleAddAttestation = (type: any) => {
-    setIsAddingAttestation(true);
+  // The address the contracts record this identity's reputation under
+  const onChainAddress = userIdentifierFormat(userIdentifier)
+    ? toUserAddress(userIdentifier)
+    : null;
+
+  const closeModal = () => {
+    setSelectedAttestationType(null);
+    setSigningType(null);
+    setSignedAttestation("");
+  };
+
+  const loadAttesters = async () => {
+    try {
+      const result = await apiRequest("GET", "/attesters");
+      setAttesters(result.attesters || []);
+    } catch (error) {
+      console.error("Failed to load attesters:", error);
+      setAttesters([]);
+    }
+  };
+
+  useEffect(() => {
+    loadAttesters();
+  }, []);
+
+  // Attestations need a registered attester's signature; show who can sign
+  const handleAddAttestation = async (type: AttestationTypeInfo) => {
+    setSigningType(type);
+    setSignedAttestation("");
+    await loadAttesters();
+  };
 
-    // Simulate attestation process
-    setTimeout(() => {
-      const newAttestation = {
-        id: Date.now().toString(),
-        ...type,
-        timestamp: new Date().toISOString(),
-        attester: `0x${Math.random().toString(16).substr(2, 40)}`,
+  // Send the attester a request to approve from their inbox
+  const handleRequestFromAttester = async (attester: RegisteredAttester) => {
+    if (!signingType) return;
+
+    setIsAddingAttestation(true);
+    try {
+      const request: RequestAttestationRequest = {
+        attestationType: signingType.type,
+        attester: attester.address,
       };
+      const result = await apiRequest(
+        "POST",
+        `/users/${userIdentifier}/attestation-requests`,
+        request
+      );
+      if (!result.success) {
+        throw new Error(result.message || "Request failed");
+      }
 
-      onAttestationAdded(newAttestation);
+      closeModal();
+      setRequestsVersion((version) => version + 1);
+      toast.success(`Request sent to ${attester.name}`);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        closeModal();
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Request failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
       setIsAddingAttestation(false);
-      setSelectedAttestationType(null);
+    }
+  };
+
+  // The attester is here with their wallet: sign on this device
+  const handleSignHere = async () => {
+    if (!signingType || !onChainAddress) return;
+    try {
+      const signed = await signAttestation(onChainAddress, signingType.type);
+      setSignedAttestation(JSON.stringify(signed, null, 2));
+    } catch (error) {
+      toast.error(
+        `Signing failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  };
+
+  const handleSubmitSigned = async () => {
+    if (!signingType) return;
+
+    let request: AddAttestationRequest;
+    try {
+      request = JSON.parse(signedAttestation);
+    } catch {
+      toast.error("Paste the signed attestation exactly as the attester sent it");
+      return;
+    }
+    if (request.attestationType !== signingType.type) {
+      toast.error(`That attestation is for ${request.attestationType}`);
+      return;
+    }
+
+    setIsAddingAttestation(true);
+    try {
+      const result = await apiRequest(
+        "POST",
+        `/users/${userIdentifier}/attestations`,
+        request
+      );
+      if (!result.success) {
+        throw new Error(result.message || "Attestation rejected");
+      }
+
+      onAttestationAdded({ ...signingType, ...result.attestation });
+      closeModal();
 
-      toast.success(`${type.title} added successfully!`, {
-        icon: type.icon,
+      toast.success(`${signingType.title} added successfully!`, {
+        icon: signingType.icon,
         style: {
           borderRadius: "10px",
           background: "#1a1a2e",
@@ -68,12 +195,34 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
           border: "1px solid #7c3aed",
         },
       });
-    }, 2000);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        closeModal();
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Attestation failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setIsAddingAttestation(false);
+    }
   };
 
-  const getServiceStatus = (minScore: number) => {
-    if (score >= minScore) return "unlocked";
-    const progress = (score / minScore) * 100;
+  const attesterNames = Object.fromEntries(
+    attesters.map((attester) => [attester.address, attester.name])
+  );
+
+  const attestersForType = signingType
+    ? attesters.filter((attester) =>
+        attester.attestationTypes.includes(signingType.type)
+      )
+    : [];
+
+  const getServiceStatus = (service: ServiceInfo) => {
+    if (canUseService(service, score)) return "unlocked";
+    if (!service.isActive) return "locked";
+    const progress = (score / service.minReputation) * 100;
     if (progress >= 75) return "nearly";
     return "locked";
   };
@@ -190,14 +339,23 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
                 Your Trust Level
               </h3>
 
+              {onChainAddress && (
+                <p
+                  className="text-xs text-gray-500 font-mono -mt-2 mb-4 lg:mb-6"
+                  title={onChainAddress}
+                >
+                  On-chain: {formatAddress(onChainAddress)}
+                </p>
+              )}
+
               {/* Service Unlock Status */}
               <div className="space-y-2 lg:space-y-3">
-                {Object.entries(SERVICE_REQUIREMENTS).map(
-                  ([key, service], index) => {
-                    const status = getServiceStatus(service.minScore);
+                {(catalog?.services ?? []).map(
+                  (service, index) => {
+                    const status = getServiceStatus(service);
                     return (
                       <motion.div
-                        key={key}
+                        key={service.key}
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: 0.1 * index }}
@@ -226,8 +384,10 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
                           </span>
                         </div>
                         <span className="text-xs text-gray-500 flex-shrink-0">
-                          {service.minScore > 0
-                            ? `${service.minScore} pts`
+                          {!service.isActive
+                            ? "Unavailable"
+                            : service.minReputation > 0
+                            ? `${service.minReputation} pts`
                             : "Free"}
                         </span>
                       </motion.div>
@@ -235,6 +395,12 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
                   }
                 )}
               </div>
+
+              <ReputationBreakdown
+                userIdentifier={userIdentifier}
+                refreshKey={attestations.length}
+                onSessionExpired={onSessionExpired}
+              />
             </div>
           </GlassCard>
         </motion.div>
@@ -321,8 +487,19 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
               </div>
             )}
 
+            <AttestationRequests
+              userIdentifier={userIdentifier}
+              refreshKey={requestsVersion}
+              knownAttestationIds={attestations.map(
+                (attestation) => attestation.id
+              )}
+              attesterNames={attesterNames}
+              onApproved={onAttestationAdded}
+              onSessionExpired={onSessionExpired}
+            />
+
             {/* Continue Button */}
-            {score >= 50 && (
+            {canUseService(serviceInfo(catalog, "microloan"), score) && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -348,15 +525,15 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
         </motion.div>
       </div>
 
+      <AttesterInbox onSessionExpired={onSessionExpired} />
+
       {/* Add Attestation Modal */}
       {selectedAttestationType && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
-          onClick={() =>
-            !isAddingAttestation && setSelectedAttestationType(null)
-          }
+          onClick={() => !isAddingAttestation && closeModal()}
         >
           <motion.div
             initial={{ scale: 0.9 }}
@@ -366,7 +543,77 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
             <GlassCard className="p-8 max-w-md w-full">
               <h3 className="text-2xl font-semibold mb-6">Add Attestation</h3>
 
-              {availableAttestations.length === 0 ? (
+              {signingType ? (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-3">
+                    <div className="text-3xl">{signingType.icon}</div>
+                    <h4 className="font-semibold text-white">
+                      {signingType.title}
+                    </h4>
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    Send a request to one of these attesters, or paste an
+                    attestation they signed for your address{" "}
+                    <span className="font-mono text-purple-300">
+                      {onChainAddress ? formatAddress(onChainAddress) : "unknown"}
+                    </span>
+                    .
+                  </p>
+                  {attestersForType.length === 0 ? (
+                    <p className="text-sm text-yellow-400">
+                      No registered attester can sign this type yet.
+                    </p>
+                  ) : (
+                    <ul className="text-sm text-gray-300 space-y-2">
+                      {attestersForType.map((attester) => (
+                        <li
+                          key={attester.address}
+                          className="flex items-center justify-between gap-3"
+                        >
+                          <span>
+                            {attester.name}{" "}
+                            <span className="font-mono text-gray-500">
+                              {formatAddress(attester.address)}
+                            </span>
+                          </span>
+                          <button
+                            onClick={() => handleRequestFromAttester(attester)}
+                            disabled={isAddingAttestation}
+                            className="text-xs text-purple-400 hover:text-purple-300 transition-colors flex-shrink-0"
+                          >
+                            Request
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <textarea
+                    value={signedAttestation}
+                    onChange={(e) => setSignedAttestation(e.target.value)}
+                    placeholder='{ "attestationType": ..., "signature": ... }'
+                    rows={6}
+                    className="w-full p-3 rounded-lg bg-white/5 border border-white/10 focus:border-purple-500/50 outline-none text-xs font-mono text-gray-200"
+                  />
+                  {hasWallet() && onChainAddress && (
+                    <button
+                      onClick={handleSignHere}
+                      disabled={isAddingAttestation}
+                      className="text-xs text-purple-400 hover:text-purple-300 transition-colors"
+                    >
+                      I&apos;m the attester: sign with my wallet on this device
+                    </button>
+                  )}
+                  <NeonButton
+                    onClick={handleSubmitSigned}
+                    disabled={!signedAttestation.trim() || isAddingAttestation}
+                    size="sm"
+                    variant="blue"
+                    className="w-full"
+                  >
+                    {isAddingAttestation ? "Verifying..." : "Submit Attestation"}
+                  </NeonButton>
+                </div>
+              ) : availableAttestations.length === 0 ? (
                 <div className="text-center py-8">
                   <Award className="w-16 h-16 text-gray-600 mx-auto mb-4" />
                   <p className="text-gray-400">All attestations completed!</p>
@@ -406,7 +653,7 @@ export const ReputationDashboard: React.FC<ReputationDashboardProps> = ({
 
               {!isAddingAttestation && (
                 <button
-                  onClick={() => setSelectedAttestationType(null)}
+                  onClick={closeModal}
                   className="mt-6 w-full py-2 text-gray-400 hover:text-white transition-colors"
                 >
                   Cancel
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Gift, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import type { AirdropSummary } from "@/lib/shared/api-types";
+
+export interface AirdropReceipt {
+  id: string;
+  amount: string;
+  transactionHash: string;
+}
+
+interface MyAirdropsProps {
+  // Bump to reload, e.g. after the community airdrop is claimed
+  refreshKey: number;
+  // The community airdrop is claimed from its service modal, which shows
+  // the bonus and signs the claim for wallet identities
+  onClaimCommunity: () => void;
+  onClaimed: (receipt: AirdropReceipt) => void;
+  onSessionExpired: () => void;
+}
+
+const statusStyles: Record<AirdropSummary["status"], string> = {
+  claimable: "bg-green-500/20 text-green-300",
+  claimed: "bg-blue-500/20 text-blue-300",
+  ineligible: "bg-gray-500/20 text-gray-400",
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : null;
+}
+
+export const MyAirdrops: React.FC<MyAirdropsProps> = ({
+  refreshKey,
+  onClaimCommunity,
+  onClaimed,
+  onSessionExpired,
+}) => {
+  const [airdrops, setAirdrops] = useState<AirdropSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  const loadAirdrops = useCallback(async () => {
+    try {
+      const result = await apiRequest("GET", "/airdrops");
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load airdrops");
+      }
+      setAirdrops(result.airdrops);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load airdrops:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onSessionExpired]);
+
+  // refreshKey only asks for a reload
+  useEffect(() => {
+    loadAirdrops();
+  }, [loadAirdrops, refreshKey]);
+
+  const handleClaim = async (airdrop: AirdropSummary) => {
+    if (airdrop.kind === "community") {
+      onClaimCommunity();
+      return;
+    }
+
+    setClaimingId(airdrop.id);
+    try {
+      const result = await apiRequest("POST", `/airdrops/${airdrop.id}/claims`);
+      if (!result.success) {
+        throw new Error(result.message || "Airdrop failed");
+      }
+      onClaimed({
+        id: result.transaction.id,
+        amount: result.amount,
+        transactionHash: result.transactionHash,
+      });
+      toast.success(
+        `🎉 ${airdrop.name} claimed! TX: ${result.transactionHash?.substring(
+          0,
+          10
+        )}...`
+      );
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Airdrop failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setClaimingId(null);
+      await loadAirdrops();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <GlassCard className="p-8 mb-12" hover={false}>
+        <div className="flex items-center justify-center text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading airdrops...
+        </div>
+      </GlassCard>
+    );
+  }
+
+  if (airdrops.length === 0) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-12"
+    >
+      <GlassCard className="p-8" hover={false}>
+        <div className="flex items-center space-x-3 mb-6">
+          <Gift className="w-6 h-6 text-purple-400" />
+          <h3 className="text-2xl font-semibold">Airdrops</h3>
+        </div>
+
+        <div className="space-y-4">
+          {airdrops.map((airdrop) => (
+            <div
+              key={airdrop.id}
+              className="p-4 rounded-lg bg-white/5 border border-white/10"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold">{airdrop.name}</span>
+                <span
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    statusStyles[airdrop.status]
+                  }`}
+                >
+                  {airdrop.status}
+                </span>
+              </div>
+              {airdrop.description && (
+                <p className="text-sm text-gray-400 mb-2">
+                  {airdrop.description}
+                </p>
+              )}
+              <div className="text-sm text-gray-300 mb-2">
+                {airdrop.claim
+                  ? `You received ${airdrop.claim.amount}`
+                  : `${airdrop.allocation} ${airdrop.token.symbol} each`}
+                {formatDate(airdrop.endsAt) &&
+                  ` · until ${formatDate(airdrop.endsAt)}`}
+              </div>
+
+              {airdrop.reasons.length > 0 && (
+                <ul className="text-xs text-gray-500 list-disc list-inside mb-2">
+                  {airdrop.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+
+              {airdrop.status === "claimable" && (
+                <NeonButton
+                  size="sm"
+                  onClick={() => handleClaim(airdrop)}
+                  disabled={claimingId !== null}
+                >
+                  {claimingId === airdrop.id ? "Claiming..." : "Claim"}
+                </NeonButton>
+              )}
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+};
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Calendar, Loader2, Wallet } from "lucide-react";
+import toast from "react-hot-toast";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { canSignActions, signAndRelay } from "@/lib/wallet";
+
+interface LoanSchedule {
+  termDays: number;
+  startDate: string | null;
+  dueDate: string | null;
+  interestAtMaturity: string;
+  totalAtMaturity: string;
+}
+
+interface Loan {
+  loanId: number;
+  status: "pending_approval" | "active" | "repaid" | "defaulted";
+  principal: string;
+  interestRate: number;
+  repaid: string;
+  totalDue: string;
+  outstanding: string;
+  schedule: LoanSchedule;
+}
+
+interface BorrowerProfile {
+  totalBorrowed: string;
+  totalRepaid: string;
+  activeLoans: number;
+  defaultedLoans: number;
+  lastLoanTime: string | null;
+  isBanned: boolean;
+}
+
+interface MyLoansProps {
+  // Bump to reload, e.g. after a new loan is taken out
+  refreshKey: number;
+  onSessionExpired: () => void;
+}
+
+const statusStyles: Record<Loan["status"], string> = {
+  pending_approval: "bg-yellow-500/20 text-yellow-300",
+  active: "bg-blue-500/20 text-blue-300",
+  repaid: "bg-green-500/20 text-green-300",
+  defaulted: "bg-red-500/20 text-red-300",
+};
+
+function formatTokens(value: string) {
+  return Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+export const MyLoans: React.FC<MyLoansProps> = ({
+  refreshKey,
+  onSessionExpired,
+}) => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [borrower, setBorrower] = useState<BorrowerProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [repayAmounts, setRepayAmounts] = useState<Record<number, string>>({});
+  const [repayingLoanId, setRepayingLoanId] = useState<number | null>(null);
+
+  const loadLoans = useCallback(async () => {
+    try {
+      const result = await apiRequest("GET", "/loans");
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load loans");
+      }
+      setLoans(result.loans);
+      setBorrower(result.borrower);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load loans:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onSessionExpired]);
+
+  useEffect(() => {
+    loadLoans();
+  }, [loadLoans, refreshKey]);
+
+  const handleRepay = async (loan: Loan, full: boolean) => {
+    const amount = Number(repayAmounts[loan.loanId]);
+    if (!full && !(amount > 0)) {
+      toast.error("Enter an amount to repay");
+      return;
+    }
+
+    setRepayingLoanId(loan.loanId);
+    try {
+      // Repayments come from the borrower's own tokens: the wallet signs
+      // the repayment (and any approval it needs) and the backend relays it
+      const result = await signAndRelay({
+        action: "repayLoan",
+        loanId: loan.loanId,
+        ...(full ? {} : { amount }),
+      });
+      if (!result.success) {
+        throw new Error(result.message || "Repayment failed");
+      }
+
+      toast.success(
+        `✅ ${result.message}. TX: ${result.transactionHash?.substring(0, 10)}...`
+      );
+      setRepayAmounts((current) => ({ ...current, [loan.loanId]: "" }));
+      await loadLoans();
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Repayment failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setRepayingLoanId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <GlassCard className="p-8 mb-12" hover={false}>
+        <div className="flex items-center justify-center text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading your loans...
+        </div>
+      </GlassCard>
+    );
+  }
+
+  if (loans.length === 0) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-12"
+    >
+      <GlassCard className="p-8" hover={false}>
+        <div className="flex items-center space-x-3 mb-6">
+          <Wallet className="w-6 h-6 text-purple-400" />
+          <h3 className="text-2xl font-semibold">My Loans</h3>
+        </div>
+
+        {/* Borrower Stats */}
+        {borrower && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            {[
+              { label: "Borrowed", value: formatTokens(borrower.totalBorrowed) },
+              { label: "Repaid", value: formatTokens(borrower.totalRepaid) },
+              { label: "Active Loans", value: borrower.activeLoans },
+              { label: "Defaults", value: borrower.defaultedLoans },
+            ].map((stat) => (
+              <div key={stat.label} className="text-center">
+                <div className="text-lg font-semibold text-white">
+                  {stat.value}
+                </div>
+                <div className="text-xs text-gray-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {loans.map((loan) => (
+            <div
+              key={loan.loanId}
+              className="p-4 rounded-lg bg-white/5 border border-white/10"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <span className="font-semibold">Loan #{loan.loanId}</span>
+                <span
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    statusStyles[loan.status]
+                  }`}
+                >
+                  {loan.status.replace("_", " ")}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                <div>
+                  <div className="text-gray-500">Principal</div>
+                  <div>{formatTokens(loan.principal)} TOKENS</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Interest</div>
+                  <div>{loan.interestRate}% APR</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Repaid</div>
+                  <div>{formatTokens(loan.repaid)} TOKENS</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Remaining Debt</div>
+                  <div className="text-white font-semibold">
+                    {formatTokens(loan.outstanding)} TOKENS
+                  </div>
+                </div>
+              </div>
+
+              {/* Repayment Schedule */}
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-gray-400 mb-4">
+                <span className="flex items-center">
+                  <Calendar className="w-3 h-3 mr-1" />
+                  {formatDate(loan.schedule.startDate)} →{" "}
+                  {formatDate(loan.schedule.dueDate)} ({loan.schedule.termDays}{" "}
+                  days)
+                </span>
+                <span>
+                  Due at maturity:{" "}
+                  {formatTokens(loan.schedule.totalAtMaturity)} TOKENS
+                </span>
+              </div>
+
+              {loan.status === "active" && !canSignActions() && (
+                <p className="text-xs text-gray-400">
+                  Repayments are paid from your own wallet. Verify with your
+                  wallet address as the Self user ID to repay this loan.
+                </p>
+              )}
+
+              {loan.status === "active" && canSignActions() && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="Amount"
+                    value={repayAmounts[loan.loanId] || ""}
+                    onChange={(e) =>
+                      setRepayAmounts((current) => ({
+                        ...current,
+                        [loan.loanId]: e.target.value,
+                      }))
+                    }
+                    className="flex-1 px-3 py-2 rounded-lg bg-black/30 border border-white/10 text-white text-sm focus:outline-none focus:border-purple-500"
+                  />
+                  <NeonButton
+                    size="sm"
+                    variant="blue"
+                    glow={false}
+                    disabled={repayingLoanId !== null}
+                    onClick={() => handleRepay(loan, false)}
+                  >
+                    Repay
+                  </NeonButton>
+                  <NeonButton
+                    size="sm"
+                    variant="green"
+                    glow={false}
+                    disabled={repayingLoanId !== null}
+                    onClick={() => handleRepay(loan, true)}
+                  >
+                    {repayingLoanId === loan.loanId
+                      ? "Processing..."
+                      : "Repay in Full"}
+                  </NeonButton>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+};
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle, Clock, Loader2, ThumbsDown, ThumbsUp, Vote } from "lucide-react";
+import toast from "react-hot-toast";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { canSignActions, signAndRelay } from "@/lib/wallet";
+import type { CastVoteRequest } from "@/lib/shared/api-types";
+
+export interface Proposal {
+  proposalId: number;
+  description: string;
+  startTime: string;
+  endTime: string;
+  forVotes: number;
+  againstVotes: number;
+  executed: boolean;
+  minReputationRequired: number;
+  proposer: string;
+  status: "active" | "passed" | "rejected" | "executed";
+  hasVoted: boolean;
+  eligible: boolean;
+}
+
+export interface VoteReceipt {
+  id: string;
+  proposalId: number;
+  vote: "Yes" | "No";
+  transactionHash: string;
+}
+
+interface ProposalBrowserProps {
+  reputationScore: number;
+  onProposalsLoaded: (proposals: Proposal[]) => void;
+  onVoted: (receipt: VoteReceipt) => void;
+  onSessionExpired: () => void;
+}
+
+const statusStyles: Record<Proposal["status"], string> = {
+  active: "bg-blue-500/20 text-blue-300",
+  passed: "bg-green-500/20 text-green-300",
+  rejected: "bg-red-500/20 text-red-300",
+  executed: "bg-purple-500/20 text-purple-300",
+};
+
+function timeRemaining(endTime: string) {
+  const ms = new Date(endTime).getTime() - Date.now();
+  if (ms <= 0) return "Voting closed";
+
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h left`;
+  return `${hours}h ${Math.floor((ms / 60000) % 60)}m left`;
+}
+
+export const ProposalBrowser: React.FC<ProposalBrowserProps> = ({
+  reputationScore,
+  onProposalsLoaded,
+  onVoted,
+  onSessionExpired,
+}) => {
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [votingOn, setVotingOn] = useState<number | null>(null);
+
+  const loadProposals = useCallback(async () => {
+    try {
+      const result = await apiRequest("GET", "/proposals");
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load proposals");
+      }
+      setProposals(result.proposals);
+      onProposalsLoaded(result.proposals);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load proposals:", error);
+      toast.error("Could not load governance proposals");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onProposalsLoaded, onSessionExpired]);
+
+  useEffect(() => {
+    loadProposals();
+  }, [loadProposals]);
+
+  const handleVote = async (proposal: Proposal, support: boolean) => {
+    setVotingOn(proposal.proposalId);
+    try {
+      const ballot: Omit<CastVoteRequest, "proposalId"> = {
+        vote: support ? "Yes" : "No",
+      };
+      // Wallet identities sign the vote themselves; the backend pays the gas
+      const result = canSignActions()
+        ? await signAndRelay({
+            action: "vote",
+            proposalId: proposal.proposalId,
+            ...ballot,
+          })
+        : await apiRequest(
+            "POST",
+            `/proposals/${proposal.proposalId}/votes`,
+            ballot
+          );
+      if (!result.success) {
+        throw new Error(result.message || "Vote failed");
+      }
+
+      toast.success(
+        `🗳️ Voted ${support ? "For" : "Against"} proposal #${
+          proposal.proposalId
+        }! TX: ${result.transactionHash?.substring(0, 10)}...`
+      );
+      onVoted({
+        id: result.transaction?.id || Date.now().toString(),
+        proposalId: proposal.proposalId,
+        vote: support ? "Yes" : "No",
+        transactionHash: result.transactionHash,
+      });
+      await loadProposals();
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      toast.error(
+        `Vote failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setVotingOn(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-12"
+    >
+      <GlassCard className="p-8" hover={false}>
+        <div className="flex items-center space-x-3 mb-6">
+          <Vote className="w-6 h-6 text-purple-400" />
+          <h3 className="text-2xl font-semibold">Governance Proposals</h3>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center justify-center text-gray-400 py-6">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Loading proposals...
+          </div>
+        )}
+
+        {!isLoading && proposals.length === 0 && (
+          <p className="text-gray-400 text-center py-6">
+            No proposals yet. Check back soon.
+          </p>
+        )}
+
+        <div className="space-y-4">
+          {proposals.map((proposal) => {
+            const totalVotes = proposal.forVotes + proposal.againstVotes;
+            const forShare =
+              totalVotes > 0 ? (proposal.forVotes / totalVotes) * 100 : 0;
+            const canVote =
+              proposal.status === "active" &&
+              proposal.eligible &&
+              !proposal.hasVoted;
+
+            return (
+              <div
+                key={proposal.proposalId}
+                className="p-4 rounded-lg bg-white/5 border border-white/10"
+              >
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      Proposal #{proposal.proposalId} by{" "}
+                      {proposal.proposer.slice(0, 6)}…
+                      {proposal.proposer.slice(-4)}
+                    </div>
+                    <p className="text-white">{proposal.description}</p>
+                  </div>
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${
+                      statusStyles[proposal.status]
+                    }`}
+                  >
+                    {proposal.status}
+                  </span>
+                </div>
+
+                {/* Tallies */}
+                <div className="mb-3">
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>For: {proposal.forVotes}</span>
+                    <span>Against: {proposal.againstVotes}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-red-500/30 overflow-hidden">
+                    <div
+                      className="h-full bg-green-500"
+                      style={{ width: `${forShare}%` }}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-gray-400 mb-4">
+                  <span className="flex items-center">
+                    <Clock className="w-3 h-3 mr-1" />
+                    Ends {new Date(proposal.endTime).toLocaleString()} (
+                    {timeRemaining(proposal.endTime)})
+                  </span>
+                  <span
+                    className={
+                      proposal.eligible ? "text-green-400" : "text-red-400"
+                    }
+                  >
+                    Requires {proposal.minReputationRequired} reputation (you
+                    have {reputationScore})
+                  </span>
+                </div>
+
+                {proposal.hasVoted ? (
+                  <div className="flex items-center text-sm text-green-400">
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    You voted on this proposal
+                  </div>
+                ) : (
+                  proposal.status === "active" && (
+                    <div className="flex gap-2">
+                      <NeonButton
+                        size="sm"
+                        variant="green"
+                        glow={false}
+                        className="flex-1"
+                        disabled={!canVote || votingOn !== null}
+                        onClick={() => handleVote(proposal, true)}
+                      >
+                        <span className="flex items-center justify-center">
+                          <ThumbsUp className="w-4 h-4 mr-1" />
+                          For
+                        </span>
+                      </NeonButton>
+                      <NeonButton
+                        size="sm"
+                        variant="pink"
+                        glow={false}
+                        className="flex-1"
+                        disabled={!canVote || votingOn !== null}
+                        onClick={() => handleVote(proposal, false)}
+                      >
+                        <span className="flex items-center justify-center">
+                          <ThumbsDown className="w-4 h-4 mr-1" />
+                          Against
+                        </span>
+                      </NeonButton>
+                    </div>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+};
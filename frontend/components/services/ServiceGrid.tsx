@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Coins,
@@ -18,17 +18,29 @@ import {
 } from "lucide-react";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { NeonButton } from "@/components/ui/NeonButton";
+import { calculateLoanAmount, generateMockTransaction } from "@/lib/utils";
+import { apiRequest, SessionExpiredError } from "@/lib/api";
+import { canUseService, serviceInfo, useCatalog } from "@/lib/catalog";
+import { canSignActions, signAndRelay } from "@/lib/wallet";
+import { MyAirdrops } from "@/components/services/MyAirdrops";
+import type { AirdropReceipt } from "@/components/services/MyAirdrops";
+import { MyLoans } from "@/components/services/MyLoans";
 import {
-  calculateLoanAmount,
-  generateMockTransaction,
-  SERVICE_REQUIREMENTS,
-} from "@/lib/utils";
+  Proposal,
+  ProposalBrowser,
+  VoteReceipt,
+} from "@/components/services/ProposalBrowser";
+import type {
+  AirdropBonusResponse,
+  ApplyMicroloanRequest,
+} from "@/lib/shared/api-types";
 import toast from "react-hot-toast";
 
 interface ServiceGridProps {
   userIdentifier: string;
   reputationScore: number;
   onBack: () => void;
+  onSessionExpired: () => void;
 }
 
 interface Transaction {
@@ -44,16 +56,85 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
   userIdentifier,
   reputationScore,
   onBack,
+  onSessionExpired,
 }) => {
   const [selectedService, setSelectedService] = useState<string | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [loansVersion, setLoansVersion] = useState(0);
+  const [airdropsVersion, setAirdropsVersion] = useState(0);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [airdropBonus, setAirdropBonus] =
+    useState<AirdropBonusResponse | null>(null);
+  const proposalsRef = useRef<HTMLDivElement>(null);
+  const catalog = useCatalog();
+
+  // Threshold and availability as the identity contract has them
+  const requirement = (key: string) => {
+    const service = serviceInfo(catalog, key);
+    return {
+      minScore: service?.minReputation ?? 0,
+      active: service?.isActive ?? true,
+      available: canUseService(service, reputationScore),
+    };
+  };
+
+  const handleVoted = (receipt: VoteReceipt) => {
+    const transaction: Transaction = {
+      id: receipt.id,
+      type: "Vote",
+      amount: `${receipt.vote === "Yes" ? "For" : "Against"} proposal #${
+        receipt.proposalId
+      }`,
+      status: "completed",
+      timestamp: new Date().toISOString(),
+      hash: receipt.transactionHash,
+    };
+    setTransactions((prev) => [transaction, ...prev]);
+  };
+
+  const handleAirdropClaimed = (receipt: AirdropReceipt) => {
+    const transaction: Transaction = {
+      id: receipt.id,
+      type: "Airdrop",
+      amount: receipt.amount,
+      status: "completed",
+      timestamp: new Date().toISOString(),
+      hash: receipt.transactionHash,
+    };
+    setTransactions((prev) => [transaction, ...prev]);
+  };
+
+  // Governance has no modal; proposals are voted on individually below
+  const openService = (serviceId: string) => {
+    if (serviceId === "governance") {
+      proposalsRef.current?.scrollIntoView({ behavior: "smooth" });
+      return;
+    }
+    setSelectedService(serviceId);
+    if (serviceId === "airdrop") {
+      loadAirdropBonus();
+    }
+  };
+
+  // Any bonus the user has in the airdrop's Merkle tree
+  const loadAirdropBonus = async () => {
+    try {
+      const result = await apiRequest("GET", "/airdrops/monthly/bonus");
+      setAirdropBonus(result.success ? result : null);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        onSessionExpired();
+        return;
+      }
+      console.error("Failed to load airdrop bonus:", error);
+    }
+  };
 
   const handleServiceAction = async (service: string) => {
     setIsProcessing(true);
 
     try {
-      let response;
       let transaction;
 
       switch (service) {
@@ -61,53 +142,41 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
           const loanAmount = calculateLoanAmount(reputationScore);
 
           // Call real backend API for microloan
-          response = await fetch(
-            `${process.env.NEXT_PUBLIC_API_URL}/api/verify`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                action: "applyMicroloan",
-                userIdentifier,
-                requestedAmount: loanAmount,
-              }),
-            }
-          );
-
-          const loanResult = await response.json();
+          const loanRequest: ApplyMicroloanRequest = {
+            requestedAmount: loanAmount,
+          };
+          const loanResult = await apiRequest("POST", "/loans", loanRequest);
 
           if (loanResult.success) {
             transaction = {
               id: loanResult.transaction?.id || Date.now().toString(),
               type: "Microloan",
               amount: `$${loanResult.approvedAmount}`,
-              status: "completed",
+              status: loanResult.status,
               timestamp: new Date().toISOString(),
               hash: loanResult.transactionHash || `loan_${Date.now()}`,
             };
             toast.success(
-              `💰 Microloan approved for $${loanResult.approvedAmount}!`
+              loanResult.status === "active"
+                ? `💰 Loan #${loanResult.loanId} approved for $${
+                    loanResult.approvedAmount
+                  } at ${loanResult.interestRate}% APR, due ${new Date(
+                    loanResult.dueDate
+                  ).toLocaleDateString()}`
+                : `📝 Loan #${loanResult.loanId} requested, awaiting approval`
             );
+            setLoansVersion((version) => version + 1);
           } else {
             throw new Error(loanResult.message || "Microloan failed");
           }
           break;
 
         case "airdrop":
-          // Call real backend API for airdrop (mints actual tokens)
-          response = await fetch(
-            `${process.env.NEXT_PUBLIC_API_URL}/api/verify`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                action: "claimAirdrop",
-                userIdentifier,
-              }),
-            }
-          );
-
-          const airdropResult = await response.json();
+          // Call real backend API for airdrop (mints actual tokens).
+          // Wallet identities sign the claim so it pays out to their wallet.
+          const airdropResult = canSignActions()
+            ? await signAndRelay({ action: "claimAirdrop" })
+            : await apiRequest("POST", "/airdrops/monthly/claims");
 
           if (airdropResult.success) {
             transaction = {
@@ -124,49 +193,12 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
                 10
               )}...`
             );
+            setAirdropsVersion((version) => version + 1);
           } else {
             throw new Error(airdropResult.message || "Airdrop failed");
           }
           break;
 
-        case "governance":
-          // Call real backend API for governance vote
-          response = await fetch(
-            `${process.env.NEXT_PUBLIC_API_URL}/api/verify`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                action: "castVote",
-                userIdentifier,
-                proposalId: 1,
-                vote: "Yes",
-              }),
-            }
-          );
-
-          const voteResult = await response.json();
-
-          if (voteResult.success) {
-            transaction = {
-              id: voteResult.transaction?.id || Date.now().toString(),
-              type: "Vote",
-              amount: `Proposal #${voteResult.proposalId}`,
-              status: "completed",
-              timestamp: new Date().toISOString(),
-              hash: voteResult.transactionHash || `vote_${Date.now()}`,
-            };
-            toast.success(
-              `🗳️ Vote cast! TX: ${voteResult.transactionHash?.substring(
-                0,
-                10
-              )}...`
-            );
-          } else {
-            throw new Error(voteResult.message || "Vote failed");
-          }
-          break;
-
         case "remittance":
           // This one can remain mock for now (no specific contract)
           transaction = generateMockTransaction("Remittance", "$250");
@@ -180,6 +212,11 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
       setTransactions((prev) => [transaction, ...prev]);
       setSelectedService(null); // Close the service modal
     } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        setSelectedService(null);
+        onSessionExpired();
+        return;
+      }
       toast.error(
         `Transaction failed: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -197,8 +234,7 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
       icon: Coins,
       title: "Anonymous Microloans",
       description: "Get instant credit based on your reputation score",
-      minScore: SERVICE_REQUIREMENTS.MICROLOAN.minScore,
-      available: reputationScore >= SERVICE_REQUIREMENTS.MICROLOAN.minScore,
+      ...requirement("microloan"),
       stats: {
         available: `$${calculateLoanAmount(reputationScore)}`,
         apr: "12%",
@@ -210,8 +246,7 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
       icon: Award,
       title: "Community Airdrops",
       description: "Claim tokens from community distributions",
-      minScore: SERVICE_REQUIREMENTS.AIRDROP.minScore,
-      available: true,
+      ...requirement("airdrop"),
       stats: {
         available: "100 TOKENS",
         frequency: "Monthly",
@@ -223,12 +258,13 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
       icon: Vote,
       title: "DAO Governance",
       description: "Vote on community proposals anonymously",
-      minScore: SERVICE_REQUIREMENTS.GOVERNANCE.minScore,
-      available: reputationScore >= SERVICE_REQUIREMENTS.GOVERNANCE.minScore,
+      ...requirement("governance"),
+      // Anyone can browse; each proposal sets its own voting threshold
+      available: true,
       stats: {
-        activeProposals: "3",
+        activeProposals: proposals.filter((p) => p.status === "active").length,
         votingPower: reputationScore,
-        participation: "87%",
+        votesCast: proposals.filter((p) => p.hasVoted).length,
       },
     },
     {
@@ -236,8 +272,7 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
       icon: Send,
       title: "Private Remittances",
       description: "Send money across borders with complete privacy",
-      minScore: SERVICE_REQUIREMENTS.REMITTANCE.minScore,
-      available: true,
+      ...requirement("remittance"),
       stats: {
         fee: "1%",
         speed: "Instant",
@@ -299,9 +334,11 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
                   </div>
                   <div>
                     <h3 className="text-xl font-semibold">{service.title}</h3>
-                    {!service.available && (
+                    {!service.available && catalog && (
                       <p className="text-xs text-red-400 mt-1">
-                        Requires {service.minScore} reputation points
+                        {service.active
+                          ? `Requires ${service.minScore} reputation points`
+                          : "Not available right now"}
                       </p>
                     )}
                   </div>
@@ -325,7 +362,7 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
               </div>
 
               <NeonButton
-                onClick={() => setSelectedService(service.id)}
+                onClick={() => openService(service.id)}
                 disabled={!service.available}
                 variant={service.available ? "purple" : "blue"}
                 size="sm"
@@ -338,6 +375,27 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
         ))}
       </div>
 
+      {/* Airdrops */}
+      <MyAirdrops
+        refreshKey={airdropsVersion}
+        onClaimCommunity={() => openService("airdrop")}
+        onClaimed={handleAirdropClaimed}
+        onSessionExpired={onSessionExpired}
+      />
+
+      {/* My Loans */}
+      <MyLoans refreshKey={loansVersion} onSessionExpired={onSessionExpired} />
+
+      {/* Governance Proposals */}
+      <div ref={proposalsRef}>
+        <ProposalBrowser
+          reputationScore={reputationScore}
+          onProposalsLoaded={setProposals}
+          onVoted={handleVoted}
+          onSessionExpired={onSessionExpired}
+        />
+      </div>
+
       {/* Transaction History */}
       {transactions.length > 0 && (
         <motion.div
@@ -470,7 +528,13 @@ export const ServiceGrid: React.FC<ServiceGridProps> = ({
                               Claimable Amount
                             </span>
                             <span className="font-semibold text-purple-400">
-                              100 TOKENS
+                              {100 + Number(airdropBonus?.bonusAmount ?? 0)}{" "}
+                              TOKENS
+                              {Number(airdropBonus?.bonusAmount ?? 0) > 0 && (
+                                <span className="block text-xs text-gray-400 text-right">
+                                  incl. {airdropBonus?.bonusAmount} bonus
+                                </span>
+                              )}
                             </span>
                           </div>
                         )}
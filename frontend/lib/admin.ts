@@ -0,0 +1,62 @@
+// Client for the backend's /v1/admin endpoints. They take an admin key in
+// X-Admin-Key instead of a user session, so this keeps the key apart from the
+// session and never clears the session on a 401.
+
+import { ValidationFailedError } from "./api";
+import type { ValidationErrorResponse } from "./shared/api-types";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+// Per tab only: closing the tab forgets the key
+const ADMIN_KEY_STORAGE_KEY = "zk-unbanked-admin-key";
+
+// Thrown when the backend rejects the admin key, or has admin disabled
+export class AdminKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdminKeyError";
+  }
+}
+
+export function getAdminKey(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY);
+}
+
+export function saveAdminKey(key: string) {
+  window.sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, key);
+}
+
+export function clearAdminKey() {
+  window.sessionStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+}
+
+// Call a /v1/admin endpoint with the stored key. A string body is sent as
+// text/csv, an object as JSON.
+export async function adminRequest<T = any>(
+  method: "GET" | "POST",
+  path: string,
+  body?: object | string
+): Promise<T> {
+  const response = await fetch(`${API_URL}/v1/admin${path}`, {
+    method,
+    headers: {
+      "Content-Type":
+        typeof body === "string" ? "text/csv" : "application/json",
+      "X-Admin-Key": getAdminKey() ?? "",
+    },
+    body: typeof body === "string" ? body : body && JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (response.status === 401 || result.code === "ADMIN_DISABLED") {
+    clearAdminKey();
+    throw new AdminKeyError(result.message);
+  }
+
+  if (response.status === 422 && result.errors) {
+    throw new ValidationFailedError((result as ValidationErrorResponse).errors);
+  }
+
+  return result as T;
+}
@@ -0,0 +1,145 @@
+// Thin client for the backend API. Keeps the verified session token and
+// attaches it to every request.
+
+import type {
+  ClaimSessionRequest,
+  FieldError,
+  MockVerificationRequest,
+  ValidationErrorResponse,
+} from "./shared/api-types";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const SESSION_STORAGE_KEY = "zk-unbanked-session";
+
+export interface Session {
+  token: string;
+  userIdentifier: string;
+  expiresAt: string;
+}
+
+// Thrown when the backend rejects the session; the user has to re-verify
+export class SessionExpiredError extends Error {
+  constructor(message = "Your session has expired. Please verify again.") {
+    super(message);
+    this.name = "SessionExpiredError";
+  }
+}
+
+// Thrown when the backend rejects the request body (422)
+export class ValidationFailedError extends Error {
+  constructor(public errors: FieldError[]) {
+    super(
+      `Invalid request: ${errors
+        .map((error) => `${error.field} ${error.message}`)
+        .join("; ")}`
+    );
+    this.name = "ValidationFailedError";
+  }
+}
+
+export function getSession(): Session | null {
+  if (typeof window === "undefined") return null;
+
+  const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const session = JSON.parse(raw) as Session;
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch {
+    clearSession();
+    return null;
+  }
+}
+
+export function saveSession(session: Session) {
+  window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  window.localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+// Call a /v1 endpoint, with the session token if we have one
+export async function apiRequest<T = any>(
+  method: "GET" | "POST",
+  path: string,
+  body?: object
+): Promise<T> {
+  const session = getSession();
+
+  const response = await fetch(`${API_URL}/v1${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const result = await response.json();
+
+  if (response.status === 401) {
+    clearSession();
+    throw new SessionExpiredError(result.message);
+  }
+
+  if (response.status === 422) {
+    throw new ValidationFailedError((result as ValidationErrorResponse).errors);
+  }
+
+  return result as T;
+}
+
+// A secret for the QR code's userDefinedData; only this browser knows it, so
+// only it can pick up the session the verification creates
+export function newSessionNonce() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * Turn a completed verification into a backend session.
+ *
+ * In demo mode there is no proof, so the backend registers a mock identity.
+ * Otherwise the Self app has already posted the proof to the backend and we
+ * claim the session it created for our QR code's identifier, proving we are
+ * the browser that showed the code with the nonce it carried.
+ */
+export async function establishSession(
+  userIdentifier: string,
+  sessionNonce: string,
+  mockMode: boolean
+): Promise<Session> {
+  if (mockMode) {
+    const request: MockVerificationRequest = {
+      mockVerification: true,
+      userIdentifier,
+    };
+    const result = await apiRequest("POST", "/identity/verify", request);
+    if (!result.session) {
+      throw new Error(result.message || "Mock verification failed");
+    }
+    saveSession(result.session);
+    return result.session;
+  }
+
+  // The Self callback can land just after the app reports success
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const request: ClaimSessionRequest = { userIdentifier, sessionNonce };
+    const result = await apiRequest("POST", "/identity/session", request);
+    if (result.success) {
+      saveSession(result.session);
+      return result.session;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  throw new Error("Verification completed but no session was issued");
+}
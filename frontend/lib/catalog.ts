@@ -0,0 +1,74 @@
+// What attestations are worth and what reputation unlocks, as served by the
+// backend's GET /v1/catalog. Service thresholds there are read from the
+// identity contract, so nothing here hard-codes them.
+
+import { useEffect, useState } from "react";
+import { apiRequest } from "./api";
+import type { AttestationType } from "./shared/api-types";
+
+export interface AttestationTypeInfo {
+  type: AttestationType;
+  title: string;
+  description: string;
+  score: number;
+  icon: string;
+  color: string;
+}
+
+export interface ServiceInfo {
+  key: string;
+  name: string;
+  description: string;
+  minReputation: number;
+  isActive: boolean;
+}
+
+export interface Catalog {
+  attestationTypes: AttestationTypeInfo[];
+  services: ServiceInfo[];
+  readAt: string;
+  stale: boolean;
+}
+
+// Components mounting together share one request
+let inFlight: Promise<Catalog> | null = null;
+
+export function fetchCatalog(): Promise<Catalog> {
+  inFlight ??= apiRequest("GET", "/catalog")
+    .then((result) => {
+      if (!result.success) {
+        throw new Error(result.message || "Failed to load catalog");
+      }
+      return result as Catalog;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+  return inFlight;
+}
+
+// The catalog, loaded on mount; null until it arrives
+export function useCatalog(): Catalog | null {
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+
+  useEffect(() => {
+    fetchCatalog()
+      .then(setCatalog)
+      .catch((error) => console.error("Failed to load catalog:", error));
+  }, []);
+
+  return catalog;
+}
+
+export function attestationTypeInfo(catalog: Catalog | null, type: string) {
+  return catalog?.attestationTypes.find((info) => info.type === type);
+}
+
+export function serviceInfo(catalog: Catalog | null, key: string) {
+  return catalog?.services.find((service) => service.key === key);
+}
+
+// Whether a score opens the service; false while the catalog is loading
+export function canUseService(service: ServiceInfo | undefined, score: number) {
+  return Boolean(service?.isActive && score >= service.minReputation);
+}
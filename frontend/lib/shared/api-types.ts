@@ -0,0 +1,402 @@
+/* eslint-disable */
+// Generated by backend/scripts/generate-types.ts from
+// backend/src/validation/schemas.ts. Do not edit by hand.
+
+export type AttestationType =
+  "village_elder" | "merchant_voucher" | "savings_group" | "education_completion" | "business_owner";
+/**
+ * Defaults to Yes
+ */
+export type VoteChoice = "Yes" | "No" | true | false;
+export type MetaTransactionAction = "vote" | "claimAirdrop" | "repayLoan";
+/**
+ * none: report only; offchain: make storage match the contract; onchain: replay stored attestations on-chain
+ */
+export type ReputationRepairMode = "none" | "offchain" | "onchain";
+export type ConfigChangeAction =
+  "setService" | "setVerificationConfig" | "advancePhase" | "setMerkleRoot" | "setBorrowerBan" | "withdrawFromPool";
+
+/**
+ * Proof payload posted by the Self app
+ */
+export interface SelfVerificationRequest {
+  attestationId: number;
+  proof: {
+    [k: string]: unknown;
+  };
+  publicSignals: string[];
+  userContextData: string;
+}
+/**
+ * Simulated verification, only honoured in SELF_MOCK_MODE
+ */
+export interface MockVerificationRequest {
+  mockVerification: true;
+  userIdentifier: string;
+}
+export interface ClaimSessionRequest {
+  userIdentifier: string;
+  /**
+   * The random nonce the browser put in the QR code's userDefinedData
+   */
+  sessionNonce: string;
+}
+/**
+ * An attestation signed by a registered attester as EIP-712 typed data (see GET /v1/attesters)
+ */
+export interface AddAttestationRequest {
+  attestationType: AttestationType;
+  /**
+   * Address of the registered attester who signed it
+   */
+  attester: string;
+  /**
+   * Unix time in seconds when the attester signed it
+   */
+  issuedAt: number;
+  /**
+   * Random value that makes each signed attestation unique
+   */
+  nonce: string;
+  signature: string;
+}
+/**
+ * Ask a registered attester to vouch for you
+ */
+export interface RequestAttestationRequest {
+  attestationType: AttestationType;
+  /**
+   * Address of the registered attester to ask
+   */
+  attester: string;
+  /**
+   * Note for the attester, e.g. how they know you
+   */
+  message?: string;
+}
+/**
+ * The attester's signature over the requesting user's address and the requested type
+ */
+export interface ApproveAttestationRequest {
+  /**
+   * Unix time in seconds when the attester signed it
+   */
+  issuedAt: number;
+  /**
+   * Random value that makes each signed attestation unique
+   */
+  nonce: string;
+  signature: string;
+}
+/**
+ * Decline an attestation request, telling the user why
+ */
+export interface RejectAttestationRequest {
+  reason: string;
+}
+export interface ApplyMicroloanRequest {
+  /**
+   * Requested amount in tokens; defaults to the maximum allowed
+   */
+  requestedAmount?: number;
+  /**
+   * Loan term in days; defaults to 30
+   */
+  durationDays?: number;
+}
+export interface ClaimAirdropRequest {
+  airdropId?: string;
+}
+/**
+ * An airdrop as the signed-in user sees it: whether they can claim it and, if not, why
+ */
+export interface AirdropSummary {
+  id: string;
+  /**
+   * community: the UnbankedCommunityAirdrop contract; campaign: paid by the backend wallet
+   */
+  kind: "community" | "campaign";
+  name: string;
+  description: string;
+  token: {
+    address: string;
+    symbol: string;
+  };
+  /**
+   * Tokens per user
+   */
+  allocation: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  status: "claimable" | "claimed" | "ineligible";
+  /**
+   * Why the user can't claim; empty unless ineligible
+   */
+  reasons: string[];
+  claim: {
+    amount: string;
+    status: "pending" | "completed" | "failed";
+    transactionHash: string | null;
+    claimedAt: string;
+  } | null;
+}
+/**
+ * An airdrop paid from the backend wallet with an ERC-20 transfer (admin)
+ */
+export interface CreateAirdropCampaignRequest {
+  id: string;
+  name: string;
+  description?: string;
+  /**
+   * ERC-20 to pay in (default: the deployment's DemoToken)
+   */
+  token?: string;
+  /**
+   * Tokens paid to each eligible user
+   */
+  allocation: number;
+  /**
+   * Most tokens the campaign pays out in total
+   */
+  budget: number;
+  minReputation?: number;
+  /**
+   * Attestation types a user must hold
+   */
+  attestationTypes?: AttestationType[];
+  /**
+   * Only users verified before this may claim
+   */
+  registeredBefore?: string;
+  /**
+   * Default: now
+   */
+  startsAt?: string;
+  endsAt?: string;
+}
+/**
+ * The user's bonus under the airdrop's current Merkle root; 0 with an empty proof if they have none
+ */
+export interface AirdropBonusResponse {
+  success: true;
+  address: string;
+  merkleRoot: string;
+  /**
+   * Tokens
+   */
+  bonusAmount: string;
+  bonusAmountWei: string;
+  merkleProof: string[];
+}
+export interface CreateProposalRequest {
+  description: string;
+  votingDurationDays: number;
+  /**
+   * Reputation needed to vote, at most the proposer's own score; defaults to the governance service threshold
+   */
+  minReputationRequired?: number;
+}
+export interface CastVoteRequest {
+  proposalId: number;
+  vote?: VoteChoice;
+}
+/**
+ * What the user wants to do; the fields each action needs match its regular endpoint
+ */
+export interface PrepareMetaTransactionRequest {
+  action: MetaTransactionAction;
+  /**
+   * vote: the proposal to vote on
+   */
+  proposalId?: number;
+  /**
+   * vote: defaults to Yes
+   */
+  vote?: "Yes" | "No" | true | false;
+  /**
+   * repayLoan: the loan to repay
+   */
+  loanId?: number;
+  /**
+   * repayLoan: tokens to repay; omit to repay in full
+   */
+  amount?: number;
+}
+/**
+ * Typed data to sign: each request with eth_signTypedData_v4 over domain and types
+ */
+export interface PrepareMetaTransactionResponse {
+  success: true;
+  action: MetaTransactionAction;
+  domain: ForwarderDomain;
+  types: {
+    [k: string]: {
+      name: string;
+      type: string;
+    }[];
+  };
+  primaryType: "ForwardRequest";
+  requests: ForwardRequest[];
+}
+export interface ForwarderDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+/**
+ * A call for the user to sign as EIP-712 typed data
+ */
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  /**
+   * Unix time in seconds after which the forwarder rejects it
+   */
+  deadline: number;
+  data: string;
+}
+/**
+ * The prepared requests, each with the user's signature
+ */
+export interface RelayMetaTransactionRequest {
+  action: MetaTransactionAction;
+  /**
+   * @minItems 1
+   * @maxItems 2
+   */
+  requests: [SignedForwardRequest] | [SignedForwardRequest, SignedForwardRequest];
+}
+export interface SignedForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  /**
+   * Unix time in seconds after which the forwarder rejects it
+   */
+  deadline: number;
+  data: string;
+  signature: string;
+}
+/**
+ * Authorise an attester (admin)
+ */
+export interface RegisterAttesterRequest {
+  address: string;
+  name: string;
+  /**
+   * The attestation types this attester may sign
+   *
+   * @minItems 1
+   */
+  attestationTypes: [AttestationType, ...AttestationType[]];
+}
+/**
+ * Stop accepting an attester's signatures (admin); attestations already applied stay
+ */
+export interface RevokeAttesterRequest {
+  reason: string;
+}
+/**
+ * Withdraw an attestation; the user loses the points it still counts for
+ */
+export interface RevokeAttestationRequest {
+  reason: string;
+}
+/**
+ * On-demand reputation reconciliation (admin)
+ */
+export interface ReconcileReputationRequest {
+  repair?: ReputationRepairMode;
+}
+/**
+ * An owner-only contract setting to change (admin); only sent once confirmed
+ */
+export interface ProposeConfigChangeRequest {
+  action: ConfigChangeAction;
+  /**
+   * setService: a service in the catalog
+   */
+  service?: string;
+  /**
+   * setService: reputation needed to use it
+   */
+  minReputation?: number;
+  /**
+   * setService: whether it is open
+   */
+  isActive?: boolean;
+  /**
+   * setVerificationConfig: the Self verification config ID
+   */
+  configId?: string;
+  /**
+   * setMerkleRoot: root of the bonus allocation tree
+   */
+  merkleRoot?: string;
+  /**
+   * setBorrowerBan: the borrower's address
+   */
+  borrower?: string;
+  /**
+   * setBorrowerBan: true to ban, false to lift the ban
+   */
+  banned?: boolean;
+  /**
+   * withdrawFromPool: tokens to take out of the lending pool
+   */
+  amount?: number;
+}
+/**
+ * deployments/<network>-latest.json as contracts/scripts/deploy.js writes it; which entries are missing is checked separately
+ */
+export interface DeploymentManifest {
+  network?: string;
+  chainId?: number;
+  startBlock?: number;
+  timestamp?: string;
+  contracts?: {
+    [k: string]: string;
+  };
+  configuration?: {
+    scope?: string;
+    configId?: string;
+  };
+}
+/**
+ * config/catalog.json; that it lists exactly the API's attestation types is checked separately
+ */
+export interface CatalogConfig {
+  attestationTypes: {
+    [k: string]: {
+      title: string;
+      description: string;
+      score: number;
+      icon: string;
+      color: string;
+    };
+  };
+  services: {
+    [k: string]: {
+      name: string;
+      description: string;
+    };
+  };
+}
+/**
+ * Body of a 422 response
+ */
+export interface ValidationErrorResponse {
+  success: false;
+  message: string;
+  errors: FieldError[];
+}
+export interface FieldError {
+  field: string;
+  message: string;
+}
@@ -26,72 +26,6 @@ export function calculateReputation(attestations: any[]): number {
   return attestations.reduce((sum, att) => sum + att.score, 0);
 }
 
-export const ATTESTATION_TYPES = {
-  VILLAGE_ELDER: {
-    type: "village_elder",
-    title: "Village Elder Verification",
-    description: "Verified by local community leader",
-    score: 50,
-    icon: "👴",
-    color: "purple",
-  },
-  MERCHANT_VOUCHER: {
-    type: "merchant_voucher",
-    title: "Merchant Voucher",
-    description: "Regular customer of local shop",
-    score: 30,
-    icon: "🏪",
-    color: "blue",
-  },
-  SAVINGS_GROUP: {
-    type: "savings_group",
-    title: "Savings Group Member",
-    description: "Active in community savings circle",
-    score: 40,
-    icon: "💰",
-    color: "green",
-  },
-  EDUCATION_COMPLETION: {
-    type: "education_completion",
-    title: "Education Completion",
-    description: "Completed local education program",
-    score: 35,
-    icon: "🎓",
-    color: "yellow",
-  },
-  BUSINESS_OWNER: {
-    type: "business_owner",
-    title: "Business Owner",
-    description: "Runs a local business",
-    score: 45,
-    icon: "🏢",
-    color: "pink",
-  },
-};
-
-export const SERVICE_REQUIREMENTS = {
-  MICROLOAN: {
-    minScore: 50,
-    name: "Microloans",
-    description: "Access credit based on reputation",
-  },
-  AIRDROP: {
-    minScore: 0,
-    name: "Airdrops",
-    description: "Claim community rewards",
-  },
-  GOVERNANCE: {
-    minScore: 100,
-    name: "Governance",
-    description: "Vote on community decisions",
-  },
-  REMITTANCE: {
-    minScore: 0,
-    name: "Remittances",
-    description: "Send money across borders",
-  },
-};
-
 export function calculateLoanAmount(reputationScore: number): number {
   const baseLoan = 50;
   const bonusPerPoint = 0.5;
@@ -0,0 +1,166 @@
+// Browser wallet (EIP-1193) support. A user who verifies with their wallet
+// address as the Self user ID is known to the contracts by that address, so
+// they can sign actions themselves and the backend relays them through the
+// forwarder, paying the gas. Attesters also sign attestations with it.
+
+import {
+  BrowserProvider,
+  hexlify,
+  randomBytes,
+  type Eip1193Provider,
+} from "ethers";
+import { apiRequest, getSession } from "./api";
+import type {
+  AddAttestationRequest,
+  AttestationType,
+  ForwardRequest,
+  MetaTransactionAction,
+  PrepareMetaTransactionRequest,
+  PrepareMetaTransactionResponse,
+  RelayMetaTransactionRequest,
+  SignedForwardRequest,
+} from "./shared/api-types";
+import { userIdentifierFormat } from "./shared/user-address";
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+// What POST /v1/meta-transactions returns: the history record, and either
+// the mined transaction or, when sent with Prefer: respond-async, where to
+// poll for it
+export interface RelayMetaTransactionResponse {
+  success: true;
+  message: string;
+  action: MetaTransactionAction;
+  transaction: {
+    id: string;
+    type: string;
+    amount: string;
+    status: string;
+    timestamp: string;
+  };
+  transactionHash?: string;
+  blockNumber?: number;
+  pendingTransaction?: {
+    id: string;
+    status: "pending";
+    transactionHash: string;
+    statusUrl: string;
+  };
+}
+
+export function hasWallet(): boolean {
+  return typeof window !== "undefined" && Boolean(window.ethereum);
+}
+
+function browserProvider(): BrowserProvider {
+  if (!window.ethereum) {
+    throw new Error("No browser wallet found. Install one such as MetaMask.");
+  }
+  return new BrowserProvider(window.ethereum);
+}
+
+// Ask the wallet for an account; returns its address
+export async function connectWallet(): Promise<string> {
+  const signer = await browserProvider().getSigner();
+  return signer.address;
+}
+
+// Whether the signed-in user can sign their own actions: their identity is
+// a wallet address and a wallet is available to sign with
+export function canSignActions(): boolean {
+  const session = getSession();
+  return (
+    session !== null &&
+    userIdentifierFormat(session.userIdentifier) === "hex" &&
+    hasWallet()
+  );
+}
+
+/**
+ * Sign an action in the wallet and have the backend relay it.
+ *
+ * The backend prepares the forwarder requests (a repayment may need an
+ * approval first), the wallet signs each as EIP-712 typed data, and the
+ * signed requests go back to be relayed. Resolves with the relay response.
+ */
+export async function signAndRelay(
+  request: PrepareMetaTransactionRequest
+): Promise<RelayMetaTransactionResponse> {
+  const prepared = await apiRequest("POST", "/meta-transactions/prepare", request);
+  if (!prepared.success) {
+    throw new Error(prepared.message || "Could not prepare the request");
+  }
+  const { action, domain, types, requests } =
+    prepared as PrepareMetaTransactionResponse;
+
+  const signer = await browserProvider().getSigner();
+  if (signer.address.toLowerCase() !== requests[0].from.toLowerCase()) {
+    throw new Error(
+      `Switch your wallet to ${requests[0].from}, the address you verified with`
+    );
+  }
+
+  // One signature per request, in order; each uses the next forwarder nonce.
+  // There are at most two: a repayment's approval and the repayment.
+  const sign = async (
+    forwardRequest: ForwardRequest
+  ): Promise<SignedForwardRequest> => ({
+    ...forwardRequest,
+    signature: await signer.signTypedData(domain, types, forwardRequest),
+  });
+  const [first, second] = requests;
+  const signed: RelayMetaTransactionRequest["requests"] =
+    second === undefined
+      ? [await sign(first)]
+      : [await sign(first), await sign(second)];
+
+  const relay: RelayMetaTransactionRequest = { action, requests: signed };
+  const result = await apiRequest<RelayMetaTransactionResponse>(
+    "POST",
+    "/meta-transactions",
+    relay
+  );
+  if (!result.success) {
+    throw new Error(result.message || "The backend could not relay the request");
+  }
+  return result;
+}
+
+/**
+ * Sign an attestation for a user as the connected attester.
+ *
+ * The attester shares the result with the user (or signs on the user's
+ * device), and the user submits it. The typed data comes from
+ * GET /v1/attesters so it always matches what the backend verifies.
+ */
+export async function signAttestation(
+  subject: string,
+  attestationType: AttestationType
+): Promise<AddAttestationRequest> {
+  const { signing } = await apiRequest("GET", "/attesters");
+  const signer = await browserProvider().getSigner();
+
+  const message = {
+    subject,
+    attestationType,
+    issuedAt: Math.floor(Date.now() / 1000),
+    nonce: hexlify(randomBytes(32)),
+  };
+  const signature = await signer.signTypedData(
+    signing.domain,
+    signing.types,
+    message
+  );
+
+  return {
+    attestationType,
+    attester: signer.address,
+    issuedAt: message.issuedAt,
+    nonce: message.nonce,
+    signature,
+  };
+}